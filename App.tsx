@@ -1,9 +1,18 @@
-import React, { useState } from 'react';
-import { Page, Assignment, CalendarEvent } from './types';
+import React, { useState, useMemo, useCallback } from 'react';
+import { Page, Assignment, AssignmentChange, AssignmentStatus, AssignmentStatusSource, CalendarEvent } from './types';
 import { useSettings } from './hooks/useSettings';
 import { useCanvasData } from './hooks/useCanvasData';
 import { useAssignmentStatus } from './hooks/useAssignmentStatus';
 import { useAuth } from './hooks/useAuth';
+import { useAutoSync } from './hooks/useAutoSync';
+import { useCalendarFeed } from './hooks/useCalendarFeed';
+import { useExternalCalendars } from './hooks/useExternalCalendars';
+import { useStudySchedule } from './hooks/useStudySchedule';
+import { usePersonalTasks } from './hooks/usePersonalTasks';
+import { useAnnouncements } from './hooks/useAnnouncements';
+import { useCanvasInbox } from './hooks/useCanvasInbox';
+import { useCourseSyllabi } from './hooks/useCourseSyllabi';
+import { PERSONAL_CONNECTION_ID, getConnection, getItemKey, getCanvasKey, getCourseKeyOf } from './services/canvasConnections';
 
 // Import components
 import Sidebar from './components/Sidebar';
@@ -11,6 +20,7 @@ import Header from './components/Header';
 import Dashboard from './components/Dashboard';
 import CoursesView from './components/CoursesView';
 import AssignmentsView from './components/AssignmentsView';
+import GradesView from './components/GradesView';
 import CalendarView from './components/CalendarView';
 import AiToolsView from './components/AiToolsView';
 import ChatView from './components/ChatView';
@@ -24,20 +34,72 @@ import { SparklesIcon, Loader2Icon } from './components/icons/Icons';
 
 const App: React.FC = () => {
     const { user, isLoading: isAuthLoading } = useAuth();
-    const { settings, saveSettings, clearSettings, isConfigured, enableSampleDataMode } = useSettings();
+    const { settings, saveSettings, clearSettings, isConfigured, enableSampleDataMode, oauthError } = useSettings();
     
     // Enable data fetching once settings are loaded. The hook will handle which service to use (live/mock).
     const dataEnabled = settings !== null && (isConfigured || settings.sampleDataMode);
-    const { courses, assignments, calendarEvents, loading, error, connectionStatus, refetchData } = useCanvasData(settings, dataEnabled);
-    const { assignmentsWithStatus, handleStatusChange } = useAssignmentStatus(assignments);
+    const { courses: allCourses, assignments: allAssignments, calendarEvents: allCalendarEvents, loading, error, changeLog: fullChangeLog, dismissChanges, connectionStatus, syncProgress, lastSyncedAt, syncedAtByConnection, isRevalidating, isOffline, refetchData } = useCanvasData(settings, dataEnabled);
+    const autoSync = useAutoSync({
+        intervalMinutes: settings?.autoSyncIntervalMinutes ?? 0,
+        enabled: dataEnabled && !settings?.sampleDataMode,
+        isOffline,
+        lastSyncedAt,
+        sync: refetchData,
+    });
+    // Exports cover every connection, whatever the institution filter shows.
+    const calendarFeed = useCalendarFeed(settings, saveSettings, allCalendarEvents, allAssignments, lastSyncedAt !== null);
+    const externalCalendars = useExternalCalendars(settings, saveSettings);
+    const { assignmentsWithStatus: allLmsAssignmentsWithStatus, handleStatusChange: handleLmsStatusChange } = useAssignmentStatus(allAssignments);
+    const personalTasks = usePersonalTasks(allCourses);
+    // Personal tasks are listed, searched and scheduled like assignments, in due date order.
+    const allAssignmentsWithStatus = useMemo(() => [...allLmsAssignmentsWithStatus, ...personalTasks.assignments].sort((a, b) =>
+        (a.due_at ? new Date(a.due_at).getTime() : Infinity) - (b.due_at ? new Date(b.due_at).getTime() : Infinity) || 0
+    ), [allLmsAssignmentsWithStatus, personalTasks.assignments]);
+    // A personal task keeps its own status; LMS assignments go through `useAssignmentStatus`.
+    const handleStatusChange = useCallback(async (assignmentKey: string, status: AssignmentStatus, source?: AssignmentStatusSource) => {
+        const task = personalTasks.assignments.find(a => getItemKey(a) === assignmentKey)?.personalTask;
+        if (task) {
+            // Callers don't wait for this; `updateTask` has already put the previous status back.
+            await personalTasks.updateTask(task.id, { status }).catch(error => console.error("Could not save the task status:", error));
+        } else {
+            await handleLmsStatusChange(assignmentKey, status, source);
+        }
+    }, [personalTasks, handleLmsStatusChange]);
+    const courseSyllabi = useCourseSyllabi(allCourses);
+    // Imported calendars aren't tied to an institution, so they're always shown.
+    const allCalendarEventsWithImports = useMemo(
+        () => [...allCalendarEvents, ...personalTasks.events, ...courseSyllabi.events, ...externalCalendars.events],
+        [allCalendarEvents, personalTasks.events, courseSyllabi.events, externalCalendars.events]
+    );
+    // The schedule covers every connection, whatever the institution filter shows.
+    const studySchedule = useStudySchedule(settings, allAssignmentsWithStatus, allCalendarEventsWithImports);
+    const announcements = useAnnouncements(settings, allCourses);
+    const inbox = useCanvasInbox(settings, allCourses);
     
     const [currentPage, setCurrentPage] = useState<Page>(Page.Dashboard);
     const [isChatOpen, setIsChatOpen] = useState(false);
     const [assignmentsCourseFilter, setAssignmentsCourseFilter] = useState<string | null>(null);
-    const [highlightedAssignmentId, setHighlightedAssignmentId] = useState<number | null>(null);
+    const [highlightedAssignmentKey, setHighlightedAssignmentKey] = useState<string | null>(null);
+    // 'all', or the ID of the Canvas connection whose data is shown. Falls back to 'all' if that connection is removed.
+    const [selectedInstitution, setSelectedInstitution] = useState('all');
+    const institutionFilter = getConnection(settings, selectedInstitution) ? selectedInstitution : 'all';
+
+    const { courses, assignments, assignmentsWithStatus, calendarEvents, studyEvents, unscheduledStudy, changeLog } = useMemo(() => {
+        // Personal tasks that aren't for a course aren't tied to an institution either.
+        const matches = (item: { connectionId: string }) => institutionFilter === 'all' || item.connectionId === institutionFilter || item.connectionId === PERSONAL_CONNECTION_ID;
+        return {
+            courses: allCourses.filter(matches),
+            assignments: allAssignments.filter(matches),
+            assignmentsWithStatus: allAssignmentsWithStatus.filter(matches),
+            calendarEvents: [...allCalendarEvents.filter(matches), ...personalTasks.events.filter(matches), ...courseSyllabi.events.filter(matches), ...externalCalendars.events],
+            studyEvents: studySchedule.events.filter(matches),
+            unscheduledStudy: studySchedule.unscheduled.filter(({ assignment }) => matches(assignment)),
+            changeLog: fullChangeLog.filter(matches),
+        };
+    }, [institutionFilter, allCourses, allAssignments, allAssignmentsWithStatus, allCalendarEvents, personalTasks.events, courseSyllabi.events, externalCalendars.events, studySchedule.events, studySchedule.unscheduled, fullChangeLog]);
     
-    const handleCourseClick = (courseId: number) => {
-        setAssignmentsCourseFilter(courseId.toString());
+    const handleCourseClick = (courseKey: string) => {
+        setAssignmentsCourseFilter(courseKey);
         setCurrentPage(Page.Assignments);
     };
 
@@ -46,20 +108,34 @@ const App: React.FC = () => {
     };
 
     const handleAssignmentSelect = (assignment: Assignment) => {
-        setAssignmentsCourseFilter(assignment.course_id.toString());
-        setHighlightedAssignmentId(assignment.id);
+        setAssignmentsCourseFilter(getCourseKeyOf(assignment));
+        setHighlightedAssignmentKey(getItemKey(assignment));
         setCurrentPage(Page.Assignments);
     };
     
     const handleCalendarEventSelect = (calendarEvent: CalendarEvent) => {
-        const assignmentToSelect = assignments.find(a => a.id === calendarEvent.id);
+        const assignmentToSelect = calendarEvent.assignmentId
+            ? assignmentsWithStatus.find(a => getItemKey(a) === getCanvasKey(calendarEvent.connectionId, calendarEvent.assignmentId!))
+            : undefined;
+        if (assignmentToSelect) {
+            handleAssignmentSelect(assignmentToSelect);
+        } else if (calendarEvent.url) {
+            // Events that aren't assignments (lectures, office hours, discussions) open in Canvas.
+            window.open(calendarEvent.url, '_blank', 'noopener,noreferrer');
+        }
+    };
+
+    const handleChangeSelect = (change: AssignmentChange) => {
+        const assignmentToSelect = assignments.find(a => getItemKey(a) === getCanvasKey(change.connectionId, change.assignmentId));
         if (assignmentToSelect) {
             handleAssignmentSelect(assignmentToSelect);
+        } else {
+            handleCourseClick(getCanvasKey(change.connectionId, change.courseId));
         }
     };
 
     const resetHighlightedAssignment = () => {
-        setHighlightedAssignmentId(null);
+        setHighlightedAssignmentKey(null);
     };
 
     const loadingScreen = (message: string) => (
@@ -82,37 +158,39 @@ const App: React.FC = () => {
     }
 
     if (!isConfigured && !settings.sampleDataMode) {
-        return <OnboardingView onSave={saveSettings} onEnableSampleDataMode={enableSampleDataMode} />;
+        return <OnboardingView onSave={saveSettings} onEnableSampleDataMode={enableSampleDataMode} oauthError={oauthError} />;
     }
     
     const renderPage = () => {
         switch (currentPage) {
             case Page.Dashboard:
-                return <Dashboard assignments={assignmentsWithStatus} calendarEvents={calendarEvents} onCourseClick={handleCourseClick} connectionStatus={connectionStatus} courses={courses} />;
+                return <Dashboard assignments={assignmentsWithStatus} calendarEvents={calendarEvents} onCourseClick={handleCourseClick} connectionStatus={connectionStatus} courses={courses} changeLog={changeLog} onChangeClick={handleChangeSelect} onDismissChanges={dismissChanges} announcements={announcements} />;
             case Page.Courses:
-                return <CoursesView courses={courses} onCourseClick={handleCourseClick} connectionStatus={connectionStatus} />;
+                return <CoursesView courses={courses} assignments={assignmentsWithStatus} onStatusChange={handleStatusChange} courseSyllabi={courseSyllabi} onCourseClick={handleCourseClick} connectionStatus={connectionStatus} settings={settings} institutionFilter={institutionFilter} onInstitutionFilterChange={setSelectedInstitution} />;
             case Page.Assignments:
-                return <AssignmentsView assignments={assignmentsWithStatus} courses={courses} onStatusChange={handleStatusChange} initialCourseId={assignmentsCourseFilter} onNavigated={resetAssignmentsCourseFilter} highlightedAssignmentId={highlightedAssignmentId} onHighlightDone={resetHighlightedAssignment} settings={settings} />;
+                return <AssignmentsView assignments={assignmentsWithStatus} courses={courses} onStatusChange={handleStatusChange} initialCourseKey={assignmentsCourseFilter} onNavigated={resetAssignmentsCourseFilter} highlightedAssignmentKey={highlightedAssignmentKey} onHighlightDone={resetHighlightedAssignment} settings={settings} personalTasks={personalTasks} />;
+            case Page.Grades:
+                return <GradesView courses={courses} assignments={assignmentsWithStatus.filter(a => !a.personalTask)} settings={settings} />;
             case Page.Calendar:
-                return <CalendarView calendarEvents={calendarEvents} onEventSelect={handleCalendarEventSelect} />;
+                return <CalendarView calendarEvents={calendarEvents} onEventSelect={handleCalendarEventSelect} calendarFeed={calendarFeed} canSubscribe={!settings.sampleDataMode} externalCalendars={externalCalendars} studyEvents={studyEvents} unscheduledStudy={unscheduledStudy} onStudyBlockToggle={studySchedule.setBlockCompleted} />;
             case Page.AiTools:
                 return <AiToolsView assignments={assignmentsWithStatus} courses={courses} />;
             case Page.Chat:
-                return <ChatView />;
+                return <ChatView inbox={inbox} />;
             case Page.Notes:
                 return <NotesView />;
             case Page.Integrations:
-                return <IntegrationsView connectionStatus={connectionStatus} onSync={refetchData} />;
+                return <IntegrationsView connectionStatus={connectionStatus} onSync={refetchData} lastSyncedAt={lastSyncedAt} syncedAtByConnection={syncedAtByConnection} isRevalidating={isRevalidating} isOffline={isOffline} autoSync={autoSync} settings={settings} onSaveSettings={saveSettings} />;
             case Page.Settings:
-                return <SettingsView settings={settings} onSave={saveSettings} onClear={clearSettings} onEnableSampleDataMode={enableSampleDataMode} initialError={error} />;
+                return <SettingsView settings={settings} onSave={saveSettings} onClear={clearSettings} onEnableSampleDataMode={enableSampleDataMode} initialError={error || oauthError} />;
             default:
-                return <Dashboard assignments={assignmentsWithStatus} calendarEvents={calendarEvents} onCourseClick={handleCourseClick} connectionStatus={connectionStatus} courses={courses} />;
+                return <Dashboard assignments={assignmentsWithStatus} calendarEvents={calendarEvents} onCourseClick={handleCourseClick} connectionStatus={connectionStatus} courses={courses} changeLog={changeLog} onChangeClick={handleChangeSelect} onDismissChanges={dismissChanges} announcements={announcements} />;
         }
     };
 
     return (
         <div className="flex h-screen bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200 font-sans">
-            <Sidebar currentPage={currentPage} setCurrentPage={setCurrentPage} settings={settings} />
+            <Sidebar currentPage={currentPage} setCurrentPage={setCurrentPage} settings={settings} institutionFilter={institutionFilter} onInstitutionFilterChange={setSelectedInstitution} unreadMessageCount={inbox.unreadCount} />
             <div className="flex-1 flex flex-col overflow-hidden">
                 <Header assignments={assignmentsWithStatus} courses={courses} connectionStatus={connectionStatus} onAssignmentSelect={handleAssignmentSelect} onSetPage={setCurrentPage} />
                 <main className="flex-1 overflow-y-auto p-8 relative flex flex-col">
@@ -121,9 +199,22 @@ const App: React.FC = () => {
                             <div className="text-center">
                                 <Loader2Icon className="w-10 h-10 animate-spin text-blue-500 mx-auto" />
                                 <p className="mt-3">Loading data from Canvas...</p>
+                                {(syncProgress.courses || syncProgress.assignments) && (
+                                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                                        {syncProgress.courses?.itemsFetched ?? 0} enrollments, {syncProgress.assignments?.itemsFetched ?? 0} assignments fetched
+                                    </p>
+                                )}
                             </div>
                          </div>
                     ) : renderPage()}
+                    {isRevalidating && (
+                        // Background syncs leave the page in place, so drafts and open dialogs survive them.
+                        <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-20 flex items-center px-4 py-2 rounded-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg text-sm text-gray-600 dark:text-gray-300" role="status">
+                            <Loader2Icon className="w-4 h-4 mr-2 animate-spin text-blue-500" />
+                            Syncing
+                            {syncProgress.assignments && <span className="ml-1">· {syncProgress.assignments.itemsFetched} assignments fetched</span>}
+                        </div>
+                    )}
                 </main>
             </div>
             
@@ -0,0 +1,11 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getCalendarFeedConfigFromEnv, handleCalendarFeedRequest } from '../proxy/calendarFeed';
+
+const calendarFeeds = getCalendarFeedConfigFromEnv();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const result = await handleCalendarFeedRequest({ url: req.url || '/' }, calendarFeeds);
+
+    Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+    return res.status(result.status).send(result.body);
+}
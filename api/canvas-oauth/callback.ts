@@ -0,0 +1,13 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getVaultConfigFromEnv } from '../../proxy/tokenVault';
+import { getCanvasOAuthConfigFromEnv, handleCanvasOAuthCallback } from '../../proxy/canvasOAuth';
+
+const vault = getVaultConfigFromEnv();
+const oauth = getCanvasOAuthConfigFromEnv();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const result = await handleCanvasOAuthCallback({ url: req.url || '/' }, { vault, oauth });
+
+    Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+    return res.status(result.status).send(result.body);
+}
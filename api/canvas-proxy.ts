@@ -1,4 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleCanvasProxyRequest } from '../proxy/canvasProxyHandler';
+import { getVaultConfigFromEnv } from '../proxy/tokenVault';
+import { getCanvasOAuthConfigFromEnv } from '../proxy/canvasOAuth';
+import { getCalendarFeedConfigFromEnv } from '../proxy/calendarFeed';
 
 // Define the list of allowed origins.
 // In production, Vercel sets the VERCEL_URL environment variable.
@@ -11,80 +15,16 @@ if (process.env.NODE_ENV !== 'production') {
     allowedOrigins.push('http://localhost:3000'); // Common alternative
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    const origin = req.headers.origin;
+const vault = getVaultConfigFromEnv();
+const oauth = getCanvasOAuthConfigFromEnv();
+const calendars = getCalendarFeedConfigFromEnv();
 
-    // Set CORS headers based on the origin of the request
-    if (origin && allowedOrigins.includes(origin)) {
-        res.setHeader('Access-Control-Allow-Origin', origin);
-    }
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader(
-        'Access-Control-Allow-Headers',
-        'X-CSRF-Token, X-Requested-With, Accept, Content-Type, Authorization'
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const result = await handleCanvasProxyRequest(
+        { method: req.method || 'GET', body: req.body, origin: req.headers.origin, authorization: req.headers.authorization },
+        { allowedOrigins, vault, oauth, calendars }
     );
 
-    // Handle preflight (OPTIONS) requests
-    if (req.method === 'OPTIONS') {
-        res.status(200).end();
-        return;
-    }
-    
-    if (req.method !== 'POST') {
-        res.setHeader('Allow', 'POST');
-        return res.status(405).json({ error: 'Method Not Allowed' });
-    }
-
-    try {
-        const { canvasUrl, endpoint, token } = req.body;
-
-        if (!canvasUrl || !endpoint || !token) {
-            return res.status(400).json({
-                error: 'Missing required fields: canvasUrl, endpoint, or token'
-            });
-        }
-
-        // Build the full Canvas API URL
-        const fullUrl = `${canvasUrl}/api/v1/${endpoint}`;
-
-        const canvasResponse = await fetch(fullUrl, {
-            method: 'GET', // The proxy always makes a GET request to Canvas in this design
-            headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json',
-            },
-        });
-
-        const responseBody = await canvasResponse.text();
-        const contentType = canvasResponse.headers.get('Content-Type') || 'application/json';
-
-        // Pass through Canvas's status code and headers for content type
-        res.setHeader('Content-Type', contentType);
-        
-        // Check if the response from Canvas was not OK.
-        if (!canvasResponse.ok) {
-             // If the error response is HTML (like a 404 page), send it back as the error message.
-            if (contentType.includes('text/html')) {
-                 return res.status(canvasResponse.status).json({ error: `Canvas API Error: Received an HTML error page instead of data. Please check your Canvas URL.` });
-            }
-            // Attempt to parse a JSON error from Canvas and send it back
-            try {
-                const errorJson = JSON.parse(responseBody);
-                return res.status(canvasResponse.status).json({ error: `Canvas API Error: ${errorJson?.errors?.[0]?.message || responseBody}` });
-            } catch (e) {
-                // If the error response isn't JSON, send the raw text
-                return res.status(canvasResponse.status).json({ error: `Canvas API Error: ${responseBody}` });
-            }
-        }
-        
-        // Success: send the raw response body from Canvas.
-        return res.status(canvasResponse.status).send(responseBody);
-
-    } catch (error) {
-        console.error('Proxy internal error:', error);
-        return res.status(500).json({
-            error: error instanceof Error ? error.message : 'An internal server error occurred in the proxy.'
-        });
-    }
-}
\ No newline at end of file
+    Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+    return res.status(result.status).send(result.body);
+}
@@ -0,0 +1,127 @@
+// Service worker for the browser extension. Syncs Canvas through the web app's proxy on a schedule
+// and shows how many assignments are due soon on the toolbar badge.
+
+import { Assignment, CanvasConnection, ExtensionMessage } from './types';
+import { getCourses, getAssignments, setProxyBaseUrl } from './services/canvasApiService';
+import { getExtensionSettings, getSyncedAssignments, saveSyncedAssignments, isDueSoon, onExtensionSettingsChanged, getCanvasMatchPattern, DUE_SOON_HOURS, EXTENSION_CONNECTION_ID } from './services/extensionStorage';
+
+const SYNC_ALARM = 'canvas-sync';
+const SYNC_INTERVAL_MINUTES = 30;
+const ASSIGNMENT_TOOLS_SCRIPT_ID = 'assignment-tools';
+
+const setBadge = async (text: string, color: string, title: string) => {
+    await chrome.action.setBadgeText({ text });
+    await chrome.action.setBadgeBackgroundColor({ color });
+    await chrome.action.setTitle({ title });
+};
+
+const updateBadge = async (assignments: Assignment[]) => {
+    const dueSoon = assignments.filter(a => isDueSoon(a)).length;
+    await setBadge(
+        dueSoon > 0 ? String(dueSoon) : '',
+        '#2563eb',
+        dueSoon > 0 ? `${dueSoon} assignment${dueSoon === 1 ? '' : 's'} due in the next ${DUE_SOON_HOURS} hours` : 'Nothing due soon'
+    );
+};
+
+const syncCanvas = async (): Promise<void> => {
+    const extensionSettings = await getExtensionSettings();
+    if (!extensionSettings?.canvasUrl || !extensionSettings.apiToken || !extensionSettings.appUrl) {
+        await setBadge('', '#2563eb', 'Open the extension options to connect Canvas');
+        return;
+    }
+
+    setProxyBaseUrl(extensionSettings.appUrl);
+    const connection: CanvasConnection = {
+        id: EXTENSION_CONNECTION_ID,
+        name: 'Canvas',
+        canvasUrl: extensionSettings.canvasUrl,
+        apiToken: extensionSettings.apiToken,
+    };
+
+    try {
+        const [courses, assignmentsRaw] = await Promise.all([getCourses(connection), getAssignments(connection)]);
+        const courseMap = new Map(courses.map(c => [c.id, c.name]));
+        // Same enrichment as the web app: only active courses, with course names attached.
+        const assignments = assignmentsRaw
+            .filter(a => courseMap.has(a.course_id))
+            .map(a => ({ ...a, courseName: courseMap.get(a.course_id) || 'Unknown Course' }));
+
+        await saveSyncedAssignments(assignments);
+        await updateBadge(assignments);
+    } catch (error) {
+        console.error("Background Canvas sync failed:", error);
+        await setBadge('!', '#dc2626', `Canvas sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+// Alarms may not survive a browser restart, so this runs on every startup as well as on install.
+const ensureSyncAlarm = async () => {
+    if (!await chrome.alarms.get(SYNC_ALARM)) {
+        await chrome.alarms.create(SYNC_ALARM, { periodInMinutes: SYNC_INTERVAL_MINUTES });
+    }
+};
+
+/**
+ * Injects the assignment page tools on the student's own Canvas host, which may be a custom domain rather
+ * than instructure.com. Needs the host permission the options page asks for when the settings are saved.
+ */
+const registerAssignmentTools = async () => {
+    const registered = await chrome.scripting.getRegisteredContentScripts({ ids: [ASSIGNMENT_TOOLS_SCRIPT_ID] });
+    if (registered.length > 0) {
+        await chrome.scripting.unregisterContentScripts({ ids: [ASSIGNMENT_TOOLS_SCRIPT_ID] });
+    }
+
+    const extensionSettings = await getExtensionSettings();
+    if (!extensionSettings?.canvasUrl) return;
+    if (!await chrome.permissions.contains({ origins: [getCanvasMatchPattern(extensionSettings.canvasUrl)] })) return;
+    await chrome.scripting.registerContentScripts([{
+        id: ASSIGNMENT_TOOLS_SCRIPT_ID,
+        matches: [getCanvasMatchPattern(extensionSettings.canvasUrl, '/courses/*/assignments/*')],
+        js: ['content.js'],
+        runAt: 'document_idle',
+    }]);
+};
+
+chrome.runtime.onInstalled.addListener(() => {
+    ensureSyncAlarm();
+    registerAssignmentTools();
+    syncCanvas();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    ensureSyncAlarm();
+    syncCanvas();
+});
+
+chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === SYNC_ALARM) syncCanvas();
+});
+
+onExtensionSettingsChanged(() => {
+    registerAssignmentTools();
+    syncCanvas();
+});
+
+chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendResponse) => {
+    switch (message.type) {
+        case 'getAssignment':
+            getSyncedAssignments().then(assignments => {
+                sendResponse(assignments.find(a => a.id === message.assignmentId && a.course_id === message.courseId) ?? null);
+            });
+            // Keep the channel open for the asynchronous response.
+            return true;
+        case 'syncNow':
+            syncCanvas().then(() => sendResponse(true));
+            return true;
+    }
+});
+
+chrome.action.onClicked.addListener(async () => {
+    const extensionSettings = await getExtensionSettings();
+    if (extensionSettings?.appUrl) {
+        chrome.tabs.create({ url: extensionSettings.appUrl });
+    } else {
+        chrome.runtime.openOptionsPage();
+    }
+});
@@ -186,7 +186,7 @@ const AiAssistantModal: React.FC<AiAssistantModalProps> = ({ isOpen, onClose, co
 // --- End of AI Assistant Modal ---
 
 
-type AiFeature = 'summarizer' | 'studyGuide';
+export type AiFeature = 'summarizer' | 'studyGuide';
 
 const FeatureCard: React.FC<{
   icon: React.ReactNode;
@@ -208,11 +208,13 @@ const FeatureCard: React.FC<{
   </button>
 );
 
-const TextAiModal: React.FC<{
+export const TextAiModal: React.FC<{
   feature: AiFeature;
   onClose: () => void;
-}> = ({ feature, onClose }) => {
-    const [inputText, setInputText] = useState('');
+  // Text to start from, such as a course page, instead of pasting it in.
+  initialText?: string;
+}> = ({ feature, onClose, initialText = '' }) => {
+    const [inputText, setInputText] = useState(initialText);
     const [isLoading, setIsLoading] = useState(false);
     const [result, setResult] = useState('');
     const [error, setError] = useState('');
@@ -0,0 +1,103 @@
+import React, { useState, useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import type { Announcements } from '../hooks/useAnnouncements';
+import { getItemKey } from '../services/canvasConnections';
+import { sanitizeHtml } from '../services/courseContentService';
+import { ExternalLinkIcon, Loader2Icon, SparklesIcon } from './icons/Icons';
+
+interface AnnouncementsPanelProps {
+    announcements: Announcements;
+}
+
+// Unread announcements on the Dashboard. Opening one marks it read; it stays listed until the Dashboard is left.
+const AnnouncementsPanel: React.FC<AnnouncementsPanelProps> = ({ announcements }) => {
+    const { unread, isLoading, markRead, digest, isGeneratingDigest, digestError, generateDigest } = announcements;
+    const [expandedKey, setExpandedKey] = useState<string | null>(null);
+    const [openedKeys, setOpenedKeys] = useState<string[]>([]);
+
+    const listed = useMemo(() => {
+        const unreadKeys = new Set(unread.map(getItemKey));
+        return announcements.announcements.filter(a => unreadKeys.has(getItemKey(a)) || openedKeys.includes(getItemKey(a)));
+    }, [announcements.announcements, unread, openedKeys]);
+
+    const handleToggle = (key: string) => {
+        setExpandedKey(current => current === key ? null : key);
+        setOpenedKeys(current => current.includes(key) ? current : [...current, key]);
+        markRead([key]).catch(error => console.error("Could not mark the announcement as read:", error));
+    };
+
+    const handleMarkAllRead = () => {
+        setExpandedKey(null);
+        setOpenedKeys([]);
+        markRead(unread.map(getItemKey)).catch(error => console.error("Could not mark announcements as read:", error));
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                    Announcements
+                    {unread.length > 0 && <span className="ml-2 px-2 py-0.5 text-xs font-bold rounded-full bg-blue-600 text-white align-middle">{unread.length}</span>}
+                </h2>
+                {unread.length > 0 && (
+                    <button onClick={handleMarkAllRead} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">Mark all read</button>
+                )}
+            </div>
+            <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-2 space-y-1">
+                {digest ? (
+                    <div className="p-3 rounded-md bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-900/50">
+                        <p className="flex items-center text-xs font-semibold uppercase tracking-wide text-blue-700 dark:text-blue-300 mb-1"><SparklesIcon className="w-3.5 h-3.5 mr-1" /> Today's Digest</p>
+                        <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{digest.summary}</p>
+                    </div>
+                ) : unread.length > 0 && (
+                    <button onClick={generateDigest} disabled={isGeneratingDigest} className="w-full flex items-center justify-center p-2 text-sm font-semibold text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-60">
+                        {isGeneratingDigest ? <Loader2Icon className="w-4 h-4 mr-2 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-2" />}
+                        {isGeneratingDigest ? 'Summarizing...' : "Create today's digest"}
+                    </button>
+                )}
+                {digestError && <p className="px-2 text-sm text-red-600 dark:text-red-400">{digestError}</p>}
+                {isLoading && listed.length === 0 ? (
+                    <div className="flex justify-center p-4 text-gray-500 dark:text-gray-400"><Loader2Icon className="w-5 h-5 animate-spin" /></div>
+                ) : listed.length > 0 ? (
+                    <div className="max-h-96 overflow-y-auto space-y-1">
+                        {listed.map(announcement => {
+                            const key = getItemKey(announcement);
+                            const isExpanded = expandedKey === key;
+                            return (
+                                <div key={key} className="rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50">
+                                    <button onClick={() => handleToggle(key)} className="w-full text-left p-2">
+                                        <p className="font-semibold text-gray-900 dark:text-white">{announcement.title}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {announcement.courseName}
+                                            {announcement.author_name && ` · ${announcement.author_name}`}
+                                            {` · ${formatDistanceToNow(new Date(announcement.posted_at), { addSuffix: true })}`}
+                                        </p>
+                                    </button>
+                                    {isExpanded && (
+                                        <div className="px-2 pb-2">
+                                            <div
+                                                className="prose prose-sm max-w-none text-gray-600 dark:text-gray-300 dark:prose-invert max-h-60 overflow-y-auto"
+                                                dangerouslySetInnerHTML={{ __html: sanitizeHtml(announcement.message) }}
+                                            />
+                                            {announcement.html_url && (
+                                                <a href={announcement.html_url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center mt-2 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                                                    <ExternalLinkIcon className="w-4 h-4 mr-1" /> Open in Canvas
+                                                </a>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+                        <p>You're all caught up.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AnnouncementsPanel;
@@ -1,11 +1,17 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import { Course, Assignment, AiTutorMessage, Settings, AssignmentStatus } from '../types';
+import { Course, Assignment, AiTutorMessage, Settings, AssignmentStatus, AssignmentStatusSource, AssignmentSubmission, SubmissionType, CanvasConnection } from '../types';
 import { format } from 'date-fns';
 import { estimateAssignmentTime, createTutorChat } from '../services/geminiService';
 import { Chat } from '@google/genai';
-import { SparklesIcon, XIcon, ClockIcon, DocumentTextIcon, ExternalLinkIcon } from './icons/Icons';
-import { storage } from '../services/storageService';
+import { SparklesIcon, XIcon, ClockIcon, DocumentTextIcon, ExternalLinkIcon, UploadIcon, Loader2Icon, PlusIcon, TrashIcon } from './icons/Icons';
+import { getEstimatesFromStorage, saveEstimateToStorage } from '../services/assignmentEstimates';
+import { submitAssignment } from '../services/canvasApiService';
+import { sanitizeHtml } from '../services/courseContentService';
+import { PERSONAL_CONNECTION_ID, getAssignmentUrl, getCanvasKey, getConnection, getCourseKeyOf, getItemKey, isCanvasConnection } from '../services/canvasConnections';
+import type { PersonalTasks } from '../hooks/usePersonalTasks';
 import StudyPlanDialog from './StudyPlanDialog';
+import PersonalTaskDialog from './PersonalTaskDialog';
+import PersonalTaskBadge from './PersonalTaskBadge';
 
 const AiTutorModal: React.FC<{ assignment: Assignment; onClose: () => void; }> = ({ assignment, onClose }) => {
     const [messages, setMessages] = useState<AiTutorMessage[]>([]);
@@ -105,47 +111,165 @@ const AiTutorModal: React.FC<{ assignment: Assignment; onClose: () => void; }> =
     );
 };
 
-const ASSIGNMENT_ESTIMATES_KEY = 'canvasAiAssignmentEstimates';
+const SUBMISSION_TYPE_LABELS: Record<SubmissionType, string> = {
+    online_text_entry: 'Text Entry',
+    online_url: 'Website URL',
+    online_upload: 'File Upload',
+};
+
+const getSupportedSubmissionTypes = (assignment: Assignment): SubmissionType[] =>
+    (Object.keys(SUBMISSION_TYPE_LABELS) as SubmissionType[]).filter(type => assignment.submission_types?.includes(type));
+
+const SubmitAssignmentModal: React.FC<{
+    assignment: Assignment;
+    connection: CanvasConnection;
+    onClose: () => void;
+    onSubmitted: (assignmentKey: string) => void;
+}> = ({ assignment, connection, onClose, onSubmitted }) => {
+    const supportedTypes = useMemo(() => getSupportedSubmissionTypes(assignment), [assignment]);
+    const [submissionType, setSubmissionType] = useState<SubmissionType>(supportedTypes[0]);
+    const [textBody, setTextBody] = useState('');
+    const [url, setUrl] = useState('');
+    const [files, setFiles] = useState<File[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const isReady = submissionType === 'online_text_entry' ? !!textBody.trim()
+        : submissionType === 'online_url' ? !!url.trim()
+        : files.length > 0;
+
+    const handleSubmit = async () => {
+        if (!isReady || isSubmitting) return;
+        setIsSubmitting(true);
+        setError(null);
+
+        let submission: AssignmentSubmission;
+        switch (submissionType) {
+            case 'online_text_entry':
+                submission = { type: 'online_text_entry', body: textBody.trim() };
+                break;
+            case 'online_url':
+                submission = { type: 'online_url', url: url.trim() };
+                break;
+            case 'online_upload':
+                submission = { type: 'online_upload', files };
+                break;
+        }
+
+        try {
+            const receipt = await submitAssignment(connection, assignment.course_id, assignment.id, submission);
+            setSuccessMessage(`Submitted to Canvas${receipt.attempt ? ` (attempt ${receipt.attempt})` : ''}.`);
+            onSubmitted(getItemKey(assignment));
+        } catch (e) {
+            console.error("Canvas submission error:", e);
+            setError(e instanceof Error ? e.message : 'Failed to submit the assignment.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
 
-const getEstimatesFromStorage = async (): Promise<Record<number, string>> => {
-    const estimates = await storage.get<Record<number, string>>(ASSIGNMENT_ESTIMATES_KEY);
-    return estimates || {};
+    return (
+      <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+        <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-2xl flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-white">Submit to Canvas: {assignment.name}</h2>
+                <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
+            </div>
+            <div className="p-4 space-y-4 bg-gray-50 dark:bg-gray-900">
+                {supportedTypes.length > 1 && (
+                    <div className="p-1 bg-gray-100 dark:bg-gray-700 rounded-md inline-flex items-center">
+                        {supportedTypes.map(type => (
+                            <button
+                                key={type}
+                                onClick={() => setSubmissionType(type)}
+                                disabled={isSubmitting}
+                                className={`px-3 py-1 text-sm font-semibold rounded ${submissionType === type ? 'bg-white dark:bg-gray-800 shadow-sm' : 'text-gray-600 dark:text-gray-300'}`}
+                            >
+                                {SUBMISSION_TYPE_LABELS[type]}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {submissionType === 'online_text_entry' && (
+                    <textarea
+                        value={textBody}
+                        onChange={e => setTextBody(e.target.value)}
+                        rows={10}
+                        placeholder="Write your submission..."
+                        disabled={isSubmitting}
+                        className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-3 text-sm text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                )}
+                {submissionType === 'online_url' && (
+                    <input
+                        type="url"
+                        value={url}
+                        onChange={e => setUrl(e.target.value)}
+                        placeholder="https://..."
+                        disabled={isSubmitting}
+                        className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                )}
+                {submissionType === 'online_upload' && (
+                    <label className="block border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center cursor-pointer hover:border-blue-500 text-gray-500 dark:text-gray-400">
+                        <UploadIcon className="w-8 h-8 mx-auto mb-2"/>
+                        <span className="text-sm">{files.length > 0 ? files.map(f => f.name).join(', ') : 'Choose files to upload'}</span>
+                        <input type="file" multiple className="sr-only" disabled={isSubmitting} onChange={e => setFiles(Array.from(e.target.files || []))} />
+                    </label>
+                )}
+                {error && <div className="text-sm text-red-700 bg-red-100 border border-red-200 p-3 rounded-lg dark:bg-red-900/50 dark:text-red-300 dark:border-red-800">{error}</div>}
+                {successMessage && <div className="text-sm text-green-800 bg-green-100 p-3 rounded-lg dark:bg-green-900/50 dark:text-green-200">{successMessage}</div>}
+            </div>
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+                <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">{successMessage ? 'Done' : 'Cancel'}</button>
+                {!successMessage && (
+                    <button onClick={handleSubmit} disabled={!isReady || isSubmitting} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center">
+                        {isSubmitting && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                        {isSubmitting ? 'Submitting...' : 'Submit'}
+                    </button>
+                )}
+            </div>
+        </div>
+      </div>
+    );
 };
 
-const saveEstimateToStorage = async (assignmentId: number, estimate: string) => {
-    const estimates = await getEstimatesFromStorage();
-    estimates[assignmentId] = estimate;
-    await storage.set(ASSIGNMENT_ESTIMATES_KEY, estimates);
+const formatEstimate = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} minutes`;
+    return `${hours} hour${hours === 1 ? '' : 's'}${rest ? ` ${rest} minutes` : ''}`;
 };
 
 const AssignmentCard: React.FC<{ 
     assignment: Assignment;
-    course: Course;
+    // Missing for personal tasks that aren't for a course.
+    course: Course | undefined;
     onTutorClick: (assignment: Assignment) => void;
     onPlanClick: (assignment: Assignment) => void;
-    onStatusChange: (assignmentId: number, status: AssignmentStatus) => void;
-    settings: Settings | null;
-}> = ({ assignment, course, onTutorClick, onPlanClick, onStatusChange, settings }) => {
+    onSubmitClick: (assignment: Assignment) => void;
+    onStatusChange: (assignmentKey: string, status: AssignmentStatus) => void;
+    onEditTask: (assignment: Assignment) => void;
+    onDeleteTask: (assignment: Assignment) => void;
+    // The Canvas connection the assignment came from; missing for sample data.
+    connection: CanvasConnection | undefined;
+}> = ({ assignment, course, onTutorClick, onPlanClick, onSubmitClick, onStatusChange, onEditTask, onDeleteTask, connection }) => {
+    const task = assignment.personalTask;
     const [estimatedTime, setEstimatedTime] = useState('');
     const [isEstimatingTime, setIsEstimatingTime] = useState(false);
-    const [canvasLink, setCanvasLink] = useState<string | null>(null);
+    // Submitting only makes sense against a live Canvas connection and for types the proxy allows.
+    const canSubmit = !task && isCanvasConnection(connection) && getSupportedSubmissionTypes(assignment).length > 0;
 
-    useEffect(() => {
-        if (settings?.canvasUrl && assignment.course_id && assignment.id) {
-            // The URL from settings is already correctly formatted.
-            setCanvasLink(`${settings.canvasUrl}/courses/${assignment.course_id}/assignments/${assignment.id}`);
-        } else {
-            setCanvasLink(null);
-        }
-    }, [settings, assignment.course_id, assignment.id]);
+    const canvasLink = getAssignmentUrl(assignment, connection);
 
     const handleEstimateTime = useCallback(async (forceRefresh = false) => {
         setIsEstimatingTime(true);
         
         if (!forceRefresh) {
             const cachedEstimates = await getEstimatesFromStorage();
-            if (cachedEstimates[assignment.id]) {
-                setEstimatedTime(cachedEstimates[assignment.id]);
+            if (cachedEstimates[getItemKey(assignment)]) {
+                setEstimatedTime(cachedEstimates[getItemKey(assignment)]);
                 setIsEstimatingTime(false);
                 return;
             }
@@ -154,7 +278,7 @@ const AssignmentCard: React.FC<{
         try {
             const time = await estimateAssignmentTime(assignment);
             setEstimatedTime(time);
-            await saveEstimateToStorage(assignment.id, time);
+            await saveEstimateToStorage(getItemKey(assignment), time);
         } catch (e: any) {
             setEstimatedTime(e.message || '[AI Error] Failed to estimate.');
         } finally {
@@ -162,16 +286,24 @@ const AssignmentCard: React.FC<{
         }
     }, [assignment]);
 
+    // Personal tasks carry the student's own estimate.
     useEffect(() => {
+        if (task) {
+            setEstimatedTime(task.estimateMinutes ? formatEstimate(task.estimateMinutes) : '');
+            return;
+        }
         handleEstimateTime();
-    }, [handleEstimateTime]);
+    }, [task, handleEstimateTime]);
 
     return (
       <div className="bg-white dark:bg-gray-800 p-5 rounded-lg border border-gray-200 dark:border-gray-700 transition-all duration-300 hover:shadow-lg hover:border-blue-500/50">
           <div className="flex justify-between items-start">
               <div>
-                <h3 className="font-bold text-lg text-gray-900 dark:text-white">{assignment.name}</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">{course.course_code}: {assignment.due_at ? format(new Date(assignment.due_at), 'PPp') : 'No due date'}</p>
+                <h3 className="font-bold text-lg text-gray-900 dark:text-white">
+                    {assignment.name}
+                    {task && <PersonalTaskBadge className="ml-2 align-middle" />}
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{course?.course_code ?? assignment.courseName}: {assignment.due_at ? format(new Date(assignment.due_at), 'PPp') : 'No due date'}</p>
                  <div className="text-sm text-gray-500 dark:text-gray-400 mt-1 flex items-center h-5">
                   {(isEstimatingTime || estimatedTime) && <ClockIcon className="w-4 h-4 mr-1.5 flex-shrink-0" />}
                   {isEstimatingTime ? (
@@ -189,32 +321,42 @@ const AssignmentCard: React.FC<{
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex-shrink-0 ml-4 inline-flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors border border-gray-300 dark:border-gray-600 hover:border-blue-500/50 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 px-2.5 py-1.5 rounded-md"
-                    aria-label="View on Canvas"
+                    aria-label={connection && !isCanvasConnection(connection) ? `View on ${connection.name}` : "View on Canvas"}
                   >
                      <ExternalLinkIcon className="w-4 h-4" />
                      View
                   </a>
               )}
+              {task && (
+                  <div className="flex-shrink-0 ml-4 flex items-center gap-2">
+                      <button onClick={() => onEditTask(assignment)} className="text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors border border-gray-300 dark:border-gray-600 hover:border-blue-500/50 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 px-2.5 py-1.5 rounded-md">
+                          Edit
+                      </button>
+                      <button onClick={() => onDeleteTask(assignment)} className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700" aria-label={`Delete ${assignment.name}`}>
+                          <TrashIcon className="w-4 h-4" />
+                      </button>
+                  </div>
+              )}
           </div>
           
           <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
             <div className="flex justify-between items-center mb-2">
                 <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center">
                     <DocumentTextIcon className="w-4 h-4 mr-2 text-gray-500" />
-                    Assignment Details
+                    {task ? 'Notes' : 'Assignment Details'}
                 </h4>
-                <span className="text-sm font-semibold text-blue-700 bg-blue-100 dark:text-blue-200 dark:bg-blue-900/50 px-2 py-0.5 rounded-md">{assignment.points_possible} points</span>
+                {!task && <span className="text-sm font-semibold text-blue-700 bg-blue-100 dark:text-blue-200 dark:bg-blue-900/50 px-2 py-0.5 rounded-md">{assignment.points_possible} points</span>}
             </div>
             <div 
                 className="prose prose-sm max-w-none text-gray-600 dark:text-gray-300 dark:prose-invert max-h-40 overflow-y-auto bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md border border-gray-200 dark:border-gray-600"
-                dangerouslySetInnerHTML={{ __html: assignment.description || '<p>No description provided.</p>' }}
+                dangerouslySetInnerHTML={{ __html: assignment.description ? sanitizeHtml(assignment.description) : (task ? '<p>No notes.</p>' : '<p>No description provided.</p>') }}
             />
           </div>
           
           <div className="mt-4 flex flex-wrap gap-4 items-center justify-between">
             <select
                 value={assignment.status}
-                onChange={(e) => onStatusChange(assignment.id, e.target.value as AssignmentStatus)}
+                onChange={(e) => onStatusChange(getItemKey(assignment), e.target.value as AssignmentStatus)}
                 className="bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600 px-3 py-1.5 text-xs font-semibold rounded-md transition-colors hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
                 <option value="NOT_STARTED">Not Started</option>
@@ -222,6 +364,12 @@ const AssignmentCard: React.FC<{
                 <option value="COMPLETED">Completed</option>
             </select>
             <div className="flex flex-wrap gap-2">
+              {canSubmit && (
+                <button onClick={() => onSubmitClick(assignment)} className="btn-ai">
+                    <UploadIcon className="w-4 h-4" />
+                    Submit to Canvas
+                </button>
+              )}
               <button onClick={() => onPlanClick(assignment)} className="btn-ai">
                   <SparklesIcon className="w-4 h-4" />
                   Generate Study Plan
@@ -239,63 +387,87 @@ const AssignmentCard: React.FC<{
 interface AssignmentsViewProps {
   courses: Course[];
   assignments: Assignment[];
-  onStatusChange: (assignmentId: number, status: AssignmentStatus) => void;
-  initialCourseId: string | null;
+  onStatusChange: (assignmentKey: string, status: AssignmentStatus, source?: AssignmentStatusSource) => void;
+  // A course key from `getCourseKeyOf`.
+  initialCourseKey: string | null;
   onNavigated: () => void;
-  highlightedAssignmentId: number | null;
+  highlightedAssignmentKey: string | null;
   onHighlightDone: () => void;
   settings: Settings | null;
+  personalTasks: PersonalTasks;
 }
 
-const AssignmentsView: React.FC<AssignmentsViewProps> = ({ courses, assignments, onStatusChange, initialCourseId, onNavigated, highlightedAssignmentId, onHighlightDone, settings }) => {
-    const [selectedCourseId, setSelectedCourseId] = useState<string>(initialCourseId || 'all');
+// The course filter value for personal tasks that aren't for a course.
+const PERSONAL_COURSE_KEY = getCanvasKey(PERSONAL_CONNECTION_ID, 0);
+
+const AssignmentsView: React.FC<AssignmentsViewProps> = ({ courses, assignments, onStatusChange, initialCourseKey, onNavigated, highlightedAssignmentKey, onHighlightDone, settings, personalTasks }) => {
+    const [selectedCourseKey, setSelectedCourseKey] = useState<string>(initialCourseKey || 'all');
     const [tutoringAssignment, setTutoringAssignment] = useState<Assignment | null>(null);
-    const [planningAssignment, setPlanningAssignment] = useState<Assignment | null>(null);
-    const assignmentRefs = useRef<Record<number, HTMLDivElement | null>>({});
+    // Tracked by key, so the dialog sees status changes made from its plan.
+    const [planningAssignmentKey, setPlanningAssignmentKey] = useState<string | null>(null);
+    const [submittingAssignment, setSubmittingAssignment] = useState<Assignment | null>(null);
+    const [isTaskDialogOpen, setIsTaskDialogOpen] = useState(false);
+    const [editingTaskAssignment, setEditingTaskAssignment] = useState<Assignment | null>(null);
+    const assignmentRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
     useEffect(() => {
         // When the view is loaded with a one-time filter, apply it and then
         // immediately notify the parent to reset it.
-        if (initialCourseId) {
-            setSelectedCourseId(initialCourseId);
+        if (initialCourseKey) {
+            setSelectedCourseKey(initialCourseKey);
             onNavigated();
         }
-    }, [initialCourseId, onNavigated]);
+    }, [initialCourseKey, onNavigated]);
 
     const filteredAssignments = useMemo(() => {
         // The assignments are now pre-sorted from the service
-        if (selectedCourseId === 'all') {
+        if (selectedCourseKey === 'all') {
             return assignments;
         }
-        return assignments.filter(a => a.course_id.toString() === selectedCourseId);
-    }, [selectedCourseId, assignments]);
+        return assignments.filter(a => getCourseKeyOf(a) === selectedCourseKey);
+    }, [selectedCourseKey, assignments]);
+
+    const courseMap = useMemo(() => new Map(courses.map(c => [getItemKey(c), c])), [courses]);
+    const hasTasksWithoutCourse = useMemo(() => assignments.some(a => getCourseKeyOf(a) === PERSONAL_COURSE_KEY), [assignments]);
+
+    const openTaskDialog = (assignment: Assignment | null) => {
+        setEditingTaskAssignment(assignment);
+        setIsTaskDialogOpen(true);
+    };
 
-    const courseMap = useMemo(() => new Map(courses.map(c => [c.id, c])), [courses]);
+    const handleDeleteTask = (assignment: Assignment) => {
+        if (!assignment.personalTask || !window.confirm(`Delete "${assignment.name}"?`)) return;
+        personalTasks.removeTask(assignment.personalTask.id).catch(err => console.error("Failed to delete the task:", err));
+    };
+    const planningAssignment = useMemo(
+        () => planningAssignmentKey ? assignments.find(a => getItemKey(a) === planningAssignmentKey) ?? null : null,
+        [planningAssignmentKey, assignments]
+    );
 
     const isHighlightedAssignmentVisible = useMemo(() => {
-        if (!highlightedAssignmentId) return false;
-        return filteredAssignments.some(a => a.id === highlightedAssignmentId);
-    }, [filteredAssignments, highlightedAssignmentId]);
+        if (!highlightedAssignmentKey) return false;
+        return filteredAssignments.some(a => getItemKey(a) === highlightedAssignmentKey);
+    }, [filteredAssignments, highlightedAssignmentKey]);
 
     useEffect(() => {
-        if (highlightedAssignmentId && isHighlightedAssignmentVisible) {
-            const element = assignmentRefs.current[highlightedAssignmentId];
+        if (highlightedAssignmentKey && isHighlightedAssignmentVisible) {
+            const element = assignmentRefs.current[highlightedAssignmentKey];
             if (element) {
                 element.scrollIntoView({ behavior: 'smooth', block: 'center' });
                 element.classList.add('highlight-animation');
                 const timer = setTimeout(() => {
-                    if (assignmentRefs.current[highlightedAssignmentId]) {
-                        assignmentRefs.current[highlightedAssignmentId]?.classList.remove('highlight-animation');
+                    if (assignmentRefs.current[highlightedAssignmentKey]) {
+                        assignmentRefs.current[highlightedAssignmentKey]?.classList.remove('highlight-animation');
                     }
                     onHighlightDone();
                 }, 2500); // Duration of animation
                 return () => clearTimeout(timer);
             }
-        } else if (highlightedAssignmentId) {
+        } else if (highlightedAssignmentKey) {
             // Assignment not visible in current filter, so we can't highlight. Reset.
             onHighlightDone();
         }
-    }, [highlightedAssignmentId, isHighlightedAssignmentVisible, onHighlightDone]);
+    }, [highlightedAssignmentKey, isHighlightedAssignmentVisible, onHighlightDone]);
 
 
     return (
@@ -323,37 +495,46 @@ const AssignmentsView: React.FC<AssignmentsViewProps> = ({ courses, assignments,
             `}</style>
             <div className="flex items-center justify-between mb-6">
                 <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Assignments</h1>
-                <select 
-                    value={selectedCourseId}
-                    onChange={(e) => setSelectedCourseId(e.target.value)}
-                    className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                    <option value="all">All Courses</option>
-                    {courses.map(course => (
-                        <option key={course.id} value={course.id.toString()}>{course.name}</option>
-                    ))}
-                </select>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => openTaskDialog(null)} className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition-colors flex items-center">
+                        <PlusIcon className="w-4 h-4 mr-2" /> Add Task
+                    </button>
+                    <select 
+                        value={selectedCourseKey}
+                        onChange={(e) => setSelectedCourseKey(e.target.value)}
+                        className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="all">All Courses</option>
+                        {courses.map(course => (
+                            <option key={getItemKey(course)} value={getItemKey(course)}>{course.name}</option>
+                        ))}
+                        {hasTasksWithoutCourse && <option value={PERSONAL_COURSE_KEY}>Personal Tasks</option>}
+                    </select>
+                </div>
             </div>
             
             <div className="space-y-6">
                 {filteredAssignments.length > 0 ? (
                    filteredAssignments.map(assignment => {
-                        const course = courseMap.get(assignment.course_id);
-                        if (!course) return null;
+                        const course = courseMap.get(getCourseKeyOf(assignment));
+                        if (!course && !assignment.personalTask) return null;
                         return (
                            <div
-                                key={assignment.id}
+                                key={getItemKey(assignment)}
                                 ref={(el) => {
-                                    assignmentRefs.current[assignment.id] = el;
+                                    assignmentRefs.current[getItemKey(assignment)] = el;
                                 }}
                            >
                                <AssignmentCard
                                    assignment={assignment} 
                                    course={course}
                                    onTutorClick={setTutoringAssignment} 
-                                   onPlanClick={setPlanningAssignment}
+                                   onPlanClick={(a) => setPlanningAssignmentKey(getItemKey(a))}
+                                   onSubmitClick={setSubmittingAssignment}
                                    onStatusChange={onStatusChange}
-                                   settings={settings}
+                                   onEditTask={openTaskDialog}
+                                   onDeleteTask={handleDeleteTask}
+                                   connection={getConnection(settings, assignment.connectionId)}
                                />
                            </div>
                        )
@@ -369,14 +550,33 @@ const AssignmentsView: React.FC<AssignmentsViewProps> = ({ courses, assignments,
               <AiTutorModal assignment={tutoringAssignment} onClose={() => setTutoringAssignment(null)} />
             )}
 
-            {planningAssignment && courseMap.get(planningAssignment.course_id) && (
+            {submittingAssignment && getConnection(settings, submittingAssignment.connectionId) && (
+              <SubmitAssignmentModal
+                assignment={submittingAssignment}
+                connection={getConnection(settings, submittingAssignment.connectionId)!}
+                onClose={() => setSubmittingAssignment(null)}
+                onSubmitted={(assignmentKey) => onStatusChange(assignmentKey, 'COMPLETED', 'lms')}
+              />
+            )}
+
+            {planningAssignment && (
               <StudyPlanDialog 
                 assignment={planningAssignment}
-                course={courseMap.get(planningAssignment.course_id)!}
                 isOpen={!!planningAssignment}
-                onClose={() => setPlanningAssignment(null)} 
+                onClose={() => setPlanningAssignmentKey(null)}
+                onStatusChange={onStatusChange}
               />
             )}
+
+            <PersonalTaskDialog
+                isOpen={isTaskDialogOpen}
+                onClose={() => setIsTaskDialogOpen(false)}
+                courses={courses}
+                task={editingTaskAssignment?.personalTask}
+                onSave={(draft) => editingTaskAssignment?.personalTask
+                    ? personalTasks.updateTask(editingTaskAssignment.personalTask.id, draft)
+                    : personalTasks.addTask(draft)}
+            />
         </div>
     );
 };
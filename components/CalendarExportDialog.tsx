@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ICalendarEvent } from '../proxy/icalendar';
+import { downloadCalendarFile } from '../services/calendarExport';
+import { XIcon, CalendarIcon, ClipboardCopyIcon, CheckIcon, Loader2Icon } from './icons/Icons';
+
+interface CalendarExportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    events: ICalendarEvent[];
+    // Null while the subscription feed is off.
+    feedUrl: string | null;
+    // Subscriptions need live data; the sample calendar can only be downloaded.
+    canSubscribe: boolean;
+    feedError: string | null;
+    onEnableFeed: () => Promise<void>;
+    onDisableFeed: () => Promise<void>;
+    onRegenerateFeed: () => Promise<void>;
+}
+
+const secondaryButtonClassName = "px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors";
+
+const CalendarExportDialog: React.FC<CalendarExportDialogProps> = ({ isOpen, onClose, events, feedUrl, canSubscribe, feedError, onEnableFeed, onDisableFeed, onRegenerateFeed }) => {
+    const [copied, setCopied] = useState(false);
+    const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const runFeedAction = async (action: () => Promise<void>) => {
+        setIsUpdatingFeed(true);
+        setActionError(null);
+        try {
+            await action();
+        } catch (error) {
+            console.error("Calendar feed error:", error);
+            setActionError(error instanceof Error ? error.message : 'The calendar feed could not be updated.');
+        } finally {
+            setIsUpdatingFeed(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!feedUrl) return;
+        await navigator.clipboard.writeText(feedUrl);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const error = actionError || feedError;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-lg flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center"><CalendarIcon className="w-5 h-5 mr-2 text-blue-500"/> Export Calendar</h2>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
+                </div>
+                <div className="p-6 space-y-6">
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Download</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                            A one-time copy of your {events.length} events and due dates, for importing into any calendar app.
+                        </p>
+                        <button
+                            onClick={() => downloadCalendarFile(events)}
+                            disabled={events.length === 0}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                        >
+                            Download .ics
+                        </button>
+                    </section>
+
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Subscribe</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                            Add this URL to Google Calendar ("From URL") or Apple Calendar ("New Calendar Subscription") to stay up to date.
+                            It updates whenever the app syncs. Anyone with the URL can see your calendar.
+                        </p>
+                        {!canSubscribe ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">Connect an LMS to subscribe; the sample calendar can only be downloaded.</p>
+                        ) : feedUrl ? (
+                            <div className="space-y-3">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        readOnly
+                                        value={feedUrl}
+                                        onFocus={e => e.target.select()}
+                                        aria-label="Calendar subscription URL"
+                                        className="flex-1 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-100"
+                                    />
+                                    <button onClick={handleCopy} className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Copy subscription URL">
+                                        {copied ? <CheckIcon className="w-5 h-5 text-green-500" /> : <ClipboardCopyIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />}
+                                    </button>
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <a href={feedUrl.replace(/^https?:/, 'webcal:')} className={secondaryButtonClassName}>Open in Calendar App</a>
+                                    <button onClick={() => runFeedAction(onRegenerateFeed)} disabled={isUpdatingFeed} className={secondaryButtonClassName}>New URL</button>
+                                    <button onClick={() => runFeedAction(onDisableFeed)} disabled={isUpdatingFeed} className={secondaryButtonClassName}>Turn Off</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                onClick={() => runFeedAction(onEnableFeed)}
+                                disabled={isUpdatingFeed}
+                                className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center"
+                            >
+                                {isUpdatingFeed && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                                Create Subscription URL
+                            </button>
+                        )}
+                        {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CalendarExportDialog;
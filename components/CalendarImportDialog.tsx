@@ -0,0 +1,124 @@
+import React, { useState, useRef } from 'react';
+import type { ExternalCalendars } from '../hooks/useExternalCalendars';
+import { XIcon, CalendarIcon, UploadIcon, TrashIcon, Loader2Icon } from './icons/Icons';
+
+interface CalendarImportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    externalCalendars: ExternalCalendars;
+}
+
+const secondaryButtonClassName = "px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors flex items-center";
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const CalendarImportDialog: React.FC<CalendarImportDialogProps> = ({ isOpen, onClose, externalCalendars }) => {
+    const { calendars, errors, eventCounts, isLoading, addCalendarUrl, importCalendarFile, removeCalendar, refresh } = externalCalendars;
+    const [url, setUrl] = useState('');
+    const [name, setName] = useState('');
+    const [isAdding, setIsAdding] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsAdding(true);
+        setActionError(null);
+        try {
+            await action();
+        } catch (error) {
+            console.error("Calendar import error:", error);
+            setActionError(error instanceof Error ? error.message : 'The calendar could not be imported.');
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const handleSubscribe = (e: React.FormEvent) => {
+        e.preventDefault();
+        runAction(async () => {
+            await addCalendarUrl(url, name);
+            setUrl('');
+            setName('');
+        });
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) runAction(() => importCalendarFile(file));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center"><CalendarIcon className="w-5 h-5 mr-2 text-blue-500"/> Other Calendars</h2>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
+                </div>
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Add work shifts, clubs or sports from Google Calendar, Outlook or Apple Calendar, so they show up next to your courses and study time is planned around them.
+                    </p>
+
+                    {calendars.length > 0 && (
+                        <section>
+                            <div className="flex items-center justify-between mb-2">
+                                <h3 className="font-semibold text-gray-900 dark:text-white">Your Calendars</h3>
+                                <button onClick={refresh} disabled={isLoading} className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 flex items-center">
+                                    {isLoading && <Loader2Icon className="w-3 h-3 mr-1 animate-spin" />}
+                                    Refresh
+                                </button>
+                            </div>
+                            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                                {calendars.map(calendar => (
+                                    <li key={calendar.id} className="py-2 flex items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="font-medium text-gray-900 dark:text-white truncate">{calendar.name}</p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                                {calendar.url ? 'Subscribed' : `Uploaded from ${calendar.fileName}`}
+                                                {eventCounts[calendar.id] !== null && ` · ${eventCounts[calendar.id]} events`}
+                                            </p>
+                                            {errors[calendar.id] && <p className="text-xs text-red-600 dark:text-red-400">{errors[calendar.id]}</p>}
+                                        </div>
+                                        <button onClick={() => runAction(() => removeCalendar(calendar.id))} disabled={isAdding} className="p-2 rounded-md text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50" aria-label={`Remove ${calendar.name}`}>
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Subscribe by URL</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">Paste the calendar's secret or public iCal address (https:// or webcal://).</p>
+                        <form onSubmit={handleSubscribe} className="space-y-2">
+                            <input type="url" value={url} onChange={e => setUrl(e.target.value)} placeholder="webcal://example.com/calendar.ics" aria-label="Calendar URL" className={inputClassName} pattern="(https|webcal|webcals)://.+" required />
+                            <div className="flex gap-2">
+                                <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Name (optional)" aria-label="Calendar name" className={inputClassName} />
+                                <button type="submit" disabled={isAdding} className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center shrink-0">
+                                    {isAdding && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                                    Subscribe
+                                </button>
+                            </div>
+                        </form>
+                    </section>
+
+                    <section>
+                        <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Upload a File</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">A one-time copy of an exported .ics file. Upload it again to pick up changes.</p>
+                        <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleFileChange} className="hidden" />
+                        <button onClick={() => fileInputRef.current?.click()} disabled={isAdding} className={secondaryButtonClassName}>
+                            <UploadIcon className="w-4 h-4 mr-2" /> Upload .ics
+                        </button>
+                    </section>
+
+                    {actionError && <p className="text-sm text-red-600 dark:text-red-400">{actionError}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CalendarImportDialog;
@@ -1,14 +1,29 @@
 import React, { useState, useMemo } from 'react';
-import { CalendarEvent } from '../types';
+import { Assignment, CalendarEvent } from '../types';
 // Fix: 'startOfMonth' and 'startOfWeek' are not exported from the root 'date-fns' module in this project's setup. Importing them directly from their paths.
 import { format, addMonths, subMonths, endOfMonth, endOfWeek, eachDayOfInterval, isSameMonth, isToday, isSameDay, addWeeks, subWeeks } from 'date-fns';
 import startOfMonth from 'date-fns/startOfMonth';
 import startOfWeek from 'date-fns/startOfWeek';
-import { ChevronLeftIcon, ChevronRightIcon } from './icons/Icons';
+import { ChevronLeftIcon, ChevronRightIcon, CheckIcon, ExclamationTriangleIcon } from './icons/Icons';
+import CalendarExportDialog from './CalendarExportDialog';
+import CalendarImportDialog from './CalendarImportDialog';
+import type { CalendarFeed } from '../hooks/useCalendarFeed';
+import type { ExternalCalendars } from '../hooks/useExternalCalendars';
+import { getItemKey } from '../services/canvasConnections';
+import PersonalTaskBadge from './PersonalTaskBadge';
 
 interface CalendarViewProps {
     calendarEvents: CalendarEvent[];
     onEventSelect: (event: CalendarEvent) => void;
+    calendarFeed: CalendarFeed;
+    // False for sample data, which can be downloaded but not subscribed to.
+    canSubscribe: boolean;
+    externalCalendars: ExternalCalendars;
+    // Scheduled study sessions, shown in the week view.
+    studyEvents: CalendarEvent[];
+    // Assignments whose work doesn't fit in the study schedule before they're due.
+    unscheduledStudy: { assignment: Assignment; minutes: number }[];
+    onStudyBlockToggle: (blockId: string, completed: boolean) => void;
 }
 
 const getEventStyle = (type: CalendarEvent['type']) => {
@@ -16,10 +31,27 @@ const getEventStyle = (type: CalendarEvent['type']) => {
         case 'assignment': return 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200 border-blue-300 dark:border-blue-700';
         case 'test': return 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-200 border-orange-300 dark:border-orange-700';
         case 'quiz': return 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200 border-purple-300 dark:border-purple-700';
+        case 'event': return 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200 border-green-300 dark:border-green-700';
+        case 'external': return 'bg-teal-50 text-teal-800 dark:bg-teal-900/40 dark:text-teal-200 border-teal-300 dark:border-teal-700';
+        case 'study': return 'bg-indigo-50 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-200 border-indigo-400 dark:border-indigo-600 border-dashed';
         default: return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600';
     }
 };
 
+// Assignments are shown at their due time; events show their start–end range.
+const formatEventTime = (event: CalendarEvent) => {
+    if (event.allDay) return 'All day';
+    const start = format(event.date, 'p');
+    return event.endDate ? `${start} – ${format(event.endDate, 'p')}` : start;
+};
+
+const formatStudyMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    if (hours === 0) return `${rest}m`;
+    return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
 const MonthView: React.FC<{
     currentDate: Date;
     eventsByDate: Record<string, CalendarEvent[]>;
@@ -48,11 +80,13 @@ const MonthView: React.FC<{
                        <div className="flex-1 overflow-y-auto space-y-1">
                             {dayEvents.map(event => (
                                 <button 
-                                    key={event.id}
+                                    key={`${event.connectionId}-${event.source}-${event.id}`}
                                     onClick={() => onEventSelect(event)}
                                     className={`w-full text-left text-xs p-1.5 rounded-md truncate transition-transform hover:scale-105 border-l-4 ${getEventStyle(event.type)}`}
-                                    title={event.title}
+                                    title={[event.title, formatEventTime(event), event.location].filter(Boolean).join('\n')}
                                 >
+                                    {(event.type === 'event' || event.type === 'external') && !event.allDay && <span className="opacity-80 mr-1">{format(event.date, 'p')}</span>}
+                                    {event.source === 'personal_task' && <PersonalTaskBadge className="mr-1" />}
                                     <span className="font-semibold">{event.title}</span>
                                 </button>
                             ))}
@@ -64,11 +98,37 @@ const MonthView: React.FC<{
     );
 };
 
+const StudyBlockCard: React.FC<{
+    event: CalendarEvent;
+    onEventSelect: (event: CalendarEvent) => void;
+    onToggle: (blockId: string, completed: boolean) => void;
+}> = ({ event, onEventSelect, onToggle }) => {
+    const completed = !!event.studyBlock?.completed;
+    return (
+        <div className={`flex items-start rounded-lg border-l-4 transition-shadow hover:shadow-md ${getEventStyle(event.type)} ${completed ? 'opacity-60' : ''}`}>
+            <button onClick={() => onEventSelect(event)} className="flex-1 min-w-0 text-left p-2">
+                <p className={`font-semibold text-sm ${completed ? 'line-through' : ''}`}>Study: {event.title}</p>
+                <p className="text-xs opacity-80">{formatEventTime(event)}</p>
+                <p className="text-xs opacity-80">{event.courseName}</p>
+            </button>
+            <button
+                onClick={() => event.studyBlock && onToggle(event.studyBlock.id, !completed)}
+                className={`m-2 w-5 h-5 flex-shrink-0 rounded border flex items-center justify-center ${completed ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-indigo-400 dark:border-indigo-500'}`}
+                aria-label={completed ? 'Mark study session as not done' : 'Mark study session as done'}
+                title={completed ? 'Done' : 'Mark as done'}
+            >
+                {completed && <CheckIcon className="w-3.5 h-3.5" />}
+            </button>
+        </div>
+    );
+};
+
 const WeekView: React.FC<{
     currentDate: Date;
     eventsByDate: Record<string, CalendarEvent[]>;
     onEventSelect: (event: CalendarEvent) => void;
-}> = ({ currentDate, eventsByDate, onEventSelect }) => {
+    onStudyBlockToggle: (blockId: string, completed: boolean) => void;
+}> = ({ currentDate, eventsByDate, onEventSelect, onStudyBlockToggle }) => {
     const days = useMemo(() => eachDayOfInterval({
         start: startOfWeek(currentDate),
         end: endOfWeek(currentDate)
@@ -87,13 +147,18 @@ const WeekView: React.FC<{
                             <p className={`text-2xl font-bold ${isCurrentDay ? 'text-blue-600 dark:text-blue-400' : 'text-gray-900 dark:text-white'}`}>{format(day, 'd')}</p>
                         </div>
                         <div className="flex-1 overflow-y-auto space-y-2 py-2">
-                             {dayEvents.length > 0 ? dayEvents.map(event => (
+                             {dayEvents.length > 0 ? dayEvents.map(event => event.type === 'study' ? (
+                                <StudyBlockCard key={event.studyBlock?.id} event={event} onEventSelect={onEventSelect} onToggle={onStudyBlockToggle} />
+                             ) : (
                                 <button 
-                                    key={event.id}
+                                    key={`${event.connectionId}-${event.source}-${event.id}`}
                                     onClick={() => onEventSelect(event)}
                                     className={`w-full text-left p-2 rounded-lg transition-shadow hover:shadow-md border-l-4 ${getEventStyle(event.type)}`}
                                 >
+                                    {event.source === 'personal_task' && <PersonalTaskBadge className="mb-1" />}
                                     <p className="font-semibold text-sm">{event.title}</p>
+                                    <p className="text-xs opacity-80">{formatEventTime(event)}</p>
+                                    {event.location && <p className="text-xs opacity-80 truncate" title={event.location}>{event.location}</p>}
                                     <p className="text-xs opacity-80">{event.courseName}</p>
                                 </button>
                              )) : (
@@ -109,14 +174,19 @@ const WeekView: React.FC<{
     );
 };
 
-const CalendarView: React.FC<CalendarViewProps> = ({ calendarEvents, onEventSelect }) => {
+const CalendarView: React.FC<CalendarViewProps> = ({ calendarEvents, onEventSelect, calendarFeed, canSubscribe, externalCalendars, studyEvents, unscheduledStudy, onStudyBlockToggle }) => {
     const [currentDate, setCurrentDate] = useState(new Date());
     const [view, setView] = useState<'month' | 'week'>('month');
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
 
     const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
     
+    // Study sessions would crowd the month view, so only the week view shows them.
+    const visibleEvents = useMemo(() => view === 'week' ? [...calendarEvents, ...studyEvents] : calendarEvents, [view, calendarEvents, studyEvents]);
+
     const eventsByDate = useMemo(() => {
-        return calendarEvents.reduce((acc, event) => {
+        const grouped = visibleEvents.reduce((acc, event) => {
             const dateKey = format(event.date, 'yyyy-MM-dd');
             if (!acc[dateKey]) {
                 acc[dateKey] = [];
@@ -124,7 +194,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({ calendarEvents, onEventSele
             acc[dateKey].push(event);
             return acc;
         }, {} as Record<string, CalendarEvent[]>);
-    }, [calendarEvents]);
+        // Keep each day's entries in chronological order.
+        Object.values(grouped).forEach(events => events.sort((a, b) => a.date.getTime() - b.date.getTime()));
+        return grouped;
+    }, [visibleEvents]);
 
     const handlePrev = () => {
         if (view === 'month') setCurrentDate(subMonths(currentDate, 1));
@@ -169,9 +242,29 @@ const CalendarView: React.FC<CalendarViewProps> = ({ calendarEvents, onEventSele
                             <ChevronRightIcon className="w-5 h-5" />
                         </button>
                     </div>
+                    <button onClick={() => setIsImportOpen(true)} className="px-4 py-1.5 text-sm font-semibold rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border border-gray-200 dark:border-gray-600">
+                        Calendars
+                    </button>
+                    <button onClick={() => setIsExportOpen(true)} className="px-4 py-1.5 text-sm font-semibold rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors border border-gray-200 dark:border-gray-600">
+                        Export
+                    </button>
                 </div>
             </div>
             
+            {view === 'week' && unscheduledStudy.length > 0 && (
+                <div className="mb-4 p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 text-sm text-yellow-800 dark:text-yellow-200 flex items-start">
+                    <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                    <div>
+                        <p className="font-semibold">Not enough free time to study before these are due:</p>
+                        <ul className="mt-1 list-disc list-inside">
+                            {unscheduledStudy.map(({ assignment, minutes }) => (
+                                <li key={getItemKey(assignment)}>{assignment.name} ({formatStudyMinutes(minutes)} short)</li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            )}
+
             {/* Calendar Grid */}
             <div className="flex flex-col flex-1 overflow-hidden">
                 {view === 'month' && (
@@ -183,9 +276,26 @@ const CalendarView: React.FC<CalendarViewProps> = ({ calendarEvents, onEventSele
                 {view === 'month' ? (
                     <MonthView currentDate={currentDate} eventsByDate={eventsByDate} onEventSelect={onEventSelect} />
                 ) : (
-                    <WeekView currentDate={currentDate} eventsByDate={eventsByDate} onEventSelect={onEventSelect} />
+                    <WeekView currentDate={currentDate} eventsByDate={eventsByDate} onEventSelect={onEventSelect} onStudyBlockToggle={onStudyBlockToggle} />
                 )}
             </div>
+
+            <CalendarExportDialog
+                isOpen={isExportOpen}
+                onClose={() => setIsExportOpen(false)}
+                events={calendarFeed.events}
+                feedUrl={calendarFeed.feedUrl}
+                canSubscribe={canSubscribe}
+                feedError={calendarFeed.error}
+                onEnableFeed={calendarFeed.enableFeed}
+                onDisableFeed={calendarFeed.disableFeed}
+                onRegenerateFeed={calendarFeed.regenerateFeed}
+            />
+            <CalendarImportDialog
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+                externalCalendars={externalCalendars}
+            />
         </div>
     );
 };
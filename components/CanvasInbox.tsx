@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { format, formatRelative } from 'date-fns';
+import { CourseUser } from '../types';
+import type { CanvasInbox as CanvasInboxState } from '../hooks/useCanvasInbox';
+import { getItemKey } from '../services/canvasConnections';
+import { Loader2Icon, MessageCircleIcon, PlusIcon, SendIcon, XIcon } from './icons/Icons';
+
+// Wait for a pause in typing before searching a course's people.
+const SEARCH_DELAY_MS = 300;
+// Canvas rejects shorter search terms.
+const MIN_SEARCH_LENGTH = 2;
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+const ComposeMessage: React.FC<{ inbox: CanvasInboxState; onClose: () => void }> = ({ inbox, onClose }) => {
+    const { messageableCourses, searchRecipients, sendMessage } = inbox;
+    const [courseKey, setCourseKey] = useState(messageableCourses[0] ? getItemKey(messageableCourses[0]) : '');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [results, setResults] = useState<CourseUser[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [recipients, setRecipients] = useState<CourseUser[]>([]);
+    const [subject, setSubject] = useState('');
+    const [body, setBody] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const course = messageableCourses.find(c => getItemKey(c) === courseKey);
+
+    useEffect(() => {
+        const term = searchTerm.trim();
+        if (!course || term.length < MIN_SEARCH_LENGTH) {
+            setResults([]);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            setIsSearching(true);
+            searchRecipients(course, term)
+                .then(users => {
+                    if (!cancelled) setResults(users);
+                })
+                .catch(err => console.error("Could not search course members:", err))
+                .finally(() => {
+                    if (!cancelled) setIsSearching(false);
+                });
+        }, SEARCH_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [course, searchTerm, searchRecipients]);
+
+    const handleCourseChange = (key: string) => {
+        // Recipients have to be in the course the message is sent in.
+        setCourseKey(key);
+        setRecipients([]);
+        setSearchTerm('');
+    };
+
+    const addRecipient = (user: CourseUser) => {
+        setRecipients(current => current.some(r => r.id === user.id) ? current : [...current, user]);
+        setSearchTerm('');
+    };
+
+    const handleSend = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!course || recipients.length === 0 || !body.trim()) return;
+        setIsSending(true);
+        setError(null);
+        try {
+            await sendMessage(course, recipients.map(r => r.id), subject.trim(), body.trim());
+            onClose();
+        } catch (err) {
+            console.error("Could not send the message:", err);
+            setError(err instanceof Error ? err.message : 'The message could not be sent.');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSend} className="flex-1 flex flex-col overflow-y-auto">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                <h3 className="font-bold text-lg text-gray-900 dark:text-white">New Message</h3>
+                <button type="button" onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon /></button>
+            </div>
+            <div className="p-6 space-y-4">
+                <div>
+                    <label htmlFor="inbox-course" className={labelClassName}>Course</label>
+                    <select id="inbox-course" value={courseKey} onChange={e => handleCourseChange(e.target.value)} className={inputClassName}>
+                        {messageableCourses.map(c => <option key={getItemKey(c)} value={getItemKey(c)}>{c.name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="inbox-recipients" className={labelClassName}>To</label>
+                    {recipients.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                            {recipients.map(r => (
+                                <span key={r.id} className="inline-flex items-center px-2 py-1 text-sm rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200">
+                                    {r.name}
+                                    <button type="button" onClick={() => setRecipients(current => current.filter(c => c.id !== r.id))} className="ml-1" aria-label={`Remove ${r.name}`}><XIcon className="w-3 h-3" /></button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="relative">
+                        <input id="inbox-recipients" type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} placeholder="Search by name, e.g. your instructor" className={inputClassName} autoComplete="off" />
+                        {isSearching && <Loader2Icon className="w-4 h-4 absolute right-3 top-2.5 animate-spin text-gray-400" />}
+                    </div>
+                    {results.length > 0 && (
+                        <ul className="mt-1 max-h-48 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-200 dark:divide-gray-700">
+                            {results.map(user => (
+                                <li key={user.id}>
+                                    <button type="button" onClick={() => addRecipient(user)} className="w-full flex justify-between items-center px-3 py-2 text-sm text-left hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                        <span className="text-gray-900 dark:text-white">{user.name}</span>
+                                        <span className="text-xs text-gray-500 dark:text-gray-400">{user.roles.join(', ')}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+                <div>
+                    <label htmlFor="inbox-subject" className={labelClassName}>Subject</label>
+                    <input id="inbox-subject" type="text" value={subject} onChange={e => setSubject(e.target.value)} className={inputClassName} />
+                </div>
+                <div>
+                    <label htmlFor="inbox-body" className={labelClassName}>Message</label>
+                    <textarea id="inbox-body" value={body} onChange={e => setBody(e.target.value)} rows={6} className={inputClassName} />
+                </div>
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">Cancel</button>
+                    <button type="submit" disabled={isSending || !course || recipients.length === 0 || !body.trim()} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center">
+                        {isSending ? <Loader2Icon className="w-4 h-4 mr-2 animate-spin" /> : <SendIcon className="w-4 h-4 mr-2" />}
+                        Send
+                    </button>
+                </div>
+            </div>
+        </form>
+    );
+};
+
+interface CanvasInboxProps {
+    inbox: CanvasInboxState;
+}
+
+/**
+ * The student's Canvas Inbox, for messaging instructors and classmates through Canvas.
+ */
+const CanvasInbox: React.FC<CanvasInboxProps> = ({ inbox }) => {
+    const { conversations, isLoading, error, activeConversation, messages, isMessagesLoading, messagesError, openConversation, reply } = inbox;
+    const [isComposing, setIsComposing] = useState(false);
+    const [replyText, setReplyText] = useState('');
+    const [isReplying, setIsReplying] = useState(false);
+    const [replyError, setReplyError] = useState<string | null>(null);
+    const messagesEndRef = useRef<HTMLDivElement | null>(null);
+
+    useEffect(() => {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages]);
+
+    const handleOpen = (key: string) => {
+        setIsComposing(false);
+        setReplyText('');
+        setReplyError(null);
+        openConversation(key);
+    };
+
+    const handleReply = async () => {
+        if (!replyText.trim()) return;
+        setIsReplying(true);
+        setReplyError(null);
+        try {
+            await reply(replyText.trim());
+            setReplyText('');
+        } catch (err) {
+            console.error("Could not send the reply:", err);
+            setReplyError(err instanceof Error ? err.message : 'The reply could not be sent.');
+        } finally {
+            setIsReplying(false);
+        }
+    };
+
+    const renderConversation = () => {
+        if (!activeConversation) {
+            return (
+                <div className="flex h-full flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-8">
+                    <MessageCircleIcon className="w-16 h-16 mb-4" />
+                    <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Select a conversation</h3>
+                    <p className="max-w-sm mt-2">Choose a conversation from your Canvas Inbox, or start a new message to someone in one of your courses.</p>
+                </div>
+            );
+        }
+        return (
+            <>
+                <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="font-bold text-lg text-gray-900 dark:text-white">{activeConversation.subject}</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                        {activeConversation.participants.map(p => p.name).join(', ')}
+                        {activeConversation.context_name && ` · ${activeConversation.context_name}`}
+                    </p>
+                </div>
+                <div className="flex-1 p-6 overflow-y-auto space-y-4">
+                    {isMessagesLoading ? (
+                        <div className="flex justify-center py-8 text-gray-500 dark:text-gray-400"><Loader2Icon className="w-6 h-6 animate-spin" /></div>
+                    ) : messagesError ? (
+                        <p className="text-sm text-red-600 dark:text-red-400">{messagesError}</p>
+                    ) : messages.map(message => (
+                        <div key={message.id}>
+                            <p className="text-sm">
+                                <span className="font-semibold text-gray-900 dark:text-white">{message.authorName}</span>
+                                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{format(new Date(message.created_at), 'MMM d, p')}</span>
+                            </p>
+                            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{message.body}</p>
+                        </div>
+                    ))}
+                    <div ref={messagesEndRef} />
+                </div>
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+                    {replyError && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{replyError}</p>}
+                    <div className="flex items-end space-x-3 bg-gray-100 dark:bg-gray-700 rounded-lg p-2">
+                        <textarea
+                            value={replyText}
+                            onChange={e => setReplyText(e.target.value)}
+                            rows={2}
+                            placeholder="Write a reply..."
+                            className="flex-1 bg-transparent p-2 text-sm focus:outline-none resize-none"
+                        />
+                        <button onClick={handleReply} className="bg-blue-600 text-white p-2 rounded-md hover:bg-blue-500 disabled:opacity-50" disabled={isReplying || isMessagesLoading || !replyText.trim()} aria-label="Send reply">
+                            {isReplying ? <Loader2Icon className="w-5 h-5 animate-spin" /> : <SendIcon className="w-5 h-5" />}
+                        </button>
+                    </div>
+                </div>
+            </>
+        );
+    };
+
+    return (
+        <div className="flex flex-1 h-full">
+            <div className="w-full sm:w-1/3 md:w-1/4 h-full flex flex-col border-r border-gray-200 dark:border-gray-700">
+                <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+                    <button onClick={() => setIsComposing(true)} className="w-full flex items-center justify-center px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition-colors">
+                        <PlusIcon className="w-4 h-4 mr-2" /> New Message
+                    </button>
+                </div>
+                {error && <p className="p-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <div className="flex-1 overflow-y-auto">
+                    {isLoading && conversations.length === 0 ? (
+                        <div className="flex justify-center p-6 text-gray-500 dark:text-gray-400"><Loader2Icon className="w-6 h-6 animate-spin" /></div>
+                    ) : conversations.length === 0 ? (
+                        <p className="p-4 text-sm text-center text-gray-500 dark:text-gray-400">Your Canvas Inbox is empty.</p>
+                    ) : conversations.map(conversation => {
+                        const key = getItemKey(conversation);
+                        const isUnread = conversation.workflow_state === 'unread';
+                        return (
+                            <button key={key} onClick={() => handleOpen(key)} className={`w-full text-left p-4 border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${activeConversation && getItemKey(activeConversation) === key && !isComposing ? 'bg-blue-50 dark:bg-blue-900/50' : ''}`}>
+                                <div className="flex justify-between items-center gap-2">
+                                    <h3 className={`truncate text-gray-900 dark:text-white ${isUnread ? 'font-bold' : 'font-semibold'}`}>
+                                        {isUnread && <span className="inline-block w-2 h-2 mr-2 rounded-full bg-blue-600 align-middle" aria-label="Unread" />}
+                                        {conversation.subject}
+                                    </h3>
+                                    {conversation.last_message_at && (
+                                        <p className="flex-shrink-0 text-xs text-gray-400 dark:text-gray-500">{formatRelative(new Date(conversation.last_message_at), new Date())}</p>
+                                    )}
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{conversation.participants.map(p => p.name).join(', ')}</p>
+                                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{conversation.last_message}</p>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+            <div className="flex-1 flex flex-col">
+                {isComposing ? <ComposeMessage inbox={inbox} onClose={() => setIsComposing(false)} /> : renderConversation()}
+            </div>
+        </div>
+    );
+};
+
+export default CanvasInbox;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AssignmentChange, AssignmentChangeType } from '../types';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AwardIcon, ClockIcon, DocumentTextIcon, PlusIcon, TrashIcon, ExclamationTriangleIcon } from './icons/Icons';
+
+interface ChangeFeedProps {
+    changes: AssignmentChange[];
+    onChangeClick: (change: AssignmentChange) => void;
+    onDismiss: () => void;
+}
+
+const CHANGE_STYLES: Record<AssignmentChangeType, { icon: React.FC<React.SVGProps<SVGSVGElement>>; color: string }> = {
+    added: { icon: PlusIcon, color: 'text-green-500' },
+    removed: { icon: TrashIcon, color: 'text-red-500' },
+    due_date_changed: { icon: ClockIcon, color: 'text-yellow-500' },
+    points_changed: { icon: ExclamationTriangleIcon, color: 'text-orange-500' },
+    description_changed: { icon: DocumentTextIcon, color: 'text-blue-500' },
+    graded: { icon: AwardIcon, color: 'text-purple-500' },
+};
+
+const formatDate = (value: string | number | null | undefined) => typeof value === 'string' ? format(new Date(value), 'MMM d, p') : 'no due date';
+
+const describeChange = (change: AssignmentChange): string => {
+    switch (change.type) {
+        case 'added':
+            return change.current ? `New assignment, due ${formatDate(change.current)}` : 'New assignment';
+        case 'removed':
+            return 'Removed from Canvas';
+        case 'due_date_changed':
+            return `Due date moved from ${formatDate(change.previous)} to ${formatDate(change.current)}`;
+        case 'points_changed':
+            return `Points changed from ${change.previous ?? '—'} to ${change.current ?? '—'}`;
+        case 'description_changed':
+            return 'Instructions were updated';
+        case 'graded':
+            return change.previous !== null && change.previous !== undefined
+                ? `Regraded from ${change.previous} to ${change.current}`
+                : `Graded: ${change.current}`;
+    }
+};
+
+const ChangeFeed: React.FC<ChangeFeedProps> = ({ changes, onChangeClick, onDismiss }) => {
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">What Changed Since Last Sync</h2>
+                <button onClick={onDismiss} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">Dismiss all</button>
+            </div>
+            <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-2 space-y-1 max-h-96 overflow-y-auto">
+                {changes.map(change => {
+                    const { icon: Icon, color } = CHANGE_STYLES[change.type];
+                    return (
+                        <button
+                            key={change.id}
+                            onClick={() => onChangeClick(change)}
+                            disabled={change.type === 'removed'}
+                            className="flex items-start w-full text-left p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50 disabled:hover:bg-transparent disabled:cursor-default"
+                        >
+                            <Icon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${color}`} />
+                            <div className="ml-3 min-w-0">
+                                <p className="font-semibold text-gray-900 dark:text-white truncate">{change.assignmentName}</p>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">{describeChange(change)}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">{change.courseName} · {formatDistanceToNow(new Date(change.detectedAt), { addSuffix: true })}</p>
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ChangeFeed;
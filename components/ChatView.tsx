@@ -3,12 +3,17 @@ import { UserChatMessage, ConversationSummary } from '../types';
 import { useAuth } from '../hooks/useAuth';
 import { db } from '../services/firebaseService';
 import { collection, query, where, orderBy, limit, onSnapshot, doc, addDoc, setDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
-import { UsersIcon, SendIcon, PlusIcon, ClipboardCopyIcon, CheckIcon } from './icons/Icons';
+import type { CanvasInbox as CanvasInboxState } from '../hooks/useCanvasInbox';
+import CanvasInbox from './CanvasInbox';
+import { UsersIcon, SendIcon, PlusIcon, ClipboardCopyIcon, CheckIcon, MessageCircleIcon } from './icons/Icons';
 // Fix: 'parseISO' is not exported from the root 'date-fns' module in this project's setup. Importing it directly from its path.
 import { format, formatRelative } from 'date-fns';
 import parseISO from 'date-fns/parseISO';
 
-const ChatView: React.FC = () => {
+type ChatTab = 'inbox' | 'peer';
+
+// Chat between users of this app, who add each other by their chat ID.
+const PeerChat: React.FC = () => {
     const { user } = useAuth();
     const myId = user?.id;
     
@@ -186,7 +191,7 @@ const ChatView: React.FC = () => {
     }
 
     return (
-        <div className="flex flex-1 animate-fade-in bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+        <div className="flex flex-1 h-full">
             <div className="w-full sm:w-1/3 md:w-1/4 h-full flex flex-col border-r border-gray-200 dark:border-gray-700">
                 <div className="p-4 border-b border-gray-200 dark:border-gray-700">
                     <div className="text-sm p-3 rounded-md bg-gray-100 dark:bg-gray-700 text-center">
@@ -277,4 +282,41 @@ const ChatView: React.FC = () => {
     );
 };
 
+interface ChatViewProps {
+    inbox: CanvasInboxState;
+}
+
+const ChatView: React.FC<ChatViewProps> = ({ inbox }) => {
+    const [activeTab, setActiveTab] = useState<ChatTab>(inbox.isEnabled ? 'inbox' : 'peer');
+
+    const tabClassName = (tab: ChatTab) => `flex items-center px-4 py-2 -mb-px text-sm font-semibold border-b-2 transition-colors ${activeTab === tab ? 'border-blue-600 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`;
+
+    return (
+        <div className="flex flex-col flex-1 h-full animate-fade-in">
+            <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
+                <button onClick={() => setActiveTab('inbox')} className={tabClassName('inbox')}>
+                    <MessageCircleIcon className="w-4 h-4 mr-2" /> Canvas Inbox
+                    {inbox.unreadCount > 0 && <span className="ml-2 px-2 py-0.5 text-xs font-bold rounded-full bg-blue-600 text-white">{inbox.unreadCount}</span>}
+                </button>
+                <button onClick={() => setActiveTab('peer')} className={tabClassName('peer')}>
+                    <UsersIcon className="w-4 h-4 mr-2" /> Peer Chat
+                </button>
+            </div>
+            <div className="flex flex-1 min-h-0 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                {activeTab === 'peer' ? (
+                    <PeerChat />
+                ) : inbox.isEnabled ? (
+                    <CanvasInbox inbox={inbox} />
+                ) : (
+                    <div className="flex flex-1 flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400 p-8">
+                        <MessageCircleIcon className="w-16 h-16 mb-4" />
+                        <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Canvas Inbox unavailable</h3>
+                        <p className="max-w-sm mt-2">The Inbox is only available with a Canvas connection. Sample data and other LMSes don't have one.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
 export default ChatView;
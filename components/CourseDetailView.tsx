@@ -0,0 +1,344 @@
+import React, { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { Assignment, AssignmentStatus, AssignmentStatusSource, CanvasConnection, Course, CourseFile, CourseFolder, CourseModule, CoursePage, ModuleCompletionRequirement, ModuleItem } from '../types';
+import { useCourseContent } from '../hooks/useCourseContent';
+import { CourseSyllabi } from '../hooks/useCourseSyllabi';
+import { canReadFileText, getFileText, getPageText, sanitizeHtml } from '../services/courseContentService';
+import { TextAiModal, AiFeature } from './AiToolsView';
+import DiscussionsView from './DiscussionsView';
+import SyllabusPanel from './SyllabusPanel';
+import { ChevronLeftIcon, ChevronRightIcon, ClipboardListIcon, DocumentTextIcon, ExternalLinkIcon, Loader2Icon, CheckIcon, SparklesIcon, BookOpenIcon } from './icons/Icons';
+
+type CourseTab = 'modules' | 'pages' | 'files' | 'discussions' | 'syllabus';
+
+interface CourseDetailViewProps {
+    course: Course;
+    // Must be a Canvas connection.
+    connection: CanvasConnection;
+    // The course's assignments.
+    assignments: Assignment[];
+    onStatusChange: (assignmentKey: string, status: AssignmentStatus, source?: AssignmentStatusSource) => void;
+    courseSyllabi: CourseSyllabi;
+    onBack: () => void;
+    onViewAssignments: () => void;
+}
+
+const TABS: { id: CourseTab; label: string }[] = [
+    { id: 'modules', label: 'Modules' },
+    { id: 'pages', label: 'Pages' },
+    { id: 'files', label: 'Files' },
+    { id: 'discussions', label: 'Discussions' },
+    { id: 'syllabus', label: 'Syllabus' },
+];
+
+const getRequirementLabel = (requirement: ModuleCompletionRequirement): string => {
+    switch (requirement.type) {
+        case 'must_view': return 'View';
+        case 'must_submit': return 'Submit';
+        case 'must_contribute': return 'Contribute';
+        case 'min_score': return `Score at least ${requirement.min_score ?? 0}`;
+        case 'must_mark_done': return 'Mark as done';
+    }
+};
+
+const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const SectionError: React.FC<{ message: string }> = ({ message }) => (
+    <div className="p-4 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+        {message}
+    </div>
+);
+
+const EmptySection: React.FC<{ message: string }> = ({ message }) => (
+    <div className="text-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <p className="text-gray-500 dark:text-gray-400">{message}</p>
+    </div>
+);
+
+const ModuleItemRow: React.FC<{ item: ModuleItem; files: CourseFile[]; onOpenPage: (pageUrl: string) => void }> = ({ item, files, onOpenPage }) => {
+    if (item.type === 'SubHeader') {
+        return <li className="pt-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400" style={{ paddingLeft: `${item.indent * 1.5}rem` }}>{item.title}</li>;
+    }
+
+    const file = item.type === 'File' ? files.find(f => f.id === item.content_id) : undefined;
+    const href = file?.url ?? item.external_url ?? item.html_url;
+    const requirement = item.completion_requirement;
+    const linkClassName = "text-sm text-gray-800 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400 hover:underline text-left";
+
+    return (
+        <li className="flex items-center justify-between gap-3 py-1.5" style={{ paddingLeft: `${item.indent * 1.5}rem` }}>
+            <div className="flex items-center min-w-0">
+                <DocumentTextIcon className="w-4 h-4 mr-2 flex-shrink-0 text-gray-400" />
+                {item.type === 'Page' && item.page_url ? (
+                    <button onClick={() => onOpenPage(item.page_url!)} className={`${linkClassName} truncate`}>{item.title}</button>
+                ) : href ? (
+                    <a href={href} target="_blank" rel="noopener noreferrer" className={`${linkClassName} truncate`}>{item.title}</a>
+                ) : (
+                    <span className="text-sm text-gray-800 dark:text-gray-200 truncate">{item.title}</span>
+                )}
+            </div>
+            {requirement && (
+                <span className={`flex-shrink-0 inline-flex items-center px-2 py-0.5 text-xs font-medium rounded-full ${requirement.completed ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}>
+                    {requirement.completed && <CheckIcon className="w-3 h-3 mr-1" />}
+                    {getRequirementLabel(requirement)}
+                </span>
+            )}
+        </li>
+    );
+};
+
+const ModuleCard: React.FC<{ module: CourseModule; files: CourseFile[]; onOpenPage: (pageUrl: string) => void }> = ({ module, files, onOpenPage }) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="font-semibold text-gray-900 dark:text-white">{module.name}</h3>
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                {module.state === 'locked' && module.unlock_at && <span>Unlocks {format(new Date(module.unlock_at), 'MMM d')}</span>}
+                {module.state && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 capitalize">{module.state.replace('_', ' ')}</span>}
+            </div>
+        </div>
+        {module.items.length > 0 ? (
+            <ul className="px-4 py-2">
+                {module.items.map(item => <ModuleItemRow key={item.id} item={item} files={files} onOpenPage={onOpenPage} />)}
+            </ul>
+        ) : (
+            <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No items.</p>
+        )}
+    </div>
+);
+
+/**
+ * A Canvas course's modules, pages, files, discussions and syllabus. Pages and readable files can be opened in
+ * the AI summarizer and study guide generator.
+ */
+const CourseDetailView: React.FC<CourseDetailViewProps> = ({ course, connection, assignments, onStatusChange, courseSyllabi, onBack, onViewAssignments }) => {
+    const { modules, pages, folders, files, errors, isLoading, loadPage } = useCourseContent(connection, course.id);
+    const [activeTab, setActiveTab] = useState<CourseTab>('modules');
+    const [selectedPage, setSelectedPage] = useState<CoursePage | null>(null);
+    const [isPageLoading, setIsPageLoading] = useState(false);
+    const [pageError, setPageError] = useState<string | null>(null);
+    // Null is the course's root folder.
+    const [currentFolderId, setCurrentFolderId] = useState<number | null>(null);
+    const [readingFileId, setReadingFileId] = useState<number | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [aiTool, setAiTool] = useState<{ feature: AiFeature; text: string } | null>(null);
+
+    const rootFolder = useMemo(() => folders.find(folder => folder.parent_folder_id === null) ?? null, [folders]);
+    const currentFolder = useMemo(
+        () => folders.find(folder => folder.id === currentFolderId) ?? rootFolder,
+        [folders, currentFolderId, rootFolder]
+    );
+    const breadcrumbs = useMemo(() => {
+        const trail: CourseFolder[] = [];
+        for (let folder = currentFolder; folder; folder = folders.find(f => f.id === folder!.parent_folder_id) ?? null) {
+            trail.unshift(folder);
+        }
+        return trail;
+    }, [folders, currentFolder]);
+    const subfolders = folders.filter(folder => currentFolder && folder.parent_folder_id === currentFolder.id);
+    const folderFiles = files.filter(file => currentFolder && file.folder_id === currentFolder.id);
+
+    const openPage = async (pageUrl: string) => {
+        setActiveTab('pages');
+        setIsPageLoading(true);
+        setPageError(null);
+        try {
+            setSelectedPage(await loadPage(pageUrl));
+        } catch (error) {
+            console.error("Could not load the page:", error);
+            setPageError(error instanceof Error ? error.message : 'The page could not be loaded.');
+        } finally {
+            setIsPageLoading(false);
+        }
+    };
+
+    const openFileInAi = async (file: CourseFile) => {
+        setReadingFileId(file.id);
+        setFileError(null);
+        try {
+            setAiTool({ feature: 'summarizer', text: await getFileText(file) });
+        } catch (error) {
+            console.error("Could not read the file:", error);
+            setFileError(error instanceof Error ? error.message : 'The file could not be read.');
+        } finally {
+            setReadingFileId(null);
+        }
+    };
+
+    const renderModules = () => {
+        if (errors.modules) return <SectionError message={errors.modules} />;
+        if (modules.length === 0) return <EmptySection message="This course has no modules." />;
+        return (
+            <div className="space-y-4">
+                {modules.map(module => <ModuleCard key={module.id} module={module} files={files} onOpenPage={openPage} />)}
+            </div>
+        );
+    };
+
+    const renderPages = () => {
+        if (errors.pages) return <SectionError message={errors.pages} />;
+        if (pages.length === 0) return <EmptySection message="This course has no pages." />;
+        return (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <ul className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700 self-start">
+                    {pages.map(page => (
+                        <li key={page.page_id}>
+                            <button
+                                onClick={() => openPage(page.url)}
+                                className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 dark:hover:bg-gray-700/50 ${selectedPage?.url === page.url ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-semibold' : 'text-gray-800 dark:text-gray-200'}`}
+                            >
+                                {page.title}
+                                {page.front_page && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(Front page)</span>}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+                    {isPageLoading ? (
+                        <div className="flex items-center justify-center py-12 text-gray-500 dark:text-gray-400"><Loader2Icon className="w-6 h-6 animate-spin" /></div>
+                    ) : pageError ? (
+                        <SectionError message={pageError} />
+                    ) : selectedPage ? (
+                        <>
+                            <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+                                <div>
+                                    <h2 className="text-xl font-bold text-gray-900 dark:text-white">{selectedPage.title}</h2>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Updated {format(new Date(selectedPage.updated_at), 'MMM d, yyyy')}</p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={() => setAiTool({ feature: 'summarizer', text: getPageText(selectedPage) })} className="flex items-center px-3 py-1.5 text-sm font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                                        <SparklesIcon className="w-4 h-4 mr-1" /> Summarize
+                                    </button>
+                                    <button onClick={() => setAiTool({ feature: 'studyGuide', text: getPageText(selectedPage) })} className="flex items-center px-3 py-1.5 text-sm font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/50">
+                                        <SparklesIcon className="w-4 h-4 mr-1" /> Study Guide
+                                    </button>
+                                </div>
+                            </div>
+                            <div
+                                className="prose prose-sm max-w-none text-gray-700 dark:text-gray-300 dark:prose-invert"
+                                dangerouslySetInnerHTML={{ __html: sanitizeHtml(selectedPage.body || '<p>This page is empty.</p>') }}
+                            />
+                        </>
+                    ) : (
+                        <p className="text-center py-12 text-gray-500 dark:text-gray-400">Select a page to read it.</p>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
+    const renderFiles = () => {
+        if (errors.files) return <SectionError message={errors.files} />;
+        if (!currentFolder) return <EmptySection message="This course has no files." />;
+        return (
+            <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <nav className="flex flex-wrap items-center px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm" aria-label="Folder">
+                    {breadcrumbs.map((folder, index) => (
+                        <React.Fragment key={folder.id}>
+                            {index > 0 && <ChevronRightIcon className="w-4 h-4 mx-1 text-gray-400" />}
+                            <button onClick={() => setCurrentFolderId(folder.id)} className={index === breadcrumbs.length - 1 ? 'font-semibold text-gray-900 dark:text-white' : 'text-blue-600 dark:text-blue-400 hover:underline'}>
+                                {/* Canvas names the root folder "course files". */}
+                                {folder.parent_folder_id === null ? 'Files' : folder.name}
+                            </button>
+                        </React.Fragment>
+                    ))}
+                </nav>
+                {fileError && <div className="p-4"><SectionError message={fileError} /></div>}
+                {subfolders.length === 0 && folderFiles.length === 0 ? (
+                    <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">This folder is empty.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {subfolders.map(folder => (
+                            <li key={`folder-${folder.id}`}>
+                                <button onClick={() => setCurrentFolderId(folder.id)} className="w-full flex items-center px-4 py-3 text-sm text-gray-800 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                                    <BookOpenIcon className="w-4 h-4 mr-2 text-gray-400" />
+                                    <span className="font-medium">{folder.name}</span>
+                                    <ChevronRightIcon className="w-4 h-4 ml-auto text-gray-400" />
+                                </button>
+                            </li>
+                        ))}
+                        {folderFiles.map(file => (
+                            <li key={file.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                                <div className="flex items-center min-w-0">
+                                    <DocumentTextIcon className="w-4 h-4 mr-2 flex-shrink-0 text-gray-400" />
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-gray-800 dark:text-gray-200 truncate" title={file.display_name}>{file.display_name}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)} · Updated {format(new Date(file.updated_at), 'MMM d, yyyy')}</p>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-3 flex-shrink-0">
+                                    {canReadFileText(file) && (
+                                        <button onClick={() => openFileInAi(file)} disabled={readingFileId !== null} className="flex items-center text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+                                            {readingFileId === file.id ? <Loader2Icon className="w-4 h-4 mr-1 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-1" />}
+                                            {readingFileId === file.id ? 'Reading...' : 'Summarize'}
+                                        </button>
+                                    )}
+                                    <a href={file.url} target="_blank" rel="noopener noreferrer" className="flex items-center text-sm font-semibold text-gray-600 dark:text-gray-300 hover:underline">
+                                        <ExternalLinkIcon className="w-4 h-4 mr-1" /> Download
+                                    </a>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="animate-fade-in">
+            <button onClick={onBack} className="flex items-center mb-4 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">
+                <ChevronLeftIcon className="w-4 h-4 mr-1" /> All Courses
+            </button>
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{course.name}</h1>
+                    <p className="text-gray-500 dark:text-gray-400">{course.course_code}</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onViewAssignments} className="flex items-center px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition-colors">
+                        <ClipboardListIcon className="w-4 h-4 mr-2" /> View Assignments
+                    </button>
+                    {connection.canvasUrl && (
+                        <a href={`${connection.canvasUrl.replace(/\/$/, '')}/courses/${course.id}`} target="_blank" rel="noopener noreferrer" className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">
+                            <ExternalLinkIcon className="w-4 h-4 mr-2" /> Open in Canvas
+                        </a>
+                    )}
+                </div>
+            </div>
+            <div className="flex border-b border-gray-200 dark:border-gray-700 mb-6">
+                {TABS.map(tab => (
+                    <button
+                        key={tab.id}
+                        onClick={() => setActiveTab(tab.id)}
+                        className={`px-4 py-2 -mb-px text-sm font-semibold border-b-2 transition-colors ${activeTab === tab.id ? 'border-blue-600 text-blue-600 dark:text-blue-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'}`}
+                    >
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+            {activeTab === 'discussions' ? (
+                // Discussions load on their own, only once the tab is opened.
+                <DiscussionsView course={course} connection={connection} assignments={assignments} onStatusChange={onStatusChange} />
+            ) : activeTab === 'syllabus' ? (
+                <SyllabusPanel course={course} connection={connection} assignments={assignments} courseSyllabi={courseSyllabi} />
+            ) : isLoading ? (
+                <div className="flex items-center justify-center py-20 text-gray-500 dark:text-gray-400">
+                    <Loader2Icon className="w-8 h-8 animate-spin" />
+                </div>
+            ) : (
+                <>
+                    {activeTab === 'modules' && renderModules()}
+                    {activeTab === 'pages' && renderPages()}
+                    {activeTab === 'files' && renderFiles()}
+                </>
+            )}
+            {aiTool && <TextAiModal feature={aiTool.feature} initialText={aiTool.text} onClose={() => setAiTool(null)} />}
+        </div>
+    );
+};
+
+export default CourseDetailView;
@@ -1,33 +1,96 @@
-import React from 'react';
-import { Course } from '../types';
-import { BookOpenIcon } from './icons/Icons';
+import React, { useState } from 'react';
+import { Assignment, AssignmentStatus, AssignmentStatusSource, Course, Settings } from '../types';
+import { BookOpenIcon, ChevronLeftIcon } from './icons/Icons';
+import WhatIfGradeCalculator from './WhatIfGradeCalculator';
+import CourseDetailView from './CourseDetailView';
+import { CourseSyllabi } from '../hooks/useCourseSyllabi';
+import { getConnection, getCourseKeyOf, getItemKey, isCanvasConnection } from '../services/canvasConnections';
 
-const CourseCard: React.FC<{ course: Course; onClick: () => void; }> = ({ course, onClick }) => {
+const CourseCard: React.FC<{ course: Course; institution: string | null; onClick: () => void; onWhatIfClick: () => void; }> = ({ course, institution, onClick, onWhatIfClick }) => {
     // Generate a consistent, vibrant color based on the course ID
     const colors = ['bg-blue-500', 'bg-purple-500', 'bg-green-500', 'bg-red-500', 'bg-yellow-500', 'bg-indigo-500'];
     const color = colors[course.id % colors.length];
 
     return (
-        <button onClick={onClick} className="bg-white dark:bg-gray-800 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 transition-all duration-300 hover:shadow-lg hover:border-blue-500/50 transform hover:-translate-y-1 w-full text-left">
-            <div className={`h-20 ${color} flex items-center justify-center`}>
-                 <BookOpenIcon className="w-10 h-10 text-white opacity-50" />
-            </div>
-            <div className="p-5">
-                <h3 className="font-bold text-lg text-gray-900 dark:text-white truncate" title={course.name}>{course.name}</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">{course.course_code}</p>
+        <div className="bg-white dark:bg-gray-800 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 transition-all duration-300 hover:shadow-lg hover:border-blue-500/50 transform hover:-translate-y-1">
+            <button onClick={onClick} className="w-full text-left">
+                <div className={`h-20 ${color} flex items-center justify-center`}>
+                     <BookOpenIcon className="w-10 h-10 text-white opacity-50" />
+                </div>
+                <div className="p-5">
+                    <h3 className="font-bold text-lg text-gray-900 dark:text-white truncate" title={course.name}>{course.name}</h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">{course.course_code}</p>
+                    {institution && (
+                        <span className="inline-block mt-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 truncate max-w-full" title={institution}>
+                            {institution}
+                        </span>
+                    )}
+                </div>
+            </button>
+            <div className="px-5 pb-4">
+                <button onClick={onWhatIfClick} className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                    What-If Grades
+                </button>
             </div>
-        </button>
+        </div>
     );
 };
 
 
 interface CoursesViewProps {
     courses: Course[];
-    onCourseClick: (courseId: number) => void;
+    assignments: Assignment[];
+    onStatusChange: (assignmentKey: string, status: AssignmentStatus, source?: AssignmentStatusSource) => void;
+    courseSyllabi: CourseSyllabi;
+    // Shows the course's assignments. Called with the course key from `getItemKey`.
+    onCourseClick: (courseKey: string) => void;
     connectionStatus: 'live' | 'sample' | 'error';
+    settings: Settings | null;
+    // 'all', or the ID of the Canvas connection to show.
+    institutionFilter: string;
+    onInstitutionFilterChange: (filter: string) => void;
 }
 
-const CoursesView: React.FC<CoursesViewProps> = ({ courses, onCourseClick, connectionStatus }) => {
+const CoursesView: React.FC<CoursesViewProps> = ({ courses, assignments, onStatusChange, courseSyllabi, onCourseClick, connectionStatus, settings, institutionFilter, onInstitutionFilterChange }) => {
+    const [whatIfCourse, setWhatIfCourse] = useState<Course | null>(null);
+    // The course whose detail page is open, by `getItemKey`.
+    const [selectedCourseKey, setSelectedCourseKey] = useState<string | null>(null);
+    const hasMultipleConnections = (settings?.connections.length ?? 0) > 1;
+
+    const selectedCourse = courses.find(course => getItemKey(course) === selectedCourseKey);
+    if (selectedCourse) {
+        const connection = getConnection(settings, selectedCourse.connectionId);
+        // Modules, pages and files come from the Canvas API, so sample data and other LMSes only link to assignments.
+        if (connection && isCanvasConnection(connection) && !settings?.sampleDataMode) {
+            return (
+                <CourseDetailView
+                    course={selectedCourse}
+                    connection={connection}
+                    assignments={assignments.filter(a => getCourseKeyOf(a) === selectedCourseKey)}
+                    onStatusChange={onStatusChange}
+                    courseSyllabi={courseSyllabi}
+                    onBack={() => setSelectedCourseKey(null)}
+                    onViewAssignments={() => onCourseClick(getItemKey(selectedCourse))}
+                />
+            );
+        }
+        return (
+            <div className="animate-fade-in">
+                <button onClick={() => setSelectedCourseKey(null)} className="flex items-center mb-4 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white">
+                    <ChevronLeftIcon className="w-4 h-4 mr-1" /> All Courses
+                </button>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{selectedCourse.name}</h1>
+                <p className="text-gray-500 dark:text-gray-400 mb-6">{selectedCourse.course_code}</p>
+                <div className="text-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <p className="text-gray-500 dark:text-gray-400">Modules, pages and files are only available for Canvas courses.</p>
+                    <button onClick={() => onCourseClick(getItemKey(selectedCourse))} className="mt-4 px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition-colors">
+                        View Assignments
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
     const renderEmptyState = () => {
         if (connectionStatus === 'live') {
             return (
@@ -49,16 +112,40 @@ const CoursesView: React.FC<CoursesViewProps> = ({ courses, onCourseClick, conne
 
     return (
         <div className="animate-fade-in">
-            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">Your Courses</h1>
+            <div className="flex items-center justify-between mb-6">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Your Courses</h1>
+                {hasMultipleConnections && (
+                    <select
+                        value={institutionFilter}
+                        onChange={(e) => onInstitutionFilterChange(e.target.value)}
+                        aria-label="Filter by institution"
+                        className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="all">All Institutions</option>
+                        {settings!.connections.map(connection => (
+                            <option key={connection.id} value={connection.id}>{connection.name}</option>
+                        ))}
+                    </select>
+                )}
+            </div>
              {courses.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                     {courses.map(course => (
-                        <CourseCard key={course.id} course={course} onClick={() => onCourseClick(course.id)} />
+                        <CourseCard
+                            key={getItemKey(course)}
+                            course={course}
+                            institution={hasMultipleConnections ? getConnection(settings, course.connectionId)?.name ?? null : null}
+                            onClick={() => setSelectedCourseKey(getItemKey(course))}
+                            onWhatIfClick={() => setWhatIfCourse(course)}
+                        />
                     ))}
                 </div>
             ) : (
                 renderEmptyState()
             )}
+            {whatIfCourse && settings && (
+                <WhatIfGradeCalculator course={whatIfCourse} settings={settings} onClose={() => setWhatIfCourse(null)} />
+            )}
         </div>
     );
 };
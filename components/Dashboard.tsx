@@ -1,14 +1,24 @@
 import React from 'react';
-import { Assignment, CalendarEvent, Course } from '../types';
+import { Assignment, AssignmentChange, CalendarEvent, Course } from '../types';
 import { format, isToday, isTomorrow, isWithinInterval, addDays } from 'date-fns';
 import { BookOpenIcon } from './icons/Icons';
+import ChangeFeed from './ChangeFeed';
+import AnnouncementsPanel from './AnnouncementsPanel';
+import type { Announcements } from '../hooks/useAnnouncements';
+import PersonalTaskBadge from './PersonalTaskBadge';
+import { getCourseKeyOf, getItemKey } from '../services/canvasConnections';
 
 interface DashboardProps {
     assignments: Assignment[];
     calendarEvents: CalendarEvent[];
     courses: Course[];
-    onCourseClick: (courseId: number) => void;
+    // Called with the course key from `getItemKey`.
+    onCourseClick: (courseKey: string) => void;
     connectionStatus: 'live' | 'sample' | 'error';
+    changeLog: AssignmentChange[];
+    onChangeClick: (change: AssignmentChange) => void;
+    onDismissChanges: () => void;
+    announcements: Announcements;
 }
 
 const EmptyState: React.FC = () => (
@@ -27,7 +37,7 @@ const EmptyState: React.FC = () => (
     </div>
 );
 
-const Dashboard: React.FC<DashboardProps> = ({ assignments, calendarEvents, courses, onCourseClick, connectionStatus }) => {
+const Dashboard: React.FC<DashboardProps> = ({ assignments, calendarEvents, courses, onCourseClick, connectionStatus, changeLog, onChangeClick, onDismissChanges, announcements }) => {
     
     const now = new Date();
     const urgentAssignments = assignments.filter(a => a.status !== 'COMPLETED' && a.due_at && (isToday(new Date(a.due_at)) || isTomorrow(new Date(a.due_at))));
@@ -54,12 +64,15 @@ const Dashboard: React.FC<DashboardProps> = ({ assignments, calendarEvents, cour
                             const dueDate = new Date(assignment.due_at!);
                             return (
                                 <button
-                                    key={assignment.id}
-                                    onClick={() => onCourseClick(assignment.course_id)}
+                                    key={getItemKey(assignment)}
+                                    onClick={() => onCourseClick(getCourseKeyOf(assignment))}
                                     className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 w-full text-left flex items-center justify-between transition-transform hover:scale-105 duration-200"
                                 >
                                     <div>
-                                        <p className="font-semibold text-gray-900 dark:text-white">{assignment.name}</p>
+                                        <p className="font-semibold text-gray-900 dark:text-white">
+                                            {assignment.name}
+                                            {assignment.personalTask && <PersonalTaskBadge className="ml-2 align-middle" />}
+                                        </p>
                                         <p className="text-sm text-gray-500 dark:text-gray-400">{assignment.courseName}</p>
                                     </div>
                                     <div className={`text-sm font-bold px-3 py-1 rounded-full ${isToday(dueDate) ? 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300' : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300'}`}>
@@ -75,30 +88,39 @@ const Dashboard: React.FC<DashboardProps> = ({ assignments, calendarEvents, cour
                     </div>
                 </div>
 
-                <div className="lg:col-span-1">
-                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Upcoming This Week</h2>
-                    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-1">
-                       {upcomingEvents.length > 0 ? upcomingEvents.map(event => (
-                           <button
-                                key={event.id}
-                                onClick={() => onCourseClick(event.course_id)}
-                                className="flex items-start w-full text-left p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50"
-                           >
-                               <div className="flex-shrink-0 w-12 text-center">
-                                   <p className="text-xs text-gray-500 dark:text-gray-400">{format(event.date, 'EEE')}</p>
-                                   <p className="font-bold text-lg text-gray-900 dark:text-white">{format(event.date, 'd')}</p>
-                               </div>
-                               <div className="ml-3 border-l-2 border-blue-500 pl-3">
-                                   <p className="font-semibold text-gray-900 dark:text-white">{event.title}</p>
-                                   <p className="text-xs text-gray-500 dark:text-gray-400">{event.courseName}</p>
-                                   <p className="text-sm text-gray-500 dark:text-gray-400 capitalize mt-1">{event.type}</p>
-                               </div>
-                           </button>
-                       )) : (
-                            <div className="p-4 text-center text-gray-500 dark:text-gray-400">
-                                <p>Nothing scheduled for the upcoming week.</p>
-                            </div>
-                       )}
+                <div className="lg:col-span-1 space-y-8">
+                    {announcements.isEnabled && <AnnouncementsPanel announcements={announcements} />}
+                    {changeLog.length > 0 && (
+                        <ChangeFeed changes={changeLog} onChangeClick={onChangeClick} onDismiss={onDismissChanges} />
+                    )}
+                    <div>
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Upcoming This Week</h2>
+                        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-1">
+                           {upcomingEvents.length > 0 ? upcomingEvents.map(event => (
+                               <button
+                                    key={`${event.connectionId}-${event.source}-${event.id}`}
+                                    onClick={() => event.type !== 'external' && onCourseClick(getCourseKeyOf(event))}
+                                    className="flex items-start w-full text-left p-2 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                               >
+                                   <div className="flex-shrink-0 w-12 text-center">
+                                       <p className="text-xs text-gray-500 dark:text-gray-400">{format(event.date, 'EEE')}</p>
+                                       <p className="font-bold text-lg text-gray-900 dark:text-white">{format(event.date, 'd')}</p>
+                                   </div>
+                                   <div className={`ml-3 border-l-2 pl-3 ${event.type === 'external' ? 'border-teal-500' : 'border-blue-500'}`}>
+                                       <p className="font-semibold text-gray-900 dark:text-white">
+                                           {event.title}
+                                           {event.source === 'personal_task' && <PersonalTaskBadge className="ml-2 align-middle" />}
+                                       </p>
+                                       <p className="text-xs text-gray-500 dark:text-gray-400">{event.courseName}</p>
+                                       <p className="text-sm text-gray-500 dark:text-gray-400 capitalize mt-1">{event.type === 'external' ? (event.allDay ? 'All day' : format(event.date, 'p')) : event.type}</p>
+                                   </div>
+                               </button>
+                           )) : (
+                                <div className="p-4 text-center text-gray-500 dark:text-gray-400">
+                                    <p>Nothing scheduled for the upcoming week.</p>
+                                </div>
+                           )}
+                        </div>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Assignment, AssignmentStatus, AssignmentStatusSource, CanvasConnection, Course, DiscussionEntry, DiscussionTopic } from '../types';
+import { useDiscussions } from '../hooks/useDiscussions';
+import { draftReply } from '../services/discussionService';
+import { sanitizeHtml } from '../services/courseContentService';
+import { getCanvasKey, getItemKey } from '../services/canvasConnections';
+import { ExternalLinkIcon, Loader2Icon, MessageCircleIcon, Wand2Icon, XIcon } from './icons/Icons';
+
+interface DiscussionsViewProps {
+    course: Course;
+    // Must be a Canvas connection.
+    connection: CanvasConnection;
+    // The course's assignments, to show where the student stands in graded discussions.
+    assignments: Assignment[];
+    onStatusChange: (assignmentKey: string, status: AssignmentStatus, source?: AssignmentStatusSource) => void;
+}
+
+// Whether the student has posted in a graded discussion, going by its assignment's submission.
+const ParticipationBadge: React.FC<{ assignment: Assignment }> = ({ assignment }) => {
+    const hasPosted = !!assignment.submission?.submitted_at || assignment.status === 'COMPLETED';
+    return (
+        <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full ${hasPosted ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300'}`}>
+            {hasPosted ? 'Posted' : 'Not posted'}
+        </span>
+    );
+};
+
+const EntryView: React.FC<{ entry: DiscussionEntry; depth: number; canReply: boolean; onReply: (entry: DiscussionEntry) => void }> = ({ entry, depth, canReply, onReply }) => (
+    <div className={depth > 0 ? 'ml-4 pl-4 border-l-2 border-gray-200 dark:border-gray-700' : ''}>
+        <div className="py-3">
+            {entry.deleted ? (
+                <p className="text-sm italic text-gray-500 dark:text-gray-400">This post was deleted.</p>
+            ) : (
+                <>
+                    <p className="text-sm">
+                        <span className="font-semibold text-gray-900 dark:text-white">{entry.authorName}</span>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}</span>
+                    </p>
+                    <div className="prose prose-sm max-w-none mt-1 text-gray-700 dark:text-gray-300 dark:prose-invert" dangerouslySetInnerHTML={{ __html: sanitizeHtml(entry.message) }} />
+                    {canReply && (
+                        <button onClick={() => onReply(entry)} className="mt-1 text-xs font-semibold text-blue-600 dark:text-blue-400 hover:underline">Reply</button>
+                    )}
+                </>
+            )}
+        </div>
+        {entry.replies.map(reply => <EntryView key={reply.id} entry={reply} depth={depth + 1} canReply={canReply} onReply={onReply} />)}
+    </div>
+);
+
+/**
+ * A course's Canvas discussions. The student can read a topic's threaded replies and post their own,
+ * starting from an AI draft if they like. Drafts are only posted once the student sends them.
+ */
+const DiscussionsView: React.FC<DiscussionsViewProps> = ({ course, connection, assignments, onStatusChange }) => {
+    const { topics, isLoading, error, selectedTopic, selectTopic, thread, isThreadLoading, threadError, postReply } = useDiscussions(connection, course.id);
+    const [replyingTo, setReplyingTo] = useState<DiscussionEntry | null>(null);
+    const [replyText, setReplyText] = useState('');
+    const [isDrafting, setIsDrafting] = useState(false);
+    const [isPosting, setIsPosting] = useState(false);
+    const [replyError, setReplyError] = useState<string | null>(null);
+
+    const getTopicAssignment = (topic: DiscussionTopic) => topic.assignment_id
+        ? assignments.find(a => getItemKey(a) === getCanvasKey(connection.id, topic.assignment_id!))
+        : undefined;
+    const selectedAssignment = selectedTopic ? getTopicAssignment(selectedTopic) : undefined;
+
+    const handleSelectTopic = (topicId: number) => {
+        selectTopic(topicId);
+        setReplyingTo(null);
+        setReplyText('');
+        setReplyError(null);
+    };
+
+    const handleReplyTo = (entry: DiscussionEntry | null) => {
+        setReplyingTo(entry);
+        setReplyError(null);
+    };
+
+    const handleDraft = async () => {
+        if (!selectedTopic) return;
+        setIsDrafting(true);
+        setReplyError(null);
+        try {
+            setReplyText(await draftReply(selectedTopic, thread, replyingTo));
+        } catch (err) {
+            console.error("Could not draft a reply:", err);
+            setReplyError(err instanceof Error ? err.message : 'The draft could not be created.');
+        } finally {
+            setIsDrafting(false);
+        }
+    };
+
+    const handlePost = async () => {
+        if (!replyText.trim()) return;
+        setIsPosting(true);
+        setReplyError(null);
+        try {
+            await postReply(replyText, replyingTo?.id);
+            setReplyText('');
+            setReplyingTo(null);
+            if (selectedAssignment && selectedAssignment.status !== 'COMPLETED') {
+                onStatusChange(getItemKey(selectedAssignment), 'COMPLETED', 'lms');
+            }
+        } catch (err) {
+            console.error("Could not post the reply:", err);
+            setReplyError(err instanceof Error ? err.message : 'The reply could not be posted.');
+        } finally {
+            setIsPosting(false);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="flex items-center justify-center py-12 text-gray-500 dark:text-gray-400"><Loader2Icon className="w-6 h-6 animate-spin" /></div>;
+    }
+    if (error) {
+        return <div className="p-4 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">{error}</div>;
+    }
+    if (topics.length === 0) {
+        return (
+            <div className="text-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                <p className="text-gray-500 dark:text-gray-400">This course has no discussions.</p>
+            </div>
+        );
+    }
+
+    const getParticipationText = (): string | null => {
+        if (!selectedTopic) return null;
+        if (!selectedTopic.user_can_see_posts) {
+            return "Post your reply to see your classmates' replies.";
+        }
+        if (!thread) return null;
+        if (thread.ownEntryCount === 0) {
+            return selectedAssignment ? "You haven't posted yet. This discussion is graded." : "You haven't posted yet.";
+        }
+        return `You've posted ${thread.ownEntryCount} ${thread.ownEntryCount === 1 ? 'time' : 'times'}.`;
+    };
+    const participationText = getParticipationText();
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <ul className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700 self-start">
+                {topics.map(topic => {
+                    const assignment = getTopicAssignment(topic);
+                    return (
+                        <li key={topic.id}>
+                            <button
+                                onClick={() => handleSelectTopic(topic.id)}
+                                className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${selectedTopic?.id === topic.id ? 'bg-blue-50 dark:bg-blue-900/30' : ''}`}
+                            >
+                                <p className={`text-sm font-semibold ${selectedTopic?.id === topic.id ? 'text-blue-700 dark:text-blue-300' : 'text-gray-900 dark:text-white'}`}>{topic.title}</p>
+                                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                    {assignment && <ParticipationBadge assignment={assignment} />}
+                                    {assignment?.due_at && <span>Due {format(new Date(assignment.due_at), 'MMM d')}</span>}
+                                    <span>{topic.reply_count} {topic.reply_count === 1 ? 'reply' : 'replies'}</span>
+                                    {topic.unread_count > 0 && <span className="font-semibold text-blue-600 dark:text-blue-400">{topic.unread_count} unread</span>}
+                                </div>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+            <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5">
+                {selectedTopic ? (
+                    <>
+                        <div className="flex items-start justify-between gap-3 mb-2">
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{selectedTopic.title}</h2>
+                            <a href={selectedTopic.html_url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0 flex items-center text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                                <ExternalLinkIcon className="w-4 h-4 mr-1" /> Canvas
+                            </a>
+                        </div>
+                        {participationText && <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">{participationText}</p>}
+                        <div className="prose prose-sm max-w-none text-gray-700 dark:text-gray-300 dark:prose-invert pb-4 border-b border-gray-200 dark:border-gray-700" dangerouslySetInnerHTML={{ __html: sanitizeHtml(selectedTopic.message) }} />
+
+                        {selectedTopic.locked ? (
+                            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">This discussion is closed for replies.</p>
+                        ) : (
+                            <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700">
+                                <div className="flex items-center justify-between mb-2">
+                                    <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                                        {replyingTo ? `Replying to ${replyingTo.authorName}` : 'Your reply'}
+                                    </p>
+                                    {replyingTo && (
+                                        <button onClick={() => handleReplyTo(null)} className="flex items-center text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200">
+                                            <XIcon className="w-3 h-3 mr-1" /> Reply to the topic instead
+                                        </button>
+                                    )}
+                                </div>
+                                <textarea
+                                    value={replyText}
+                                    onChange={e => setReplyText(e.target.value)}
+                                    rows={6}
+                                    placeholder="Write your reply, or start from an AI draft and make it your own."
+                                    className="w-full p-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-sm text-gray-800 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                {replyError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{replyError}</p>}
+                                <div className="flex flex-wrap justify-end gap-2 mt-3">
+                                    <button onClick={handleDraft} disabled={isDrafting || isPosting} className="flex items-center px-4 py-2 text-sm font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/50 disabled:opacity-60">
+                                        {isDrafting ? <Loader2Icon className="w-4 h-4 mr-2 animate-spin" /> : <Wand2Icon className="w-4 h-4 mr-2" />}
+                                        {replyText.trim() ? 'Redraft with AI' : 'Draft with AI'}
+                                    </button>
+                                    <button onClick={handlePost} disabled={isPosting || isDrafting || !replyText.trim()} className="flex items-center px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors">
+                                        {isPosting ? <Loader2Icon className="w-4 h-4 mr-2 animate-spin" /> : <MessageCircleIcon className="w-4 h-4 mr-2" />}
+                                        Post Reply
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="mt-4">
+                            {isThreadLoading ? (
+                                <div className="flex justify-center py-8 text-gray-500 dark:text-gray-400"><Loader2Icon className="w-6 h-6 animate-spin" /></div>
+                            ) : threadError ? (
+                                <p className="text-sm text-red-600 dark:text-red-400">{threadError}</p>
+                            ) : thread && (thread.entries.length > 0 ? (
+                                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {thread.entries.map(entry => <EntryView key={entry.id} entry={entry} depth={0} canReply={!selectedTopic.locked} onReply={handleReplyTo} />)}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No replies yet.</p>
+                            ))}
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-center py-12 text-gray-500 dark:text-gray-400">Select a discussion to read it.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default DiscussionsView;
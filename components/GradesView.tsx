@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Course, Assignment, Settings, SubmissionFeedback, EnrollmentGrades } from '../types';
+import { format } from 'date-fns';
+import { getSubmissionFeedback } from '../services/canvasApiService';
+import * as mockService from '../services/canvasMockService';
+import { SAMPLE_CONNECTION_ID, getActiveConnections, getCanvasKey, getItemKey, getCourseKeyOf, isCanvasConnection } from '../services/canvasConnections';
+import { AwardIcon, ChevronRightIcon, Loader2Icon, MessageCircleIcon } from './icons/Icons';
+
+interface GradesViewProps {
+    courses: Course[];
+    assignments: Assignment[];
+    settings: Settings | null;
+}
+
+// Re-keys one connection's feedback (by assignment ID) by `getItemKey`.
+const keyFeedback = (connectionId: string, feedback: Record<number, SubmissionFeedback>): Record<string, SubmissionFeedback> =>
+    Object.fromEntries(Object.entries(feedback).map(([assignmentId, item]) => [getCanvasKey(connectionId, Number(assignmentId)), item]));
+
+const formatScore = (score: number | null | undefined) => score === null || score === undefined ? '—' : `${Math.round(score * 100) / 100}%`;
+
+const CourseGradeCard: React.FC<{ course: Course; grades: EnrollmentGrades | null | undefined }> = ({ course, grades }) => (
+    <div className="bg-white dark:bg-gray-800 p-5 rounded-lg border border-gray-200 dark:border-gray-700">
+        <h3 className="font-bold text-gray-900 dark:text-white truncate" title={course.name}>{course.name}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{course.course_code}</p>
+        <div className="mt-4 grid grid-cols-2 gap-4">
+            <div>
+                <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Current</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatScore(grades?.current_score)}</p>
+                {grades?.current_grade && <p className="text-sm text-gray-500 dark:text-gray-400">{grades.current_grade}</p>}
+            </div>
+            <div>
+                <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Final</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatScore(grades?.final_score)}</p>
+                {grades?.final_grade && <p className="text-sm text-gray-500 dark:text-gray-400">{grades.final_grade}</p>}
+            </div>
+        </div>
+    </div>
+);
+
+const FlagBadge: React.FC<{ label: string; style: string }> = ({ label, style }) => (
+    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${style}`}>{label}</span>
+);
+
+const FeedbackDetails: React.FC<{ assignment: Assignment; feedback: SubmissionFeedback | undefined }> = ({ assignment, feedback }) => {
+    const rubric = assignment.rubric || [];
+    const hasRubric = rubric.length > 0 && feedback && Object.keys(feedback.rubric_assessment).length > 0;
+    const comments = feedback?.submission_comments || [];
+
+    if (!hasRubric && comments.length === 0) {
+        return <p className="text-sm text-gray-500 dark:text-gray-400">No feedback has been left on this submission.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {hasRubric && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Rubric</h4>
+                    <div className="border border-gray-200 dark:border-gray-600 rounded-md divide-y divide-gray-200 dark:divide-gray-600">
+                        {rubric.map(criterion => {
+                            const assessment = feedback!.rubric_assessment[criterion.id];
+                            return (
+                                <div key={criterion.id} className="p-3 text-sm">
+                                    <div className="flex justify-between gap-4">
+                                        <span className="text-gray-800 dark:text-gray-200">{criterion.description}</span>
+                                        <span className="font-semibold text-gray-900 dark:text-white flex-shrink-0">{assessment?.points ?? '—'} / {criterion.points}</span>
+                                    </div>
+                                    {assessment?.comments && <p className="mt-1 text-gray-500 dark:text-gray-400">{assessment.comments}</p>}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+            {comments.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Comments</h4>
+                    <div className="space-y-2">
+                        {comments.map(comment => (
+                            <div key={comment.id} className="bg-gray-50 dark:bg-gray-700/50 p-3 rounded-md border border-gray-200 dark:border-gray-600 text-sm">
+                                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                                    <span className="font-semibold">{comment.author_name}</span>
+                                    <span>{format(new Date(comment.created_at), 'PP')}</span>
+                                </div>
+                                <p className="text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{comment.comment}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GradeRow: React.FC<{ assignment: Assignment; feedback: SubmissionFeedback | undefined }> = ({ assignment, feedback }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const submission = assignment.submission;
+    const commentCount = feedback?.submission_comments.length || 0;
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <button onClick={() => setIsExpanded(!isExpanded)} className="w-full text-left p-4 flex items-center gap-4">
+                <ChevronRightIcon className={`w-4 h-4 flex-shrink-0 text-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900 dark:text-white truncate">{assignment.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{assignment.courseName}{assignment.due_at ? ` · Due ${format(new Date(assignment.due_at), 'PP')}` : ''}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    {submission?.late && <FlagBadge label="Late" style="bg-yellow-100 text-yellow-700 dark:bg-yellow-900/50 dark:text-yellow-300" />}
+                    {submission?.missing && <FlagBadge label="Missing" style="bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300" />}
+                    {submission?.excused && <FlagBadge label="Excused" style="bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200" />}
+                    {commentCount > 0 && (
+                        <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                            <MessageCircleIcon className="w-3.5 h-3.5" />{commentCount}
+                        </span>
+                    )}
+                </div>
+                <div className="w-28 text-right flex-shrink-0">
+                    <p className="font-bold text-gray-900 dark:text-white">
+                        {submission?.excused ? 'EX' : submission?.score ?? '—'}
+                        <span className="text-sm font-normal text-gray-500 dark:text-gray-400"> / {assignment.points_possible ?? '—'}</span>
+                    </p>
+                    {submission?.grade && submission.grade !== String(submission.score) && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{submission.grade}</p>
+                    )}
+                </div>
+            </button>
+            {isExpanded && (
+                <div className="px-4 pb-4 pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <FeedbackDetails assignment={assignment} feedback={feedback} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GradesView: React.FC<GradesViewProps> = ({ courses, assignments, settings }) => {
+    const [selectedCourseKey, setSelectedCourseKey] = useState<string>('all');
+    const [feedback, setFeedback] = useState<Record<string, SubmissionFeedback>>({});
+    const [isLoadingFeedback, setIsLoadingFeedback] = useState(false);
+    const [feedbackError, setFeedbackError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!settings || courses.length === 0) return;
+        let isCancelled = false;
+
+        const loadFeedback = async () => {
+            setIsLoadingFeedback(true);
+            setFeedbackError(null);
+            try {
+                const data = settings.sampleDataMode
+                    ? keyFeedback(SAMPLE_CONNECTION_ID, await mockService.getSubmissionFeedback())
+                    : Object.assign({}, ...await Promise.all(getActiveConnections(settings).filter(isCanvasConnection).map(async connection => {
+                        const courseIds = courses.filter(c => c.connectionId === connection.id).map(c => c.id);
+                        return courseIds.length > 0 ? keyFeedback(connection.id, await getSubmissionFeedback(connection, courseIds)) : {};
+                    })));
+                if (!isCancelled) setFeedback(data);
+            } catch (e) {
+                console.error("Failed to load submission feedback:", e);
+                if (!isCancelled) setFeedbackError(e instanceof Error ? e.message : 'Failed to load feedback.');
+            } finally {
+                if (!isCancelled) setIsLoadingFeedback(false);
+            }
+        };
+        loadFeedback();
+
+        return () => { isCancelled = true; };
+    }, [settings, courses]);
+
+    const visibleCourses = useMemo(() => {
+        if (selectedCourseKey === 'all') return courses;
+        return courses.filter(c => getItemKey(c) === selectedCourseKey);
+    }, [courses, selectedCourseKey]);
+
+    // Only assignments the student has interacted with (or been flagged on) have something to show.
+    const gradedAssignments = useMemo(() => {
+        return assignments
+            .filter(a => a.submission && (a.submission.workflow_state === 'graded' || a.submission.submitted_at || a.submission.missing || a.submission.excused))
+            .filter(a => selectedCourseKey === 'all' || getCourseKeyOf(a) === selectedCourseKey);
+    }, [assignments, selectedCourseKey]);
+
+    return (
+        <div className="animate-fade-in">
+            <div className="flex items-center justify-between mb-6">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Grades</h1>
+                <select
+                    value={selectedCourseKey}
+                    onChange={(e) => setSelectedCourseKey(e.target.value)}
+                    className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="all">All Courses</option>
+                    {courses.map(course => (
+                        <option key={getItemKey(course)} value={getItemKey(course)}>{course.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 mb-8">
+                {visibleCourses.map(course => (
+                    <CourseGradeCard key={getItemKey(course)} course={course} grades={course.grades} />
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Submissions</h2>
+                {isLoadingFeedback && (
+                    <span className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                        <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />
+                        Loading feedback...
+                    </span>
+                )}
+            </div>
+            {feedbackError && (
+                <div className="mb-4 p-3 rounded-md text-sm bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200">{feedbackError}</div>
+            )}
+            <div className="space-y-3">
+                {gradedAssignments.length > 0 ? gradedAssignments.map(assignment => (
+                    <GradeRow key={getItemKey(assignment)} assignment={assignment} feedback={feedback[getItemKey(assignment)]} />
+                )) : (
+                    <div className="text-center py-20 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                        <AwardIcon className="w-12 h-12 mx-auto text-gray-300 dark:text-gray-600" />
+                        <p className="mt-2 text-gray-500 dark:text-gray-400">No graded or submitted work yet.</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default GradesView;
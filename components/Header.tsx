@@ -5,6 +5,8 @@ import { Assignment, Course, AssignmentStatus, Page } from '../types';
 import { format, isToday, endOfWeek, addWeeks, isWithinInterval } from 'date-fns';
 import startOfWeek from 'date-fns/startOfWeek';
 import { useAuth } from '../hooks/useAuth';
+import { getCourseKeyOf, getItemKey } from '../services/canvasConnections';
+import PersonalTaskBadge from './PersonalTaskBadge';
 
 interface HeaderProps {
   assignments: Assignment[];
@@ -97,7 +99,7 @@ const Header: React.FC<HeaderProps> = ({ assignments, courses, connectionStatus,
                 : true;
 
             // Filter by course
-            const inCourse = selectedCourse === 'all' ? true : assignment.course_id.toString() === selectedCourse;
+            const inCourse = selectedCourse === 'all' ? true : getCourseKeyOf(assignment) === selectedCourse;
 
             // Filter by status
             const inStatus = selectedStatus === 'all' ? true : assignment.status === selectedStatus;
@@ -127,7 +129,7 @@ const Header: React.FC<HeaderProps> = ({ assignments, courses, connectionStatus,
         });
     }, [searchTerm, selectedCourse, selectedStatus, selectedDateRange, assignments]);
 
-    const courseMap = useMemo(() => new Map(courses.map(c => [c.id, c])), [courses]);
+    const courseMap = useMemo(() => new Map(courses.map(c => [getItemKey(c), c])), [courses]);
 
     return (
         <div className="flex-shrink-0">
@@ -165,7 +167,7 @@ const Header: React.FC<HeaderProps> = ({ assignments, courses, connectionStatus,
                                 <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3 text-sm">
                                     <select value={selectedCourse} onChange={e => setSelectedCourse(e.target.value)} className="filter-select">
                                         <option value="all">All Courses</option>
-                                        {courses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                        {courses.map(c => <option key={getItemKey(c)} value={getItemKey(c)}>{c.name}</option>)}
                                     </select>
                                     <select value={selectedStatus} onChange={e => setSelectedStatus(e.target.value as any)} className="filter-select">
                                         <option value="all">All Statuses</option>
@@ -184,9 +186,9 @@ const Header: React.FC<HeaderProps> = ({ assignments, courses, connectionStatus,
                                 {filteredAssignments.length > 0 ? (
                                     <ul>
                                         {filteredAssignments.map(assignment => {
-                                            const course = courseMap.get(assignment.course_id);
+                                            const course = courseMap.get(getCourseKeyOf(assignment));
                                             return (
-                                                <li key={assignment.id}>
+                                                <li key={getItemKey(assignment)}>
                                                     <button
                                                       onClick={() => {
                                                         onAssignmentSelect(assignment);
@@ -194,12 +196,15 @@ const Header: React.FC<HeaderProps> = ({ assignments, courses, connectionStatus,
                                                       }}
                                                       className="w-full text-left p-4 border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
                                                     >
-                                                        <h4 className="font-semibold text-gray-900 dark:text-white">{assignment.name}</h4>
-                                                        <p className="text-xs text-gray-500 dark:text-gray-400">{course?.name || 'Unknown Course'}</p>
+                                                        <h4 className="font-semibold text-gray-900 dark:text-white">
+                                                            {assignment.name}
+                                                            {assignment.personalTask && <PersonalTaskBadge className="ml-2 align-middle" />}
+                                                        </h4>
+                                                        <p className="text-xs text-gray-500 dark:text-gray-400">{course?.name || (assignment.personalTask ? assignment.courseName : 'Unknown Course')}</p>
                                                         <div className="flex items-center justify-between mt-2 text-xs">
                                                             <span className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
                                                                 <ClockIcon className="w-3.5 h-3.5" />
-                                                                Due: {format(new Date(assignment.due_at!), 'PP')}
+                                                                {assignment.due_at ? `Due: ${format(new Date(assignment.due_at), 'PP')}` : 'No due date'}
                                                             </span>
                                                             <span className={`px-2 py-0.5 font-medium rounded-full ${
                                                                 assignment.status === 'COMPLETED' ? 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300' :
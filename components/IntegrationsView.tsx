@@ -1,101 +1,331 @@
 import React, { useState } from 'react';
-import { LinkIcon, Loader2Icon } from './icons/Icons';
+import { formatDistanceToNow, format } from 'date-fns';
+import { AutoSyncStatus, CanvasConnection, LmsProvider, Settings } from '../types';
+import { createConnectionId, getProvider, hasCanvasCredentials, isCanvasConnection } from '../services/canvasConnections';
+import { formatMoodleUrl } from '../services/canvasApiService';
+import { testMoodleConnection } from '../services/moodleService';
+import { requestClassroomAccess, GOOGLE_CLASSROOM_URL } from '../services/googleClassroomService';
+import { Loader2Icon } from './icons/Icons';
 
 interface IntegrationsViewProps {
     connectionStatus: 'live' | 'sample' | 'error';
-    onSync: () => Promise<void>;
+    // Syncs the given connections, or all of them.
+    onSync: (connectionIds?: string[]) => Promise<boolean>;
+    lastSyncedAt: string | null;
+    syncedAtByConnection: Record<string, string>;
+    isRevalidating: boolean;
+    isOffline: boolean;
+    autoSync: AutoSyncStatus;
+    settings: Settings;
+    onSaveSettings: (settings: Settings) => Promise<void>;
 }
 
+type CardStatus = 'connected' | 'not_connected' | 'error';
+
 const IntegrationCard: React.FC<{
     name: string;
     iconUrl: string;
     description: string;
-    status: 'connected' | 'coming_soon' | 'error';
+    status: CardStatus;
     onSyncClick?: () => void;
     isSyncing?: boolean;
-}> = ({ name, iconUrl, description, status, onSyncClick, isSyncing }) => {
+    syncDisabled?: boolean;
+    footer?: React.ReactNode;
+    // Extra buttons next to Sync Now, e.g. Disconnect.
+    actions?: React.ReactNode;
+    // Shown instead of the buttons while the LMS isn't connected, e.g. a connect form.
+    children?: React.ReactNode;
+}> = ({ name, iconUrl, description, status, onSyncClick, isSyncing, syncDisabled, footer, actions, children }) => {
 
     const statusIndicator = {
         connected: { text: 'Connected', color: 'bg-green-500' },
-        coming_soon: { text: 'Coming Soon', color: 'bg-gray-500' },
+        not_connected: { text: 'Not Connected', color: 'bg-gray-500' },
         error: { text: 'Connection Error', color: 'bg-red-500' }
     };
 
     return (
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700 flex flex-col md:flex-row items-center gap-6">
-            <img src={iconUrl} alt={`${name} logo`} className="w-16 h-16 rounded-full bg-white p-1" />
-            <div className="flex-1 text-center md:text-left">
-                <div className="flex items-center justify-center md:justify-start gap-3 mb-1">
-                    <h3 className="font-bold text-xl text-gray-900 dark:text-white">{name}</h3>
-                    <span className={`px-2.5 py-1 text-xs font-semibold text-white rounded-full ${statusIndicator[status].color}`}>
-                        {statusIndicator[status].text}
-                    </span>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg border border-gray-200 dark:border-gray-700">
+            <div className="flex flex-col md:flex-row items-center gap-6">
+                <img src={iconUrl} alt={`${name} logo`} className="w-16 h-16 rounded-full bg-white p-1" />
+                <div className="flex-1 text-center md:text-left">
+                    <div className="flex items-center justify-center md:justify-start gap-3 mb-1">
+                        <h3 className="font-bold text-xl text-gray-900 dark:text-white">{name}</h3>
+                        <span className={`px-2.5 py-1 text-xs font-semibold text-white rounded-full ${statusIndicator[status].color}`}>
+                            {statusIndicator[status].text}
+                        </span>
+                    </div>
+                    <p className="text-gray-600 dark:text-gray-400">{description}</p>
+                    {footer && <div className="mt-2 text-sm text-gray-500 dark:text-gray-400">{footer}</div>}
                 </div>
-                <p className="text-gray-600 dark:text-gray-400">{description}</p>
+                {status !== 'not_connected' && (
+                    <div className="flex flex-col sm:flex-row gap-2 w-full md:w-auto">
+                        <button
+                            onClick={onSyncClick}
+                            disabled={status !== 'connected' || isSyncing || syncDisabled}
+                            className="w-full md:w-auto px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+                        >
+                            {isSyncing && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                            {isSyncing ? 'Syncing...' : 'Sync Now'}
+                        </button>
+                        {actions}
+                    </div>
+                )}
             </div>
-            <button
-                onClick={onSyncClick}
-                disabled={status !== 'connected' || isSyncing}
-                className="w-full md:w-auto px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-            >
-                {isSyncing && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
-                {isSyncing ? 'Syncing...' : 'Sync Now'}
-            </button>
+            {status === 'not_connected' && children && <div className="mt-4">{children}</div>}
         </div>
     );
 };
 
+const secondaryButtonClassName = "w-full md:w-auto px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors";
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+interface SyncMessage {
+    provider: LmsProvider;
+    text: string;
+    isError: boolean;
+}
+
+const IntegrationsView: React.FC<IntegrationsViewProps> = ({ connectionStatus, onSync, lastSyncedAt, syncedAtByConnection, isRevalidating, isOffline, autoSync, settings, onSaveSettings }) => {
+  const [syncingProvider, setSyncingProvider] = useState<LmsProvider | null>(null);
+  const [syncMessage, setSyncMessage] = useState<SyncMessage | null>(null);
+  const [moodleUrl, setMoodleUrl] = useState('');
+  const [moodleToken, setMoodleToken] = useState('');
+  const [connectingProvider, setConnectingProvider] = useState<LmsProvider | null>(null);
+
+  const isSampleMode = connectionStatus === 'sample';
+  const canvasConnections = settings.connections.filter(isCanvasConnection);
+  // Moodle and Google Classroom have one connection each.
+  const moodleConnection = settings.connections.find(c => getProvider(c) === 'moodle');
+  const classroomConnection = settings.connections.find(c => getProvider(c) === 'google_classroom');
+  const canvasStatus: CardStatus = connectionStatus === 'error' ? 'error' : isSampleMode || canvasConnections.some(hasCanvasCredentials) ? 'connected' : 'not_connected';
+  const getStatus = (connection: CanvasConnection | undefined): CardStatus => connection && hasCanvasCredentials(connection) ? 'connected' : 'not_connected';
 
-const IntegrationsView: React.FC<IntegrationsViewProps> = ({ connectionStatus, onSync }) => {
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [syncMessage, setSyncMessage] = useState('');
-  const canvasStatus = connectionStatus === 'live' ? 'connected' : connectionStatus === 'sample' ? 'connected' : 'error';
-  
-  const handleSync = async () => {
-    setIsSyncing(true);
-    setSyncMessage('');
+  const showMessage = (message: SyncMessage) => {
+    setSyncMessage(message);
+    setTimeout(() => setSyncMessage(current => current === message ? null : current), 4000);
+  };
+
+  const handleSync = async (provider: LmsProvider, connectionIds?: string[]) => {
+    setSyncingProvider(provider);
+    setSyncMessage(null);
     try {
-        await onSync();
-        setSyncMessage('Data synced successfully!');
+        const succeeded = await onSync(connectionIds);
+        showMessage({ provider, text: succeeded ? 'Data synced successfully!' : 'Sync failed. Please check the console for details.', isError: !succeeded });
     } catch (error) {
-        setSyncMessage('Sync failed. Please check the console for details.');
+        showMessage({ provider, text: 'Sync failed. Please check the console for details.', isError: true });
         console.error("Sync error:", error);
     } finally {
-        setIsSyncing(false);
-        setTimeout(() => setSyncMessage(''), 4000);
+        setSyncingProvider(null);
+    }
+  };
+
+  // Saving the settings syncs the new connection, since the data hook reloads whenever they change.
+  const saveConnection = async (connection: CanvasConnection) => {
+    const connections = settings.connections.some(c => c.id === connection.id)
+        ? settings.connections.map(c => c.id === connection.id ? connection : c)
+        : [...settings.connections, connection];
+    await onSaveSettings({ ...settings, connections, sampleDataMode: false });
+  };
+
+  const handleConnectMoodle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setConnectingProvider('moodle');
+    setSyncMessage(null);
+    try {
+        const connection: CanvasConnection = {
+            id: createConnectionId(),
+            name: '',
+            provider: 'moodle',
+            canvasUrl: formatMoodleUrl(moodleUrl),
+            apiToken: moodleToken.trim(),
+        };
+        const siteName = await testMoodleConnection(connection);
+        await saveConnection({ ...connection, name: siteName });
+        setMoodleUrl('');
+        setMoodleToken('');
+    } catch (error) {
+        showMessage({ provider: 'moodle', text: error instanceof Error ? error.message : 'Could not connect to Moodle.', isError: true });
+    } finally {
+        setConnectingProvider(null);
+    }
+  };
+
+  const handleConnectClassroom = async () => {
+    setConnectingProvider('google_classroom');
+    setSyncMessage(null);
+    try {
+        const accessToken = await requestClassroomAccess();
+        await saveConnection({
+            id: classroomConnection?.id ?? createConnectionId(),
+            name: 'Google Classroom',
+            provider: 'google_classroom',
+            canvasUrl: GOOGLE_CLASSROOM_URL,
+            apiToken: accessToken,
+        });
+    } catch (error) {
+        showMessage({ provider: 'google_classroom', text: error instanceof Error ? error.message : 'Could not connect to Google Classroom.', isError: true });
+    } finally {
+        setConnectingProvider(null);
     }
   };
 
+  const handleDisconnect = async (connection: CanvasConnection) => {
+    try {
+        await onSaveSettings({ ...settings, connections: settings.connections.filter(c => c.id !== connection.id) });
+    } catch (error) {
+        showMessage({ provider: getProvider(connection), text: error instanceof Error ? error.message : 'Could not disconnect.', isError: true });
+    }
+  };
+
+  const renderAutoSyncStatus = () => {
+    switch (autoSync.state) {
+        case 'off':
+            return null;
+        case 'syncing':
+            return <span>Auto-syncing...</span>;
+        case 'paused_offline':
+            return <span>Auto-sync paused while offline</span>;
+        case 'paused_hidden':
+            return <span>Auto-sync paused while the tab is hidden</span>;
+        case 'scheduled':
+            if (!autoSync.nextSyncAt) return null;
+            return (
+                <span className={autoSync.consecutiveFailures > 0 ? 'text-yellow-600 dark:text-yellow-400' : ''}>
+                    {autoSync.consecutiveFailures > 0 ? 'Auto-sync failed, retrying' : 'Next auto-sync'} {formatDistanceToNow(autoSync.nextSyncAt, { addSuffix: true })}
+                </span>
+            );
+    }
+  };
+
+  // `name` labels the sync time of one of several connections.
+  const renderLastSynced = (syncedAt: string | null | undefined, name?: string) => {
+    const prefix = name ? `${name}: ` : '';
+    return syncedAt
+        ? <span title={format(new Date(syncedAt), 'PPpp')}>{prefix}{name ? 'synced' : 'Last synced'} {formatDistanceToNow(new Date(syncedAt), { addSuffix: true })}</span>
+        : <span>{prefix}{name ? 'not synced yet' : 'Not synced yet'}</span>;
+  };
+
+  const renderSyncStatus = (provider: LmsProvider, connections: CanvasConnection[]) => {
+    if (isSampleMode) return null;
+    // With several Canvas accounts, each one's sync time is listed.
+    const lastSynced = connections.length > 1
+        ? connections.map(c => <React.Fragment key={c.id}>{renderLastSynced(syncedAtByConnection[c.id], c.name)}</React.Fragment>)
+        : renderLastSynced(connections.length === 1 ? syncedAtByConnection[connections[0].id] : lastSyncedAt);
+    return (
+        <span className="flex flex-wrap items-center justify-center md:justify-start gap-x-2">
+            {lastSynced}
+            {isRevalidating && !syncingProvider && <span className="flex items-center"><Loader2Icon className="w-3 h-3 mr-1 animate-spin" />Checking for updates</span>}
+            {isOffline && <span className="text-yellow-600 dark:text-yellow-400">Offline, showing cached data</span>}
+            {provider === 'canvas' && renderAutoSyncStatus()}
+        </span>
+    );
+  };
+
+  const renderMessage = (provider: LmsProvider) => syncMessage?.provider === provider && (
+      <p className={`text-sm text-center py-2 transition-opacity duration-300 ${syncMessage.isError ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+          {syncMessage.text}
+      </p>
+  );
+
   return (
     <div className="animate-fade-in max-w-4xl mx-auto">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">LMS Integrations</h1>
         <p className="text-gray-500 dark:text-gray-400 mb-8">Connect your learning management systems to automate your workflow.</p>
 
         <div className="space-y-2">
-            <IntegrationCard 
+            <IntegrationCard
                 name="Canvas"
                 iconUrl="https://play-lh.googleusercontent.com/zuOkMn5rZBkM0qutOiC_Lw-nca23M51O-2rAD_64AbPf2xVf5r_s4CiHnKymqs-c-w"
-                description="Sync your courses, assignments, and calendar events automatically."
+                description="Sync your courses, assignments, and calendar events automatically. Canvas accounts are managed in Settings."
                 status={canvasStatus}
-                onSyncClick={handleSync}
-                isSyncing={isSyncing}
+                onSyncClick={() => handleSync('canvas', isSampleMode ? undefined : canvasConnections.map(c => c.id))}
+                isSyncing={syncingProvider === 'canvas'}
+                syncDisabled={isOffline || syncingProvider !== null}
+                footer={renderSyncStatus('canvas', canvasConnections)}
             />
-            {syncMessage && (
-                <p className={`text-sm text-center py-2 transition-opacity duration-300 ${syncMessage.startsWith('Sync failed') ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
-                    {syncMessage}
-                </p>
-            )}
-             <div className="pt-4">
-                <IntegrationCard 
+            {renderMessage('canvas')}
+
+            <div className="pt-4">
+                <IntegrationCard
+                    name="Moodle"
+                    iconUrl="https://upload.wikimedia.org/wikipedia/commons/thumb/c/c6/Moodle-logo.svg/512px-Moodle-logo.svg.png"
+                    description={moodleConnection
+                        ? `Syncing courses, assignments, calendar events and grades from ${moodleConnection.name}.`
+                        : 'Connect with a web service token from your Moodle profile (Preferences > Security keys).'}
+                    status={getStatus(moodleConnection)}
+                    onSyncClick={() => moodleConnection && handleSync('moodle', [moodleConnection.id])}
+                    isSyncing={syncingProvider === 'moodle'}
+                    syncDisabled={isOffline || syncingProvider !== null}
+                    footer={moodleConnection && renderSyncStatus('moodle', [moodleConnection])}
+                    actions={moodleConnection && (
+                        <button onClick={() => handleDisconnect(moodleConnection)} className={secondaryButtonClassName}>Disconnect</button>
+                    )}
+                >
+                    <form onSubmit={handleConnectMoodle} className="flex flex-col md:flex-row gap-2">
+                        <input
+                            type="text"
+                            value={moodleUrl}
+                            onChange={(e) => setMoodleUrl(e.target.value)}
+                            placeholder="https://moodle.yourschool.edu"
+                            aria-label="Moodle site URL"
+                            className={inputClassName}
+                            required
+                        />
+                        <input
+                            type="password"
+                            value={moodleToken}
+                            onChange={(e) => setMoodleToken(e.target.value)}
+                            placeholder="Web service token"
+                            aria-label="Moodle web service token"
+                            className={inputClassName}
+                            required
+                        />
+                        <button
+                            type="submit"
+                            disabled={connectingProvider !== null || isOffline}
+                            className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center shrink-0"
+                        >
+                            {connectingProvider === 'moodle' && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                            Connect
+                        </button>
+                    </form>
+                </IntegrationCard>
+                {renderMessage('moodle')}
+            </div>
+
+            <div className="pt-4">
+                <IntegrationCard
                     name="Google Classroom"
                     iconUrl="https://upload.wikimedia.org/wikipedia/commons/thumb/1/12/Google_Classroom_icon.svg/2048px-Google_Classroom_icon.svg.png"
-                    description="Integration with Google Classroom is planned for a future update."
-                    status="coming_soon"
-                />
-             </div>
+                    description={classroomConnection
+                        ? 'Syncing your classes and coursework. Google access expires after about an hour; reconnect if a sync is refused.'
+                        : 'Sign in with Google to sync your classes and coursework.'}
+                    status={getStatus(classroomConnection)}
+                    onSyncClick={() => classroomConnection && handleSync('google_classroom', [classroomConnection.id])}
+                    isSyncing={syncingProvider === 'google_classroom'}
+                    syncDisabled={isOffline || syncingProvider !== null}
+                    footer={classroomConnection && renderSyncStatus('google_classroom', [classroomConnection])}
+                    actions={classroomConnection && (
+                        <>
+                            <button onClick={handleConnectClassroom} disabled={connectingProvider !== null} className={secondaryButtonClassName}>Reconnect</button>
+                            <button onClick={() => handleDisconnect(classroomConnection)} className={secondaryButtonClassName}>Disconnect</button>
+                        </>
+                    )}
+                >
+                    <button
+                        onClick={handleConnectClassroom}
+                        disabled={connectingProvider !== null || isOffline}
+                        className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center justify-center"
+                    >
+                        {connectingProvider === 'google_classroom' && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                        Connect with Google
+                    </button>
+                </IntegrationCard>
+                {renderMessage('google_classroom')}
+            </div>
         </div>
     </div>
   );
 };
 
-export default IntegrationsView;
\ No newline at end of file
+export default IntegrationsView;
@@ -1,22 +1,27 @@
 import React, { useState } from 'react';
-import { Settings } from '../types';
-import { testConnection } from '../services/canvasApiService';
+import { CanvasConnection, Settings } from '../types';
+import { testConnection, startCanvasOAuth } from '../services/canvasApiService';
+import { DEFAULT_CONNECTION_ID, getDefaultConnectionName } from '../services/canvasConnections';
 import { SparklesIcon, LinkIcon, ExclamationTriangleIcon, Loader2Icon, ExternalLinkIcon } from './icons/Icons';
 
 interface OnboardingViewProps {
-    onSave: (settings: Settings) => void;
+    onSave: (settings: Settings) => Promise<void>;
     onEnableSampleDataMode: () => void;
+    // Why returning from "Sign in with Canvas" didn't connect, if it didn't.
+    oauthError?: string | null;
 }
 
 type SetupStep = 'welcome' | 'url' | 'token';
 type TestStatus = 'idle' | 'testing' | 'success' | 'error';
 
-const OnboardingView: React.FC<OnboardingViewProps> = ({ onSave, onEnableSampleDataMode }) => {
-    const [step, setStep] = useState<SetupStep>('welcome');
+const OnboardingView: React.FC<OnboardingViewProps> = ({ onSave, onEnableSampleDataMode, oauthError }) => {
+    const [step, setStep] = useState<SetupStep>(oauthError ? 'url' : 'welcome');
     const [canvasUrl, setCanvasUrl] = useState('');
     const [apiToken, setApiToken] = useState('');
     const [testStatus, setTestStatus] = useState<TestStatus>('idle');
     const [testMessage, setTestMessage] = useState('');
+    const [isStartingOAuth, setIsStartingOAuth] = useState(false);
+    const [signInError, setSignInError] = useState<string | null>(oauthError ?? null);
 
     const getFormattedUrl = () => {
         let formattedUrl = canvasUrl.trim();
@@ -41,10 +46,16 @@ const OnboardingView: React.FC<OnboardingViewProps> = ({ onSave, onEnableSampleD
         setTestMessage('');
         try {
             const formattedUrl = getFormattedUrl();
-            await testConnection(formattedUrl, apiToken.trim());
+            const connection: CanvasConnection = {
+                id: DEFAULT_CONNECTION_ID,
+                name: getDefaultConnectionName(formattedUrl),
+                canvasUrl: formattedUrl,
+                apiToken: apiToken.trim(),
+            };
+            await testConnection(connection);
             setTestStatus('success');
             setTestMessage('Success! Connecting to your dashboard...');
-            onSave({ canvasUrl: formattedUrl, apiToken: apiToken.trim(), sampleDataMode: false });
+            await onSave({ connections: [connection], sampleDataMode: false });
         } catch (err) {
             setTestStatus('error');
             const message = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -52,6 +63,18 @@ const OnboardingView: React.FC<OnboardingViewProps> = ({ onSave, onEnableSampleD
         }
     };
 
+    const handleSignInWithCanvas = async () => {
+        setIsStartingOAuth(true);
+        setSignInError(null);
+        try {
+            // Leaves the app; Canvas sends the student back once they approve access.
+            window.location.assign(await startCanvasOAuth(DEFAULT_CONNECTION_ID, getFormattedUrl()));
+        } catch (err) {
+            setSignInError(err instanceof Error ? err.message : 'Could not start Canvas sign-in.');
+            setIsStartingOAuth(false);
+        }
+    };
+
     const renderWelcome = () => (
         <div className="text-center">
             <div className="w-20 h-20 bg-blue-100 dark:bg-blue-900/50 rounded-full mx-auto flex items-center justify-center mb-6 ring-8 ring-blue-50 dark:ring-blue-900/20">
@@ -99,6 +122,26 @@ const OnboardingView: React.FC<OnboardingViewProps> = ({ onSave, onEnableSampleD
                 >
                     Next
                 </button>
+                <div className="my-4 flex items-center gap-3 text-xs text-gray-400 uppercase">
+                    <div className="flex-1 border-t border-gray-200 dark:border-gray-700"></div>
+                    or
+                    <div className="flex-1 border-t border-gray-200 dark:border-gray-700"></div>
+                </div>
+                <button
+                    onClick={handleSignInWithCanvas}
+                    disabled={!canvasUrl.trim() || isStartingOAuth}
+                    className="w-full px-6 py-3 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 font-semibold rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-800 disabled:text-gray-400 transition-colors flex items-center justify-center"
+                >
+                    {isStartingOAuth && <Loader2Icon className="w-5 h-5 mr-2 animate-spin" />}
+                    Sign in with Canvas
+                </button>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">No access token needed. Your school's Canvas admin must allow this app.</p>
+                {signInError && (
+                    <div className="mt-4 p-3 rounded-md text-sm bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200 flex items-start gap-2">
+                        <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0 mt-0.5"/>
+                        <span>{signInError}</span>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,10 @@
+import React from 'react';
+
+// Marks the student's own tasks wherever they're listed next to LMS assignments.
+const PersonalTaskBadge: React.FC<{ className?: string }> = ({ className = '' }) => (
+    <span className={`inline-block px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200 ${className}`}>
+        My Task
+    </span>
+);
+
+export default PersonalTaskBadge;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Course, PersonalTask } from '../types';
+import type { PersonalTaskDraft } from '../hooks/usePersonalTasks';
+import { getItemKey } from '../services/canvasConnections';
+import { XIcon, ClipboardListIcon, Loader2Icon } from './icons/Icons';
+
+interface PersonalTaskDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    courses: Course[];
+    // The task to edit; a new one is created without it.
+    task?: PersonalTask | null;
+    onSave: (draft: PersonalTaskDraft) => Promise<void>;
+}
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const labelClassName = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+// `<input type="datetime-local">` works in local time without a zone.
+const toLocalInputValue = (iso: string | null) => iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+const PersonalTaskDialog: React.FC<PersonalTaskDialogProps> = ({ isOpen, onClose, courses, task, onSave }) => {
+    const [title, setTitle] = useState('');
+    const [courseKey, setCourseKey] = useState('');
+    const [dueAt, setDueAt] = useState('');
+    const [estimateMinutes, setEstimateMinutes] = useState('');
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setTitle(task?.title ?? '');
+        setCourseKey(task?.courseKey ?? '');
+        setDueAt(toLocalInputValue(task?.dueAt ?? null));
+        setEstimateMinutes(task?.estimateMinutes ? String(task.estimateMinutes) : '');
+        setNotes(task?.notes ?? '');
+        setError(null);
+    }, [isOpen, task]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!title.trim()) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave({
+                title: title.trim(),
+                notes: notes.trim(),
+                courseKey: courseKey || null,
+                dueAt: dueAt ? new Date(dueAt).toISOString() : null,
+                estimateMinutes: Number(estimateMinutes) > 0 ? Math.round(Number(estimateMinutes)) : null,
+            });
+            onClose();
+        } catch (err) {
+            console.error("Failed to save the task:", err);
+            setError(err instanceof Error ? err.message : 'The task could not be saved.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center"><ClipboardListIcon className="w-5 h-5 mr-2 text-blue-500"/> {task ? 'Edit Task' : 'New Task'}</h2>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+                    <div>
+                        <label htmlFor="task-title" className={labelClassName}>Title</label>
+                        <input id="task-title" type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="Read chapter 4" className={inputClassName} required autoFocus />
+                    </div>
+                    <div>
+                        <label htmlFor="task-course" className={labelClassName}>Course</label>
+                        <select id="task-course" value={courseKey} onChange={e => setCourseKey(e.target.value)} className={inputClassName}>
+                            <option value="">No course</option>
+                            {courses.map(course => (
+                                <option key={getItemKey(course)} value={getItemKey(course)}>{course.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="task-due" className={labelClassName}>Due</label>
+                            <input id="task-due" type="datetime-local" value={dueAt} onChange={e => setDueAt(e.target.value)} className={inputClassName} />
+                        </div>
+                        <div>
+                            <label htmlFor="task-estimate" className={labelClassName}>Estimate (minutes)</label>
+                            <input id="task-estimate" type="number" min={0} step={5} value={estimateMinutes} onChange={e => setEstimateMinutes(e.target.value)} placeholder="60" className={inputClassName} />
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="task-notes" className={labelClassName}>Notes</label>
+                        <textarea id="task-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={4} className={inputClassName} />
+                    </div>
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">Cancel</button>
+                        <button type="submit" disabled={isSaving || !title.trim()} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center">
+                            {isSaving && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                            {task ? 'Save' : 'Add Task'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default PersonalTaskDialog;
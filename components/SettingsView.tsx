@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Settings } from '../types';
+import { AvailabilityWindow, CanvasConnection, Settings } from '../types';
 import { testConnection } from '../services/canvasApiService';
-import { ExclamationTriangleIcon, SparklesIcon, ExternalLinkIcon, Loader2Icon } from './icons/Icons';
+import { createConnectionId, getActiveConnections, getDefaultConnectionName, isCanvasConnection } from '../services/canvasConnections';
+import { ExclamationTriangleIcon, SparklesIcon, ExternalLinkIcon, Loader2Icon, PlusIcon, TrashIcon } from './icons/Icons';
 
 interface SettingsViewProps {
     settings: Settings | null;
-    onSave: (settings: Settings) => void;
+    onSave: (settings: Settings) => Promise<void>;
     onClear: () => void;
     onEnableSampleDataMode: () => void;
     initialError?: string | null;
@@ -13,20 +14,61 @@ interface SettingsViewProps {
 
 type TestStatus = 'idle' | 'testing' | 'success' | 'error';
 
+const AUTO_SYNC_OPTIONS = [
+    { minutes: 0, label: 'Off' },
+    { minutes: 15, label: 'Every 15 minutes' },
+    { minutes: 30, label: 'Every 30 minutes' },
+    { minutes: 60, label: 'Every hour' },
+    { minutes: 180, label: 'Every 3 hours' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const createEmptyConnection = (): CanvasConnection => ({ id: createConnectionId(), name: '', canvasUrl: '', apiToken: '' });
+
+const formatCanvasUrl = (canvasUrl: string) => {
+    let formattedUrl = canvasUrl.trim();
+    if (!formattedUrl) return '';
+
+    // Ensure it starts with https://, or force https if it's http
+    if (!/^https?:\/\//i.test(formattedUrl)) {
+        formattedUrl = 'https://' + formattedUrl;
+    } else {
+        formattedUrl = formattedUrl.replace(/^http:\/\//i, 'https://');
+    }
+
+    // Remove trailing slash
+    if (formattedUrl.endsWith('/')) {
+        formattedUrl = formattedUrl.slice(0, -1);
+    }
+    return formattedUrl;
+};
+
+// The connection as it will be saved: a formatted URL, a trimmed token and a name even if none was entered.
+const normalizeConnection = (connection: CanvasConnection): CanvasConnection => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    return { ...connection, name: connection.name.trim() || getDefaultConnectionName(canvasUrl), canvasUrl, apiToken: connection.apiToken.trim() };
+};
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
 const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, onClear, onEnableSampleDataMode, initialError }) => {
-    const [canvasUrl, setCanvasUrl] = useState('');
-    const [apiToken, setApiToken] = useState('');
+    const [connections, setConnections] = useState<CanvasConnection[]>([createEmptyConnection()]);
     const [isSaved, setIsSaved] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
     const [testStatus, setTestStatus] = useState<TestStatus>('idle');
     const [testMessage, setTestMessage] = useState('');
+    // The connection the test status belongs to.
+    const [testedConnectionId, setTestedConnectionId] = useState<string | null>(null);
     const [displayError, setDisplayError] = useState(initialError);
     const [isAiConfigured, setIsAiConfigured] = useState(false);
     const [isCheckingAiConfig, setIsCheckingAiConfig] = useState(true);
 
     useEffect(() => {
         if (settings) {
-            setCanvasUrl(settings.canvasUrl);
-            setApiToken(settings.apiToken);
+            // Moodle and Google Classroom are connected from the Integrations page.
+            const canvasConnections = settings.connections.filter(isCanvasConnection);
+            setConnections(canvasConnections.length > 0 ? canvasConnections : [createEmptyConnection()]);
         }
     }, [settings]);
     
@@ -64,57 +106,91 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, onClear,
         }
     };
 
+    const updateConnection = (connectionId: string, changes: Partial<CanvasConnection>) => {
+        setConnections(prev => prev.map(c => c.id === connectionId ? { ...c, ...changes } : c));
+        setDisplayError(null);
+        if (connectionId === testedConnectionId) setTestStatus('idle');
+    };
 
-    const getFormattedUrl = () => {
-        let formattedUrl = canvasUrl.trim();
-        if (!formattedUrl) return '';
-
-        // Ensure it starts with https://, or force https if it's http
-        if (!/^https?:\/\//i.test(formattedUrl)) {
-            formattedUrl = 'https://' + formattedUrl;
-        } else {
-            formattedUrl = formattedUrl.replace(/^http:\/\//i, 'https://');
-        }
+    const handleAddConnection = () => {
+        setConnections(prev => [...prev, createEmptyConnection()]);
+    };
 
-        // Remove trailing slash
-        if (formattedUrl.endsWith('/')) {
-            formattedUrl = formattedUrl.slice(0, -1);
-        }
-        return formattedUrl;
-    }
+    const handleRemoveConnection = (connectionId: string) => {
+        setConnections(prev => prev.filter(c => c.id !== connectionId));
+        if (connectionId === testedConnectionId) setTestStatus('idle');
+    };
 
-    const handleSave = (e: React.FormEvent) => {
+    const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
-        onSave({ canvasUrl: getFormattedUrl(), apiToken: apiToken.trim(), sampleDataMode: false });
+        setSaveError(null);
+        try {
+            const otherConnections = settings?.connections.filter(c => !isCanvasConnection(c)) ?? [];
+            await onSave({ ...settings, connections: [...connections.map(normalizeConnection), ...otherConnections], sampleDataMode: false });
+        } catch (err) {
+            setSaveError(err instanceof Error ? err.message : 'Could not save your settings.');
+            return;
+        }
         setIsSaved(true);
         setTestStatus('idle');
         setTimeout(() => setIsSaved(false), 3000);
     };
 
     const handleClear = () => {
-        setCanvasUrl('');
-        setApiToken('');
+        setConnections([createEmptyConnection()]);
         onClear();
     }
 
-    const handleTestConnection = async () => {
+    const handleTestConnection = async (connection: CanvasConnection) => {
+        const normalized = normalizeConnection(connection);
+        setTestedConnectionId(connection.id);
         setTestStatus('testing');
         setTestMessage('');
         setDisplayError(null);
         try {
-            await testConnection(getFormattedUrl(), apiToken.trim());
+            await testConnection(normalized);
             setTestStatus('success');
-            setTestMessage('Successfully connected to the Canvas API!');
+            setTestMessage(`Successfully connected to ${normalized.name}!`);
         } catch (err) {
             setTestStatus('error');
             if (err instanceof Error) {
-                 setTestMessage(`Connection failed: ${err.message}`);
+                 setTestMessage(`Connection to ${normalized.name} failed: ${err.message}`);
             } else {
                 setTestMessage('An unknown error occurred during the connection test.');
             }
         }
     };
 
+    const handleAutoSyncChange = (minutes: number) => {
+        if (!settings) return;
+        onSave({ ...settings, autoSyncIntervalMinutes: minutes }).catch(err => console.error("Failed to save the sync interval:", err));
+    };
+
+    const saveAvailability = (studyAvailability: AvailabilityWindow[]) => {
+        if (!settings) return;
+        onSave({ ...settings, studyAvailability }).catch(err => console.error("Failed to save study availability:", err));
+    };
+
+    const handleAvailabilityChange = (id: string, changes: Partial<AvailabilityWindow>) => {
+        saveAvailability((settings?.studyAvailability ?? []).map(slot => slot.id === id ? { ...slot, ...changes } : slot));
+    };
+
+    const handleAddAvailability = () => {
+        const windows = settings?.studyAvailability ?? [];
+        // Start from the last window's hours on the next day, as most students keep a routine.
+        const last = windows[windows.length - 1];
+        saveAvailability([...windows, {
+            id: createConnectionId(),
+            weekday: last ? (last.weekday + 1) % 7 : 1,
+            start: last?.start ?? '18:00',
+            end: last?.end ?? '20:00',
+        }]);
+    };
+
+    const handleRemoveAvailability = (id: string) => {
+        saveAvailability((settings?.studyAvailability ?? []).filter(slot => slot.id !== id));
+    };
+
     const handleProceedWithSample = () => {
         onEnableSampleDataMode();
     };
@@ -143,32 +219,88 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, onClear,
                 )}
                 <form onSubmit={handleSave}>
                     <div className="space-y-6">
-                        <div>
-                            <label htmlFor="canvas-url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Canvas URL</label>
-                            <input
-                                type="url"
-                                id="canvas-url"
-                                value={canvasUrl}
-                                onChange={(e) => { setCanvasUrl(e.target.value); setDisplayError(null); setTestStatus('idle'); }}
-                                placeholder="yourschool.instructure.com"
-                                required
-                                className="w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                        </div>
-                        <div>
-                            <label htmlFor="api-token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">API Access Token</label>
-                            <input
-                                type="password"
-                                id="api-token"
-                                value={apiToken}
-                                onChange={(e) => { setApiToken(e.target.value); setDisplayError(null); setTestStatus('idle'); }}
-                                placeholder="Enter your generated token"
-                                required
-                                className="w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                        </div>
+                        {connections.map((connection, index) => (
+                            <div key={connection.id} className={connections.length > 1 ? 'p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4' : 'space-y-6'}>
+                                {connections.length > 1 && (
+                                    <div>
+                                        <label htmlFor={`connection-name-${connection.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Institution Name</label>
+                                        <input
+                                            type="text"
+                                            id={`connection-name-${connection.id}`}
+                                            value={connection.name}
+                                            onChange={(e) => updateConnection(connection.id, { name: e.target.value })}
+                                            placeholder={connection.canvasUrl ? getDefaultConnectionName(connection.canvasUrl) : `Canvas account ${index + 1}`}
+                                            className={inputClassName}
+                                        />
+                                    </div>
+                                )}
+                                <div>
+                                    <label htmlFor={`canvas-url-${connection.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Canvas URL</label>
+                                    <input
+                                        type="url"
+                                        id={`canvas-url-${connection.id}`}
+                                        value={connection.canvasUrl}
+                                        onChange={(e) => updateConnection(connection.id, { canvasUrl: e.target.value })}
+                                        placeholder="yourschool.instructure.com"
+                                        required
+                                        className={inputClassName}
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor={`api-token-${connection.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">API Access Token</label>
+                                    <input
+                                        type="password"
+                                        id={`api-token-${connection.id}`}
+                                        value={connection.apiToken}
+                                        onChange={(e) => updateConnection(connection.id, { apiToken: e.target.value })}
+                                        placeholder={connection.authMethod === 'oauth'
+                                            ? 'Signed in with Canvas. Enter a token to use it instead'
+                                            : connection.hasServerToken ? 'Saved securely. Enter a new token to replace it' : 'Enter your generated token'}
+                                        required={!connection.hasServerToken}
+                                        className={inputClassName}
+                                    />
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleTestConnection(connection)}
+                                        disabled={!connection.canvasUrl || (!connection.apiToken && !connection.hasServerToken) || testStatus === 'testing'}
+                                        className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100 font-semibold rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 disabled:bg-gray-100 dark:disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                                    >
+                                        {testStatus === 'testing' && testedConnectionId === connection.id ? (
+                                            <span className="flex items-center">
+                                                <div className="w-4 h-4 mr-2 border-2 border-gray-800 dark:border-gray-100 border-dashed rounded-full animate-spin"></div>
+                                                Testing...
+                                            </span>
+                                        ) : 'Test Connection'}
+                                    </button>
+                                    {connections.length > 1 && (
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemoveConnection(connection.id)}
+                                            className="px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md transition-colors"
+                                        >
+                                            Remove
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            onClick={handleAddConnection}
+                            className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                            + Add another Canvas account
+                        </button>
                     </div>
                     
+                    {saveError && (
+                        <div className="mt-4 p-3 rounded-md text-sm bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200">
+                            {saveError}
+                        </div>
+                    )}
+
                     {testStatus === 'success' && (
                         <div className="mt-4 p-3 rounded-md text-sm bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200">
                             {testMessage}
@@ -196,25 +328,10 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, onClear,
                     )}
 
                     <div className="mt-8 flex items-center justify-between flex-wrap gap-4">
-                        <div className="flex items-center gap-2">
-                             <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors">
-                                {isSaved ? 'Saved!' : 'Save Credentials'}
-                            </button>
-                             <button 
-                                type="button" 
-                                onClick={handleTestConnection}
-                                disabled={!canvasUrl || !apiToken || testStatus === 'testing'}
-                                className="px-6 py-2 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100 font-semibold rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 disabled:bg-gray-100 dark:disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
-                             >
-                                {testStatus === 'testing' ? (
-                                    <span className="flex items-center">
-                                        <div className="w-4 h-4 mr-2 border-2 border-gray-800 dark:border-gray-100 border-dashed rounded-full animate-spin"></div>
-                                        Testing...
-                                    </span>
-                                ) : 'Test Connection'}
-                            </button>
-                        </div>
-                        {settings?.apiToken && (
+                        <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors">
+                            {isSaved ? 'Saved!' : 'Save Credentials'}
+                        </button>
+                        {getActiveConnections(settings).length > 0 && (
                            <button type="button" onClick={handleClear} className="px-4 py-2 bg-red-100 text-red-700 text-sm font-medium rounded-md hover:bg-red-200 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900/80 transition-colors">
                                 Clear Settings
                            </button>
@@ -223,6 +340,59 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave, onClear,
                 </form>
             </div>
             
+            {settings && getActiveConnections(settings).length > 0 && (
+                <div className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-8">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">Background Sync</h2>
+                    <p className="text-gray-600 dark:text-gray-400 text-sm mb-4">
+                        Refresh your Canvas data automatically while the app is open. Syncing pauses when the tab is hidden or you are offline, and slows down if Canvas reports errors or rate limiting.
+                    </p>
+                    <label htmlFor="auto-sync-interval" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Sync interval</label>
+                    <select
+                        id="auto-sync-interval"
+                        value={settings.autoSyncIntervalMinutes ?? 0}
+                        onChange={(e) => handleAutoSyncChange(Number(e.target.value))}
+                        className="w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {AUTO_SYNC_OPTIONS.map(option => (
+                            <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {settings && (
+                <div className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-8">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1">Study Schedule</h2>
+                    <p className="text-gray-600 dark:text-gray-400 text-sm mb-4">
+                        Add the times you can usually study. Study sessions for upcoming assignments are planned into these hours around your calendar and shown in the calendar's week view. Leave this empty to turn study planning off.
+                    </p>
+                    <div className="space-y-2">
+                        {(settings.studyAvailability ?? []).map(slot => (
+                            <div key={slot.id} className="flex flex-wrap items-center gap-2">
+                                <select
+                                    value={slot.weekday}
+                                    onChange={(e) => handleAvailabilityChange(slot.id, { weekday: Number(e.target.value) })}
+                                    aria-label="Day"
+                                    className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    {WEEKDAYS.map((day, index) => <option key={day} value={index}>{day}</option>)}
+                                </select>
+                                <input type="time" step={900} value={slot.start} onChange={(e) => e.target.value && handleAvailabilityChange(slot.id, { start: e.target.value })} aria-label="From" className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                                <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+                                <input type="time" step={900} value={slot.end} onChange={(e) => e.target.value && handleAvailabilityChange(slot.id, { end: e.target.value })} aria-label="Until" className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                                <button type="button" onClick={() => handleRemoveAvailability(slot.id)} className="p-2 rounded-md text-gray-500 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Remove time">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                                {slot.end <= slot.start && <span className="text-xs text-red-600 dark:text-red-400">Ends before it starts</span>}
+                            </div>
+                        ))}
+                    </div>
+                    <button type="button" onClick={handleAddAvailability} className="mt-4 px-4 py-2 bg-gray-200 text-gray-800 text-sm font-medium rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors flex items-center">
+                        <PlusIcon className="w-4 h-4 mr-2" /> Add Study Time
+                    </button>
+                </div>
+            )}
+
             <div className="mt-8 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-8">
                 <div className="flex items-center justify-between mb-4">
                     <div>
@@ -1,22 +1,28 @@
 import React from 'react';
 import { Page, Settings } from '../types';
-import { HomeIcon, BookOpenIcon, ClipboardListIcon, CalendarIcon, BrainIcon, UsersIcon, LinkIcon, SettingsIcon, DocumentTextIcon } from './icons/Icons';
+import { HomeIcon, BookOpenIcon, ClipboardListIcon, CalendarIcon, BrainIcon, UsersIcon, LinkIcon, SettingsIcon, DocumentTextIcon, AwardIcon } from './icons/Icons';
 import ThemeSwitcher from './ThemeSwitcher';
 
 interface SidebarProps {
   currentPage: Page;
   setCurrentPage: (page: Page) => void;
   settings: Settings | null;
+  // 'all', or the ID of the Canvas connection whose data is shown.
+  institutionFilter: string;
+  onInstitutionFilterChange: (filter: string) => void;
+  // Unread Canvas Inbox conversations, shown on the Chat link.
+  unreadMessageCount: number;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, settings }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, settings, institutionFilter, onInstitutionFilterChange, unreadMessageCount }) => {
   const navItems = [
     { page: Page.Dashboard, icon: <HomeIcon />, label: 'Dashboard' },
     { page: Page.Courses, icon: <BookOpenIcon />, label: 'Courses' },
     { page: Page.Assignments, icon: <ClipboardListIcon />, label: 'Assignments' },
+    { page: Page.Grades, icon: <AwardIcon />, label: 'Grades' },
     { page: Page.Calendar, icon: <CalendarIcon />, label: 'Calendar' },
     { page: Page.AiTools, icon: <BrainIcon />, label: 'AI Tools' },
-    { page: Page.Chat, icon: <UsersIcon />, label: 'Chat' },
+    { page: Page.Chat, icon: <UsersIcon />, label: 'Chat', badge: unreadMessageCount },
     { page: Page.Notes, icon: <DocumentTextIcon />, label: 'Notes' },
     { page: Page.Integrations, icon: <LinkIcon />, label: 'Integrations' },
   ];
@@ -35,6 +41,9 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, settings
         >
             {React.cloneElement(item.icon, { className: 'w-5 h-5 flex-shrink-0' })}
             <span>{item.label}</span>
+            {!!item.badge && (
+                <span className="ml-auto px-2 py-0.5 text-xs font-bold rounded-full bg-blue-600 text-white" aria-label={`${item.badge} unread`}>{item.badge}</span>
+            )}
         </button>
     );
   };
@@ -46,11 +55,29 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, setCurrentPage, settings
         <h1 className="text-2xl font-bold text-gray-900 dark:text-white">StudyPlatform</h1>
       </div>
        <div className="flex-1 flex flex-col justify-between overflow-y-auto">
+        <div>
+        {settings && settings.connections.length > 1 && (
+          <div className="px-4 pb-4">
+            <label htmlFor="institution-filter" className="block px-1 mb-1 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400">Institution</label>
+            <select
+              id="institution-filter"
+              value={institutionFilter}
+              onChange={(e) => onInstitutionFilterChange(e.target.value)}
+              className="w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Institutions</option>
+              {settings.connections.map(connection => (
+                <option key={connection.id} value={connection.id}>{connection.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <nav className="px-4 space-y-1">
           {navItems.map((item) => (
             <NavLink key={item.page} item={item} />
           ))}
         </nav>
+        </div>
         <div className="px-4 py-4 mt-4">
              <ThemeSwitcher />
              <button
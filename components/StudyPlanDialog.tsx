@@ -1,13 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Assignment, Course, StudyPlan } from '../types';
-import { generateStudyPlan } from '../services/geminiService';
-import { XIcon, ClockIcon, SparklesIcon } from './icons/Icons';
+import { format } from 'date-fns';
+import { Assignment, AssignmentStatus, AssignmentStatusSource } from '../types';
+import { useStudyPlan } from '../hooks/useStudyPlan';
+import { XIcon, ClockIcon, SparklesIcon, Loader2Icon } from './icons/Icons';
 
 interface StudyPlanDialogProps {
   assignment: Assignment;
-  course: Course;
   isOpen: boolean;
   onClose: () => void;
+  onStatusChange: (assignmentKey: string, status: AssignmentStatus, source: AssignmentStatusSource) => void | Promise<void>;
 }
 
 const SkeletonLoader: React.FC = () => (
@@ -43,58 +44,28 @@ const PriorityBadge: React.FC<{ priority: 'high' | 'medium' | 'low' }> = ({ prio
     return <span className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${styles[priority]}`}>{priority}</span>
 }
 
-const StudyPlanDialog: React.FC<StudyPlanDialogProps> = ({ assignment, course, isOpen, onClose }) => {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [plan, setPlan] = useState<StudyPlan | null>(null);
-  const [error, setError] = useState<string | null>(null);
+const StudyPlanDialog: React.FC<StudyPlanDialogProps> = ({ assignment, isOpen, onClose, onStatusChange }) => {
+  const { versions, isLoading, isGenerating, error, generate, setStepCompleted, restoreVersion } = useStudyPlan(assignment, onStatusChange);
   const [enableThinking, setEnableThinking] = useState(false);
+  // The version on screen, as an index into `versions`; null shows the current one.
+  const [viewedIndex, setViewedIndex] = useState<number | null>(null);
 
-  const handleStepToggle = (stepIndex: number, isCompleted: boolean) => {
-    if (!plan) return;
-    const updatedSteps = plan.steps.map((step, index) => 
-        index === stepIndex ? { ...step, completed: isCompleted } : step
-    );
-    setPlan({ ...plan, steps: updatedSteps });
-  };
-  
+  // Generate a plan the first time the dialog is opened for an assignment; after that the saved one is shown.
   useEffect(() => {
-    const fetchPlan = async () => {
-      if (!isOpen) return;
-      // Reset state when opening for a new assignment, but not if just toggling thinking mode
-      if (plan?.title.includes(assignment.name) === false) {
-          setPlan(null);
-          setError(null);
-      }
-
-      if (isOpen && !plan && !isGenerating) {
-        setIsGenerating(true);
-        setError(null);
-        try {
-            const resultPlan = await generateStudyPlan(assignment, { enableThinking });
-            if (resultPlan) {
-                const planWithState: StudyPlan = {
-                    ...resultPlan,
-                    steps: resultPlan.steps.map(step => ({ ...step, completed: false }))
-                };
-                setPlan(planWithState);
-            } else {
-                setError("[AI Error] The AI returned an empty or invalid study plan.");
-            }
-        } catch (e: any) {
-            console.error("Failed to generate or parse study plan", e);
-            setError(e.message || "[Client Error] Failed to generate the study plan.");
-        } finally {
-            setIsGenerating(false);
-        }
-      }
-    };
-    fetchPlan();
-  }, [isOpen, assignment, plan, isGenerating, enableThinking]);
+    if (isOpen && !isLoading && versions.length === 0 && !isGenerating && !error) {
+      generate(enableThinking);
+    }
+  }, [isOpen, isLoading, versions.length, isGenerating, error, generate, enableThinking]);
 
   const regeneratePlan = () => {
-      setPlan(null);
-      setError(null);
-  }
+      setViewedIndex(null);
+      generate(enableThinking);
+  };
+
+  const currentIndex = versions.length - 1;
+  const shownIndex = viewedIndex ?? currentIndex;
+  const isViewingOlder = shownIndex !== currentIndex;
+  const plan = isGenerating ? null : versions[shownIndex]?.plan ?? null;
 
   if (!isOpen) return null;
 
@@ -109,30 +80,49 @@ const StudyPlanDialog: React.FC<StudyPlanDialogProps> = ({ assignment, course, i
                 <div>
                     <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center"><SparklesIcon className="w-5 h-5 mr-2 text-blue-500"/> AI Study Plan</h2>
                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{assignment.name}</p>
+                    {versions.length > 1 && !isGenerating && (
+                        <select
+                            value={shownIndex}
+                            onChange={e => setViewedIndex(Number(e.target.value))}
+                            aria-label="Plan version"
+                            className="mt-2 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-xs text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            {versions.map((version, index) => (
+                                <option key={version.generatedAt} value={index}>
+                                    {format(new Date(version.generatedAt), 'PPp')}{index === currentIndex ? ' (current)' : ''}
+                                </option>
+                            )).reverse()}
+                        </select>
+                    )}
                 </div>
                 <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
             </div>
             <div className="flex-1 p-6 overflow-y-auto bg-gray-50 dark:bg-gray-900">
-                {!plan && !isGenerating && !error && (
+                {!isLoading && !isGenerating && !isViewingOlder && (
                     <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800/50 rounded-lg mb-6">
                         <label htmlFor="thinking-toggle" className="flex items-center cursor-pointer">
                             <div className="relative">
-                                <input id="thinking-toggle" type="checkbox" className="sr-only" checked={enableThinking} onChange={e => {
-                                    setEnableThinking(e.target.checked);
-                                    regeneratePlan();
-                                }} />
+                                <input id="thinking-toggle" type="checkbox" className="sr-only" checked={enableThinking} onChange={e => setEnableThinking(e.target.checked)} />
                                 <div className="block bg-gray-200 dark:bg-gray-600 w-11 h-6 rounded-full"></div>
                                 <div className={`dot absolute left-1 top-1 bg-white dark:bg-gray-400 w-4 h-4 rounded-full transition-transform ${enableThinking ? 'translate-x-5 !bg-blue-600 dark:!bg-blue-500' : ''}`}></div>
                             </div>
                             <div className="ml-3 text-sm text-gray-700 dark:text-gray-300">
                                 <span className="font-semibold">Enable Thinking Mode</span>
-                                <p className="text-xs text-gray-500 dark:text-gray-400">Slower, more detailed results for complex assignments.</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">Slower, more detailed results for complex assignments. Applies when you regenerate the plan.</p>
                             </div>
                         </label>
                     </div>
                 )}
-                {isGenerating && <SkeletonLoader />}
+                {(isLoading || isGenerating) && <SkeletonLoader />}
                 {error && <div className="text-red-700 bg-red-100 border border-red-200 p-4 rounded-lg dark:bg-red-900/50 dark:text-red-300 dark:border-red-800">{error}</div>}
+                {plan && isViewingOlder && (
+                    <div className="mb-6 p-3 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4 text-sm text-gray-700 dark:text-gray-300">
+                        <span>You're viewing an earlier version of this plan.</span>
+                        <button onClick={() => { restoreVersion(shownIndex); setViewedIndex(null); }} className="px-3 py-1.5 bg-blue-600 text-white text-xs font-semibold rounded-md hover:bg-blue-700 transition-colors flex-shrink-0">
+                            Make Current
+                        </button>
+                    </div>
+                )}
                 {plan && (
                     <div className="space-y-6">
                         {/* Progress Overview */}
@@ -154,7 +144,8 @@ const StudyPlanDialog: React.FC<StudyPlanDialogProps> = ({ assignment, course, i
                                         <input
                                             type="checkbox"
                                             checked={step.completed}
-                                            onChange={(e) => handleStepToggle(index, e.target.checked)}
+                                            onChange={(e) => setStepCompleted(index, e.target.checked)}
+                                            disabled={isViewingOlder}
                                             className="mt-1 h-5 w-5 rounded bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-blue-500 focus:ring-blue-600"
                                         />
                                         <div className="flex-1">
@@ -202,7 +193,13 @@ const StudyPlanDialog: React.FC<StudyPlanDialogProps> = ({ assignment, course, i
                     </div>
                 )}
             </div>
-            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+                {(versions.length > 0 || error) && (
+                    <button onClick={regeneratePlan} disabled={isGenerating} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors flex items-center">
+                        {isGenerating && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                        Regenerate
+                    </button>
+                )}
                 <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">Close</button>
             </div>
         </div>
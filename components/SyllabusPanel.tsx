@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Assignment, CanvasConnection, Course, SyllabusExtraction } from '../types';
+import { CourseSyllabi } from '../hooks/useCourseSyllabi';
+import { getItemKey } from '../services/canvasConnections';
+import { getSyllabusEventDate, readSyllabus } from '../services/syllabusService';
+import SyllabusReviewDialog from './SyllabusReviewDialog';
+import { CalendarIcon, Loader2Icon, SparklesIcon, TrashIcon } from './icons/Icons';
+
+interface SyllabusPanelProps {
+    course: Course;
+    // Must be a Canvas connection.
+    connection: CanvasConnection;
+    // The course's assignments.
+    assignments: Assignment[];
+    courseSyllabi: CourseSyllabi;
+}
+
+const cardClassName = "bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-5";
+const cardTitleClassName = "font-semibold text-gray-900 dark:text-white mb-3";
+
+/**
+ * A course's grading breakdown, late policy, office hours and key dates, read from its Canvas syllabus by
+ * Gemini and confirmed by the student. Confirmed dates appear on the calendar.
+ */
+const SyllabusPanel: React.FC<SyllabusPanelProps> = ({ course, connection, assignments, courseSyllabi }) => {
+    const courseKey = getItemKey(course);
+    const syllabus = courseSyllabi.getSyllabus(courseKey);
+    const [isReading, setIsReading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // What's being reviewed: a fresh import, or the saved details being edited.
+    const [review, setReview] = useState<{ extraction: SyllabusExtraction; isImport: boolean } | null>(null);
+
+    const importSyllabus = async () => {
+        setIsReading(true);
+        setError(null);
+        try {
+            setReview({ extraction: await readSyllabus(connection, course), isImport: true });
+        } catch (err) {
+            console.error("Could not read the syllabus:", err);
+            setError(err instanceof Error ? err.message : 'The syllabus could not be read.');
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const removeSyllabus = async () => {
+        if (!window.confirm('Remove the syllabus details and their calendar dates?')) return;
+        try {
+            await courseSyllabi.removeSyllabus(courseKey);
+        } catch (err) {
+            console.error("Could not remove the syllabus:", err);
+            setError('The syllabus details could not be removed.');
+        }
+    };
+
+    const importButton = (
+        <button onClick={importSyllabus} disabled={isReading} className="flex items-center px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors">
+            {isReading ? <Loader2Icon className="w-4 h-4 mr-2 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-2" />}
+            {isReading ? 'Reading Syllabus...' : syllabus ? 'Re-import' : 'Import Syllabus'}
+        </button>
+    );
+
+    const extraction = syllabus?.extraction;
+    const events = extraction ? [...extraction.events].sort((a, b) => getSyllabusEventDate(a).getTime() - getSyllabusEventDate(b).getTime()) : [];
+
+    return (
+        <div>
+            {error && (
+                <div className="mb-4 p-4 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">{error}</div>
+            )}
+            {!syllabus || !extraction ? (
+                <div className="text-center py-12 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <p className="mb-1 font-semibold text-gray-800 dark:text-gray-200">No syllabus imported yet</p>
+                    <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">Pull the grading breakdown, late policy, office hours and exam dates from this course's syllabus.</p>
+                    <div className="flex justify-center">{importButton}</div>
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Imported {format(new Date(syllabus.importedAt), 'MMM d, yyyy')}</p>
+                        <div className="flex gap-2">
+                            <button onClick={() => setReview({ extraction, isImport: false })} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">Edit</button>
+                            {importButton}
+                            <button onClick={removeSyllabus} className="p-2 text-gray-500 dark:text-gray-400 hover:text-red-500 transition-colors" aria-label="Remove syllabus"><TrashIcon className="w-5 h-5" /></button>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div className={cardClassName}>
+                            <h3 className={cardTitleClassName}>Grading Breakdown</h3>
+                            {extraction.gradingBreakdown.length > 0 ? (
+                                <table className="w-full text-sm">
+                                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                        {extraction.gradingBreakdown.map(category => (
+                                            <tr key={category.name}>
+                                                <td className="py-1.5 text-gray-800 dark:text-gray-200">{category.name}</td>
+                                                <td className="py-1.5 text-right font-semibold text-gray-900 dark:text-white">{category.weight}%</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            ) : (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">Not listed in the syllabus.</p>
+                            )}
+                        </div>
+                        <div className="space-y-6">
+                            <div className={cardClassName}>
+                                <h3 className={cardTitleClassName}>Late Policy</h3>
+                                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{extraction.latePolicy ?? 'Not listed in the syllabus.'}</p>
+                            </div>
+                            <div className={cardClassName}>
+                                <h3 className={cardTitleClassName}>Office Hours</h3>
+                                {extraction.officeHours.length > 0 ? (
+                                    <ul className="space-y-2 text-sm">
+                                        {extraction.officeHours.map((hours, index) => (
+                                            <li key={index}>
+                                                <p className="font-medium text-gray-800 dark:text-gray-200">{hours.who}</p>
+                                                <p className="text-gray-500 dark:text-gray-400">{hours.when}{hours.location && ` · ${hours.location}`}</p>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-sm text-gray-500 dark:text-gray-400">Not listed in the syllabus.</p>
+                                )}
+                            </div>
+                        </div>
+                        <div className={`${cardClassName} lg:col-span-2`}>
+                            <h3 className={`${cardTitleClassName} flex items-center`}><CalendarIcon className="w-4 h-4 mr-2 text-blue-500" /> Key Dates</h3>
+                            {events.length > 0 ? (
+                                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {events.map((event, index) => (
+                                        <li key={index} className="flex items-center justify-between gap-3 py-2 text-sm">
+                                            <span className="text-gray-800 dark:text-gray-200">{event.title}</span>
+                                            <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                                                {format(getSyllabusEventDate(event), event.time ? 'EEE, MMM d · h:mm a' : 'EEE, MMM d')}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No dates added to the calendar.</p>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+            {review && (
+                <SyllabusReviewDialog
+                    courseName={course.name}
+                    extraction={review.extraction}
+                    assignments={assignments}
+                    uncheckDuplicates={review.isImport}
+                    onClose={() => setReview(null)}
+                    onConfirm={confirmed => courseSyllabi.saveSyllabus(courseKey, confirmed)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default SyllabusPanel;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Assignment, SyllabusEvent, SyllabusExtraction, SyllabusGradingCategory, SyllabusOfficeHours } from '../types';
+import { findMatchingAssignment } from '../services/syllabusService';
+import { XIcon, DocumentTextIcon, Loader2Icon, PlusIcon, TrashIcon } from './icons/Icons';
+
+interface SyllabusReviewDialogProps {
+    courseName: string;
+    // What Gemini found, or the details saved earlier.
+    extraction: SyllabusExtraction;
+    // The course's assignments, to spot syllabus items that are already in Canvas.
+    assignments: Assignment[];
+    // Whether items that match an assignment start unchecked. Off when editing details the student already confirmed.
+    uncheckDuplicates: boolean;
+    onClose: () => void;
+    onConfirm: (extraction: SyllabusExtraction) => Promise<void>;
+}
+
+const inputClassName = "w-full bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1.5 px-2 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500";
+const sectionTitleClassName = "text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2";
+
+const EVENT_TYPE_LABELS: Record<SyllabusEvent['type'], string> = {
+    test: 'Exam',
+    quiz: 'Quiz',
+    assignment: 'Due date',
+    event: 'Event',
+};
+
+interface ReviewedEvent extends SyllabusEvent {
+    included: boolean;
+    // The name of the Canvas assignment it seems to duplicate.
+    matchingAssignment: string | null;
+}
+
+/**
+ * Lets the student correct what was read from a syllabus before it's saved. Items that look like existing
+ * Canvas assignments start unchecked, so they don't show twice on the calendar.
+ */
+const SyllabusReviewDialog: React.FC<SyllabusReviewDialogProps> = ({ courseName, extraction, assignments, uncheckDuplicates, onClose, onConfirm }) => {
+    const [grading, setGrading] = useState<SyllabusGradingCategory[]>(extraction.gradingBreakdown);
+    const [latePolicy, setLatePolicy] = useState(extraction.latePolicy ?? '');
+    const [officeHours, setOfficeHours] = useState<SyllabusOfficeHours[]>(extraction.officeHours);
+    const [events, setEvents] = useState<ReviewedEvent[]>(() => extraction.events.map(event => {
+        const match = findMatchingAssignment(event, assignments);
+        return { ...event, included: !(uncheckDuplicates && match), matchingAssignment: match?.name ?? null };
+    }));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const totalWeight = grading.reduce((total, category) => total + (Number(category.weight) || 0), 0);
+
+    const updateGrading = (index: number, changes: Partial<SyllabusGradingCategory>) =>
+        setGrading(current => current.map((category, i) => i === index ? { ...category, ...changes } : category));
+    const updateOfficeHours = (index: number, changes: Partial<SyllabusOfficeHours>) =>
+        setOfficeHours(current => current.map((hours, i) => i === index ? { ...hours, ...changes } : hours));
+    const updateEvent = (index: number, changes: Partial<ReviewedEvent>) =>
+        setEvents(current => current.map((event, i) => i === index ? { ...event, ...changes } : event));
+
+    const handleConfirm = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onConfirm({
+                gradingBreakdown: grading.filter(category => category.name.trim()).map(category => ({ name: category.name.trim(), weight: Number(category.weight) || 0 })),
+                latePolicy: latePolicy.trim() || null,
+                officeHours: officeHours.filter(hours => hours.who.trim() || hours.when.trim()),
+                events: events
+                    .filter(event => event.included && event.title.trim() && event.date)
+                    .map(({ title, date, time, type }) => ({ title: title.trim(), date, time: time || null, type })),
+            });
+            onClose();
+        } catch (err) {
+            console.error("Failed to save the syllabus:", err);
+            setError(err instanceof Error ? err.message : 'The syllabus details could not be saved.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900 dark:text-white flex items-center"><DocumentTextIcon className="w-5 h-5 mr-2 text-blue-500"/> Review Syllabus</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{courseName}. Check these against the syllabus before saving.</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
+                </div>
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    <section>
+                        <h3 className={sectionTitleClassName}>Grading Breakdown</h3>
+                        <div className="space-y-2">
+                            {grading.map((category, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <input type="text" value={category.name} onChange={e => updateGrading(index, { name: e.target.value })} placeholder="Category" className={inputClassName} />
+                                    <input type="number" min={0} max={100} value={category.weight} onChange={e => updateGrading(index, { weight: Number(e.target.value) })} className={`${inputClassName} w-24`} aria-label="Weight (%)" />
+                                    <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+                                    <button onClick={() => setGrading(current => current.filter((_, i) => i !== index))} className="p-1.5 text-gray-400 hover:text-red-500" aria-label="Remove category"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex items-center justify-between mt-2">
+                            <button onClick={() => setGrading(current => [...current, { name: '', weight: 0 }])} className="flex items-center text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+                                <PlusIcon className="w-4 h-4 mr-1" /> Add category
+                            </button>
+                            {grading.length > 0 && (
+                                <span className={`text-sm ${Math.round(totalWeight) === 100 ? 'text-gray-500 dark:text-gray-400' : 'text-yellow-600 dark:text-yellow-400 font-semibold'}`}>Total {totalWeight}%</span>
+                            )}
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className={sectionTitleClassName}>Late Policy</h3>
+                        <textarea value={latePolicy} onChange={e => setLatePolicy(e.target.value)} rows={2} placeholder="No late policy found." className={inputClassName} />
+                    </section>
+
+                    <section>
+                        <h3 className={sectionTitleClassName}>Office Hours</h3>
+                        <div className="space-y-2">
+                            {officeHours.map((hours, index) => (
+                                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                                    <input type="text" value={hours.who} onChange={e => updateOfficeHours(index, { who: e.target.value })} placeholder="Who" className={inputClassName} />
+                                    <input type="text" value={hours.when} onChange={e => updateOfficeHours(index, { when: e.target.value })} placeholder="When" className={inputClassName} />
+                                    <input type="text" value={hours.location ?? ''} onChange={e => updateOfficeHours(index, { location: e.target.value || null })} placeholder="Where" className={inputClassName} />
+                                    <button onClick={() => setOfficeHours(current => current.filter((_, i) => i !== index))} className="p-1.5 text-gray-400 hover:text-red-500" aria-label="Remove office hours"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                            {officeHours.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">No office hours found.</p>}
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className={sectionTitleClassName}>Dates for the Calendar</h3>
+                        {events.length > 0 ? (
+                            <div className="space-y-2">
+                                {events.map((event, index) => (
+                                    <div key={index} className={`p-2 rounded-md border border-gray-200 dark:border-gray-700 ${event.included ? '' : 'opacity-60'}`}>
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <input type="checkbox" checked={event.included} onChange={e => updateEvent(index, { included: e.target.checked })} className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500" aria-label="Add to calendar" />
+                                            <input type="text" value={event.title} onChange={e => updateEvent(index, { title: e.target.value })} className={`${inputClassName} flex-1 min-w-[10rem]`} />
+                                            <input type="date" value={event.date} onChange={e => updateEvent(index, { date: e.target.value })} className={`${inputClassName} w-40`} />
+                                            <input type="time" value={event.time ?? ''} onChange={e => updateEvent(index, { time: e.target.value || null })} className={`${inputClassName} w-28`} aria-label="Time (optional)" />
+                                            <select value={event.type} onChange={e => updateEvent(index, { type: e.target.value as SyllabusEvent['type'] })} className={`${inputClassName} w-32`}>
+                                                {Object.entries(EVENT_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                                            </select>
+                                        </div>
+                                        {event.matchingAssignment && (
+                                            <p className="mt-1 ml-6 text-xs text-gray-500 dark:text-gray-400">Looks like "{event.matchingAssignment}", which is already in Canvas.</p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">No dated items found.</p>
+                        )}
+                    </section>
+                    {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">Cancel</button>
+                    <button onClick={handleConfirm} disabled={isSaving} className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors flex items-center">
+                        {isSaving && <Loader2Icon className="w-4 h-4 mr-2 animate-spin" />}
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SyllabusReviewDialog;
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Course, Settings, AssignmentGroup } from '../types';
+import { getAssignmentGroups } from '../services/canvasApiService';
+import * as mockService from '../services/canvasMockService';
+import { getConnection, isCanvasConnection } from '../services/canvasConnections';
+import { calculateGrade, scoreNeededForTarget, WhatIfScores } from '../services/gradeCalculator';
+import { XIcon, Loader2Icon, SparklesIcon } from './icons/Icons';
+
+interface WhatIfGradeCalculatorProps {
+    course: Course;
+    settings: Settings;
+    onClose: () => void;
+}
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}%`;
+
+const WhatIfGradeCalculator: React.FC<WhatIfGradeCalculatorProps> = ({ course, settings, onClose }) => {
+    const [groups, setGroups] = useState<AssignmentGroup[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    // Raw input values, so partially typed numbers aren't lost while editing.
+    const [whatIfInputs, setWhatIfInputs] = useState<Record<number, string>>({});
+    const [targetAssignmentId, setTargetAssignmentId] = useState<number | null>(null);
+    const [targetPercentage, setTargetPercentage] = useState('90');
+
+    const weighted = !!course.apply_assignment_group_weights;
+
+    useEffect(() => {
+        let isCancelled = false;
+        const loadGroups = async () => {
+            setIsLoading(true);
+            setError(null);
+            try {
+                const connection = getConnection(settings, course.connectionId);
+                if (!settings.sampleDataMode && !connection) {
+                    throw new Error("The Canvas account this course came from is no longer connected.");
+                }
+                if (!settings.sampleDataMode && !isCanvasConnection(connection)) {
+                    throw new Error("What-if grades are only available for Canvas courses.");
+                }
+                const data = settings.sampleDataMode
+                    ? await mockService.getAssignmentGroups(course.id)
+                    : await getAssignmentGroups(connection!, course.id);
+                if (!isCancelled) setGroups(data);
+            } catch (e) {
+                console.error("Failed to load assignment groups:", e);
+                if (!isCancelled) setError(e instanceof Error ? e.message : 'Failed to load assignment groups.');
+            } finally {
+                if (!isCancelled) setIsLoading(false);
+            }
+        };
+        loadGroups();
+        return () => { isCancelled = true; };
+    }, [course.id, course.connectionId, settings]);
+
+    const whatIfScores = useMemo<WhatIfScores>(() => {
+        const scores: WhatIfScores = {};
+        Object.entries(whatIfInputs).forEach(([id, value]) => {
+            const parsed = parseFloat(value);
+            if (value.trim() !== '' && !isNaN(parsed)) scores[Number(id)] = parsed;
+        });
+        return scores;
+    }, [whatIfInputs]);
+
+    const actual = useMemo(() => calculateGrade(groups, weighted), [groups, weighted]);
+    const whatIf = useMemo(() => calculateGrade(groups, weighted, whatIfScores), [groups, weighted, whatIfScores]);
+
+    const ungradedAssignments = useMemo(() => groups.flatMap(g => g.assignments)
+        .filter(a => a.score === null && !a.excused && !a.omit_from_final_grade && a.points_possible > 0), [groups]);
+
+    const targetAssignment = ungradedAssignments.find(a => a.id === targetAssignmentId) || ungradedAssignments[0];
+
+    const neededScore = useMemo(() => {
+        const target = parseFloat(targetPercentage);
+        if (!targetAssignment || isNaN(target)) return undefined;
+        // Solve for the chosen assignment alone, keeping any other what-if scores in place.
+        const { [targetAssignment.id]: _ignored, ...otherScores } = whatIfScores;
+        return scoreNeededForTarget(groups, weighted, otherScores, targetAssignment, target);
+    }, [groups, weighted, whatIfScores, targetAssignment, targetPercentage]);
+
+    const hasWhatIfScores = Object.keys(whatIfScores).length > 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-800 rounded-xl w-full max-w-3xl h-[90vh] flex flex-col shadow-2xl border border-gray-200 dark:border-gray-700" onClick={e => e.stopPropagation()}>
+                <div className="flex items-start justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-900 dark:text-white">What-If Grade Calculator</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{course.name} · {weighted ? 'Weighted by assignment group' : 'Total points'}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"><XIcon/></button>
+                </div>
+                <div className="flex-1 p-6 overflow-y-auto bg-gray-50 dark:bg-gray-900 space-y-6">
+                    {isLoading && (
+                        <div className="flex items-center justify-center p-8 text-gray-500 dark:text-gray-400">
+                            <Loader2Icon className="w-6 h-6 animate-spin mr-2" />
+                            Loading assignment groups...
+                        </div>
+                    )}
+                    {error && <div className="text-red-700 bg-red-100 border border-red-200 p-4 rounded-lg dark:bg-red-900/50 dark:text-red-300 dark:border-red-800">{error}</div>}
+                    {!isLoading && !error && (
+                        <>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                                    <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">Current Grade</p>
+                                    <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatPercent(actual.currentScore)}</p>
+                                </div>
+                                <div className={`p-4 rounded-lg border ${hasWhatIfScores ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800/50' : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700'}`}>
+                                    <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">With What-If Scores</p>
+                                    <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatPercent(whatIf.currentScore)}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Final (ungraded as zero): {formatPercent(whatIf.finalScore)}</p>
+                                </div>
+                            </div>
+
+                            {targetAssignment && (
+                                <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                                    <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center mb-3"><SparklesIcon className="w-4 h-4 mr-2 text-blue-500" />What do I need?</h3>
+                                    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                        <span>To reach</span>
+                                        <input
+                                            type="number"
+                                            value={targetPercentage}
+                                            onChange={e => setTargetPercentage(e.target.value)}
+                                            className="w-20 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                        <span>% I need on</span>
+                                        <select
+                                            value={targetAssignment.id}
+                                            onChange={e => setTargetAssignmentId(Number(e.target.value))}
+                                            className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        >
+                                            {ungradedAssignments.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                        </select>
+                                    </div>
+                                    <p className="mt-3 font-semibold text-gray-900 dark:text-white">
+                                        {neededScore === undefined ? 'Enter a target percentage.'
+                                            : neededScore === null ? `Not reachable, even with ${targetAssignment.points_possible} / ${targetAssignment.points_possible}.`
+                                            : neededScore === 0 ? 'You will reach this target no matter what you score.'
+                                            : `${neededScore} / ${targetAssignment.points_possible} (${((neededScore / targetAssignment.points_possible) * 100).toFixed(1)}%)`}
+                                    </p>
+                                </div>
+                            )}
+
+                            {groups.map(group => {
+                                const groupResult = whatIf.currentGroups.find(g => g.id === group.id);
+                                const dropped = new Set(groupResult?.droppedAssignmentIds || []);
+                                const dropRules = [
+                                    group.rules.drop_lowest ? `drops lowest ${group.rules.drop_lowest}` : null,
+                                    group.rules.drop_highest ? `drops highest ${group.rules.drop_highest}` : null,
+                                ].filter(Boolean).join(', ');
+                                return (
+                                    <div key={group.id} className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                                        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                                            <div>
+                                                <h3 className="font-semibold text-gray-900 dark:text-white">{group.name}</h3>
+                                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                    {weighted && `${group.group_weight}% of grade`}{weighted && dropRules && ' · '}{dropRules}
+                                                </p>
+                                            </div>
+                                            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                                                {groupResult && groupResult.possible > 0 ? formatPercent((groupResult.score / groupResult.possible) * 100) : '—'}
+                                            </span>
+                                        </div>
+                                        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                                            {group.assignments.map(assignment => {
+                                                const isUngraded = assignment.score === null && !assignment.excused;
+                                                return (
+                                                    <div key={assignment.id} className={`px-4 py-2 flex items-center justify-between text-sm ${dropped.has(assignment.id) ? 'opacity-50 line-through' : ''}`}>
+                                                        <span className="text-gray-800 dark:text-gray-200">
+                                                            {assignment.name}
+                                                            {assignment.omit_from_final_grade && <span className="ml-2 text-xs text-gray-500 no-underline">(not counted)</span>}
+                                                        </span>
+                                                        <span className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                                                            {assignment.excused ? 'Excused' : isUngraded ? (
+                                                                <input
+                                                                    type="number"
+                                                                    value={whatIfInputs[assignment.id] ?? ''}
+                                                                    onChange={e => setWhatIfInputs(prev => ({ ...prev, [assignment.id]: e.target.value }))}
+                                                                    placeholder="—"
+                                                                    aria-label={`What-if score for ${assignment.name}`}
+                                                                    className="w-16 text-right bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-md py-0.5 px-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                                />
+                                                            ) : assignment.score}
+                                                            <span className="text-gray-500 dark:text-gray-400">/ {assignment.points_possible}</span>
+                                                        </span>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </>
+                    )}
+                </div>
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-between">
+                    <button onClick={() => setWhatIfInputs({})} disabled={!hasWhatIfScores} className="px-4 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50">Reset What-If Scores</button>
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 font-semibold rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 transition-colors">Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WhatIfGradeCalculator;
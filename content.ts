@@ -0,0 +1,174 @@
+// Content script for Canvas assignment pages, registered by the service worker for the student's Canvas host.
+// Adds "Study plan" and "Ask tutor" buttons that open a side panel powered by the same Gemini helpers as the web app.
+
+import type { Chat } from '@google/genai';
+import { Assignment, ExtensionMessage, StudyPlan } from './types';
+import { generateStudyPlan, createTutorChat, setGeminiApiKey } from './services/geminiService';
+import { EXTENSION_CONNECTION_ID, getExtensionSettings } from './services/extensionStorage';
+
+const ASSIGNMENT_PATH = /\/courses\/(\d+)\/assignments\/(\d+)/;
+const HOST_ID = 'canvas-ai-assistant-root';
+
+const PANEL_STYLES = `
+    :host { all: initial; }
+    .buttons { display: flex; gap: 8px; margin: 12px 0; }
+    button { font: 600 14px system-ui, sans-serif; border: none; border-radius: 6px; padding: 8px 14px; cursor: pointer; background: #2563eb; color: white; }
+    button:hover { background: #1d4ed8; }
+    button:disabled { background: #9ca3af; cursor: not-allowed; }
+    .secondary { background: #e5e7eb; color: #1f2937; }
+    .secondary:hover { background: #d1d5db; }
+    .panel { position: fixed; top: 0; right: 0; width: 380px; height: 100vh; background: white; box-shadow: -4px 0 24px rgba(0,0,0,0.15); z-index: 2147483647; display: flex; flex-direction: column; font: 14px/1.5 system-ui, sans-serif; color: #1f2937; }
+    .panel-header { display: flex; justify-content: space-between; align-items: center; padding: 12px 16px; border-bottom: 1px solid #e5e7eb; font-weight: 700; font-size: 16px; }
+    .panel-body { flex: 1; overflow-y: auto; padding: 16px; }
+    .panel-footer { display: flex; gap: 8px; padding: 12px 16px; border-top: 1px solid #e5e7eb; }
+    .panel-footer input { flex: 1; font: 14px system-ui, sans-serif; border: 1px solid #d1d5db; border-radius: 6px; padding: 8px; }
+    .step { border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px; margin-bottom: 8px; }
+    .step-title { font-weight: 600; }
+    .muted { color: #6b7280; font-size: 12px; }
+    .message { padding: 8px 12px; border-radius: 8px; margin-bottom: 8px; white-space: pre-wrap; }
+    .message.user { background: #2563eb; color: white; margin-left: 32px; }
+    .message.model { background: #f3f4f6; margin-right: 32px; }
+    .error { color: #b91c1c; }
+`;
+
+type Child = Node | string;
+
+const el = <K extends keyof HTMLElementTagNameMap>(tag: K, props: Partial<HTMLElementTagNameMap[K]> = {}, children: Child[] = []): HTMLElementTagNameMap[K] => {
+    const element = Object.assign(document.createElement(tag), props);
+    element.append(...children);
+    return element;
+};
+
+/**
+ * Asks the service worker for the synced copy of this assignment. Falls back to reading the page,
+ * so the tools still work before the first sync or for assignments outside the synced courses.
+ */
+const loadAssignment = async (courseId: number, assignmentId: number): Promise<Assignment> => {
+    try {
+        const message: ExtensionMessage = { type: 'getAssignment', courseId, assignmentId };
+        const synced: Assignment | null = await chrome.runtime.sendMessage(message);
+        if (synced) return synced;
+    } catch (error) {
+        console.warn("Could not reach the extension service worker, reading the assignment from the page:", error);
+    }
+
+    const breadcrumbs = document.querySelectorAll('#breadcrumbs li');
+    return {
+        id: assignmentId,
+        connectionId: EXTENSION_CONNECTION_ID,
+        course_id: courseId,
+        name: document.querySelector('h1.title')?.textContent?.trim() || document.title,
+        description: (document.querySelector('#assignment_show .description') as HTMLElement | null)?.innerText || null,
+        due_at: null,
+        points_possible: null,
+        courseName: breadcrumbs[1]?.textContent?.trim() || 'Unknown Course',
+        status: 'NOT_STARTED',
+    };
+};
+
+/**
+ * Loads the student's Gemini key from the extension settings; the extension doesn't ship with one.
+ * @throws Error if no key has been entered on the options page.
+ */
+const loadStudentGeminiKey = async () => {
+    const settings = await getExtensionSettings();
+    if (!settings?.geminiApiKey) {
+        throw new Error('Add your Gemini API key in the extension options to use the study tools.');
+    }
+    setGeminiApiKey(settings.geminiApiKey);
+};
+
+const renderStudyPlan = (plan: StudyPlan): HTMLElement => el('div', {}, [
+    el('p', { className: 'muted' }, [`About ${plan.estimatedHours} hours in total`]),
+    ...plan.steps.map(step => el('div', { className: 'step' }, [
+        el('div', { className: 'step-title' }, [`${step.order}. ${step.title}`]),
+        el('div', {}, [step.description]),
+        el('div', { className: 'muted' }, [`${step.estimatedMinutes} min · ${step.priority} priority`]),
+    ])),
+]);
+
+const mountAssistant = (courseId: number, assignmentId: number) => {
+    if (document.getElementById(HOST_ID)) return;
+
+    // The buttons sit under the assignment title; a shadow root keeps Canvas's styles out.
+    const anchor = document.querySelector('h1.title') || document.querySelector('#content');
+    if (!anchor) return;
+    const host = el('div', { id: HOST_ID });
+    anchor.insertAdjacentElement('afterend', host);
+    const root = host.attachShadow({ mode: 'open' });
+    root.append(el('style', { textContent: PANEL_STYLES }));
+
+    let panel: HTMLElement | null = null;
+    const closePanel = () => { panel?.remove(); panel = null; };
+    const openPanel = (title: string, body: HTMLElement, footer?: HTMLElement) => {
+        closePanel();
+        panel = el('div', { className: 'panel' }, [
+            el('div', { className: 'panel-header' }, [title, el('button', { className: 'secondary', textContent: 'Close', onclick: closePanel })]),
+            body,
+            ...(footer ? [footer] : []),
+        ]);
+        root.append(panel);
+    };
+    const showError = (body: HTMLElement, error: unknown) => {
+        body.replaceChildren(el('p', { className: 'error' }, [error instanceof Error ? error.message : 'Something went wrong.']));
+    };
+
+    const handleStudyPlan = async () => {
+        const body = el('div', { className: 'panel-body' }, ['Generating a study plan...']);
+        openPanel('Study plan', body);
+        try {
+            await loadStudentGeminiKey();
+            const assignment = await loadAssignment(courseId, assignmentId);
+            body.replaceChildren(renderStudyPlan(await generateStudyPlan(assignment)));
+        } catch (error) {
+            showError(body, error);
+        }
+    };
+
+    const handleAskTutor = async () => {
+        const body = el('div', { className: 'panel-body' }, ['Starting the tutor...']);
+        const input = el('input', { placeholder: 'Ask about this assignment...' });
+        const sendButton = el('button', { textContent: 'Send' });
+        openPanel('Ask tutor', body, el('div', { className: 'panel-footer' }, [input, sendButton]));
+
+        let chat: Chat;
+        try {
+            await loadStudentGeminiKey();
+            chat = createTutorChat(await loadAssignment(courseId, assignmentId));
+            body.replaceChildren(el('div', { className: 'message model' }, ["Hi! What would you like to work through on this assignment?"]));
+        } catch (error) {
+            showError(body, error);
+            sendButton.disabled = true;
+            return;
+        }
+
+        const send = async () => {
+            const text = input.value.trim();
+            if (!text || sendButton.disabled) return;
+            input.value = '';
+            sendButton.disabled = true;
+            body.append(el('div', { className: 'message user' }, [text]));
+            try {
+                const response = await chat.sendMessage({ message: text });
+                body.append(el('div', { className: 'message model' }, [response.text ?? '']));
+            } catch (error) {
+                body.append(el('p', { className: 'error' }, [error instanceof Error ? error.message : 'The tutor could not respond.']));
+            } finally {
+                sendButton.disabled = false;
+                body.scrollTop = body.scrollHeight;
+            }
+        };
+        sendButton.onclick = send;
+        input.onkeydown = event => { if (event.key === 'Enter') send(); };
+    };
+
+    root.append(el('div', { className: 'buttons' }, [
+        el('button', { textContent: 'Study plan', onclick: handleStudyPlan }),
+        el('button', { textContent: 'Ask tutor', className: 'secondary', onclick: handleAskTutor }),
+    ]));
+};
+
+const match = window.location.pathname.match(ASSIGNMENT_PATH);
+if (match) {
+    mountAssistant(Number(match[1]), Number(match[2]));
+}
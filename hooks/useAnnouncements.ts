@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { addDays, format } from 'date-fns';
+import { Announcement, AnnouncementDigest, Course, Settings } from '../types';
+import { getAnnouncements } from '../services/canvasApiService';
+import { getActiveConnections, getCourseKeyOf, getItemKey, isCanvasConnection } from '../services/canvasConnections';
+import { createAnnouncementDigest, loadAnnouncementDigest, loadAnnouncementReads, saveAnnouncementDigest, saveAnnouncementReads } from '../services/announcementService';
+import { useAuth } from './useAuth';
+
+// Older announcements aren't fetched.
+const LOOKBACK_DAYS = 14;
+
+/**
+ * Announcements from the student's Canvas courses, with which ones they've read and a daily AI digest of the
+ * unread ones. Both are kept in Firestore (see `services/announcementService.ts`). Announcements are fetched
+ * again whenever the courses change, i.e. after every sync. Other LMSes and the sample data have none.
+ * @param courses Every synced course.
+ */
+export const useAnnouncements = (settings: Settings | null, courses: Course[]) => {
+    const { user } = useAuth();
+    const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+    const [readAt, setReadAt] = useState<Record<string, string>>({});
+    const [storedDigest, setStoredDigest] = useState<AnnouncementDigest | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isGeneratingDigest, setIsGeneratingDigest] = useState(false);
+    const [digestError, setDigestError] = useState<string | null>(null);
+
+    const connections = useMemo(
+        () => settings?.sampleDataMode ? [] : getActiveConnections(settings).filter(connection => isCanvasConnection(connection)),
+        [settings]
+    );
+    const isEnabled = connections.length > 0;
+
+    useEffect(() => {
+        setReadAt({});
+        setStoredDigest(null);
+        if (!user) return;
+        let cancelled = false;
+        Promise.all([loadAnnouncementReads(user.id), loadAnnouncementDigest(user.id)])
+            .then(([reads, digest]) => {
+                if (cancelled) return;
+                setReadAt(reads);
+                setStoredDigest(digest);
+            })
+            .catch(error => console.error("Could not load announcement read state:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
+
+    useEffect(() => {
+        if (!isEnabled) {
+            setAnnouncements([]);
+            setIsLoading(false);
+            return;
+        }
+        let cancelled = false;
+        const since = addDays(new Date(), -LOOKBACK_DAYS);
+        setIsLoading(true);
+        Promise.all(connections.map(connection => {
+            const courseIds = courses.filter(course => course.connectionId === connection.id).map(course => course.id);
+            return getAnnouncements(connection, courseIds, since).catch(error => {
+                // One institution failing shouldn't hide the others' announcements.
+                console.error(`Could not load announcements from ${connection.name}:`, error);
+                return [];
+            });
+        })).then(results => {
+            if (cancelled) return;
+            const courseNames = new Map(courses.map(course => [getItemKey(course), course.name]));
+            setAnnouncements(results.flat()
+                .map(a => ({ ...a, courseName: courseNames.get(getCourseKeyOf(a)) }))
+                .sort((a, b) => b.posted_at.localeCompare(a.posted_at)));
+            setIsLoading(false);
+        });
+        return () => {
+            cancelled = true;
+            setIsLoading(false);
+        };
+    }, [isEnabled, connections, courses]);
+
+    const unread = useMemo(() => announcements.filter(a => !readAt[getItemKey(a)]), [announcements, readAt]);
+
+    /**
+     * Marks announcements as read. If that can't be saved, they're unread again.
+     * @param keys Announcement keys from `getItemKey`.
+     */
+    const markRead = useCallback(async (keys: string[]) => {
+        const newReads = Object.fromEntries(keys.filter(key => !readAt[key]).map(key => [key, new Date().toISOString()]));
+        if (Object.keys(newReads).length === 0) return;
+        setReadAt(current => ({ ...current, ...newReads }));
+        if (!user) return;
+        try {
+            await saveAnnouncementReads(user.id, newReads);
+        } catch (error) {
+            setReadAt(current => {
+                const restored = { ...current };
+                Object.entries(newReads).forEach(([key, at]) => {
+                    if (restored[key] === at) delete restored[key];
+                });
+                return restored;
+            });
+            throw error;
+        }
+    }, [readAt, user]);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    // Yesterday's digest is stale.
+    const digest = storedDigest?.date === today ? storedDigest : null;
+
+    /**
+     * Summarizes the unread announcements into today's digest, replacing any earlier one.
+     */
+    const generateDigest = useCallback(async () => {
+        if (unread.length === 0) return;
+        setIsGeneratingDigest(true);
+        setDigestError(null);
+        try {
+            const newDigest = await createAnnouncementDigest(unread, today);
+            setStoredDigest(newDigest);
+            if (user) {
+                await saveAnnouncementDigest(user.id, newDigest);
+            }
+        } catch (error) {
+            console.error("Could not create the announcement digest:", error);
+            setDigestError(error instanceof Error ? error.message : 'The digest could not be created.');
+        } finally {
+            setIsGeneratingDigest(false);
+        }
+    }, [unread, today, user]);
+
+    return { isEnabled, announcements, unread, isLoading, markRead, digest, isGeneratingDigest, digestError, generateDigest };
+};
+
+export type Announcements = ReturnType<typeof useAnnouncements>;
@@ -1,57 +1,141 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Assignment, AssignmentStatus } from '../types';
+import { Assignment, AssignmentStatus, AssignmentStatusChange, AssignmentStatusSource, StoredAssignmentStatus } from '../types';
 import { storage } from '../services/storageService';
+import { DEFAULT_CONNECTION_ID, getCanvasKey, getItemKey } from '../services/canvasConnections';
+import { loadAssignmentStatuses, logAssignmentStatusChanges, reconcileAssignmentStatus, saveAssignmentStatuses } from '../services/assignmentStatusService';
+import { useAuth } from './useAuth';
 
-const ASSIGNMENT_STATUS_KEY = 'studentPlatformAssignmentStatuses';
+// Where statuses were kept before they moved to Firestore. It wasn't scoped to a user.
+const LEGACY_ASSIGNMENT_STATUS_KEY = 'studentPlatformAssignmentStatuses';
 
 /**
- * A custom hook to manage the status of assignments, persisting changes to local storage.
+ * Statuses saved before multiple Canvas connections were supported are keyed by bare assignment ID.
+ * They belong to the default connection.
+ */
+const migrateStatusKeys = (statuses: Record<string, AssignmentStatus>): Record<string, AssignmentStatus> => {
+    const migrated: Record<string, AssignmentStatus> = {};
+    Object.entries(statuses).forEach(([key, status]) => {
+        migrated[/^\d+$/.test(key) ? getCanvasKey(DEFAULT_CONNECTION_ID, Number(key)) : key] = status;
+    });
+    return migrated;
+};
+
+/**
+ * Reads statuses saved in this browser, to move into the first account that signs in without any in Firestore.
+ * They have no timestamps, so they are dated as old as possible and any LMS activity takes precedence.
+ * The caller removes them once they're saved.
+ */
+const readLegacyStatuses = async (): Promise<Record<string, StoredAssignmentStatus>> => {
+    const legacy = await storage.get<Record<string, AssignmentStatus>>(LEGACY_ASSIGNMENT_STATUS_KEY);
+    const updatedAt = new Date(0).toISOString();
+    return Object.fromEntries(Object.entries(migrateStatusKeys(legacy ?? {})).map(([key, status]) => [key, { status, source: 'manual' as const, updatedAt }]));
+};
+
+/**
+ * A custom hook to manage the status of assignments, kept per user in Firestore with an audit trail of changes.
+ * Assignments without a saved status use the one derived from their LMS submission, and a saved status gives way
+ * to newer LMS activity (see `reconcileAssignmentStatus`).
  * @param assignments The raw list of assignments from the data source.
  * @returns An object containing the assignments merged with their current statuses, and a handler to update statuses.
  */
 export const useAssignmentStatus = (assignments: Assignment[]) => {
-    const [statuses, setStatuses] = useState<Record<number, AssignmentStatus>>({});
+    const { user } = useAuth();
+    // Keyed by `getItemKey`, since assignment IDs are only unique within one Canvas connection.
+    const [statuses, setStatuses] = useState<Record<string, StoredAssignmentStatus>>({});
+    const [isLoaded, setIsLoaded] = useState(false);
 
-    // Load statuses from storage on initial mount
     useEffect(() => {
+        setStatuses({});
+        setIsLoaded(false);
+        if (!user) return;
+        let cancelled = false;
         const loadStatuses = async () => {
-            const storedStatuses = await storage.get<Record<number, AssignmentStatus>>(ASSIGNMENT_STATUS_KEY);
-            if (storedStatuses) {
-                setStatuses(storedStatuses);
+            let stored = await loadAssignmentStatuses(user.id);
+            if (!stored) {
+                stored = await readLegacyStatuses();
+                if (Object.keys(stored).length > 0) {
+                    await saveAssignmentStatuses(user.id, stored);
+                    await storage.remove(LEGACY_ASSIGNMENT_STATUS_KEY);
+                }
+            }
+            if (!cancelled) {
+                setStatuses(stored);
+                setIsLoaded(true);
             }
         };
-        loadStatuses();
-    }, []);
+        loadStatuses().catch(error => {
+            console.error("Could not load assignment statuses:", error);
+            if (!cancelled) setIsLoaded(true);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
 
-    // Initialize statuses for any new assignments that aren't already in the state
+    // Let newer submissions and grades override stale saved statuses.
     useEffect(() => {
-        if (assignments.length > 0) {
-            const newStatusesToSet: Record<number, AssignmentStatus> = {};
-            for (const a of assignments) {
-                // If a status for this assignment ID doesn't already exist, initialize it from the assignment data.
-                if (statuses[a.id] === undefined) {
-                    newStatusesToSet[a.id] = a.status || 'NOT_STARTED';
-                }
-            }
-            if (Object.keys(newStatusesToSet).length > 0) {
-                 setStatuses(prev => ({ ...prev, ...newStatusesToSet }));
+        if (!isLoaded || !user) return;
+        const reconciled: Record<string, StoredAssignmentStatus> = {};
+        const changes: AssignmentStatusChange[] = [];
+        for (const a of assignments) {
+            const key = getItemKey(a);
+            const stored = statuses[key];
+            const replacement = stored && reconcileAssignmentStatus(a, stored);
+            if (replacement) {
+                reconciled[key] = replacement;
+                changes.push({ assignmentKey: key, from: stored.status, to: replacement.status, source: 'lms', changedAt: new Date().toISOString() });
             }
         }
-    }, [assignments, statuses]);
+        if (changes.length === 0) return;
+        setStatuses(prev => ({ ...prev, ...reconciled }));
+        Promise.all([saveAssignmentStatuses(user.id, reconciled), logAssignmentStatusChanges(user.id, changes)])
+            .catch(error => console.error("Could not save reconciled assignment statuses:", error));
+    }, [assignments, statuses, isLoaded, user]);
+
+    /**
+     * Sets an assignment's status straight away and saves it. If saving fails, the previous status comes back
+     * and the failure is logged, so callers needn't handle it.
+     */
+    const handleStatusChange = useCallback(async (assignmentKey: string, status: AssignmentStatus, source: AssignmentStatusSource = 'manual') => {
+        const assignment = assignments.find(a => getItemKey(a) === assignmentKey);
+        const previous = statuses[assignmentKey];
+        const from = previous?.status || assignment?.status || 'NOT_STARTED';
+        const entry: StoredAssignmentStatus = { status, source, updatedAt: new Date().toISOString() };
+        setStatuses(prev => ({ ...prev, [assignmentKey]: entry }));
+        if (!user) return;
+        try {
+            await Promise.all([
+                saveAssignmentStatuses(user.id, { [assignmentKey]: entry }),
+                logAssignmentStatusChanges(user.id, [{ assignmentKey, from, to: status, source, changedAt: entry.updatedAt }]),
+            ]);
+        } catch (error) {
+            console.error("Could not save the assignment status:", error);
+            setStatuses(prev => {
+                // A later change has replaced this one.
+                if (prev[assignmentKey] !== entry) return prev;
+                const restored = { ...prev };
+                if (previous) {
+                    restored[assignmentKey] = previous;
+                } else {
+                    delete restored[assignmentKey];
+                }
+                return restored;
+            });
+        }
+    }, [assignments, statuses, user]);
 
-    const handleStatusChange = useCallback(async (assignmentId: number, status: AssignmentStatus) => {
-        const newStatuses = { ...statuses, [assignmentId]: status };
-        setStatuses(newStatuses);
-        await storage.set(ASSIGNMENT_STATUS_KEY, newStatuses);
-    }, [statuses]);
-    
     // Create a memoized list of assignments that includes the latest status from our state
     const assignmentsWithStatus = useMemo(() => {
-        return assignments.map(a => ({
-            ...a,
-            status: statuses[a.id] || a.status || 'NOT_STARTED',
-        }));
+        return assignments.map((a): Assignment => {
+            const stored = statuses[getItemKey(a)];
+            return {
+                ...a,
+                status: stored?.status || a.status || 'NOT_STARTED',
+                // Without a saved status, the status is the one derived from the LMS submission.
+                statusSource: stored?.source ?? 'lms',
+            };
+        });
     }, [assignments, statuses]);
 
     return { assignmentsWithStatus, handleStatusChange };
-};
\ No newline at end of file
+};
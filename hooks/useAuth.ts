@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import { auth } from '../services/firebaseService';
+import { setSessionTokenProvider } from '../services/canvasApiService';
 import { 
     onAuthStateChanged, 
     signInWithEmailAndPassword, 
@@ -28,6 +29,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const [isLoading, setIsLoading] = useState(true);
 
     useEffect(() => {
+        // The Canvas proxy identifies the user by their ID token; getIdToken refreshes it when it's about to expire.
+        setSessionTokenProvider(async () => auth.currentUser ? auth.currentUser.getIdToken() : null);
         const unsubscribe = onAuthStateChanged(auth, (firebaseUser: FirebaseUser | null) => {
             if (firebaseUser) {
                 setUser({ id: firebaseUser.uid, email: firebaseUser.email });
@@ -36,7 +39,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             }
             setIsLoading(false);
         });
-        return () => unsubscribe();
+        return () => {
+            unsubscribe();
+            setSessionTokenProvider(null);
+        };
     }, []);
 
     const login = useCallback(async (email: string, password: string): Promise<void> => {
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { AutoSyncStatus } from '../types';
+import { getRateLimitRemaining } from '../services/canvasApiService';
+
+// However many syncs fail in a row, the scheduler never waits longer than this between attempts.
+const MAX_BACKOFF_MS = 4 * 60 * 60 * 1000;
+
+// Canvas gives each token a bucket of 700 units. Below this the next sync is pushed back an extra step,
+// so background refreshes never starve the requests the user makes directly.
+const LOW_RATE_LIMIT_THRESHOLD = 200;
+
+interface AutoSyncOptions {
+    // Minutes between syncs; 0 turns auto-sync off.
+    intervalMinutes: number;
+    enabled: boolean;
+    isOffline: boolean;
+    // When data was last synced by any means, so a manual sync restarts the countdown.
+    lastSyncedAt: string | null;
+    // Resolves to false when the sync failed (proxy error, Canvas 403 rate limit, ...).
+    sync: () => Promise<boolean>;
+}
+
+/**
+ * Refreshes Canvas data in the background on a fixed interval. Pauses while the tab is hidden or the
+ * browser is offline, and backs off exponentially after failed syncs or when Canvas reports that the
+ * rate limit is running low.
+ */
+export const useAutoSync = ({ intervalMinutes, enabled, isOffline, lastSyncedAt, sync }: AutoSyncOptions): AutoSyncStatus => {
+    const [isHidden, setIsHidden] = useState(() => typeof document !== 'undefined' && document.hidden);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [consecutiveFailures, setConsecutiveFailures] = useState(0);
+    const [lastAttemptAt, setLastAttemptAt] = useState<number | null>(null);
+    const [nextSyncAt, setNextSyncAt] = useState<Date | null>(null);
+
+    const isOn = enabled && intervalMinutes > 0;
+    const isActive = isOn && !isHidden && !isOffline;
+
+    useEffect(() => {
+        const handleVisibilityChange = () => setIsHidden(document.hidden);
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, []);
+
+    // Start from a clean slate whenever auto-sync is switched off or the interval changes.
+    useEffect(() => {
+        setConsecutiveFailures(0);
+    }, [isOn, intervalMinutes]);
+
+    useEffect(() => {
+        if (!isActive || isSyncing) {
+            setNextSyncAt(null);
+            return;
+        }
+
+        const rateLimitRemaining = getRateLimitRemaining();
+        const backoffSteps = consecutiveFailures + (rateLimitRemaining !== null && rateLimitRemaining < LOW_RATE_LIMIT_THRESHOLD ? 1 : 0);
+        const delay = Math.min(intervalMinutes * 60 * 1000 * 2 ** backoffSteps, Math.max(MAX_BACKOFF_MS, intervalMinutes * 60 * 1000));
+        const lastRun = Math.max(lastAttemptAt ?? 0, lastSyncedAt ? new Date(lastSyncedAt).getTime() : 0);
+        // With no previous run to measure from, wait a full interval rather than syncing straight after the initial load.
+        const dueAt = (lastRun || Date.now()) + delay;
+        setNextSyncAt(new Date(dueAt));
+
+        // A tab that was hidden past its due time syncs as soon as it becomes visible again.
+        const timer = setTimeout(async () => {
+            setIsSyncing(true);
+            const succeeded = await sync();
+            setConsecutiveFailures(failures => succeeded ? 0 : failures + 1);
+            setLastAttemptAt(Date.now());
+            setIsSyncing(false);
+        }, Math.max(0, dueAt - Date.now()));
+
+        return () => clearTimeout(timer);
+    }, [isActive, isSyncing, intervalMinutes, consecutiveFailures, lastAttemptAt, lastSyncedAt, sync]);
+
+    let state: AutoSyncStatus['state'] = 'scheduled';
+    if (!isOn) state = 'off';
+    else if (isSyncing) state = 'syncing';
+    else if (isOffline) state = 'paused_offline';
+    else if (isHidden) state = 'paused_hidden';
+
+    return { state, nextSyncAt, consecutiveFailures };
+};
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { doc, setDoc, deleteDoc } from 'firebase/firestore';
+import { Assignment, CalendarEvent, Settings } from '../types';
+import { db } from '../services/firebaseService';
+import { CALENDAR_NAME, createFeedToken, getCalendarExportEvents, getCalendarFeedUrl } from '../services/calendarExport';
+import { ICalendarEvent } from '../proxy/icalendar';
+import { useAuth } from './useAuth';
+
+const serializeFeed = (token: string, events: ICalendarEvent[]) => `${token}:${JSON.stringify(events)}`;
+
+const publishFeed = (token: string, uid: string, events: ICalendarEvent[]) =>
+    setDoc(doc(db, 'calendarFeeds', token), {
+        uid,
+        name: CALENDAR_NAME,
+        events: JSON.stringify(events),
+        updatedAt: new Date().toISOString(),
+    });
+
+const removeFeed = (token: string) => deleteDoc(doc(db, 'calendarFeeds', token));
+
+/**
+ * The calendar subscription feed. While it's on, the calendar is republished to Firestore whenever it
+ * changes, and the proxy serves the latest copy at the feed URL (see `proxy/calendarFeed.ts`).
+ * @returns The entries to export, the feed URL (null while the feed is off), and controls for the feed.
+ */
+export const useCalendarFeed = (
+    settings: Settings | null,
+    saveSettings: (settings: Settings) => Promise<void>,
+    calendarEvents: CalendarEvent[],
+    assignments: Assignment[],
+    // Whether the synced (or cached) data has loaded. An empty calendar is only published after that.
+    hasLoaded: boolean
+) => {
+    const { user } = useAuth();
+    const [error, setError] = useState<string | null>(null);
+    // The JSON last written, so unchanged syncs don't rewrite the feed.
+    const lastPublished = useRef<string | null>(null);
+
+    const feedToken = settings?.calendarFeedToken ?? null;
+    const events = useMemo(
+        () => getCalendarExportEvents(calendarEvents, assignments, settings?.connections ?? []),
+        [calendarEvents, assignments, settings]
+    );
+
+    useEffect(() => {
+        // Nothing is loaded yet right after opening the app; publishing then would empty the feed.
+        if (!feedToken || !user || settings?.sampleDataMode || !hasLoaded) return;
+        const serialized = serializeFeed(feedToken, events);
+        if (serialized === lastPublished.current) return;
+        lastPublished.current = serialized;
+        publishFeed(feedToken, user.id, events).catch(publishError => {
+            console.error("Could not publish the calendar feed:", publishError);
+            lastPublished.current = null;
+            setError('The calendar feed could not be updated.');
+        });
+    }, [feedToken, user, settings, events, hasLoaded]);
+
+    const enableFeed = useCallback(async () => {
+        if (!settings || !user) return;
+        setError(null);
+        const token = createFeedToken();
+        await publishFeed(token, user.id, events);
+        lastPublished.current = serializeFeed(token, events);
+        await saveSettings({ ...settings, calendarFeedToken: token });
+    }, [settings, user, events, saveSettings]);
+
+    // Subscribers keep their copy until their calendar app next refreshes and finds the feed gone.
+    const disableFeed = useCallback(async () => {
+        if (!settings || !feedToken) return;
+        setError(null);
+        await removeFeed(feedToken);
+        // Firestore rejects undefined fields, so the token is left out rather than cleared.
+        const { calendarFeedToken: _removed, ...rest } = settings;
+        await saveSettings(rest);
+    }, [settings, feedToken, saveSettings]);
+
+    // Replaces the URL, e.g. after it was shared by mistake. The old one stops working.
+    const regenerateFeed = useCallback(async () => {
+        if (!settings || !user || !feedToken) return;
+        setError(null);
+        const token = createFeedToken();
+        await publishFeed(token, user.id, events);
+        lastPublished.current = serializeFeed(token, events);
+        await removeFeed(feedToken);
+        await saveSettings({ ...settings, calendarFeedToken: token });
+    }, [settings, user, feedToken, events, saveSettings]);
+
+    return {
+        events,
+        feedUrl: feedToken ? getCalendarFeedUrl(feedToken) : null,
+        enableFeed,
+        disableFeed,
+        regenerateFeed,
+        error,
+    };
+};
+
+export type CalendarFeed = ReturnType<typeof useCalendarFeed>;
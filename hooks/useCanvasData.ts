@@ -1,126 +1,375 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Course, Assignment, CalendarEvent, Settings } from '../types';
-import * as apiService from '../services/canvasApiService';
-import * as mockService from '../services/canvasMockService';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Course, Assignment, AssignmentChange, CalendarEvent, CanvasConnection, EnrollmentGrades, Settings, SyncProgress } from '../types';
+import { mockAdapter, SAMPLE_CONNECTION } from '../services/canvasMockService';
+import { getLmsAdapter } from '../services/lmsAdapters';
 import { storage } from '../services/storageService';
+import { getCacheKey, getCachedCanvasData, setCachedCanvasData, mergeById, CachedCanvasData } from '../services/offlineCacheService';
+import { createSnapshot, diffSnapshots, appendToChangeLog, SyncSnapshot } from '../services/syncEngine';
+import { getActiveConnections, getItemKey } from '../services/canvasConnections';
+import { useAuth } from './useAuth';
 
-const CANVAS_ASSIGNMENT_IDS_KEY = 'canvasAiAssistantAssignmentIds';
+// Snapshots are scoped by the offline cache key, so each user and Canvas connection has its own history.
+// The change log is per user and covers all of their connections.
+const SYNC_SNAPSHOT_KEY_PREFIX = 'canvasAiAssistantSyncSnapshot';
+const CHANGE_LOG_KEY_PREFIX = 'canvasAiAssistantChangeLog';
 
-type CanvasService = {
-    getCourses: (settings: Settings) => Promise<Course[]>;
-    getAssignments: (settings: Settings) => Promise<Assignment[]>;
-}
+type ProgressByResource = Partial<Record<SyncProgress['resource'], SyncProgress>>;
 
-type MockCanvasService = {
-    getCourses: () => Promise<Course[]>;
-    getAssignments: () => Promise<Assignment[]>;
-}
+/**
+ * Builds calendar entries from assignment due dates. Used only when the LMS calendar
+ * cannot be read, so the calendar still shows what is due.
+ */
+const eventsFromAssignments = (assignments: Assignment[]): CalendarEvent[] => assignments
+    .filter(a => a.due_at)
+    .map(a => ({
+        id: a.id,
+        connectionId: a.connectionId,
+        title: a.name,
+        date: new Date(a.due_at!),
+        type: a.submission_types?.includes('online_quiz') ? 'quiz' : 'assignment',
+        source: 'canvas_assignment',
+        assignmentId: a.id,
+        course_id: a.course_id,
+    }));
+
+const getCalendarEventKey = (event: CalendarEvent) => `${event.connectionId}-${event.source}-${event.id}`;
+
+/**
+ * Adds course names to the assignments and events of one connection and drops any that belong to
+ * courses not in the user's active list.
+ */
+const enrichConnectionData = (courses: Course[], assignmentsRaw: Assignment[], eventsRaw: CalendarEvent[]) => {
+    const courseMap = new Map(courses.map(c => [c.id, c.name]));
+    const assignments = assignmentsRaw
+        .filter(a => courseMap.has(a.course_id))
+        .map(a => ({ ...a, courseName: courseMap.get(a.course_id) || 'Unknown Course' }));
+    const calendarEvents = eventsRaw
+        .filter(e => courseMap.has(e.course_id))
+        .map(e => ({ ...e, courseName: courseMap.get(e.course_id) || 'Unknown Course' }));
+    return { courses, assignments, calendarEvents };
+};
+
+/**
+ * Combines the data of several connections. The oldest sync time wins, so the app never claims
+ * to be more up to date than its stalest connection.
+ */
+const combineConnectionData = (parts: CachedCanvasData[]): CachedCanvasData => ({
+    courses: parts.flatMap(part => part.courses),
+    assignments: parts.flatMap(part => part.assignments),
+    calendarEvents: parts.flatMap(part => part.calendarEvents),
+    syncedAt: parts.map(part => part.syncedAt).sort()[0],
+});
+
+// Sums the pagination progress of every connection that is syncing.
+const combineProgress = (progressByConnection: Record<string, ProgressByResource>): ProgressByResource => {
+    const combined: ProgressByResource = {};
+    Object.values(progressByConnection).forEach(progress => {
+        Object.values(progress).forEach(({ resource, page, itemsFetched }) => {
+            const previous = combined[resource];
+            combined[resource] = {
+                resource,
+                page: Math.max(previous?.page ?? 0, page),
+                itemsFetched: (previous?.itemsFetched ?? 0) + itemsFetched,
+            };
+        });
+    });
+    return combined;
+};
+
+/**
+ * Compares a connection's assignments with its previous sync and stores the new snapshot.
+ * The first sync of a connection only records a baseline.
+ */
+const detectChanges = async (cacheKey: string, assignments: Assignment[], detectedAt: string): Promise<AssignmentChange[]> => {
+    const snapshotKey = `${SYNC_SNAPSHOT_KEY_PREFIX}:${cacheKey}`;
+    const previousSnapshot = await storage.get<SyncSnapshot>(snapshotKey);
+    const nextSnapshot = createSnapshot(assignments);
+    await storage.set(snapshotKey, nextSnapshot);
+    return previousSnapshot ? diffSnapshots(previousSnapshot, nextSnapshot, detectedAt) : [];
+};
 
 export const useCanvasData = (settings: Settings | null, enabled: boolean) => {
+  const { user } = useAuth();
   const [courses, setCourses] = useState<Course[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
-  const [newAssignments, setNewAssignments] = useState<Assignment[]>([]);
+  const [changeLog, setChangeLog] = useState<AssignmentChange[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'live' | 'sample' | 'error'>('live');
+  const [syncProgress, setSyncProgress] = useState<ProgressByResource>({});
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [syncedAtByConnection, setSyncedAtByConnection] = useState<Record<string, string>>({});
+  const [isRevalidating, setIsRevalidating] = useState<boolean>(false);
+  const [isOffline, setIsOffline] = useState<boolean>(typeof navigator !== 'undefined' && !navigator.onLine);
+  // Once data is on screen, later syncs (manual or auto-sync) revalidate in the background rather than
+  // setting `loading`, which swaps the page for the full-screen loader and loses drafts and open dialogs.
+  const hasDataRef = useRef(false);
+  // Counts syncs, so one overtaken by a newer sync (or by the data being turned off) writes nothing
+  // to state or the cache: its connections may no longer be the current ones.
+  const syncIdRef = useRef(0);
+
+  const userId = user?.id ?? null;
+  const hasSettings = settings !== null;
+  const sampleDataMode = settings?.sampleDataMode ?? false;
+  const changeLogKey = hasSettings && !sampleDataMode && userId ? `${CHANGE_LOG_KEY_PREFIX}:${userId}` : null;
+  // Settings are saved for many other reasons (the calendar feed, imported calendars, study availability,
+  // the auto-sync interval); only a change to the connections themselves refetches from the LMS.
+  const connectionsKey = JSON.stringify(getActiveConnections(settings));
+  const connections = useMemo((): CanvasConnection[] => JSON.parse(connectionsKey), [connectionsKey]);
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
+  // Resolves to true when fresh data was loaded from every connection, so callers such as the
+  // auto-sync scheduler can react to failures. With `connectionIds`, only those connections are synced
+  // and the rest keep their cached data.
+  const fetchData = useCallback(async (connectionIds?: string[]): Promise<boolean> => {
+    const syncId = ++syncIdRef.current;
+    const isStale = () => syncIdRef.current !== syncId;
+    if (hasDataRef.current) {
+      setIsRevalidating(true);
+    } else {
+      setLoading(true);
+    }
+    let cached: CachedCanvasData | null = null;
     try {
       setError(null);
-      setNewAssignments([]);
-      
-      const useSampleData = settings?.sampleDataMode ?? false;
+      setSyncProgress({});
       
-      setConnectionStatus(useSampleData ? 'sample' : 'live');
+      setConnectionStatus(sampleDataMode ? 'sample' : 'live');
+
+      if (sampleDataMode) {
+          const [coursesData, assignmentsRaw, eventsRaw] = await Promise.all([
+              mockAdapter.getCourses(SAMPLE_CONNECTION),
+              mockAdapter.getAssignments(SAMPLE_CONNECTION),
+              mockAdapter.getEvents(SAMPLE_CONNECTION, []),
+          ]);
+          if (isStale()) return false;
+          const sampleData = enrichConnectionData(coursesData, assignmentsRaw, eventsRaw);
+          setCourses(sampleData.courses);
+          setAssignments(sampleData.assignments);
+          setCalendarEvents(sampleData.calendarEvents);
+          hasDataRef.current = true;
+          setLastSyncedAt(null);
+          setSyncedAtByConnection({});
+          return true;
+      }
 
-      if (!useSampleData && (!settings || !settings.canvasUrl || !settings.apiToken)) {
+      if (connections.length === 0) {
           setError("Canvas settings not configured.");
           setConnectionStatus('error');
           setLoading(false);
-          return;
+          return false;
       }
 
-      let coursesData: Course[];
-      let assignmentsRaw: Assignment[];
+      const cacheKeys = new Map(connections.map(connection => [connection.id, userId ? getCacheKey(userId, connection.canvasUrl, connection.id) : null]));
 
-      if (useSampleData) {
-          [coursesData, assignmentsRaw] = await Promise.all([
-              (mockService as MockCanvasService).getCourses(),
-              (mockService as MockCanvasService).getAssignments(),
-          ]);
+      // **STALE-WHILE-REVALIDATE**: Show the last synced snapshots immediately, then refresh them in the background.
+      const cachedByConnection = new Map<string, CachedCanvasData>();
+      const storedChangeLog = changeLogKey ? await storage.get<AssignmentChange[]>(changeLogKey) || [] : null;
+      await Promise.all(connections.map(async connection => {
+          const cacheKey = cacheKeys.get(connection.id);
+          const connectionCache = cacheKey ? await getCachedCanvasData(cacheKey) : null;
+          if (connectionCache) cachedByConnection.set(connection.id, connectionCache);
+      }));
+      if (isStale()) return false;
+      if (storedChangeLog) {
+          setChangeLog(storedChangeLog);
+      }
+      const cachedSyncTimes: Record<string, string> = {};
+      cachedByConnection.forEach((connectionCache, connectionId) => {
+          cachedSyncTimes[connectionId] = connectionCache.syncedAt;
+      });
+      setSyncedAtByConnection(cachedSyncTimes);
+      if (cachedByConnection.size > 0) {
+          cached = combineConnectionData(connections.flatMap(connection => cachedByConnection.get(connection.id) ?? []));
+          setCourses(cached.courses);
+          setAssignments(cached.assignments);
+          setCalendarEvents(cached.calendarEvents);
+          hasDataRef.current = true;
+          setLastSyncedAt(cached.syncedAt);
+          setLoading(false);
+          if (!navigator.onLine) {
+              // Nothing to revalidate against; the cached snapshots are all we have.
+              return false;
+          }
+          setIsRevalidating(true);
       } else {
-          // **ARCHITECTURAL FIX**: Fetch courses and assignments in parallel for efficiency.
-          [coursesData, assignmentsRaw] = await Promise.all([
-              (apiService as CanvasService).getCourses(settings!),
-              (apiService as CanvasService).getAssignments(settings!),
-          ]);
+          setLastSyncedAt(null);
       }
-      
-      const courseMap = new Map(coursesData.map(c => [c.id, c.name]));
-      
-      // **ENRICHMENT STEP**: Add course names to assignments and filter out any assignments for courses not in the user's active list.
-      const assignmentsData = assignmentsRaw
-        .filter(a => courseMap.has(a.course_id))
-        .map(a => ({
-            ...a,
-            courseName: courseMap.get(a.course_id) || 'Unknown Course',
-        }));
-      
-      if (!useSampleData && settings) {
-          const newAssignmentIds = new Set(assignmentsData.map(a => a.id));
-          const storedIdsRaw = await storage.get<number[]>(CANVAS_ASSIGNMENT_IDS_KEY);
-          
-          if (storedIdsRaw) {
-              const storedIds = new Set(storedIdsRaw);
-              const newlyAdded = assignmentsData.filter(a => !storedIds.has(a.id));
-              if (newlyAdded.length > 0) {
-                  setNewAssignments(newlyAdded);
-              }
+
+      // Connections left out of a targeted sync keep their cached data, unless they have none yet.
+      const isSkipped = (connection: CanvasConnection) => !!connectionIds && !connectionIds.includes(connection.id) && cachedByConnection.has(connection.id);
+
+      // **ARCHITECTURAL FIX**: Every connection is fetched in parallel through the adapter for its LMS, and
+      // within each one courses and assignments are too. Progress is tracked per resource.
+      const progressByConnection: Record<string, ProgressByResource> = {};
+      const syncConnection = async (connection: CanvasConnection) => {
+          const adapter = getLmsAdapter(connection);
+          const handleProgress = (progress: SyncProgress) => {
+              if (isStale()) return;
+              progressByConnection[connection.id] = { ...progressByConnection[connection.id], [progress.resource]: progress };
+              setSyncProgress(combineProgress(progressByConnection));
+          };
+          const [coursesRaw, assignmentsRaw] = await Promise.all([
+              adapter.getCourses(connection, handleProgress),
+              adapter.getAssignments(connection, handleProgress),
+          ]);
+          // The calendar is scoped to the user's courses, so it needs the courses first. So do grades, which
+          // only LMSes that don't report them with the courses are asked for.
+          const courseIds = coursesRaw.map(c => c.id);
+          const ungradedCourseIds = coursesRaw.filter(c => c.grades === undefined).map(c => c.id);
+          const [eventsRaw, grades]: [CalendarEvent[], Record<number, EnrollmentGrades>] = await Promise.all([
+              adapter.getEvents(connection, courseIds, handleProgress).catch(calendarError => {
+                  console.warn(`Could not load the calendar for ${connection.name}, falling back to assignment due dates:`, calendarError);
+                  return eventsFromAssignments(assignmentsRaw);
+              }),
+              ungradedCourseIds.length > 0
+                  ? adapter.getGrades(connection, ungradedCourseIds).catch(gradesError => {
+                      console.warn(`Could not load grades for ${connection.name}:`, gradesError);
+                      return {};
+                  })
+                  : {},
+          ]);
+          const coursesData = coursesRaw.map(c => c.grades === undefined ? { ...c, grades: grades[c.id] ?? null } : c);
+          return enrichConnectionData(coursesData, assignmentsRaw, eventsRaw);
+      };
+      const results = await Promise.allSettled(connections.map(connection =>
+          isSkipped(connection) ? Promise.resolve(null) : syncConnection(connection)
+      ));
+      if (isStale()) return false;
+
+      // A connection that fails keeps its cached data, so one unreachable school doesn't hide the others.
+      const syncedAt = new Date().toISOString();
+      const parts: CachedCanvasData[] = [];
+      const changes: AssignmentChange[] = [];
+      const failures: string[] = [];
+      const syncTimes: Record<string, string> = { ...cachedSyncTimes };
+      let firstError: unknown = null;
+      let attempted = 0;
+      for (let index = 0; index < connections.length; index++) {
+          const connection = connections[index];
+          const result = results[index];
+          if (result.status === 'fulfilled' && result.value === null) {
+              parts.push(cachedByConnection.get(connection.id)!);
+              continue;
+          }
+          attempted++;
+          if (result.status === 'rejected') {
+              console.error(`Error fetching data for ${connection.name}:`, result.reason);
+              firstError = firstError ?? result.reason;
+              failures.push(`${connection.name}: ${result.reason instanceof Error ? result.reason.message : 'An unknown error occurred.'}`);
+              const connectionCache = cachedByConnection.get(connection.id);
+              if (connectionCache) parts.push(connectionCache);
+              continue;
           }
-          if (assignmentsData.length > 0) {
-             await storage.set(CANVAS_ASSIGNMENT_IDS_KEY, Array.from(newAssignmentIds));
+          const part = { ...result.value!, syncedAt };
+          parts.push(part);
+          syncTimes[connection.id] = syncedAt;
+          const cacheKey = cacheKeys.get(connection.id);
+          if (cacheKey && !isStale()) {
+              // **CHANGE DETECTION**: Each connection is compared against its own previous snapshot.
+              changes.push(...await detectChanges(cacheKey, part.assignments, syncedAt));
+              await setCachedCanvasData(cacheKey, part);
           }
       }
-      
-      const eventsData: CalendarEvent[] = assignmentsData
-        .filter(a => a.due_at)
-        .map(a => ({
-        id: a.id,
-        title: a.name,
-        date: new Date(a.due_at!),
-        type: a.name.toLowerCase().includes('quiz') ? 'quiz' : a.name.toLowerCase().includes('test') || a.name.toLowerCase().includes('exam') ? 'test' : 'assignment',
-        course_id: a.course_id,
-        courseName: courseMap.get(a.course_id) || 'Unknown Course',
-      }));
+      if (isStale()) return false;
+      if (attempted > 0 && failures.length === attempted) {
+          throw firstError;
+      }
 
-      setCourses(coursesData);
-      setAssignments(assignmentsData);
-      setCalendarEvents(eventsData);
+      if (changeLogKey && changes.length > 0) {
+          const storedLog = await storage.get<AssignmentChange[]>(changeLogKey) || [];
+          const updatedLog = appendToChangeLog(storedLog, changes);
+          await storage.set(changeLogKey, updatedLog);
+          if (isStale()) return false;
+          setChangeLog(updatedLog);
+      }
+
+      const combined = combineConnectionData(parts);
+      if (cached) {
+          // Diff against the snapshot on screen so unchanged items keep their identity.
+          const mergedCourses = mergeById(cached.courses, combined.courses, getItemKey);
+          const mergedAssignments = mergeById(cached.assignments, combined.assignments, getItemKey);
+          const mergedEvents = mergeById(cached.calendarEvents, combined.calendarEvents, getCalendarEventKey);
+          if (mergedCourses.changed) setCourses(mergedCourses.merged);
+          if (mergedAssignments.changed) setAssignments(mergedAssignments.merged);
+          if (mergedEvents.changed) setCalendarEvents(mergedEvents.merged);
+      } else {
+          setCourses(combined.courses);
+          setAssignments(combined.assignments);
+          setCalendarEvents(combined.calendarEvents);
+      }
+      hasDataRef.current = true;
+
+      if (userId) {
+          setLastSyncedAt(combined.syncedAt);
+          setSyncedAtByConnection(syncTimes);
+      }
+      if (failures.length > 0) {
+          setError(`Could not sync ${failures.join('; ')}`);
+          return false;
+      }
+      return true;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       console.error("Critical error fetching canvas data:", err);
+      if (isStale()) return false;
       setError(errorMessage);
-      setConnectionStatus('error');
+      // With a cached snapshot on screen the app keeps working; only a cold start without data is an error.
+      if (!cached) {
+          setConnectionStatus('error');
+      }
+      return false;
     } finally {
-      setLoading(false);
+      if (!isStale()) {
+        setLoading(false);
+        setIsRevalidating(false);
+      }
+    }
+  }, [sampleDataMode, connections, userId, changeLogKey]);
+
+  const dismissChanges = useCallback(async () => {
+    setChangeLog([]);
+    if (changeLogKey) {
+      await storage.remove(changeLogKey);
     }
-  }, [settings]);
+  }, [changeLogKey]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      // Revalidate as soon as the connection comes back.
+      if (enabled && hasSettings && !sampleDataMode) {
+        fetchData();
+      }
+    };
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [enabled, hasSettings, sampleDataMode, fetchData]);
 
   useEffect(() => {
-    if (!enabled || !settings) {
+    if (!enabled || !hasSettings) {
+      syncIdRef.current++;
       setLoading(false);
+      setIsRevalidating(false);
+      hasDataRef.current = false;
       setCourses([]);
       setAssignments([]);
       setCalendarEvents([]);
-      setNewAssignments([]);
+      setChangeLog([]);
+      setSyncProgress({});
+      setLastSyncedAt(null);
+      setSyncedAtByConnection({});
       setError(null);
       return;
     }
     
     fetchData();
-  }, [enabled, settings, fetchData]);
+  }, [enabled, hasSettings, fetchData]);
 
-  return { courses, assignments, calendarEvents, loading, error, newAssignments, connectionStatus, refetchData: fetchData };
+  return { courses, assignments, calendarEvents, loading, error, changeLog, dismissChanges, connectionStatus, syncProgress, lastSyncedAt, syncedAtByConnection, isRevalidating, isOffline, refetchData: fetchData };
 };
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Course, CourseUser, InboxConversation, InboxMessage, Settings } from '../types';
+import { createConversation, getConversationMessages, getConversations, getUnreadConversationCount, replyToConversation, searchCourseUsers } from '../services/canvasApiService';
+import { getActiveConnections, getConnection, getItemKey, isCanvasConnection } from '../services/canvasConnections';
+
+const getErrorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+/**
+ * The student's Canvas Inbox across all their Canvas connections: recent conversations, the messages of the
+ * open one, and sending replies and new messages. Conversations are fetched again whenever the courses change,
+ * i.e. after every sync. Other LMSes and the sample data have no Inbox.
+ * @param courses Every synced course.
+ */
+export const useCanvasInbox = (settings: Settings | null, courses: Course[]) => {
+    const [conversations, setConversations] = useState<InboxConversation[]>([]);
+    // Across all of the student's conversations, not just the ones listed.
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // The open conversation, by `getItemKey`.
+    const [activeKey, setActiveKey] = useState<string | null>(null);
+    // The conversation opened last, so responses for one the student has since left are dropped.
+    const activeKeyRef = useRef<string | null>(null);
+    // Counts refreshes, so a list that arrives after a newer refresh (e.g. from a connection since removed) is dropped.
+    const refreshIdRef = useRef(0);
+    const [messages, setMessages] = useState<InboxMessage[]>([]);
+    const [isMessagesLoading, setIsMessagesLoading] = useState(false);
+    const [messagesError, setMessagesError] = useState<string | null>(null);
+
+    const connections = useMemo(
+        () => settings?.sampleDataMode ? [] : getActiveConnections(settings).filter(connection => isCanvasConnection(connection)),
+        [settings]
+    );
+    const isEnabled = connections.length > 0;
+
+    const refresh = useCallback(async () => {
+        const refreshId = ++refreshIdRef.current;
+        if (connections.length === 0) {
+            setConversations([]);
+            setUnreadCount(0);
+            setIsLoading(false);
+            return;
+        }
+        setIsLoading(true);
+        setError(null);
+        const failures: string[] = [];
+        const results = await Promise.all(connections.map(async connection => {
+            try {
+                const [loaded, unread] = await Promise.all([
+                    getConversations(connection),
+                    getUnreadConversationCount(connection).catch(err => {
+                        // Fall back to the unread conversations that were listed.
+                        console.error(`Could not load the unread count from ${connection.name}:`, err);
+                        return null;
+                    }),
+                ]);
+                return { loaded, unread: unread ?? loaded.filter(c => c.workflow_state === 'unread').length };
+            } catch (err) {
+                // One institution failing shouldn't hide the others' messages.
+                console.error(`Could not load the Inbox from ${connection.name}:`, err);
+                failures.push(connection.name);
+                return { loaded: [], unread: 0 };
+            }
+        }));
+        if (refreshIdRef.current !== refreshId) return;
+        setConversations(results.flatMap(r => r.loaded).sort((a, b) => (b.last_message_at ?? '').localeCompare(a.last_message_at ?? '')));
+        setUnreadCount(results.reduce((total, r) => total + r.unread, 0));
+        if (failures.length > 0) {
+            setError(`Could not load messages from ${failures.join(', ')}.`);
+        }
+        setIsLoading(false);
+    }, [connections]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh, courses]);
+
+    const activeConversation = conversations.find(c => getItemKey(c) === activeKey) ?? null;
+
+    /**
+     * Opens a conversation and loads its messages. Canvas marks it as read.
+     * @param key The conversation's key from `getItemKey`, or null to close it.
+     */
+    const openConversation = useCallback(async (key: string | null) => {
+        activeKeyRef.current = key;
+        setActiveKey(key);
+        setMessages([]);
+        setMessagesError(null);
+        setIsMessagesLoading(false);
+        const conversation = conversations.find(c => getItemKey(c) === key);
+        const connection = conversation && getConnection(settings, conversation.connectionId);
+        if (!conversation || !connection) return;
+        setIsMessagesLoading(true);
+        try {
+            const loaded = await getConversationMessages(connection, conversation.id);
+            // Canvas marks it as read either way, but a conversation the student has moved on from isn't shown.
+            setConversations(current => current.map(c => getItemKey(c) === key ? { ...c, workflow_state: 'read' as const } : c));
+            if (conversation.workflow_state === 'unread') {
+                setUnreadCount(count => Math.max(0, count - 1));
+            }
+            if (activeKeyRef.current !== key) return;
+            setMessages(loaded);
+        } catch (err) {
+            console.error("Could not load the conversation:", err);
+            if (activeKeyRef.current === key) {
+                setMessagesError(getErrorMessage(err, 'Could not load this conversation.'));
+            }
+        } finally {
+            if (activeKeyRef.current === key) {
+                setIsMessagesLoading(false);
+            }
+        }
+    }, [conversations, settings]);
+
+    /**
+     * Replies to the open conversation.
+     */
+    const reply = useCallback(async (body: string) => {
+        const connection = activeConversation && getConnection(settings, activeConversation.connectionId);
+        if (!activeConversation || !connection) return;
+        const sent = await replyToConversation(connection, activeConversation.id, body);
+        if (activeKeyRef.current === activeKey) {
+            setMessages(current => [...current, ...sent.filter(m => !current.some(c => c.id === m.id))]);
+        }
+        setConversations(current => current.map(c => getItemKey(c) === activeKey
+            ? { ...c, last_message: body, last_message_at: new Date().toISOString(), message_count: c.message_count + 1 }
+            : c
+        ));
+    }, [activeConversation, activeKey, settings]);
+
+    /**
+     * Sends a new message to people in a course, and opens the conversation it starts.
+     */
+    const sendMessage = useCallback(async (course: Course, recipientIds: number[], subject: string, body: string) => {
+        const connection = getConnection(settings, course.connectionId);
+        if (!connection) throw new Error('This course is no longer connected.');
+        const conversation = await createConversation(connection, course.id, recipientIds, subject, body);
+        const key = getItemKey(conversation);
+        setConversations(current => [conversation, ...current.filter(c => getItemKey(c) !== key)]);
+        activeKeyRef.current = key;
+        setActiveKey(key);
+        setMessages([]);
+        const loaded = await getConversationMessages(connection, conversation.id);
+        if (activeKeyRef.current === key) {
+            setMessages(loaded);
+        }
+    }, [settings]);
+
+    /**
+     * Finds people in a course by name.
+     */
+    const searchRecipients = useCallback(async (course: Course, searchTerm: string): Promise<CourseUser[]> => {
+        const connection = getConnection(settings, course.connectionId);
+        return connection ? searchCourseUsers(connection, course.id, searchTerm) : [];
+    }, [settings]);
+
+    // Courses whose people can be messaged.
+    const messageableCourses = useMemo(
+        () => courses.filter(course => connections.some(connection => connection.id === course.connectionId)),
+        [courses, connections]
+    );
+
+    return {
+        isEnabled, conversations, unreadCount, isLoading, error, refresh,
+        activeConversation, messages, isMessagesLoading, messagesError, openConversation,
+        reply, sendMessage, searchRecipients, messageableCourses,
+    };
+};
+
+export type CanvasInbox = ReturnType<typeof useCanvasInbox>;
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CanvasConnection, CourseFile, CourseFolder, CourseModule, CoursePage } from '../types';
+import { getCourseFiles, getCourseModules, getCoursePage, getCoursePages } from '../services/canvasApiService';
+
+type ContentSection = 'modules' | 'pages' | 'files';
+
+const getErrorMessage = (error: unknown) => error instanceof Error ? error.message : 'Could not load this from Canvas.';
+
+/**
+ * A Canvas course's modules, wiki pages, and files and folders. Each is loaded on its own, since
+ * teachers often hide the pages or files of a course from students; a section that fails has an error instead.
+ * @param connection Must be a Canvas connection.
+ */
+export const useCourseContent = (connection: CanvasConnection, courseId: number) => {
+    const [modules, setModules] = useState<CourseModule[]>([]);
+    const [pages, setPages] = useState<CoursePage[]>([]);
+    const [folders, setFolders] = useState<CourseFolder[]>([]);
+    const [files, setFiles] = useState<CourseFile[]>([]);
+    const [errors, setErrors] = useState<Partial<Record<ContentSection, string>>>({});
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setErrors({});
+        const load = async <T,>(section: ContentSection, request: Promise<T>, apply: (result: T) => void) => {
+            try {
+                const result = await request;
+                if (!cancelled) apply(result);
+            } catch (error) {
+                console.error(`Could not load course ${section}:`, error);
+                if (!cancelled) setErrors(current => ({ ...current, [section]: getErrorMessage(error) }));
+            }
+        };
+        Promise.all([
+            load('modules', getCourseModules(connection, courseId), setModules),
+            load('pages', getCoursePages(connection, courseId), setPages),
+            load('files', getCourseFiles(connection, courseId), result => {
+                setFolders(result.folders);
+                setFiles(result.files);
+            }),
+        ]).then(() => {
+            if (!cancelled) setIsLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [connection, courseId]);
+
+    /**
+     * Fetches a page with its body.
+     * @param pageUrl The page's `url` slug.
+     */
+    const loadPage = useCallback((pageUrl: string) => getCoursePage(connection, courseId, pageUrl), [connection, courseId]);
+
+    return { modules, pages, folders, files, errors, isLoading, loadPage };
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Course, CourseSyllabus, SyllabusExtraction } from '../types';
+import { deleteCourseSyllabus, loadCourseSyllabi, saveCourseSyllabus, toSyllabusEvents } from '../services/syllabusService';
+import { useAuth } from './useAuth';
+
+/**
+ * The syllabus details the student has confirmed for their courses (see `CourseSyllabus`), and their dated
+ * items as calendar entries.
+ * @param courses Every synced course.
+ */
+export const useCourseSyllabi = (courses: Course[]) => {
+    const { user } = useAuth();
+    const [syllabi, setSyllabi] = useState<CourseSyllabus[]>([]);
+
+    useEffect(() => {
+        setSyllabi([]);
+        if (!user) return;
+        let cancelled = false;
+        loadCourseSyllabi(user.id)
+            .then(loaded => {
+                if (!cancelled) setSyllabi(loaded);
+            })
+            .catch(error => console.error("Could not load course syllabi:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
+
+    /**
+     * Saves the confirmed details for a course, replacing any earlier import.
+     * @param courseKey The course's key from `getItemKey`.
+     */
+    const saveSyllabus = useCallback(async (courseKey: string, extraction: SyllabusExtraction) => {
+        const syllabus: CourseSyllabus = { courseKey, extraction, importedAt: new Date().toISOString() };
+        setSyllabi(current => [...current.filter(s => s.courseKey !== courseKey), syllabus]);
+        if (user) {
+            await saveCourseSyllabus(user.id, syllabus);
+        }
+    }, [user]);
+
+    const removeSyllabus = useCallback(async (courseKey: string) => {
+        setSyllabi(current => current.filter(s => s.courseKey !== courseKey));
+        if (user) {
+            await deleteCourseSyllabus(user.id, courseKey);
+        }
+    }, [user]);
+
+    const getSyllabus = useCallback((courseKey: string) => syllabi.find(s => s.courseKey === courseKey) ?? null, [syllabi]);
+
+    const events = useMemo(() => toSyllabusEvents(syllabi, courses), [syllabi, courses]);
+
+    return { getSyllabus, events, saveSyllabus, removeSyllabus };
+};
+
+export type CourseSyllabi = ReturnType<typeof useCourseSyllabi>;
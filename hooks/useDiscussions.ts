@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CanvasConnection, DiscussionThread, DiscussionTopic } from '../types';
+import { getDiscussionThread, getDiscussionTopics, postDiscussionReply } from '../services/canvasApiService';
+import { toReplyHtml } from '../services/discussionService';
+
+const getErrorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+/**
+ * A Canvas course's discussion topics, and the threaded replies of the one that's open.
+ * @param connection Must be a Canvas connection.
+ */
+export const useDiscussions = (connection: CanvasConnection, courseId: number) => {
+    const [topics, setTopics] = useState<DiscussionTopic[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
+    const [thread, setThread] = useState<DiscussionThread | null>(null);
+    // The topic whose thread was asked for last, so a thread that arrives after the student has moved on is dropped.
+    const threadTopicIdRef = useRef<number | null>(null);
+    const [isThreadLoading, setIsThreadLoading] = useState(false);
+    const [threadError, setThreadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+        getDiscussionTopics(connection, courseId)
+            .then(loaded => {
+                if (!cancelled) setTopics(loaded);
+            })
+            .catch(err => {
+                console.error("Could not load discussions:", err);
+                if (!cancelled) setError(getErrorMessage(err, 'Could not load discussions from Canvas.'));
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [connection, courseId]);
+
+    const selectedTopic = topics.find(topic => topic.id === selectedTopicId) ?? null;
+    const canSeePosts = selectedTopic?.user_can_see_posts ?? false;
+
+    const loadThread = useCallback(async (topicId: number) => {
+        threadTopicIdRef.current = topicId;
+        setIsThreadLoading(true);
+        setThreadError(null);
+        try {
+            const loaded = await getDiscussionThread(connection, courseId, topicId);
+            if (threadTopicIdRef.current === topicId) {
+                setThread(loaded);
+            }
+        } catch (err) {
+            console.error("Could not load the discussion:", err);
+            if (threadTopicIdRef.current === topicId) {
+                setThreadError(getErrorMessage(err, 'Could not load this discussion.'));
+            }
+        } finally {
+            if (threadTopicIdRef.current === topicId) {
+                setIsThreadLoading(false);
+            }
+        }
+    }, [connection, courseId]);
+
+    useEffect(() => {
+        threadTopicIdRef.current = selectedTopicId;
+        setThread(null);
+        setThreadError(null);
+        setIsThreadLoading(false);
+        // Canvas refuses the thread of a topic that requires a post first.
+        if (selectedTopicId !== null && canSeePosts) {
+            loadThread(selectedTopicId);
+        }
+    }, [selectedTopicId, canSeePosts, loadThread]);
+
+    /**
+     * Posts the student's reply to the open topic, or to one of its entries, and reloads the thread.
+     * @param text Plain text; blank lines separate paragraphs.
+     */
+    const postReply = useCallback(async (text: string, parentEntryId?: number) => {
+        if (selectedTopicId === null) return;
+        await postDiscussionReply(connection, courseId, selectedTopicId, toReplyHtml(text), parentEntryId);
+        // Posting unlocks the other replies of a topic that requires a post first, which loads the thread.
+        setTopics(current => current.map(topic => topic.id === selectedTopicId
+            ? { ...topic, reply_count: topic.reply_count + 1, last_reply_at: new Date().toISOString(), user_can_see_posts: true }
+            : topic
+        ));
+        if (canSeePosts) {
+            await loadThread(selectedTopicId);
+        }
+    }, [connection, courseId, selectedTopicId, canSeePosts, loadThread]);
+
+    return { topics, isLoading, error, selectedTopic, selectTopic: setSelectedTopicId, thread, isThreadLoading, threadError, postReply };
+};
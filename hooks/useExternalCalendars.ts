@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CalendarEvent, ExternalCalendar, Settings } from '../types';
+import { createConnectionId } from '../services/canvasConnections';
+import { deleteCalendarFile, loadExternalCalendar, parseCalendarText, saveCalendarFile, toCalendarEvents } from '../services/externalCalendarService';
+import { fetchCalendarUrl } from '../services/canvasApiService';
+import { useAuth } from './useAuth';
+
+// A calendar's entries once loaded, or why it couldn't be.
+type LoadedCalendar = { events: CalendarEvent[]; error: null } | { events: []; error: string };
+
+const getDefaultName = (url: string): string => {
+    try {
+        return new URL(url.replace(/^webcals?:/i, 'https:')).hostname;
+    } catch {
+        return 'Calendar';
+    }
+};
+
+/**
+ * Calendars the user imported from outside the LMS (see `ExternalCalendar`), loaded into `CalendarEvent`s
+ * of type 'external'. Each calendar is loaded once per session; `refresh` downloads subscribed ones again.
+ */
+export const useExternalCalendars = (settings: Settings | null, saveSettings: (settings: Settings) => Promise<void>) => {
+    const { user } = useAuth();
+    const [loaded, setLoaded] = useState<Record<string, LoadedCalendar>>({});
+    const [isLoading, setIsLoading] = useState(false);
+
+    const calendars = useMemo(() => settings?.externalCalendars ?? [], [settings]);
+
+    useEffect(() => {
+        const pending = calendars.filter(calendar => !loaded[calendar.id]);
+        if (!user || pending.length === 0) return;
+        let cancelled = false;
+        setIsLoading(true);
+        Promise.all(pending.map(async (calendar): Promise<[string, LoadedCalendar]> => {
+            try {
+                return [calendar.id, { events: toCalendarEvents(calendar, await loadExternalCalendar(user.id, calendar)), error: null }];
+            } catch (error) {
+                console.error(`Could not load the calendar "${calendar.name}":`, error);
+                return [calendar.id, { events: [], error: error instanceof Error ? error.message : 'The calendar could not be loaded.' }];
+            }
+        })).then(results => {
+            if (cancelled) return;
+            setLoaded(current => ({ ...current, ...Object.fromEntries(results) }));
+            setIsLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [user, calendars, loaded]);
+
+    const addCalendar = useCallback(async (calendar: ExternalCalendar, events: CalendarEvent[]) => {
+        if (!settings) return;
+        setLoaded(current => ({ ...current, [calendar.id]: { events, error: null } }));
+        await saveSettings({ ...settings, externalCalendars: [...calendars, calendar] });
+    }, [settings, calendars, saveSettings]);
+
+    /**
+     * Subscribes to a calendar by URL. It's downloaded once first, so a bad URL is reported right away.
+     */
+    const addCalendarUrl = useCallback(async (url: string, name?: string) => {
+        const parsed = parseCalendarText(await fetchCalendarUrl(url));
+        const calendar: ExternalCalendar = {
+            id: createConnectionId(),
+            name: name?.trim() || parsed.name || getDefaultName(url),
+            url: url.trim(),
+            addedAt: new Date().toISOString(),
+        };
+        await addCalendar(calendar, toCalendarEvents(calendar, parsed));
+    }, [addCalendar]);
+
+    const importCalendarFile = useCallback(async (file: File) => {
+        if (!user) return;
+        const text = await file.text();
+        const parsed = parseCalendarText(text);
+        const calendar: ExternalCalendar = {
+            id: createConnectionId(),
+            name: parsed.name || file.name.replace(/\.ics$/i, ''),
+            fileName: file.name,
+            addedAt: new Date().toISOString(),
+        };
+        await saveCalendarFile(user.id, calendar.id, text);
+        await addCalendar(calendar, toCalendarEvents(calendar, parsed));
+    }, [user, addCalendar]);
+
+    const removeCalendar = useCallback(async (calendarId: string) => {
+        if (!settings || !user) return;
+        const calendar = calendars.find(c => c.id === calendarId);
+        await saveSettings({ ...settings, externalCalendars: calendars.filter(c => c.id !== calendarId) });
+        if (calendar && !calendar.url) {
+            await deleteCalendarFile(user.id, calendarId);
+        }
+        setLoaded(({ [calendarId]: _removed, ...rest }) => rest);
+    }, [settings, user, calendars, saveSettings]);
+
+    // Clearing the loaded calendars makes the effect load every one again.
+    const refresh = useCallback(() => setLoaded({}), []);
+
+    const events = useMemo(
+        () => calendars.flatMap(calendar => loaded[calendar.id]?.events ?? []),
+        [calendars, loaded]
+    );
+    const errors = useMemo(
+        () => Object.fromEntries(calendars.flatMap(calendar => loaded[calendar.id]?.error ? [[calendar.id, loaded[calendar.id].error!]] : [])) as Record<string, string>,
+        [calendars, loaded]
+    );
+    const eventCounts = useMemo(
+        () => Object.fromEntries(calendars.map(calendar => [calendar.id, loaded[calendar.id]?.events.length ?? null])) as Record<string, number | null>,
+        [calendars, loaded]
+    );
+
+    return { calendars, events, errors, eventCounts, isLoading, addCalendarUrl, importCalendarFile, removeCalendar, refresh };
+};
+
+export type ExternalCalendars = ReturnType<typeof useExternalCalendars>;
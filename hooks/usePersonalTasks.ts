@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { AssignmentStatus, Course, PersonalTask } from '../types';
+import { deletePersonalTask, loadPersonalTasks, savePersonalTask, toAssignment, toPersonalTaskEvents } from '../services/personalTaskService';
+import { useAuth } from './useAuth';
+
+// The fields the student fills in.
+export type PersonalTaskDraft = Pick<PersonalTask, 'title' | 'notes' | 'courseKey' | 'dueAt' | 'estimateMinutes'>;
+
+/**
+ * The student's own tasks (see `PersonalTask`), as assignments and calendar entries.
+ * @param courses Every synced course, which tasks can be attached to.
+ */
+export const usePersonalTasks = (courses: Course[]) => {
+    const { user } = useAuth();
+    const [tasks, setTasks] = useState<PersonalTask[]>([]);
+
+    useEffect(() => {
+        setTasks([]);
+        if (!user) return;
+        let cancelled = false;
+        loadPersonalTasks(user.id)
+            .then(loaded => {
+                if (!cancelled) setTasks(loaded);
+            })
+            .catch(error => console.error("Could not load personal tasks:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [user]);
+
+    // Shows the task straight away, and puts back what was there if it can't be saved.
+    const saveTask = useCallback(async (task: PersonalTask) => {
+        const previous = tasks.find(t => t.id === task.id);
+        setTasks(current => [...current.filter(t => t.id !== task.id), task]);
+        if (!user) return;
+        try {
+            await savePersonalTask(user.id, task);
+        } catch (error) {
+            setTasks(current => current.includes(task)
+                ? [...current.filter(t => t.id !== task.id), ...(previous ? [previous] : [])]
+                : current
+            );
+            throw error;
+        }
+    }, [tasks, user]);
+
+    const addTask = useCallback(async (draft: PersonalTaskDraft) => {
+        const now = new Date().toISOString();
+        await saveTask({ ...draft, id: crypto.randomUUID(), status: 'NOT_STARTED', createdAt: now, updatedAt: now });
+    }, [saveTask]);
+
+    const updateTask = useCallback(async (taskId: string, changes: Partial<PersonalTaskDraft> & { status?: AssignmentStatus }) => {
+        const task = tasks.find(t => t.id === taskId);
+        if (!task) return;
+        await saveTask({ ...task, ...changes, updatedAt: new Date().toISOString() });
+    }, [tasks, saveTask]);
+
+    const removeTask = useCallback(async (taskId: string) => {
+        const removed = tasks.find(t => t.id === taskId);
+        setTasks(current => current.filter(t => t.id !== taskId));
+        if (!user) return;
+        try {
+            await deletePersonalTask(user.id, taskId);
+        } catch (error) {
+            if (removed) {
+                setTasks(current => current.some(t => t.id === taskId) ? current : [...current, removed]);
+            }
+            throw error;
+        }
+    }, [tasks, user]);
+
+    const assignments = useMemo(() => tasks.map(task => toAssignment(task, courses)), [tasks, courses]);
+    const events = useMemo(() => toPersonalTaskEvents(assignments), [assignments]);
+
+    return { assignments, events, addTask, updateTask, removeTask };
+};
+
+export type PersonalTasks = ReturnType<typeof usePersonalTasks>;
@@ -1,15 +1,71 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Settings } from '../types';
+import { CanvasConnection, Settings } from '../types';
 import { db } from '../services/firebaseService';
 import { useAuth } from './useAuth';
-import { doc, getDoc, setDoc, deleteDoc } from 'firebase/firestore';
+import { clearCachedCanvasData } from '../services/offlineCacheService';
+import { storeCanvasToken, deleteStoredCanvasToken, completeCanvasOAuth } from '../services/canvasApiService';
+import { DEFAULT_CONNECTION_ID, getActiveConnections, getConnection, getDefaultConnectionName } from '../services/canvasConnections';
+import { doc, getDoc, setDoc, deleteDoc, DocumentData } from 'firebase/firestore';
 
-const defaultSettings: Settings = { canvasUrl: '', apiToken: '', sampleDataMode: false };
+const defaultSettings: Settings = { connections: [], sampleDataMode: false };
+
+/**
+ * Reads a settings document. Settings saved before multiple Canvas connections were supported hold one
+ * connection's fields at the top level; they become the default connection.
+ * @returns The settings, and whether they were converted and should be saved back.
+ */
+const readSettings = (data: DocumentData): { settings: Settings; migrated: boolean } => {
+    if (Array.isArray(data.connections)) {
+        return { settings: { ...defaultSettings, ...data } as Settings, migrated: false };
+    }
+    const { canvasUrl, apiToken, hasServerToken, authMethod, ...rest } = data;
+    const connections: CanvasConnection[] = canvasUrl ? [{
+        id: DEFAULT_CONNECTION_ID,
+        name: getDefaultConnectionName(canvasUrl),
+        canvasUrl,
+        apiToken: apiToken || '',
+        // Firestore rejects undefined fields.
+        ...(hasServerToken !== undefined && { hasServerToken }),
+        ...(authMethod !== undefined && { authMethod }),
+    }] : [];
+    return { settings: { ...defaultSettings, ...rest, connections } as Settings, migrated: true };
+};
+
+/**
+ * Moves a connection's plain-text Canvas token into the proxy's token vault, returning the connection to persist.
+ * Deployments without a vault keep the token in the settings as before.
+ */
+const vaultApiToken = async (connection: CanvasConnection): Promise<CanvasConnection> => {
+    if (!connection.apiToken) return connection;
+    const stored = await storeCanvasToken(connection.id, connection.canvasUrl, connection.apiToken, connection.provider);
+    return stored
+        ? { ...connection, apiToken: '', hasServerToken: true, authMethod: 'token' }
+        : { ...connection, hasServerToken: false, authMethod: 'token' };
+};
+
+const vaultApiTokens = async (settings: Settings): Promise<Settings> => ({
+    ...settings,
+    connections: await Promise.all(settings.connections.map(vaultApiToken)),
+});
+
+/**
+ * Canvas sign-in returns to the app with its outcome in the URL fragment (see `proxy/canvasOAuth.ts`).
+ * Reads and removes it, so a reload doesn't try to redeem it again.
+ */
+const takeCanvasOAuthResponse = (): { result: string | null; error: string | null } | null => {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const result = params.get('canvasOAuth');
+    const error = params.get('canvasOAuthError');
+    if (!result && !error) return null;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    return { result, error };
+};
 
 export const useSettings = () => {
     const { user } = useAuth();
     const [settings, setSettings] = useState<Settings | null>(null);
     const [isConfigured, setIsConfigured] = useState(false);
+    const [oauthError, setOAuthError] = useState<string | null>(null);
 
     const getSettingsDocRef = useCallback(() => {
         if (!user) return null;
@@ -24,11 +80,57 @@ export const useSettings = () => {
                 setIsConfigured(false);
                 return;
             }
+
+            const oauthResponse = takeCanvasOAuthResponse();
+            if (oauthResponse?.error) {
+                setOAuthError(oauthResponse.error);
+            }
+            if (oauthResponse?.result) {
+                try {
+                    const { connectionId, canvasUrl } = await completeCanvasOAuth(oauthResponse.result);
+                    const existingDoc = await getDoc(docRef);
+                    const existingSettings = existingDoc.exists() ? readSettings(existingDoc.data()).settings : defaultSettings;
+                    const previous = getConnection(existingSettings, connectionId);
+                    const connection: CanvasConnection = {
+                        id: connectionId,
+                        name: previous?.name || getDefaultConnectionName(canvasUrl),
+                        canvasUrl,
+                        apiToken: '',
+                        hasServerToken: true,
+                        authMethod: 'oauth',
+                    };
+                    await setDoc(docRef, {
+                        ...existingSettings,
+                        connections: previous
+                            ? existingSettings.connections.map(c => c.id === connectionId ? connection : c)
+                            : [...existingSettings.connections, connection],
+                        sampleDataMode: false,
+                    });
+                } catch (error) {
+                    setOAuthError(error instanceof Error ? error.message : 'Canvas sign-in failed. Please try again.');
+                }
+            }
+
             const docSnap = await getDoc(docRef);
             if (docSnap.exists()) {
-                const storedSettings = docSnap.data() as Settings;
+                let { settings: storedSettings, migrated } = readSettings(docSnap.data());
+                // Settings saved before the token vault existed still hold tokens in plain text.
+                if (storedSettings.connections.some(c => c.apiToken)) {
+                    try {
+                        const vaultedSettings = await vaultApiTokens(storedSettings);
+                        if (vaultedSettings.connections.some((c, index) => c.hasServerToken && storedSettings.connections[index].apiToken)) {
+                            storedSettings = vaultedSettings;
+                            migrated = true;
+                        }
+                    } catch (error) {
+                        console.warn("Could not move the Canvas token to server storage:", error);
+                    }
+                }
+                if (migrated) {
+                    await setDoc(docRef, storedSettings);
+                }
                 setSettings(storedSettings);
-                setIsConfigured(!!(storedSettings.canvasUrl && storedSettings.apiToken));
+                setIsConfigured(getActiveConnections(storedSettings).length > 0);
             } else {
                 setSettings(defaultSettings);
                 setIsConfigured(false);
@@ -43,21 +145,42 @@ export const useSettings = () => {
         }
     }, [user, getSettingsDocRef]);
 
+    /**
+     * Saves settings. New Canvas tokens are handed to the proxy's token vault and never written to Firestore,
+     * unless this deployment has no vault. An empty token keeps the one the vault already holds.
+     * The vaulted tokens of connections that were removed are deleted.
+     * @throws Error if a token can't be stored, or a connection's Canvas URL changes without a new token.
+     */
     const saveSettings = useCallback(async (newSettings: Settings) => {
         const docRef = getSettingsDocRef();
         if (!docRef) return;
-        await setDoc(docRef, newSettings);
-        setSettings(newSettings);
-        setIsConfigured(!!(newSettings.canvasUrl && newSettings.apiToken));
-    }, [getSettingsDocRef]);
+        const movedConnection = newSettings.connections.find(c =>
+            !c.apiToken && c.hasServerToken && c.canvasUrl !== getConnection(settings, c.id)?.canvasUrl);
+        if (movedConnection) {
+            // The vaulted token is bound to the Canvas URL it was saved with.
+            throw new Error(`Enter the API Access Token for ${movedConnection.name} again to connect to a different Canvas URL.`);
+        }
+        const settingsToSave = await vaultApiTokens(newSettings);
+        const removedConnections = settings?.connections.filter(c => c.hasServerToken && !getConnection(settingsToSave, c.id)) ?? [];
+        await Promise.all(removedConnections.map(c => deleteStoredCanvasToken(c.id)));
+        await setDoc(docRef, settingsToSave);
+        setOAuthError(null);
+        setSettings(settingsToSave);
+        setIsConfigured(getActiveConnections(settingsToSave).length > 0);
+    }, [getSettingsDocRef, settings]);
 
     const clearSettings = useCallback(async () => {
         const docRef = getSettingsDocRef();
         if (!docRef) return;
+        // The proxy also revokes tokens from Canvas sign-in.
+        const vaultedConnections = settings?.connections.filter(c => c.hasServerToken) ?? [];
+        await Promise.all(vaultedConnections.map(c => deleteStoredCanvasToken(c.id)));
         await deleteDoc(docRef);
+        // Cached Canvas data belongs to the connections being removed.
+        await clearCachedCanvasData(user!.id);
         setSettings(defaultSettings);
         setIsConfigured(false);
-    }, [getSettingsDocRef]);
+    }, [getSettingsDocRef, user, settings]);
 
     const enableSampleDataMode = useCallback(async () => {
         const docRef = getSettingsDocRef();
@@ -68,5 +191,5 @@ export const useSettings = () => {
         setSettings(newSettings);
     }, [getSettingsDocRef, settings]);
 
-    return { settings, saveSettings, clearSettings, isConfigured, enableSampleDataMode };
+    return { settings, saveSettings, clearSettings, isConfigured, enableSampleDataMode, oauthError };
 };
\ No newline at end of file
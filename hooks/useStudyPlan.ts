@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Assignment, AssignmentStatus, AssignmentStatusSource, StudyPlanVersion } from '../types';
+import { generateStudyPlan } from '../services/geminiService';
+import { addStudyPlanVersion, getStatusFromPlan, loadStudyPlanVersions, saveStudyPlanVersions } from '../services/studyPlanService';
+import { getItemKey } from '../services/canvasConnections';
+import { useAuth } from './useAuth';
+
+/**
+ * An assignment's saved study plan and its version history (see `services/studyPlanService.ts`).
+ * Without a signed-in user, plans only last until the dialog closes.
+ * @param onStatusChange The `useAssignmentStatus` handler, told when step progress changes the assignment's status.
+ */
+export const useStudyPlan = (assignment: Assignment, onStatusChange: (assignmentKey: string, status: AssignmentStatus, source: AssignmentStatusSource) => void | Promise<void>) => {
+    const { user } = useAuth();
+    const assignmentKey = getItemKey(assignment);
+    // Oldest first; null until loaded.
+    const [versions, setVersions] = useState<StudyPlanVersion[] | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setVersions(null);
+        setError(null);
+        if (!user) {
+            setVersions([]);
+            return;
+        }
+        let cancelled = false;
+        loadStudyPlanVersions(user.id, assignmentKey)
+            .then(saved => {
+                if (!cancelled) setVersions(saved);
+            })
+            .catch(e => {
+                console.error("Could not load the saved study plan:", e);
+                if (!cancelled) setVersions([]);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [user, assignmentKey]);
+
+    // Shows the new versions straight away, and puts the previous ones back if they can't be saved.
+    const saveVersions = useCallback(async (newVersions: StudyPlanVersion[]) => {
+        const previous = versions;
+        setVersions(newVersions);
+        if (!user) return;
+        try {
+            await saveStudyPlanVersions(user.id, assignmentKey, newVersions);
+        } catch (e) {
+            setVersions(current => current === newVersions ? previous : current);
+            throw e;
+        }
+    }, [user, assignmentKey, versions]);
+
+    /**
+     * Generates a plan and saves it as the current version. Earlier versions are kept.
+     */
+    const generate = useCallback(async (enableThinking: boolean) => {
+        if (!versions) return;
+        setIsGenerating(true);
+        setError(null);
+        try {
+            const plan = await generateStudyPlan(assignment, { enableThinking });
+            if (!plan) {
+                setError("[AI Error] The AI returned an empty or invalid study plan.");
+                return;
+            }
+            await saveVersions(addStudyPlanVersion(versions, plan, enableThinking));
+        } catch (e: any) {
+            console.error("Failed to generate or save the study plan", e);
+            setError(e.message || "[Client Error] Failed to generate the study plan.");
+        } finally {
+            setIsGenerating(false);
+        }
+    }, [assignment, versions, saveVersions]);
+
+    /**
+     * Ticks a step of the current plan, and moves the assignment's status along with the plan's progress.
+     */
+    const setStepCompleted = useCallback(async (stepIndex: number, completed: boolean) => {
+        if (!versions || versions.length === 0) return;
+        const current = versions[versions.length - 1];
+        const plan = {
+            ...current.plan,
+            steps: current.plan.steps.map((step, index) => index === stepIndex ? { ...step, completed } : step),
+        };
+        const status = getStatusFromPlan(plan, assignment.status, assignment.statusSource);
+        setError(null);
+        try {
+            await saveVersions([...versions.slice(0, -1), { ...current, plan }]);
+            if (status !== assignment.status) {
+                await onStatusChange(assignmentKey, status, 'study_plan');
+            }
+        } catch (e: any) {
+            console.error("Failed to save study plan progress", e);
+            setError(e.message || "[Client Error] Failed to save your progress.");
+        }
+    }, [versions, assignment.status, assignment.statusSource, assignmentKey, onStatusChange, saveVersions]);
+
+    /**
+     * Makes an earlier version current again, with the progress it had.
+     */
+    const restoreVersion = useCallback(async (versionIndex: number) => {
+        if (!versions || versionIndex < 0 || versionIndex >= versions.length - 1) return;
+        setError(null);
+        try {
+            await saveVersions([...versions.filter((_, index) => index !== versionIndex), versions[versionIndex]]);
+        } catch (e: any) {
+            console.error("Failed to restore the study plan version", e);
+            setError(e.message || "[Client Error] Failed to restore this version.");
+        }
+    }, [versions, saveVersions]);
+
+    return {
+        versions: versions ?? [],
+        isLoading: versions === null,
+        isGenerating,
+        error,
+        generate,
+        setStepCompleted,
+        restoreVersion,
+    };
+};
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { Assignment, CalendarEvent, Settings, StudyBlock } from '../types';
+import { db } from '../services/firebaseService';
+import { getEstimatesFromStorage, parseEstimateMinutes } from '../services/assignmentEstimates';
+import { scheduleStudyBlocks, toStudyEvents } from '../services/studyScheduler';
+import { getItemKey } from '../services/canvasConnections';
+import { useAuth } from './useAuth';
+
+// How often to check for sessions that ended without being completed.
+const MISSED_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// AI estimates for assignments, and the student's own for personal tasks.
+const readEstimateMinutes = async (assignments: Assignment[]): Promise<Record<string, number>> => {
+    const estimates = await getEstimatesFromStorage();
+    return Object.fromEntries([
+        ...Object.entries(estimates).flatMap(([key, estimate]) => {
+            const minutes = parseEstimateMinutes(estimate);
+            return minutes ? [[key, minutes]] : [];
+        }),
+        ...assignments.flatMap(assignment => assignment.personalTask?.estimateMinutes ? [[getItemKey(assignment), assignment.personalTask.estimateMinutes]] : []),
+    ]);
+};
+
+/**
+ * The study schedule (see `services/studyScheduler.ts`), kept in Firestore at `users/{uid}/data/studySchedule`.
+ * It's worked out again whenever its inputs change and when a session ends, so missed sessions are rescheduled.
+ * @param assignments Every assignment, with its current status.
+ * @param calendarEvents Every calendar entry, including imported calendars.
+ */
+export const useStudySchedule = (settings: Settings | null, assignments: Assignment[], calendarEvents: CalendarEvent[]) => {
+    const { user } = useAuth();
+    // Null until loaded.
+    const [blocks, setBlocks] = useState<StudyBlock[] | null>(null);
+    const [unscheduledMinutes, setUnscheduledMinutes] = useState<Record<string, number>>({});
+    const [now, setNow] = useState(() => new Date());
+
+    const availability = useMemo(() => settings?.studyAvailability ?? [], [settings]);
+    const isEnabled = availability.length > 0;
+
+    const getScheduleDocRef = useCallback(() => user ? doc(db, 'users', user.id, 'data', 'studySchedule') : null, [user]);
+
+    const saveBlocks = useCallback(async (newBlocks: StudyBlock[]) => {
+        setBlocks(newBlocks);
+        const docRef = getScheduleDocRef();
+        if (docRef) {
+            await setDoc(docRef, { blocks: newBlocks, updatedAt: new Date().toISOString() });
+        }
+    }, [getScheduleDocRef]);
+
+    useEffect(() => {
+        const docRef = getScheduleDocRef();
+        setBlocks(null);
+        if (!docRef) return;
+        let cancelled = false;
+        getDoc(docRef)
+            .then(snapshot => {
+                if (!cancelled) setBlocks(snapshot.exists() ? snapshot.data().blocks ?? [] : []);
+            })
+            .catch(error => {
+                console.error("Could not load the study schedule:", error);
+                if (!cancelled) setBlocks([]);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [getScheduleDocRef]);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), MISSED_CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    useEffect(() => {
+        if (!blocks || !isEnabled) return;
+        let cancelled = false;
+        readEstimateMinutes(assignments).then(estimates => {
+            if (cancelled) return;
+            const schedule = scheduleStudyBlocks({ assignments, estimates, availability, calendarEvents, blocks, now });
+            setUnscheduledMinutes(schedule.unscheduledMinutes);
+            // Only write when something moved; the new blocks re-run this effect.
+            if (JSON.stringify(schedule.blocks) !== JSON.stringify(blocks)) {
+                saveBlocks(schedule.blocks).catch(error => console.error("Could not save the study schedule:", error));
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [blocks, isEnabled, assignments, availability, calendarEvents, now, saveBlocks]);
+
+    /**
+     * Marks a session as done, or back to scheduled. If that can't be saved, the session goes back to how it was.
+     */
+    const setBlockCompleted = useCallback(async (blockId: string, completed: boolean) => {
+        if (!blocks) return;
+        const previous = blocks;
+        const updated = blocks.map((block): StudyBlock => block.id === blockId ? { ...block, status: completed ? 'completed' : 'scheduled' } : block);
+        try {
+            await saveBlocks(updated);
+        } catch (error) {
+            console.error("Could not save the study session:", error);
+            setBlocks(current => current === updated ? previous : current);
+        }
+    }, [blocks, saveBlocks]);
+
+    const events = useMemo(() => isEnabled && blocks ? toStudyEvents(blocks) : [], [isEnabled, blocks]);
+    // Assignments with work that doesn't fit before they're due.
+    const unscheduled = useMemo(
+        () => isEnabled ? assignments.flatMap(assignment => unscheduledMinutes[getItemKey(assignment)] ? [{ assignment, minutes: unscheduledMinutes[getItemKey(assignment)] }] : []) : [],
+        [isEnabled, assignments, unscheduledMinutes]
+    );
+
+    return { isEnabled, events, unscheduled, setBlockCompleted };
+};
@@ -0,0 +1,12 @@
+import { getCalendarFeedConfigFromEnv, handleCalendarFeedRequest } from '../../proxy/calendarFeed';
+
+const calendarFeeds = getCalendarFeedConfigFromEnv();
+
+export default async (req: Request): Promise<Response> => {
+    const result = await handleCalendarFeedRequest({ url: req.url }, calendarFeeds);
+    return new Response(result.body || null, { status: result.status, headers: result.headers });
+};
+
+export const config = {
+    path: '/api/calendar-feed',
+};
@@ -0,0 +1,14 @@
+import { getVaultConfigFromEnv } from '../../proxy/tokenVault';
+import { getCanvasOAuthConfigFromEnv, handleCanvasOAuthCallback } from '../../proxy/canvasOAuth';
+
+const vault = getVaultConfigFromEnv();
+const oauth = getCanvasOAuthConfigFromEnv();
+
+export default async (req: Request): Promise<Response> => {
+    const result = await handleCanvasOAuthCallback({ url: req.url }, { vault, oauth });
+    return new Response(result.body || null, { status: result.status, headers: result.headers });
+};
+
+export const config = {
+    path: '/api/canvas-oauth/callback',
+};
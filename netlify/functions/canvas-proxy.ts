@@ -0,0 +1,31 @@
+import { handleCanvasProxyRequest } from '../../proxy/canvasProxyHandler';
+import { getVaultConfigFromEnv } from '../../proxy/tokenVault';
+import { getCanvasOAuthConfigFromEnv } from '../../proxy/canvasOAuth';
+import { getCalendarFeedConfigFromEnv } from '../../proxy/calendarFeed';
+
+const vault = getVaultConfigFromEnv();
+const oauth = getCanvasOAuthConfigFromEnv();
+const calendars = getCalendarFeedConfigFromEnv();
+
+// Netlify Functions (v2) receive a standard Request and return a standard Response.
+export default async (req: Request): Promise<Response> => {
+    const result = await handleCanvasProxyRequest({
+        method: req.method,
+        body: req.method === 'POST' ? await req.text() : undefined,
+        origin: req.headers.get('Origin') || undefined,
+        authorization: req.headers.get('Authorization') || undefined,
+    }, {
+        // Netlify sets URL to the site's primary address.
+        allowedOrigins: process.env.URL ? [process.env.URL] : [],
+        vault,
+        oauth,
+        calendars,
+    });
+
+    return new Response(result.body || null, { status: result.status, headers: result.headers });
+};
+
+// Serve the function at the same path the app calls on every other platform.
+export const config = {
+    path: '/api/canvas-proxy',
+};
@@ -0,0 +1,51 @@
+// Options page for the browser extension: stores the Canvas connection and the web app URL.
+
+import { ExtensionMessage } from './types';
+import { getExtensionSettings, saveExtensionSettings, getCanvasMatchPattern } from './services/extensionStorage';
+
+const form = document.getElementById('options-form') as HTMLFormElement;
+const appUrlInput = document.getElementById('app-url') as HTMLInputElement;
+const canvasUrlInput = document.getElementById('canvas-url') as HTMLInputElement;
+const apiTokenInput = document.getElementById('api-token') as HTMLInputElement;
+const geminiApiKeyInput = document.getElementById('gemini-api-key') as HTMLInputElement;
+const syncButton = document.getElementById('sync-now') as HTMLButtonElement;
+const status = document.getElementById('status') as HTMLParagraphElement;
+
+const toOrigin = (url: string): string => {
+    const trimmed = url.trim();
+    return new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`).origin;
+};
+
+getExtensionSettings().then(settings => {
+    if (!settings) return;
+    appUrlInput.value = settings.appUrl;
+    canvasUrlInput.value = settings.canvasUrl;
+    apiTokenInput.value = settings.apiToken;
+    geminiApiKeyInput.value = settings.geminiApiKey ?? '';
+});
+
+form.addEventListener('submit', async event => {
+    event.preventDefault();
+    try {
+        const appUrl = toOrigin(appUrlInput.value);
+        const canvasUrl = toOrigin(canvasUrlInput.value);
+        // The service worker calls the app's proxy cross-origin, which needs host access to that origin. Access to
+        // the Canvas host lets the study tools be added to its assignment pages.
+        const granted = await chrome.permissions.request({ origins: [`${appUrl}/*`, getCanvasMatchPattern(canvasUrl)] });
+        if (!granted) {
+            status.textContent = 'Permission to reach the Student Platform and Canvas URLs is required.';
+            return;
+        }
+        await saveExtensionSettings({ appUrl, canvasUrl, apiToken: apiTokenInput.value.trim(), geminiApiKey: geminiApiKeyInput.value.trim() || undefined });
+        status.textContent = 'Saved. Syncing with Canvas...';
+    } catch (error) {
+        status.textContent = error instanceof Error ? error.message : 'Could not save the settings.';
+    }
+});
+
+syncButton.addEventListener('click', async () => {
+    status.textContent = 'Syncing with Canvas...';
+    const message: ExtensionMessage = { type: 'syncNow' };
+    await chrome.runtime.sendMessage(message);
+    status.textContent = 'Sync finished. Check the toolbar badge for what is due soon.';
+});
@@ -0,0 +1,90 @@
+// Calendar subscription feeds. The app publishes a student's calendar to Firestore under a random feed
+// token (see `hooks/useCalendarFeed.ts`), and /api/calendar-feed?token=... serves it as iCalendar, so
+// Google Calendar or Apple Calendar can subscribe without signing in. Knowing the token is the only
+// credential, so the Firestore rules must allow reading a single feed document but not listing them.
+
+import type { CanvasProxyResponse } from './canvasProxyHandler';
+import { ICalendarEvent, generateICalendar } from './icalendar';
+
+export interface CalendarFeedConfig {
+    // Firebase project the feeds are published to.
+    projectId: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Reads the feed configuration from FIREBASE_PROJECT_ID (or VITE_FIREBASE_PROJECT_ID).
+ * @returns The configuration, or null when no Firebase project is set.
+ */
+export const getCalendarFeedConfigFromEnv = (env: Env = process.env): CalendarFeedConfig | null => {
+    const projectId = env.FIREBASE_PROJECT_ID || env.VITE_FIREBASE_PROJECT_ID;
+    return projectId ? { projectId } : null;
+};
+
+// Feed tokens are 32 random bytes, base64url-encoded.
+export const isValidFeedToken = (token: unknown): token is string =>
+    typeof token === 'string' && /^[A-Za-z0-9_-]{43}$/.test(token);
+
+// What the app publishes for a feed. Events are stored as one JSON string to keep the document flat.
+interface PublishedFeed {
+    name: string;
+    events: ICalendarEvent[];
+}
+
+const readPublishedFeed = async (config: CalendarFeedConfig, token: string): Promise<PublishedFeed | null> => {
+    const url = `https://firestore.googleapis.com/v1/projects/${config.projectId}/databases/(default)/documents/calendarFeeds/${token}`;
+    const response = await fetch(url);
+    if (response.status === 404 || response.status === 403) return null;
+    if (!response.ok) {
+        throw new Error(`Firestore request failed with status ${response.status}.`);
+    }
+    const document = await response.json() as { fields?: Record<string, { stringValue?: string }> };
+    const events = document.fields?.events?.stringValue;
+    if (!events) return null;
+    return { name: document.fields?.name?.stringValue || 'Canvas', events: JSON.parse(events) };
+};
+
+export interface CalendarFeedRequest {
+    // The request URL, or at least its path and query string.
+    url: string;
+}
+
+/**
+ * Serves a published calendar feed as an .ics file.
+ * Never throws.
+ */
+export const handleCalendarFeedRequest = async (request: CalendarFeedRequest, config: CalendarFeedConfig | null): Promise<CanvasProxyResponse> => {
+    const textResponse = (status: number, body: string): CanvasProxyResponse => ({
+        status,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+        body,
+    });
+    if (!config) {
+        return textResponse(501, 'Calendar feeds are not configured on this deployment.');
+    }
+
+    try {
+        const token = new URL(request.url, 'http://localhost').searchParams.get('token');
+        if (!isValidFeedToken(token)) {
+            return textResponse(404, 'Calendar feed not found.');
+        }
+        const feed = await readPublishedFeed(config, token);
+        if (!feed) {
+            return textResponse(404, 'Calendar feed not found.');
+        }
+        return {
+            status: 200,
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': 'inline; filename="canvas-calendar.ics"',
+                // The feed is only as fresh as the last sync in the app, so there's no point in polling often.
+                'Cache-Control': 'private, max-age=900',
+            },
+            body: generateICalendar(feed.events, { name: feed.name }),
+        };
+    } catch (error) {
+        console.error('Calendar feed error:', error);
+        return textResponse(500, 'The calendar feed could not be loaded.');
+    }
+};
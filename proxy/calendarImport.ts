@@ -0,0 +1,183 @@
+// Fetches calendars students subscribe to elsewhere (work shifts, clubs, sports) so the app can import
+// them. Calendar hosts rarely allow cross-origin requests, so the browser can't fetch them itself.
+// The URL comes from the user, so only public https hosts are fetched: host names are resolved and every
+// address checked before connecting, redirects are checked hop by hop, and the response is capped in size.
+
+import { request } from 'https';
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { isIP, LookupFunction } from 'net';
+
+export class CalendarImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CalendarImportError';
+    }
+}
+
+const MAX_REDIRECTS = 3;
+
+// Large enough for years of a busy calendar.
+const MAX_CALENDAR_BYTES = 5 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// The eight 16-bit groups of an IPv6 address. A trailing dotted IPv4 part counts as the last two groups.
+const getIPv6Groups = (address: string): number[] => {
+    const dotted = address.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    const host = dotted
+        ? `${dotted[1]}${((Number(dotted[2]) << 8) | Number(dotted[3])).toString(16)}:${((Number(dotted[4]) << 8) | Number(dotted[5])).toString(16)}`
+        : address;
+    const [head, tail] = host.split('::');
+    const toGroups = (part: string | undefined): number[] => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+    const headGroups = toGroups(head);
+    const tailGroups = toGroups(tail);
+    return [...headGroups, ...new Array<number>(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+};
+
+const toIPv4 = (high: number, low: number): string => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+
+// The IPv4 address an IPv6 address stands for or routes to: IPv4-mapped (::ffff:0:0/96), IPv4-compatible
+// (::/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16). Null for other addresses.
+const getEmbeddedIPv4 = (groups: number[]): string | null => {
+    const [first, second] = groups;
+    if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) return toIPv4(groups[6], groups[7]);
+    if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) return toIPv4(groups[6], groups[7]);
+    if (first === 0x2002) return toIPv4(groups[1], groups[2]);
+    return null;
+};
+
+// Addresses on this server or its private network: loopback, private ranges, link-local (which includes
+// cloud metadata services), shared address space, and reserved or multicast ranges. IPv6 addresses that
+// carry an IPv4 address are judged by that address.
+const isPrivateAddress = (address: string): boolean => {
+    const host = address.toLowerCase();
+    if (isIP(host) === 6) {
+        const groups = getIPv6Groups(host);
+        const embedded = getEmbeddedIPv4(groups);
+        if (embedded) return isPrivateAddress(embedded);
+        // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8).
+        return (groups[0] & 0xfe00) === 0xfc00 || (groups[0] & 0xffc0) === 0xfe80 || (groups[0] & 0xff00) === 0xff00;
+    }
+    const [a, b, c] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+        || (a === 192 && b === 168) || (a === 192 && b === 0 && c === 0) || (a === 100 && b >= 64 && b <= 127)
+        || (a === 198 && (b === 18 || b === 19)) || a >= 224;
+};
+
+// Host names that are this server or its private network by name alone. Other names are checked once
+// resolved, by `publicOnlyLookup`.
+const isPrivateHost = (hostname: string): boolean => {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+    return isIP(host) !== 0 && isPrivateAddress(host);
+};
+
+/**
+ * Resolves a host name and refuses it if any of its addresses is private. The request uses it as its
+ * `lookup`, so the socket connects to an address that was checked; a second lookup can't swap in another.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+        if (error) {
+            callback(error, '', 0);
+            return;
+        }
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            callback(new CalendarImportError('Only public https:// or webcal:// calendar URLs can be imported.'), '', 0);
+            return;
+        }
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * Accepts https and webcal URLs (webcal is https for calendar apps) on public hosts.
+ * @returns The URL to fetch, or null if it isn't allowed.
+ */
+export const normalizeCalendarUrl = (calendarUrl: string): string | null => {
+    try {
+        const url = new URL(calendarUrl.trim().replace(/^webcals?:/i, 'https:'));
+        if (url.protocol !== 'https:' || url.username || url.password || isPrivateHost(url.hostname)) return null;
+        return url.toString();
+    } catch {
+        return null;
+    }
+};
+
+interface CalendarResponse {
+    status: number;
+    location: string | null;
+    body: string;
+}
+
+/**
+ * Makes a single GET request, without following redirects, and reads at most MAX_CALENDAR_BYTES of the body.
+ */
+const getOnce = (url: string): Promise<CalendarResponse> => new Promise((resolve, reject) => {
+    const req = request(url, {
+        headers: { 'Accept': 'text/calendar, */*;q=0.5' },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }, response => {
+        const status = response.statusCode ?? 0;
+        if (status < 200 || status >= 300) {
+            response.resume();
+            resolve({ status, location: response.headers.location ?? null, body: '' });
+            return;
+        }
+        if (Number(response.headers['content-length']) > MAX_CALENDAR_BYTES) {
+            req.destroy(new CalendarImportError('The calendar is too large to import.'));
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_CALENDAR_BYTES) {
+                req.destroy(new CalendarImportError('The calendar is too large to import.'));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        response.on('end', () => resolve({ status, location: null, body: Buffer.concat(chunks).toString('utf-8') }));
+        response.on('error', reject);
+    });
+    req.on('error', error => {
+        if (error instanceof CalendarImportError) {
+            reject(error);
+        } else {
+            console.warn('Calendar download failed:', error);
+            reject(new CalendarImportError(error.name === 'AbortError' ? 'The calendar server took too long to respond.' : 'Could not reach the calendar server.'));
+        }
+    });
+    req.end();
+});
+
+/**
+ * Downloads an iCalendar file.
+ * @returns The file's text. Parsing happens in the app, which also handles uploaded files.
+ * @throws CalendarImportError if the URL isn't allowed or doesn't serve a calendar.
+ */
+export const fetchCalendarFile = async (calendarUrl: string): Promise<string> => {
+    let url = normalizeCalendarUrl(calendarUrl);
+    for (let redirects = 0; url; redirects++) {
+        const response = await getOnce(url);
+        if (response.status >= 300 && response.status < 400) {
+            if (!response.location || redirects >= MAX_REDIRECTS) throw new CalendarImportError('The calendar URL redirects too many times.');
+            url = normalizeCalendarUrl(new URL(response.location, url).toString());
+            continue;
+        }
+        if (response.status < 200 || response.status >= 300) {
+            throw new CalendarImportError(`The calendar server responded with status ${response.status}.`);
+        }
+        if (!response.body.trimStart().startsWith('BEGIN:VCALENDAR')) {
+            throw new CalendarImportError("That URL doesn't point to an iCalendar (.ics) file.");
+        }
+        return response.body;
+    }
+    throw new CalendarImportError('Only public https:// or webcal:// calendar URLs can be imported.');
+};
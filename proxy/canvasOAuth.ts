@@ -0,0 +1,260 @@
+// Canvas sign-in with OAuth2 (the authorization code flow), for schools that don't let students create
+// personal access tokens. The proxy starts the flow for a signed-in user, Canvas redirects the browser to
+// /api/canvas-oauth/callback, and the callback hands the resulting tokens back to the app in an encrypted
+// form that only the same user can redeem. The tokens end up in the token vault like a pasted token.
+
+import type { CanvasProxyResponse } from './canvasProxyHandler';
+import { VaultConfig, StoredCanvasCredentials, sealJson, openJson } from './tokenVault';
+
+export interface CanvasOAuthConfig {
+    // From the Canvas developer key an admin creates for this app.
+    clientId: string;
+    clientSecret: string;
+    // This deployment's /api/canvas-oauth/callback URL. Must match the developer key's redirect URI.
+    redirectUri: string;
+    // The Canvas origins the developer key belongs to. The client secret is only ever sent to these, so
+    // a client can't point the token request at a host it controls.
+    allowedCanvasOrigins: string[];
+    // Where the OAuth endpoints live, when not on the user's Canvas URL. Point this at a local stub
+    // server to try the flow without a Canvas developer key.
+    endpointBaseUrl?: string;
+}
+
+// Env vars: CANVAS_OAUTH_CLIENT_ID, CANVAS_OAUTH_CLIENT_SECRET, CANVAS_OAUTH_REDIRECT_URI,
+// CANVAS_OAUTH_ALLOWED_ORIGINS (comma-separated) and optionally CANVAS_OAUTH_ENDPOINT_BASE_URL.
+type Env = Record<string, string | undefined>;
+
+/**
+ * Reads the Canvas sign-in configuration from environment variables.
+ * @returns The configuration, or null when Canvas sign-in isn't set up on this deployment.
+ * @throws Error if the allowed Canvas origins are missing or aren't valid http(s) URLs.
+ */
+export const getCanvasOAuthConfigFromEnv = (env: Env = process.env): CanvasOAuthConfig | null => {
+    const { CANVAS_OAUTH_CLIENT_ID, CANVAS_OAUTH_CLIENT_SECRET, CANVAS_OAUTH_REDIRECT_URI } = env;
+    if (!CANVAS_OAUTH_CLIENT_ID || !CANVAS_OAUTH_CLIENT_SECRET || !CANVAS_OAUTH_REDIRECT_URI) return null;
+
+    const allowedCanvasOrigins = (env.CANVAS_OAUTH_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean).map(origin => {
+        const url = new URL(origin);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new Error(`CANVAS_OAUTH_ALLOWED_ORIGINS has an invalid origin: ${origin}`);
+        }
+        return url.origin;
+    });
+    if (allowedCanvasOrigins.length === 0) {
+        throw new Error('CANVAS_OAUTH_ALLOWED_ORIGINS must list the Canvas URLs the developer key belongs to.');
+    }
+    return {
+        clientId: CANVAS_OAUTH_CLIENT_ID,
+        clientSecret: CANVAS_OAUTH_CLIENT_SECRET,
+        redirectUri: CANVAS_OAUTH_REDIRECT_URI,
+        allowedCanvasOrigins,
+        endpointBaseUrl: env.CANVAS_OAUTH_ENDPOINT_BASE_URL?.replace(/\/$/, '') || undefined,
+    };
+};
+
+export class CanvasOAuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CanvasOAuthError';
+    }
+}
+
+// How long a student has to finish signing in on Canvas, and then for the app to redeem the result.
+const STATE_TTL_MS = 10 * 60 * 1000;
+const RESULT_TTL_MS = 5 * 60 * 1000;
+
+// Access tokens are renewed this long before Canvas says they expire.
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const STATE_PURPOSE = 'canvas-oauth-state';
+const getResultPurpose = (uid: string) => `canvas-oauth-result:${uid}`;
+
+interface OAuthState {
+    uid: string;
+    connectionId: string;
+    canvasUrl: string;
+    expiresAt: number;
+}
+
+interface OAuthResult {
+    connectionId: string;
+    credentials: StoredCanvasCredentials;
+    expiresAt: number;
+}
+
+// Canvas's token endpoint response, or its OAuth error body. Every field is checked before use.
+interface CanvasTokenResponse {
+    access_token?: unknown;
+    refresh_token?: unknown;
+    expires_in?: unknown;
+    error?: unknown;
+    error_description?: unknown;
+}
+
+/**
+ * Looks up a Canvas URL in the configured origins.
+ * @returns The configured origin (never the given string), or null if the URL isn't on an allowed origin.
+ */
+export const getAllowedCanvasOrigin = (config: CanvasOAuthConfig, canvasUrl: string): string | null => {
+    let origin: string;
+    try {
+        origin = new URL(canvasUrl).origin;
+    } catch {
+        return null;
+    }
+    return config.allowedCanvasOrigins.find(allowed => allowed === origin) ?? null;
+};
+
+/**
+ * Builds an OAuth endpoint URL from server configuration only.
+ * @throws CanvasOAuthError if the Canvas URL isn't one of the allowed origins.
+ */
+const getOAuthUrl = (config: CanvasOAuthConfig, canvasUrl: string, path: string) => {
+    const origin = getAllowedCanvasOrigin(config, canvasUrl);
+    if (!origin) {
+        throw new CanvasOAuthError('Canvas sign-in is not available for this Canvas URL.');
+    }
+    return `${config.endpointBaseUrl || origin}${path}`;
+};
+
+/**
+ * Builds the Canvas authorization URL to send the user to. The `state` parameter carries the user and
+ * Canvas URL, encrypted, so the callback can trust them without any server-side session storage.
+ */
+export const createAuthorizationUrl = (config: CanvasOAuthConfig, vault: VaultConfig, uid: string, connectionId: string, canvasUrl: string): string => {
+    const state: OAuthState = { uid, connectionId, canvasUrl, expiresAt: Date.now() + STATE_TTL_MS };
+    const url = new URL(getOAuthUrl(config, canvasUrl, '/login/oauth2/auth'));
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('redirect_uri', config.redirectUri);
+    url.searchParams.set('state', sealJson(state, STATE_PURPOSE, vault.encryptionKey));
+    return url.toString();
+};
+
+const requestToken = async (config: CanvasOAuthConfig, canvasUrl: string, params: Record<string, string>, previousRefreshToken?: string): Promise<StoredCanvasCredentials> => {
+    const response = await fetch(getOAuthUrl(config, canvasUrl, '/login/oauth2/token'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ client_id: config.clientId, client_secret: config.clientSecret, ...params }),
+    });
+    const data = await response.json().catch(() => null) as CanvasTokenResponse | null;
+    if (!response.ok || typeof data?.access_token !== 'string' || !data.access_token) {
+        const reason = [data?.error_description, data?.error].find(value => typeof value === 'string' && value);
+        throw new CanvasOAuthError(`Canvas sign-in failed: ${reason || `status ${response.status}`}`);
+    }
+    return {
+        canvasUrl,
+        accessToken: data.access_token,
+        // Canvas only sends a refresh token with the first grant; refreshing keeps the original.
+        refreshToken: typeof data.refresh_token === 'string' && data.refresh_token ? data.refresh_token : previousRefreshToken,
+        expiresAt: typeof data.expires_in === 'number' ? Date.now() + data.expires_in * 1000 : undefined,
+    };
+};
+
+export const needsRefresh = (credentials: StoredCanvasCredentials): boolean =>
+    !!credentials.refreshToken && !!credentials.expiresAt && credentials.expiresAt - REFRESH_MARGIN_MS < Date.now();
+
+/**
+ * Exchanges the refresh token for a new access token.
+ * @throws CanvasOAuthError if Canvas refuses, e.g. because the student revoked access.
+ */
+export const refreshCanvasCredentials = async (config: CanvasOAuthConfig, credentials: StoredCanvasCredentials): Promise<StoredCanvasCredentials> => {
+    if (!credentials.refreshToken) throw new CanvasOAuthError('This Canvas connection cannot be refreshed.');
+    return requestToken(config, credentials.canvasUrl, { grant_type: 'refresh_token', refresh_token: credentials.refreshToken }, credentials.refreshToken);
+};
+
+/**
+ * Asks Canvas to revoke the access token and, with it, the refresh token.
+ */
+export const revokeCanvasCredentials = async (config: CanvasOAuthConfig, credentials: StoredCanvasCredentials): Promise<void> => {
+    const response = await fetch(getOAuthUrl(config, credentials.canvasUrl, '/login/oauth2/token'), {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${credentials.accessToken}` },
+    });
+    if (!response.ok) {
+        throw new CanvasOAuthError(`Canvas did not revoke the token (status ${response.status}).`);
+    }
+};
+
+/**
+ * Redeems the encrypted result the callback handed to the app.
+ * @throws CanvasOAuthError if the result is for another user, has been tampered with, or has expired.
+ */
+export const openOAuthResult = (vault: VaultConfig, uid: string, sealedResult: string): { connectionId: string; credentials: StoredCanvasCredentials } => {
+    let result: OAuthResult;
+    try {
+        result = openJson<OAuthResult>(sealedResult, getResultPurpose(uid), vault.encryptionKey);
+    } catch {
+        throw new CanvasOAuthError('This Canvas sign-in result is not valid for your account.');
+    }
+    if (result.expiresAt < Date.now()) {
+        throw new CanvasOAuthError('Canvas sign-in took too long. Please try again.');
+    }
+    return { connectionId: result.connectionId, credentials: result.credentials };
+};
+
+export interface CanvasOAuthCallbackRequest {
+    // The request URL, or at least its path and query string.
+    url: string;
+}
+
+export interface CanvasOAuthCallbackOptions {
+    vault?: VaultConfig | null;
+    oauth?: CanvasOAuthConfig | null;
+}
+
+/**
+ * Handles Canvas's redirect after the student approves (or denies) access, then redirects back to the app
+ * with either `#canvasOAuth=<encrypted result>` or `#canvasOAuthError=<message>`. The fragment keeps the
+ * result out of server logs and `Referer` headers.
+ * Never throws.
+ */
+export const handleCanvasOAuthCallback = async (request: CanvasOAuthCallbackRequest, options: CanvasOAuthCallbackOptions): Promise<CanvasProxyResponse> => {
+    const { vault, oauth } = options;
+    if (!vault || !oauth) {
+        return {
+            status: 501,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ error: 'Canvas sign-in is not configured on this deployment.' }),
+        };
+    }
+
+    const appUrl = new URL('/', oauth.redirectUri).toString();
+    const redirect = (fragment: string): CanvasProxyResponse => ({
+        status: 302,
+        headers: { 'Location': `${appUrl}#${fragment}`, 'Cache-Control': 'no-store' },
+        body: '',
+    });
+    const redirectWithError = (message: string) => redirect(`canvasOAuthError=${encodeURIComponent(message)}`);
+
+    try {
+        const params = new URL(request.url, appUrl).searchParams;
+        if (params.get('error')) {
+            return redirectWithError(params.get('error') === 'access_denied'
+                ? 'Canvas sign-in was cancelled.'
+                : `Canvas sign-in failed: ${params.get('error_description') || params.get('error')}`);
+        }
+
+        const code = params.get('code');
+        let state: OAuthState;
+        try {
+            state = openJson<OAuthState>(params.get('state') || '', STATE_PURPOSE, vault.encryptionKey);
+        } catch {
+            return redirectWithError('Canvas sign-in could not be verified. Please try again.');
+        }
+        if (!code || state.expiresAt < Date.now()) {
+            return redirectWithError('Canvas sign-in took too long. Please try again.');
+        }
+
+        const credentials = await requestToken(oauth, state.canvasUrl, {
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: oauth.redirectUri,
+        });
+        const result: OAuthResult = { connectionId: state.connectionId, credentials, expiresAt: Date.now() + RESULT_TTL_MS };
+        return redirect(`canvasOAuth=${sealJson(result, getResultPurpose(state.uid), vault.encryptionKey)}`);
+    } catch (error) {
+        console.error('Canvas OAuth callback error:', error);
+        return redirectWithError(error instanceof CanvasOAuthError ? error.message : 'Canvas sign-in failed. Please try again.');
+    }
+};
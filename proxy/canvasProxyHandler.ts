@@ -0,0 +1,385 @@
+// The Canvas proxy, independent of any web framework. Each deployment target (Vercel, Netlify, the
+// Vite dev server and the self-hosted Express server) has a thin adapter that converts its own
+// request/response objects to and from the plain shapes below. Reads from the other supported LMSes
+// (see `proxy/lmsProviders.ts`) go through the same proxy.
+
+import { ProxyMethod, isAllowedProxyRequest, parseProxyMethod } from './writeAllowlist';
+import { LmsProvider, LMS_PROVIDER_LABELS, isLmsProvider, isAllowedLmsRequest, buildLmsRequest, getMoodleError } from './lmsProviders';
+import { getBearerToken, verifyFirebaseIdToken, SessionAuthError, SessionUser } from './sessionAuth';
+import { VaultConfig, StoredCanvasCredentials, storeCanvasCredentials, getCanvasCredentials, deleteCanvasCredentials, isValidConnectionId } from './tokenVault';
+import { CanvasOAuthConfig, CanvasOAuthError, getAllowedCanvasOrigin, createAuthorizationUrl, openOAuthResult, needsRefresh, refreshCanvasCredentials, revokeCanvasCredentials } from './canvasOAuth';
+import type { CalendarFeedConfig } from './calendarFeed';
+import { CalendarImportError, fetchCalendarFile } from './calendarImport';
+
+// The largest JSON body the servers that host the proxy should parse. Text submissions and discussion replies
+// are sent through it, so this is more than express's 100kb default.
+export const MAX_PROXY_BODY_SIZE = '2mb';
+
+export interface CanvasProxyRequest {
+    // The HTTP method the client used to call the proxy (not the method forwarded to Canvas).
+    method: string;
+    // The parsed JSON body, or the raw string when the platform doesn't parse it.
+    body: unknown;
+    // The `Origin` header, used for CORS when `allowedOrigins` is configured.
+    origin?: string;
+    // The `Authorization` header. A Firebase ID token here lets the proxy use the caller's vaulted Canvas token.
+    authorization?: string;
+}
+
+export interface CanvasProxyResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface CanvasProxyOptions {
+    // Origins allowed to call the proxy cross-origin. Omit when the proxy is only served same-origin.
+    allowedOrigins?: string[];
+    // Enables the server-side token vault. See `getVaultConfigFromEnv` in `proxy/tokenVault.ts`.
+    vault?: VaultConfig | null;
+    // Enables Canvas sign-in. See `getCanvasOAuthConfigFromEnv` in `proxy/canvasOAuth.ts`.
+    oauth?: CanvasOAuthConfig | null;
+    // Enables importing calendars by URL for signed-in users. See `getCalendarFeedConfigFromEnv` in `proxy/calendarFeed.ts`.
+    calendars?: CalendarFeedConfig | null;
+}
+
+type VaultAction = 'storeToken' | 'deleteToken' | 'startOAuth' | 'completeOAuth';
+
+interface CanvasProxyBody {
+    // Vault management instead of a Canvas request: save or remove the caller's Canvas token,
+    // or start and finish Canvas sign-in. `fetchCalendar` downloads a calendar to import instead.
+    action?: VaultAction | 'fetchCalendar';
+    // The encrypted sign-in result for `completeOAuth`.
+    result?: string;
+    // The calendar to download for `fetchCalendar`.
+    url?: string;
+    canvasUrl?: string;
+    // Which of the user's Canvas connections a vaulted token belongs to.
+    connectionId?: string;
+    // The LMS the connection is on. Defaults to Canvas.
+    provider?: string;
+    endpoint?: string;
+    // A raw Canvas token. Only needed by clients that don't use the vault, such as the browser extension.
+    token?: string;
+    method?: string;
+    body?: unknown;
+}
+
+// Canvas response headers the client needs: pagination links and the rate-limit budget.
+const PASSTHROUGH_HEADERS = ['Link', 'X-Rate-Limit-Remaining'];
+
+const getCorsHeaders = (origin: string | undefined, allowedOrigins: string[]): Record<string, string> => {
+    const headers: Record<string, string> = {
+        'Access-Control-Allow-Credentials': 'true',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'X-CSRF-Token, X-Requested-With, Accept, Content-Type, Authorization',
+        // Expose Canvas's pagination header so the client can follow `rel="next"` links,
+        // and its throttling header so background sync can slow down before Canvas starts refusing requests.
+        'Access-Control-Expose-Headers': PASSTHROUGH_HEADERS.join(', '),
+    };
+    if (origin && allowedOrigins.includes(origin)) {
+        headers['Access-Control-Allow-Origin'] = origin;
+    }
+    return headers;
+};
+
+const jsonResponse = (status: number, data: unknown, headers: Record<string, string> = {}): CanvasProxyResponse => ({
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+});
+
+const parseBody = (body: unknown): CanvasProxyBody => {
+    if (typeof body === 'string') {
+        try {
+            return JSON.parse(body);
+        } catch {
+            return {};
+        }
+    }
+    return (body as CanvasProxyBody | null) || {};
+};
+
+class NotConfiguredError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NotConfiguredError';
+    }
+}
+
+const requireVault = (vault: VaultConfig | null | undefined): VaultConfig => {
+    if (!vault) throw new NotConfiguredError('Server-side token storage is not configured on this deployment.');
+    return vault;
+};
+
+const requireOAuth = (oauth: CanvasOAuthConfig | null | undefined): CanvasOAuthConfig => {
+    if (!oauth) throw new NotConfiguredError('Canvas sign-in is not configured on this deployment.');
+    return oauth;
+};
+
+const authenticate = async (request: CanvasProxyRequest, vault: VaultConfig): Promise<{ user: SessionUser; idToken: string }> => {
+    const idToken = getBearerToken(request.authorization);
+    if (!idToken) throw new SessionAuthError('Sign in to use your stored Canvas connection.');
+    return { user: await verifyFirebaseIdToken(idToken, vault.projectId), idToken };
+};
+
+/**
+ * Accepts only absolute http(s) URLs and reduces them to the form the proxy builds API URLs from: the origin,
+ * or for Moodle the site URL, which may include the path the site is installed under.
+ */
+const normalizeCanvasUrl = (canvasUrl: string, provider?: LmsProvider): string | null => {
+    try {
+        const url = new URL(canvasUrl);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+        return provider === 'moodle' ? url.origin + url.pathname.replace(/\/+$/, '') : url.origin;
+    } catch {
+        return null;
+    }
+};
+
+const handleVaultAction = async (
+    action: VaultAction,
+    request: CanvasProxyRequest,
+    options: CanvasProxyOptions,
+    corsHeaders: Record<string, string>,
+    { canvasUrl, connectionId, token, result, provider }: CanvasProxyBody
+): Promise<CanvasProxyResponse> => {
+    const vault = requireVault(options.vault);
+    const { user, idToken } = await authenticate(request, vault);
+    const normalizedUrl = canvasUrl ? normalizeCanvasUrl(canvasUrl, isLmsProvider(provider) ? provider : undefined) : null;
+
+    if (action === 'completeOAuth') {
+        if (!result) {
+            return jsonResponse(400, { error: 'Missing required field: result' }, corsHeaders);
+        }
+        const signIn = openOAuthResult(vault, user.uid, result);
+        await storeCanvasCredentials(vault, user.uid, idToken, signIn.connectionId, signIn.credentials);
+        return jsonResponse(200, { stored: true, connectionId: signIn.connectionId, canvasUrl: signIn.credentials.canvasUrl }, corsHeaders);
+    }
+
+    if (!isValidConnectionId(connectionId)) {
+        return jsonResponse(400, { error: 'Missing or invalid field: connectionId' }, corsHeaders);
+    }
+
+    switch (action) {
+        case 'deleteToken': {
+            // Tokens from Canvas sign-in are revoked too, so they stop working even if a copy leaked.
+            const stored = await getCanvasCredentials(vault, user.uid, idToken, connectionId);
+            if (stored?.refreshToken && options.oauth) {
+                await revokeCanvasCredentials(options.oauth, stored).catch(error => console.warn('Could not revoke Canvas token:', error));
+            }
+            await deleteCanvasCredentials(vault, user.uid, idToken, connectionId);
+            return jsonResponse(200, { stored: false }, corsHeaders);
+        }
+        case 'storeToken':
+            if (!normalizedUrl || !token) {
+                return jsonResponse(400, { error: 'Missing required fields: canvasUrl or token' }, corsHeaders);
+            }
+            await storeCanvasCredentials(vault, user.uid, idToken, connectionId, {
+                canvasUrl: normalizedUrl,
+                accessToken: token,
+                ...(isLmsProvider(provider) && provider !== 'canvas' ? { provider } : {}),
+            });
+            return jsonResponse(200, { stored: true }, corsHeaders);
+        case 'startOAuth': {
+            const oauth = requireOAuth(options.oauth);
+            if (!normalizedUrl) {
+                return jsonResponse(400, { error: 'Missing required field: canvasUrl' }, corsHeaders);
+            }
+            // Only Canvas instances the developer key belongs to; the token request carries the client secret.
+            const canvasOrigin = getAllowedCanvasOrigin(oauth, normalizedUrl);
+            if (!canvasOrigin) {
+                return jsonResponse(400, { error: 'Canvas sign-in is not available for this Canvas URL. Use an access token instead.' }, corsHeaders);
+            }
+            return jsonResponse(200, { authorizeUrl: createAuthorizationUrl(oauth, vault, user.uid, connectionId, canvasOrigin) }, corsHeaders);
+        }
+        default:
+            return jsonResponse(400, { error: `Unknown action: ${action}` }, corsHeaders);
+    }
+};
+
+/**
+ * Downloads an external calendar for the signed-in user, who imports it into the app's calendar.
+ */
+const handleFetchCalendar = async (request: CanvasProxyRequest, options: CanvasProxyOptions, corsHeaders: Record<string, string>, url: string | undefined): Promise<CanvasProxyResponse> => {
+    if (!options.calendars) throw new NotConfiguredError('Importing calendars by URL is not configured on this deployment.');
+    const idToken = getBearerToken(request.authorization);
+    if (!idToken) throw new SessionAuthError('Sign in to import a calendar.');
+    await verifyFirebaseIdToken(idToken, options.calendars.projectId);
+    if (!url) {
+        return jsonResponse(400, { error: 'Missing required field: url' }, corsHeaders);
+    }
+    return jsonResponse(200, { calendar: await fetchCalendarFile(url) }, corsHeaders);
+};
+
+/**
+ * Renews an expired Canvas sign-in token and saves the new one. Tokens that can't be renewed are returned unchanged.
+ */
+const refreshStoredCredentials = async (
+    credentials: StoredCanvasCredentials,
+    connectionId: string,
+    options: CanvasProxyOptions,
+    session: { user: SessionUser; idToken: string }
+): Promise<StoredCanvasCredentials> => {
+    if (!credentials.refreshToken || !options.oauth || !options.vault) return credentials;
+    const refreshed = await refreshCanvasCredentials(options.oauth, credentials);
+    await storeCanvasCredentials(options.vault, session.user.uid, session.idToken, connectionId, refreshed);
+    return refreshed;
+};
+
+/**
+ * Builds the request to the LMS. Canvas requests carry the method and body the client asked for;
+ * the other providers only receive reads.
+ */
+const buildUpstreamRequest = (provider: LmsProvider, baseUrl: string, endpoint: string, accessToken: string, method: ProxyMethod, body: unknown): [string, RequestInit] => {
+    if (provider !== 'canvas') {
+        const { url, headers } = buildLmsRequest(provider, baseUrl, endpoint, accessToken);
+        return [url, { method: 'GET', headers }];
+    }
+    return [`${baseUrl}/api/v1/${endpoint}`, {
+        method,
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        },
+        // Only writes carry a body; fetch refuses one on a GET.
+        body: method === 'POST' && body !== undefined ? JSON.stringify(body) : undefined,
+    }];
+};
+
+/**
+ * Reads the message out of an LMS's JSON error body: Canvas sends `{ errors: [{ message }] }`,
+ * Google sends `{ error: { message } }`.
+ */
+const getErrorMessage = (responseBody: string): string => {
+    try {
+        const errorJson = JSON.parse(responseBody);
+        return errorJson?.errors?.[0]?.message || errorJson?.error?.message || responseBody;
+    } catch (e) {
+        return responseBody;
+    }
+};
+
+/**
+ * Validates a proxy request, forwards it to the LMS API and shapes the response for the client.
+ * Canvas reads are always forwarded; Canvas writes must match the allowlist in `proxy/writeAllowlist.ts`,
+ * and other LMSes only get the reads allowed in `proxy/lmsProviders.ts`.
+ * The LMS token comes from the request body, or from the vault for a signed-in caller.
+ * Never throws: failures are returned as JSON `{ error }` responses.
+ */
+export const handleCanvasProxyRequest = async (request: CanvasProxyRequest, options: CanvasProxyOptions = {}): Promise<CanvasProxyResponse> => {
+    const corsHeaders = options.allowedOrigins ? getCorsHeaders(request.origin, options.allowedOrigins) : {};
+
+    // Handle preflight (OPTIONS) requests
+    if (request.method === 'OPTIONS') {
+        return { status: 200, headers: corsHeaders, body: '' };
+    }
+
+    if (request.method !== 'POST') {
+        return jsonResponse(405, { error: 'Method Not Allowed' }, { ...corsHeaders, 'Allow': 'POST' });
+    }
+
+    try {
+        const parsedBody = parseBody(request.body);
+        const { action, canvasUrl, connectionId, endpoint, token, body } = parsedBody;
+        const provider: LmsProvider = isLmsProvider(parsedBody.provider) ? parsedBody.provider : 'canvas';
+        const label = LMS_PROVIDER_LABELS[provider];
+
+        if (action === 'fetchCalendar') {
+            return await handleFetchCalendar(request, options, corsHeaders, parsedBody.url);
+        }
+
+        if (action) {
+            return await handleVaultAction(action, request, options, corsHeaders, parsedBody);
+        }
+
+        if (typeof endpoint !== 'string' || !endpoint || (token ? !canvasUrl : !isValidConnectionId(connectionId))) {
+            return jsonResponse(400, { error: 'Missing required fields: canvasUrl, endpoint, or token' }, corsHeaders);
+        }
+
+        const method = parseProxyMethod(parsedBody.method ?? 'GET');
+        if (!method) {
+            return jsonResponse(400, { error: 'Unsupported method: use GET or POST.' }, corsHeaders);
+        }
+        if (method === 'GET' && body !== undefined) {
+            return jsonResponse(400, { error: 'GET requests cannot have a body.' }, corsHeaders);
+        }
+
+        if (provider === 'canvas' ? !isAllowedProxyRequest(method, endpoint) : !isAllowedLmsRequest(provider, method, endpoint)) {
+            return jsonResponse(403, { error: `The proxy does not allow ${method} requests to this ${label} endpoint.` }, corsHeaders);
+        }
+
+        // Without a raw token, the caller must have a session and a token in the vault. The vaulted Canvas URL
+        // is used rather than the one in the request, so the token is only ever sent to the host it belongs to.
+        let credentials: StoredCanvasCredentials;
+        let session: { user: SessionUser; idToken: string } | null = null;
+        if (token) {
+            credentials = { canvasUrl: canvasUrl!, accessToken: token };
+        } else {
+            const vault = requireVault(options.vault);
+            session = await authenticate(request, vault);
+            const stored = await getCanvasCredentials(vault, session.user.uid, session.idToken, connectionId!);
+            if (!stored) {
+                return jsonResponse(401, { error: `No ${label} token is stored for your account. Please reconnect ${label}.` }, corsHeaders);
+            }
+            // A token is only ever sent to the kind of LMS it was stored for.
+            if ((stored.provider ?? 'canvas') !== provider) {
+                return jsonResponse(400, { error: `This connection is not a ${label} connection.` }, corsHeaders);
+            }
+            credentials = needsRefresh(stored) ? await refreshStoredCredentials(stored, connectionId!, options, session) : stored;
+        }
+
+        const sendToCanvas = (accessToken: string) => fetch(...buildUpstreamRequest(provider, credentials.canvasUrl, endpoint, accessToken, method, body));
+
+        let canvasResponse = await sendToCanvas(credentials.accessToken);
+        // Canvas can invalidate a sign-in token before its stated expiry; renew it once and retry.
+        if (canvasResponse.status === 401 && session && credentials.refreshToken) {
+            credentials = await refreshStoredCredentials(credentials, connectionId!, options, session);
+            canvasResponse = await sendToCanvas(credentials.accessToken);
+        }
+
+        const responseBody = await canvasResponse.text();
+        const contentType = canvasResponse.headers.get('Content-Type') || 'application/json';
+
+        // Pass through Canvas's status code and headers for content type, pagination and rate limiting
+        const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': contentType };
+        PASSTHROUGH_HEADERS.forEach(name => {
+            const value = canvasResponse.headers.get(name);
+            if (value) headers[name] = value;
+        });
+
+        if (!canvasResponse.ok) {
+            // If the error response is HTML (like a 404 page), send back a readable message instead.
+            if (contentType.includes('text/html')) {
+                return jsonResponse(canvasResponse.status, { error: `${label} API Error: Received an HTML error page instead of data. Please check your ${label} URL.` }, headers);
+            }
+            // Attempt to parse a JSON error from the LMS, falling back to the raw text
+            return jsonResponse(canvasResponse.status, { error: `${label} API Error: ${getErrorMessage(responseBody)}` }, headers);
+        }
+
+        const moodleError = provider === 'moodle' ? getMoodleError(responseBody) : null;
+        if (moodleError) {
+            return jsonResponse(moodleError.status, { error: `${label} API Error: ${moodleError.message}` }, headers);
+        }
+
+        // Success: send the raw response body from the LMS.
+        return { status: canvasResponse.status, headers, body: responseBody };
+    } catch (error) {
+        if (error instanceof SessionAuthError) {
+            return jsonResponse(401, { error: error.message }, corsHeaders);
+        }
+        if (error instanceof CanvasOAuthError) {
+            return jsonResponse(401, { error: error.message }, corsHeaders);
+        }
+        if (error instanceof CalendarImportError) {
+            return jsonResponse(400, { error: error.message }, corsHeaders);
+        }
+        if (error instanceof NotConfiguredError) {
+            return jsonResponse(501, { error: error.message }, corsHeaders);
+        }
+        console.error('Proxy internal error:', error);
+        return jsonResponse(500, {
+            error: error instanceof Error ? error.message : 'An internal server error occurred in the proxy.'
+        }, corsHeaders);
+    }
+};
@@ -0,0 +1,112 @@
+// iCalendar (RFC 5545) output, shared by the app's .ics download and the proxy's calendar subscription feed.
+
+export interface ICalendarEvent {
+    // Stable across exports, so calendar apps update an entry instead of duplicating it.
+    uid: string;
+    summary: string;
+    // An ISO timestamp, or a `YYYY-MM-DD` date for all-day entries.
+    start: string;
+    end?: string | null;
+    allDay?: boolean;
+    description?: string | null;
+    location?: string | null;
+    url?: string | null;
+    categories?: string[];
+}
+
+export interface ICalendarOptions {
+    // Shown as the calendar's name when subscribing.
+    name: string;
+    // How often subscribers should refresh, in minutes.
+    refreshIntervalMinutes?: number;
+    now?: Date;
+}
+
+const PRODUCT_ID = '-//Student Platform//Canvas Calendar//EN';
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space.
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string): string => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+// URI values aren't escaped, so control characters (which could end the line early) are dropped instead.
+const formatUri = (value: string): string => value.replace(/[\x00-\x1f\x7f]/g, '');
+
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+    // Iterating by code point keeps multi-byte characters whole.
+    for (const char of line) {
+        const octets = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space.
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+        current += char;
+        currentOctets += octets;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const formatDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: string): string => date.slice(0, 10).replace(/-/g, '');
+
+// The day after a `YYYY-MM-DD` date; all-day entries end exclusively on the following day.
+const nextDay = (date: string): string => {
+    const next = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10);
+};
+
+const formatEvent = (event: ICalendarEvent, stamp: string): string[] => {
+    const lines = ['BEGIN:VEVENT', `UID:${escapeText(event.uid)}`, `DTSTAMP:${stamp}`];
+    if (event.allDay) {
+        lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`);
+        lines.push(`DTEND;VALUE=DATE:${formatDate(event.end && event.end > event.start ? event.end : nextDay(event.start))}`);
+    } else {
+        lines.push(`DTSTART:${formatDateTime(new Date(event.start))}`);
+        if (event.end) lines.push(`DTEND:${formatDateTime(new Date(event.end))}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    // Most calendar apps don't show URL, so the link is repeated in the description.
+    const description = [event.description, event.url].filter(Boolean).join('\n\n');
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL;VALUE=URI:${formatUri(event.url)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+/**
+ * Renders events as an iCalendar file, with CRLF line endings and folded lines.
+ */
+export const generateICalendar = (events: ICalendarEvent[], { name, refreshIntervalMinutes = 60, now = new Date() }: ICalendarOptions): string => {
+    const stamp = formatDateTime(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshIntervalMinutes}M`,
+        `X-PUBLISHED-TTL:PT${refreshIntervalMinutes}M`,
+        ...events.flatMap(event => formatEvent(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,88 @@
+// The learning management systems the proxy can reach besides Canvas. Each has its own URL scheme and
+// error format, so this module turns a proxy request into the upstream request for its provider and reads
+// errors back out. Only reads are forwarded to these providers.
+
+export type LmsProvider = 'canvas' | 'moodle' | 'google_classroom';
+
+export const LMS_PROVIDERS: LmsProvider[] = ['canvas', 'moodle', 'google_classroom'];
+
+export const LMS_PROVIDER_LABELS: Record<LmsProvider, string> = {
+    canvas: 'Canvas',
+    moodle: 'Moodle',
+    google_classroom: 'Google Classroom',
+};
+
+export const isLmsProvider = (value: unknown): value is LmsProvider =>
+    typeof value === 'string' && (LMS_PROVIDERS as string[]).includes(value);
+
+// Moodle web service functions the app calls. Moodle exposes reads and writes the same way, so unlike
+// Canvas it can't allow every GET; anything not listed here is refused.
+const MOODLE_READ_FUNCTIONS = new Set([
+    'core_webservice_get_site_info',
+    'core_enrol_get_users_courses',
+    'mod_assign_get_assignments',
+    'mod_assign_get_submission_status',
+    'core_calendar_get_calendar_events',
+    'gradereport_overview_get_course_grades',
+]);
+
+// Classroom lists the app reads, as paths relative to `/v1/`. Matching whole paths, rather than looking
+// for `..`, also refuses encoded dot-segments such as `%2e%2e`, which URL parsing would resolve.
+const GOOGLE_CLASSROOM_READ_PATHS = [
+    /^courses$/,
+    /^courses\/\d+\/courseWork$/,
+    /^courses\/\d+\/courseWork\/-\/studentSubmissions$/,
+];
+
+// Classroom is always reached at Google's API host, whatever URL the connection was saved with.
+const GOOGLE_CLASSROOM_API_URL = 'https://classroom.googleapis.com/v1';
+
+/**
+ * Checks whether the proxy may forward a request to a provider other than Canvas
+ * (Canvas requests are checked by `isAllowedProxyRequest` in `proxy/writeAllowlist.ts`).
+ * @param endpoint For Moodle, the web service function name followed by its query string;
+ * for Google Classroom, the API path relative to `/v1/`.
+ */
+export const isAllowedLmsRequest = (provider: Exclude<LmsProvider, 'canvas'>, method: string, endpoint: string): boolean => {
+    if (method.toUpperCase() !== 'GET') return false;
+    if (provider === 'moodle') {
+        return MOODLE_READ_FUNCTIONS.has(endpoint.split('?')[0]);
+    }
+    const path = endpoint.split('?')[0];
+    return GOOGLE_CLASSROOM_READ_PATHS.some(pattern => pattern.test(path));
+};
+
+/**
+ * Builds the upstream URL and headers for a read from a provider other than Canvas.
+ * Moodle takes its token as a query parameter; Classroom takes a Google OAuth access token as a bearer token.
+ * @param baseUrl For Moodle, the site URL including any path the site is installed under.
+ */
+export const buildLmsRequest = (provider: Exclude<LmsProvider, 'canvas'>, baseUrl: string, endpoint: string, accessToken: string): { url: string; headers: Record<string, string> } => {
+    if (provider === 'moodle') {
+        const [wsfunction, query = ''] = endpoint.split('?');
+        const params = new URLSearchParams(query);
+        params.set('wstoken', accessToken);
+        params.set('wsfunction', wsfunction);
+        params.set('moodlewsrestformat', 'json');
+        return { url: `${baseUrl}/webservice/rest/server.php?${params}`, headers: { 'Accept': 'application/json' } };
+    }
+    return {
+        url: `${GOOGLE_CLASSROOM_API_URL}/${endpoint}`,
+        headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' },
+    };
+};
+
+/**
+ * Moodle answers failed web service calls with status 200 and an exception object in the body.
+ * @returns The status and message to report instead, or null if the body is not an error.
+ */
+export const getMoodleError = (responseBody: string): { status: number; message: string } | null => {
+    try {
+        const data = JSON.parse(responseBody);
+        if (!data || typeof data !== 'object' || !('exception' in data)) return null;
+        const unauthorized = data.errorcode === 'invalidtoken' || data.errorcode === 'accessexception';
+        return { status: unauthorized ? 401 : 400, message: data.message || data.errorcode || 'Unknown error' };
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,99 @@
+// Verifies the Firebase ID tokens the app sends as its session credential, so server-side code knows
+// which user is calling without trusting anything the browser claims about itself.
+// Implements the checks from Firebase's "verify ID tokens using a third-party JWT library" guide with
+// Node's built-in crypto, so the proxy doesn't need the Firebase Admin SDK.
+
+import { X509Certificate, createVerify } from 'crypto';
+
+const CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+// Tolerate small clock differences between this server and Google's.
+const CLOCK_SKEW_SECONDS = 300;
+
+export interface SessionUser {
+    uid: string;
+    email?: string;
+}
+
+export class SessionAuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SessionAuthError';
+    }
+}
+
+let cachedCerts: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+const getSigningCerts = async (): Promise<Record<string, string>> => {
+    if (cachedCerts && cachedCerts.expiresAt > Date.now()) return cachedCerts.certs;
+
+    const response = await fetch(CERTS_URL);
+    if (!response.ok) {
+        throw new Error(`Could not fetch Firebase signing certificates (${response.status}).`);
+    }
+    const certs = await response.json() as Record<string, string>;
+    // Google rotates these keys and says how long to cache them in Cache-Control.
+    const maxAge = Number(response.headers.get('Cache-Control')?.match(/max-age=(\d+)/)?.[1] ?? 3600);
+    cachedCerts = { certs, expiresAt: Date.now() + maxAge * 1000 };
+    return certs;
+};
+
+const decodeSegment = (segment: string): any => JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+
+/**
+ * Extracts the bearer token from an `Authorization` header value.
+ * @returns The token, or null if the header is missing or not a bearer credential.
+ */
+export const getBearerToken = (authorization: string | undefined): string | null => {
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+};
+
+/**
+ * Verifies a Firebase ID token's signature and claims for the given project.
+ * @throws SessionAuthError if the token is malformed, expired, or not issued for this project.
+ */
+export const verifyFirebaseIdToken = async (idToken: string, projectId: string): Promise<SessionUser> => {
+    const segments = idToken.split('.');
+    if (segments.length !== 3) throw new SessionAuthError('Malformed session token.');
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+    let header: any;
+    let payload: any;
+    try {
+        header = decodeSegment(encodedHeader);
+        payload = decodeSegment(encodedPayload);
+    } catch {
+        throw new SessionAuthError('Malformed session token.');
+    }
+
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+        throw new SessionAuthError('Unexpected session token algorithm.');
+    }
+
+    const certs = await getSigningCerts();
+    const cert = certs[header.kid];
+    if (!cert) throw new SessionAuthError('Session token was signed with an unknown key.');
+
+    const verifier = createVerify('RSA-SHA256');
+    verifier.update(`${encodedHeader}.${encodedPayload}`);
+    if (!verifier.verify(new X509Certificate(cert).publicKey, Buffer.from(encodedSignature, 'base64url'))) {
+        throw new SessionAuthError('Session token signature is invalid.');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+        throw new SessionAuthError('Session token was issued for a different project.');
+    }
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+        throw new SessionAuthError('Your session has expired. Please sign in again.');
+    }
+    if (typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SECONDS > now) {
+        throw new SessionAuthError('Session token was issued in the future.');
+    }
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+        throw new SessionAuthError('Session token has no user.');
+    }
+
+    return { uid: payload.sub, email: payload.email };
+};
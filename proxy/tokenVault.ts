@@ -0,0 +1,151 @@
+// Server-side storage for users' Canvas credentials, one set per Canvas connection. Credentials are
+// encrypted with AES-256-GCM using a key only the server holds, then saved in the user's own Firestore
+// documents through the Firestore REST API with the user's session token. The browser can see that a
+// credential exists but never read it.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { LmsProvider } from './lmsProviders';
+
+export interface VaultConfig {
+    // Firebase project the app's users sign in to; also where encrypted credentials are stored.
+    projectId: string;
+    // 32-byte AES key.
+    encryptionKey: Buffer;
+}
+
+// What the proxy needs to call Canvas for a user.
+export interface StoredCanvasCredentials {
+    // The LMS the token is for. Missing on credentials saved before other LMSes were supported, which are Canvas.
+    provider?: LmsProvider;
+    canvasUrl: string;
+    accessToken: string;
+    // Set for tokens from Canvas sign-in (OAuth2), which expire and are renewed with the refresh token.
+    // Personal access tokens have neither.
+    refreshToken?: string;
+    // Epoch milliseconds.
+    expiresAt?: number;
+}
+
+// Env vars: CANVAS_TOKEN_ENCRYPTION_KEY (base64, 32 bytes, e.g. from `openssl rand -base64 32`)
+// and FIREBASE_PROJECT_ID (falls back to the client's VITE_FIREBASE_PROJECT_ID).
+type Env = Record<string, string | undefined>;
+
+/**
+ * Reads the vault configuration from environment variables.
+ * @returns The configuration, or null when the vault isn't set up on this deployment.
+ * @throws Error if an encryption key is set but isn't a valid 32-byte key.
+ */
+export const getVaultConfigFromEnv = (env: Env = process.env): VaultConfig | null => {
+    const projectId = env.FIREBASE_PROJECT_ID || env.VITE_FIREBASE_PROJECT_ID;
+    const rawKey = env.CANVAS_TOKEN_ENCRYPTION_KEY;
+    if (!projectId || !rawKey) return null;
+
+    const encryptionKey = Buffer.from(rawKey, 'base64');
+    if (encryptionKey.length !== 32) {
+        throw new Error('CANVAS_TOKEN_ENCRYPTION_KEY must be 32 bytes, base64-encoded.');
+    }
+    return { projectId, encryptionKey };
+};
+
+const IV_BYTES = 12;
+
+/**
+ * Encrypts a JSON value into a URL-safe string. `associatedData` isn't stored, but the same value must be
+ * given to `openJson`, which ties the ciphertext to its purpose (and user).
+ */
+export const sealJson = (value: unknown, associatedData: string, key: Buffer): string => {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(associatedData, 'utf-8'));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+};
+
+/**
+ * @throws Error if the payload was tampered with or sealed with different associated data.
+ */
+export const openJson = <T>(payload: string, associatedData: string, key: Buffer): T => {
+    const [iv, authTag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!iv || !authTag || !ciphertext) throw new Error('Encrypted payload is corrupted.');
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(Buffer.from(associatedData, 'utf-8'));
+    decipher.setAuthTag(authTag);
+    return JSON.parse(Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8'));
+};
+
+// The connection the app creates from settings saved before it supported several. Its credentials keep
+// the document and associated data they had then, so tokens vaulted before the upgrade still work.
+const DEFAULT_CONNECTION_ID = 'default';
+
+// Connection IDs come from the client and become part of a document path.
+const CONNECTION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const isValidConnectionId = (connectionId: unknown): connectionId is string =>
+    typeof connectionId === 'string' && CONNECTION_ID_PATTERN.test(connectionId);
+
+const getAssociatedData = (uid: string, connectionId: string) =>
+    connectionId === DEFAULT_CONNECTION_ID ? uid : `${uid}/${connectionId}`;
+
+/**
+ * Encrypts credentials for one connection of one user. Both IDs are bound in as associated data,
+ * so a ciphertext copied into another document fails to decrypt.
+ */
+export const encryptCredentials = (credentials: StoredCanvasCredentials, uid: string, connectionId: string, key: Buffer): string =>
+    sealJson(credentials, getAssociatedData(uid, connectionId), key);
+
+export const decryptCredentials = (payload: string, uid: string, connectionId: string, key: Buffer): StoredCanvasCredentials =>
+    openJson<StoredCanvasCredentials>(payload, getAssociatedData(uid, connectionId), key);
+
+const getDocumentUrl = (projectId: string, uid: string, connectionId: string) => {
+    const documentId = connectionId === DEFAULT_CONNECTION_ID ? 'canvasCredentials' : `canvasCredentials-${connectionId}`;
+    return `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${encodeURIComponent(uid)}/data/${documentId}`;
+};
+
+// The part of a Firestore REST document the vault reads back.
+interface FirestoreCredentialsDocument {
+    fields?: {
+        ciphertext?: { stringValue?: string };
+    };
+}
+
+const firestoreRequest = async (url: string, idToken: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetch(url, {
+        ...init,
+        headers: { 'Authorization': `Bearer ${idToken}`, 'Content-Type': 'application/json' },
+    });
+    if (!response.ok && response.status !== 404) {
+        const errorText = await response.text();
+        throw new Error(`Token vault storage error (${response.status}): ${errorText.slice(0, 200)}`);
+    }
+    return response;
+};
+
+/**
+ * Encrypts and stores a user's Canvas credentials, replacing any existing ones.
+ * @param idToken The user's verified session token, used to write to their Firestore document.
+ */
+export const storeCanvasCredentials = async (config: VaultConfig, uid: string, idToken: string, connectionId: string, credentials: StoredCanvasCredentials): Promise<void> => {
+    const document = {
+        fields: {
+            ciphertext: { stringValue: encryptCredentials(credentials, uid, connectionId, config.encryptionKey) },
+            updatedAt: { timestampValue: new Date().toISOString() },
+        },
+    };
+    await firestoreRequest(getDocumentUrl(config.projectId, uid, connectionId), idToken, { method: 'PATCH', body: JSON.stringify(document) });
+};
+
+/**
+ * Loads and decrypts a user's Canvas credentials.
+ * @returns The credentials, or null if the user hasn't stored any.
+ */
+export const getCanvasCredentials = async (config: VaultConfig, uid: string, idToken: string, connectionId: string): Promise<StoredCanvasCredentials | null> => {
+    const response = await firestoreRequest(getDocumentUrl(config.projectId, uid, connectionId), idToken);
+    if (response.status === 404) return null;
+    const document = await response.json() as FirestoreCredentialsDocument | null;
+    const ciphertext = document?.fields?.ciphertext?.stringValue;
+    return ciphertext ? decryptCredentials(ciphertext, uid, connectionId, config.encryptionKey) : null;
+};
+
+export const deleteCanvasCredentials = async (config: VaultConfig, uid: string, idToken: string, connectionId: string): Promise<void> => {
+    await firestoreRequest(getDocumentUrl(config.projectId, uid, connectionId), idToken, { method: 'DELETE' });
+};
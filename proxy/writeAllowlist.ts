@@ -0,0 +1,69 @@
+// The Canvas proxy forwards read-only GET requests to any API endpoint, but write
+// requests are only forwarded when they match one of the rules below. Keep this list
+// as narrow as possible: every entry is something the app can do on a student's behalf.
+
+export type ProxyMethod = 'GET' | 'POST';
+
+interface WriteEndpointRule {
+    method: Exclude<ProxyMethod, 'GET'>;
+    pattern: RegExp;
+    description: string;
+}
+
+const WRITE_ENDPOINTS: WriteEndpointRule[] = [
+    {
+        method: 'POST',
+        pattern: /^courses\/\d+\/assignments\/\d+\/submissions$/,
+        description: 'Submit an assignment (text entry, URL or uploaded files)',
+    },
+    {
+        method: 'POST',
+        pattern: /^courses\/\d+\/assignments\/\d+\/submissions\/self\/files$/,
+        description: 'Start a file upload for an assignment submission',
+    },
+    {
+        method: 'POST',
+        pattern: /^courses\/\d+\/discussion_topics\/\d+\/entries$/,
+        description: 'Post a reply to a discussion topic',
+    },
+    {
+        method: 'POST',
+        pattern: /^courses\/\d+\/discussion_topics\/\d+\/entries\/\d+\/replies$/,
+        description: 'Reply to an existing discussion entry',
+    },
+    {
+        method: 'POST',
+        pattern: /^conversations$/,
+        description: 'Send a new Inbox message to course members',
+    },
+    {
+        method: 'POST',
+        pattern: /^conversations\/\d+\/add_message$/,
+        description: 'Reply to an Inbox conversation',
+    },
+];
+
+const PROXY_METHODS: readonly ProxyMethod[] = ['GET', 'POST'];
+
+/**
+ * Reads the method the client wants forwarded, in any letter case.
+ * @returns The method, or null if it is missing from the allowed methods or isn't a string.
+ */
+export const parseProxyMethod = (method: unknown): ProxyMethod | null => {
+    if (typeof method !== 'string') return null;
+    const normalizedMethod = method.toUpperCase();
+    return PROXY_METHODS.find(allowed => allowed === normalizedMethod) ?? null;
+};
+
+/**
+ * Checks whether the proxy may forward a request to Canvas.
+ * @param method The HTTP method requested by the client, from `parseProxyMethod`.
+ * @param endpoint The Canvas API path relative to `/api/v1/`, optionally with a query string.
+ * @returns True if the request is a GET, or a write that matches the allowlist.
+ */
+export const isAllowedProxyRequest = (method: ProxyMethod, endpoint: string): boolean => {
+    if (method === 'GET') return true;
+
+    const path = endpoint.split('?')[0];
+    return WRITE_ENDPOINTS.some(rule => rule.method === method && rule.pattern.test(path));
+};
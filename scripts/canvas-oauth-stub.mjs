@@ -0,0 +1,79 @@
+// A stand-in for Canvas's OAuth2 endpoints, for trying "Sign in with Canvas" locally without a developer key.
+// It approves every authorization request straight away and issues short-lived tokens, so refreshing is exercised too.
+//
+//   npm run stub:canvas-oauth
+//
+// Then run the app with (in .env.local):
+//   CANVAS_OAUTH_CLIENT_ID=stub
+//   CANVAS_OAUTH_CLIENT_SECRET=stub
+//   CANVAS_OAUTH_REDIRECT_URI=http://localhost:5173/api/canvas-oauth/callback
+//   CANVAS_OAUTH_ENDPOINT_BASE_URL=http://localhost:4010
+//   CANVAS_OAUTH_ALLOWED_ORIGINS=<the Canvas URL you enter in the app>
+
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+
+const PORT = Number(process.env.PORT) || 4010;
+// Seconds until an access token expires.
+const TOKEN_LIFETIME = Number(process.env.TOKEN_LIFETIME) || 120;
+
+const issuedCodes = new Set();
+const refreshTokens = new Set();
+
+const newToken = prefix => `${prefix}-${randomBytes(12).toString('hex')}`;
+
+const sendJson = (res, status, data) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+};
+
+const readForm = req => new Promise(resolve => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+});
+
+createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    console.log(req.method, url.pathname);
+
+    if (req.method === 'GET' && url.pathname === '/login/oauth2/auth') {
+        const redirectUri = url.searchParams.get('redirect_uri');
+        if (!redirectUri) return sendJson(res, 400, { error: 'invalid_request' });
+        const code = newToken('code');
+        issuedCodes.add(code);
+        const target = new URL(redirectUri);
+        target.searchParams.set('code', code);
+        target.searchParams.set('state', url.searchParams.get('state') || '');
+        res.writeHead(302, { Location: target.toString() });
+        return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/login/oauth2/token') {
+        const form = await readForm(req);
+        const grantType = form.get('grant_type');
+        if (grantType === 'authorization_code' && issuedCodes.delete(form.get('code'))) {
+            const refreshToken = newToken('refresh');
+            refreshTokens.add(refreshToken);
+            return sendJson(res, 200, {
+                access_token: newToken('access'),
+                token_type: 'Bearer',
+                refresh_token: refreshToken,
+                expires_in: TOKEN_LIFETIME,
+                user: { id: 1, name: 'Stub Student' },
+            });
+        }
+        if (grantType === 'refresh_token' && refreshTokens.has(form.get('refresh_token'))) {
+            return sendJson(res, 200, { access_token: newToken('access'), token_type: 'Bearer', expires_in: TOKEN_LIFETIME });
+        }
+        return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown code or refresh token.' });
+    }
+
+    if (req.method === 'DELETE' && url.pathname === '/login/oauth2/token') {
+        return sendJson(res, 200, {});
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+}).listen(PORT, () => {
+    console.log(`Stub Canvas OAuth server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,50 @@
+// Self-hosted server: serves the built app from dist/ and the Canvas proxy from the same origin,
+// so a school can run everything on its own machine without Vercel or Netlify.
+//
+//   npm run build && npm run build:server && npm start
+
+import express from 'express';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { handleCanvasProxyRequest, MAX_PROXY_BODY_SIZE } from './proxy/canvasProxyHandler';
+import { getVaultConfigFromEnv } from './proxy/tokenVault';
+import { getCanvasOAuthConfigFromEnv, handleCanvasOAuthCallback } from './proxy/canvasOAuth';
+import { getCalendarFeedConfigFromEnv, handleCalendarFeedRequest } from './proxy/calendarFeed';
+
+const PORT = Number(process.env.PORT) || 3000;
+// The bundled server lives in dist-server/, next to the dist/ folder produced by `npm run build`.
+const STATIC_DIR = process.env.STATIC_DIR || path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../dist');
+// Comma-separated origins allowed to call the proxy cross-origin (e.g. the browser extension's app URL).
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+// Set CANVAS_TOKEN_ENCRYPTION_KEY and FIREBASE_PROJECT_ID to keep Canvas tokens on the server (see README).
+const VAULT = getVaultConfigFromEnv();
+const OAUTH = getCanvasOAuthConfigFromEnv();
+const CALENDAR_FEEDS = getCalendarFeedConfigFromEnv();
+
+const app = express();
+
+app.use('/api', express.json({ limit: MAX_PROXY_BODY_SIZE }));
+
+app.all('/api/canvas-proxy', async (req, res) => {
+    const result = await handleCanvasProxyRequest(
+        { method: req.method, body: req.body, origin: req.headers.origin, authorization: req.headers.authorization },
+        { allowedOrigins: ALLOWED_ORIGINS, vault: VAULT, oauth: OAUTH, calendars: CALENDAR_FEEDS }
+    );
+    res.status(result.status).set(result.headers).send(result.body);
+});
+
+app.get('/api/canvas-oauth/callback', async (req, res) => {
+    const result = await handleCanvasOAuthCallback({ url: req.originalUrl }, { vault: VAULT, oauth: OAUTH });
+    res.status(result.status).set(result.headers).send(result.body);
+});
+
+app.get('/api/calendar-feed', async (req, res) => {
+    const result = await handleCalendarFeedRequest({ url: req.originalUrl }, CALENDAR_FEEDS);
+    res.status(result.status).set(result.headers).send(result.body);
+});
+
+app.use(express.static(STATIC_DIR));
+
+app.listen(PORT, () => {
+    console.log(`Student Platform listening on http://localhost:${PORT} (serving ${STATIC_DIR})`);
+});
@@ -0,0 +1,57 @@
+// Which announcements the student has read, and the daily digest of new ones, kept per user in Firestore
+// so they follow the student between devices.
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { Announcement, AnnouncementDigest } from '../types';
+import { db } from './firebaseService';
+import { getItemKey } from './canvasConnections';
+import { summarizeDocument } from './geminiService';
+import { htmlToText } from './courseContentService';
+
+const getReadStateRef = (uid: string) => doc(db, 'users', uid, 'data', 'announcementReads');
+const getDigestRef = (uid: string) => doc(db, 'users', uid, 'data', 'announcementDigest');
+
+/**
+ * When each read announcement was read, keyed by `getItemKey`.
+ */
+export const loadAnnouncementReads = async (uid: string): Promise<Record<string, string>> => {
+    const snapshot = await getDoc(getReadStateRef(uid));
+    return snapshot.exists() ? snapshot.data().readAt ?? {} : {};
+};
+
+/**
+ * Marks the given announcements as read, leaving the others as they are.
+ */
+export const saveAnnouncementReads = async (uid: string, readAt: Record<string, string>): Promise<void> => {
+    await setDoc(getReadStateRef(uid), { readAt }, { merge: true });
+};
+
+export const loadAnnouncementDigest = async (uid: string): Promise<AnnouncementDigest | null> => {
+    const snapshot = await getDoc(getDigestRef(uid));
+    return snapshot.exists() ? snapshot.data() as AnnouncementDigest : null;
+};
+
+export const saveAnnouncementDigest = (uid: string, digest: AnnouncementDigest): Promise<void> => setDoc(getDigestRef(uid), digest);
+
+/**
+ * Condenses the given announcements into a short briefing, grouped by course.
+ * @param date The day the digest is for, as yyyy-MM-dd.
+ */
+export const createAnnouncementDigest = async (announcements: Announcement[], date: string): Promise<AnnouncementDigest> => {
+    const content = announcements.map(a => [
+        `Course: ${a.courseName ?? 'Unknown course'}`,
+        `Title: ${a.title}`,
+        `Posted: ${a.posted_at}`,
+        htmlToText(a.message),
+    ].join('\n')).join('\n\n---\n\n');
+    const summary = await summarizeDocument(
+        `These are new announcements from a student's courses. Write a short briefing for the student, grouped by course, ` +
+        `that leads with anything they need to act on (deadlines, schedule changes, exams) and leaves out pleasantries.\n\n${content}`
+    );
+    return {
+        date,
+        summary,
+        announcementKeys: announcements.map(getItemKey),
+        generatedAt: new Date().toISOString(),
+    };
+};
@@ -0,0 +1,33 @@
+import { storage } from './storageService';
+
+// AI time estimates shown on assignment cards, such as "2-3 hours". Keyed by `getItemKey`.
+const ASSIGNMENT_ESTIMATES_KEY = 'canvasAiAssignmentEstimates';
+
+export const getEstimatesFromStorage = async (): Promise<Record<string, string>> => {
+    const estimates = await storage.get<Record<string, string>>(ASSIGNMENT_ESTIMATES_KEY);
+    return estimates || {};
+};
+
+export const saveEstimateToStorage = async (assignmentKey: string, estimate: string) => {
+    const estimates = await getEstimatesFromStorage();
+    estimates[assignmentKey] = estimate;
+    await storage.set(ASSIGNMENT_ESTIMATES_KEY, estimates);
+};
+
+/**
+ * Reads an estimate like "45 minutes", "1.5 hours", "2-3 hours" or "1 hour 30 minutes" as minutes.
+ * Ranges count as their midpoint.
+ * @returns The minutes, or null if the text has no duration (e.g. an error message).
+ */
+export const parseEstimateMinutes = (estimate: string): number | null => {
+    let total = 0;
+    let found = false;
+    const pattern = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|h|minutes?|mins?|m)\b/gi;
+    for (const match of estimate.matchAll(pattern)) {
+        const low = Number(match[1]);
+        const amount = match[2] ? (low + Number(match[2])) / 2 : low;
+        total += match[3].toLowerCase().startsWith('h') ? amount * 60 : amount;
+        found = true;
+    }
+    return found && total > 0 ? Math.round(total) : null;
+};
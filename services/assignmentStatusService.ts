@@ -0,0 +1,49 @@
+// Assignment statuses are kept per user in Firestore, so they follow the student between devices,
+// along with an audit trail of every change and what made it.
+
+import { addDoc, collection, doc, getDoc, setDoc } from 'firebase/firestore';
+import { Assignment, AssignmentStatus, AssignmentStatusChange, StoredAssignmentStatus } from '../types';
+import { db } from './firebaseService';
+
+const STATUS_ORDER: Record<AssignmentStatus, number> = { NOT_STARTED: 0, IN_PROGRESS: 1, COMPLETED: 2 };
+
+const getStatusesRef = (uid: string) => doc(db, 'users', uid, 'data', 'assignmentStatuses');
+
+/**
+ * The user's statuses keyed by `getItemKey`, or null if they have never been saved.
+ */
+export const loadAssignmentStatuses = async (uid: string): Promise<Record<string, StoredAssignmentStatus> | null> => {
+    const snapshot = await getDoc(getStatusesRef(uid));
+    return snapshot.exists() ? snapshot.data().statuses ?? {} : null;
+};
+
+/**
+ * Saves the given statuses, leaving the others as they are.
+ */
+export const saveAssignmentStatuses = async (uid: string, statuses: Record<string, StoredAssignmentStatus>): Promise<void> => {
+    await setDoc(getStatusesRef(uid), { statuses }, { merge: true });
+};
+
+export const logAssignmentStatusChanges = async (uid: string, changes: AssignmentStatusChange[]): Promise<void> => {
+    const log = collection(db, 'users', uid, 'assignmentStatusLog');
+    await Promise.all(changes.map(change => addDoc(log, change)));
+};
+
+// When the student last submitted the assignment or it was last graded.
+const getLmsActivityAt = (assignment: Assignment): string | null => {
+    const times = [assignment.submission?.submitted_at, assignment.submission?.graded_at].filter((time): time is string => !!time);
+    return times.length > 0 ? times.reduce((latest, time) => new Date(time) > new Date(latest) ? time : latest) : null;
+};
+
+/**
+ * Reconciles a saved status with the LMS. The LMS wins over a status set before the latest submission or grade,
+ * when its status (derived from that submission) is further along. A status set since then stands, so the
+ * student can still reopen an assignment they submitted.
+ * @returns The status to save instead, or null if the saved one stands.
+ */
+export const reconcileAssignmentStatus = (assignment: Assignment, stored: StoredAssignmentStatus): StoredAssignmentStatus | null => {
+    const activityAt = getLmsActivityAt(assignment);
+    if (!activityAt || new Date(activityAt) <= new Date(stored.updatedAt)) return null;
+    if (STATUS_ORDER[assignment.status] <= STATUS_ORDER[stored.status]) return null;
+    return { status: assignment.status, source: 'lms', updatedAt: activityAt };
+};
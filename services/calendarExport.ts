@@ -0,0 +1,84 @@
+// Turns the app's calendar into iCalendar entries, for the .ics download in `CalendarView` and the
+// subscription feed published by `useCalendarFeed`.
+
+import { format } from 'date-fns';
+import { Assignment, CalendarEvent, CanvasConnection } from '../types';
+import { ICalendarEvent, generateICalendar } from '../proxy/icalendar';
+import { getAssignmentUrl, getCanvasKey, getItemKey } from './canvasConnections';
+
+export const CALENDAR_NAME = 'Canvas';
+
+const UID_DOMAIN = 'student-platform';
+
+// Entries for the same assignment share a UID whether they come from the calendar or the assignment list.
+const getAssignmentUid = (connectionId: string, assignmentId: number) => `${connectionId}-assignment-${assignmentId}@${UID_DOMAIN}`;
+
+const describe = (courseName: string | undefined, pointsPossible?: number | null): string | null =>
+    [courseName, pointsPossible ? `${pointsPossible} points` : null].filter(Boolean).join('\n') || null;
+
+/**
+ * Builds the entries to export: every calendar event, plus assignments with a due date that the calendar
+ * doesn't already include. Entries for assignments link to the assignment in its LMS.
+ */
+export const getCalendarExportEvents = (calendarEvents: CalendarEvent[], assignments: Assignment[], connections: CanvasConnection[]): ICalendarEvent[] => {
+    const connectionsById = new Map(connections.map(c => [c.id, c]));
+    const assignmentsByKey = new Map(assignments.map(a => [getItemKey(a), a]));
+    const exported = new Map<string, ICalendarEvent>();
+
+    calendarEvents.forEach(event => {
+        const assignment = event.assignmentId ? assignmentsByKey.get(getCanvasKey(event.connectionId, event.assignmentId)) : undefined;
+        const uid = event.assignmentId
+            ? getAssignmentUid(event.connectionId, event.assignmentId)
+            : `${event.connectionId}-${event.source}-${event.id}@${UID_DOMAIN}`;
+        if (exported.has(uid)) return;
+        exported.set(uid, {
+            uid,
+            summary: event.title,
+            start: event.allDay ? format(event.date, 'yyyy-MM-dd') : event.date.toISOString(),
+            end: event.endDate ? (event.allDay ? format(event.endDate, 'yyyy-MM-dd') : event.endDate.toISOString()) : null,
+            allDay: !!event.allDay,
+            description: describe(event.courseName, assignment?.points_possible),
+            location: event.location,
+            url: (assignment && getAssignmentUrl(assignment, connectionsById.get(assignment.connectionId))) || event.url || null,
+            categories: event.courseName ? [event.courseName] : undefined,
+        });
+    });
+
+    assignments.forEach(assignment => {
+        const uid = getAssignmentUid(assignment.connectionId, assignment.id);
+        if (!assignment.due_at || exported.has(uid)) return;
+        exported.set(uid, {
+            uid,
+            summary: assignment.name,
+            start: new Date(assignment.due_at).toISOString(),
+            description: describe(assignment.courseName, assignment.points_possible),
+            url: getAssignmentUrl(assignment, connectionsById.get(assignment.connectionId)),
+            categories: assignment.courseName ? [assignment.courseName] : undefined,
+        });
+    });
+
+    return Array.from(exported.values()).sort((a, b) => a.start.localeCompare(b.start));
+};
+
+/**
+ * Saves the entries as an .ics file through the browser's download prompt.
+ */
+export const downloadCalendarFile = (events: ICalendarEvent[], fileName = 'canvas-calendar.ics') => {
+    const blob = new Blob([generateICalendar(events, { name: CALENDAR_NAME })], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * A new random feed token: 32 bytes, base64url-encoded (see `isValidFeedToken` in `proxy/calendarFeed.ts`).
+ */
+export const createFeedToken = (): string => {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const getCalendarFeedUrl = (token: string): string => `${window.location.origin}/api/calendar-feed?token=${token}`;
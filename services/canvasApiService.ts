@@ -1,6 +1,20 @@
-import { Course, Assignment, Settings, AssignmentStatus } from '../types';
+import { Course, Assignment, CanvasConnection, AssignmentStatus, SyncProgress, AssignmentSubmission, SubmissionReceipt, CalendarEvent, SubmissionFeedback, AssignmentGroup, EnrollmentGrades, LmsAdapter, LmsProvider, CourseModule, ModuleItem, CoursePage, CourseFolder, CourseFile, Announcement, DiscussionTopic, DiscussionEntry, DiscussionThread, InboxConversation, InboxMessage, CourseUser } from '../types';
+import type { ProxyMethod } from '../proxy/writeAllowlist';
+import { LMS_PROVIDER_LABELS } from '../proxy/lmsProviders';
+import { hasCanvasCredentials, getProvider } from './canvasConnections';
 
-const formatCanvasUrl = (url: string): string => {
+// Upper bound on how many pages a single paginated request will follow.
+// At Canvas's maximum page size this still covers thousands of items, while
+// protecting against a misbehaving `Link` header looping forever.
+const MAX_PAGES = 50;
+
+// Canvas rejects calendar requests with more than this many `context_codes[]`.
+const MAX_CONTEXT_CODES_PER_REQUEST = 10;
+
+// How far back the planner is queried. Without a start date Canvas only returns items from today on.
+const PLANNER_LOOKBACK_DAYS = 30;
+
+const formatLmsUrl = (url: string, keepPath: boolean): string => {
     if (!url) return '';
     let formattedUrl = url.trim();
 
@@ -10,8 +24,8 @@ const formatCanvasUrl = (url: string): string => {
 
     try {
         const urlObject = new URL(formattedUrl);
-        // This robustly gets the base origin, e.g., "https://yourschool.instructure.com"
-        return urlObject.origin;
+        // This robustly gets the base origin, e.g., "https://yourschool.instructure.com", plus the path if asked to keep it
+        return keepPath ? urlObject.origin + urlObject.pathname.replace(/\/+$/, '') : urlObject.origin;
     } catch (error) {
         console.error("Invalid URL provided for formatting:", formattedUrl, error);
         // Fallback for cases where URL might be malformed but still usable as a prefix
@@ -19,21 +33,83 @@ const formatCanvasUrl = (url: string): string => {
     }
 };
 
-const fetchFromProxy = async (endpoint: string, canvasUrl: string, token: string): Promise<any> => {
-    const proxyUrl = '/api/canvas-proxy';
+export const formatCanvasUrl = (url: string): string => formatLmsUrl(url, false);
+
+/**
+ * Like `formatCanvasUrl`, but keeps the path: Moodle sites are often installed under one, e.g. "https://school.edu/moodle".
+ */
+export const formatMoodleUrl = (url: string): string => formatLmsUrl(url, true);
+
+/**
+ * The URL a connection's LMS is reached at: the origin for Canvas and Classroom, the site URL for Moodle.
+ */
+export const formatConnectionUrl = (connection: Pick<CanvasConnection, 'canvasUrl' | 'provider'>): string =>
+    connection.provider === 'moodle' ? formatMoodleUrl(connection.canvasUrl) : formatCanvasUrl(connection.canvasUrl);
+
+// Where the proxy lives. Empty means the same origin as the app; the browser extension points this
+// at the deployed web app because its own pages have no proxy.
+let proxyBaseUrl = '';
+
+export const setProxyBaseUrl = (url: string) => {
+    proxyBaseUrl = url.replace(/\/$/, '');
+};
+
+// The last `X-Rate-Limit-Remaining` value Canvas reported through the proxy, or null before the first response.
+// Canvas refills this bucket over time and answers 403 once it runs dry.
+let rateLimitRemaining: number | null = null;
+
+export const getRateLimitRemaining = (): number | null => rateLimitRemaining;
+
+// Supplies the signed-in user's Firebase ID token. When a request has no raw Canvas token, this is sent
+// instead and the proxy uses the token it holds for that user. The web app registers it from `AuthProvider`;
+// the browser extension never does, since it always sends its own token.
+let sessionTokenProvider: (() => Promise<string | null>) | null = null;
+
+export const setSessionTokenProvider = (provider: (() => Promise<string | null>) | null) => {
+    sessionTokenProvider = provider;
+};
+
+const getProxyHeaders = async (token: string): Promise<Record<string, string>> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const idToken = !token && sessionTokenProvider ? await sessionTokenProvider() : null;
+    if (idToken) headers['Authorization'] = `Bearer ${idToken}`;
+    return headers;
+};
+
+interface ProxyResponse {
+    data: any;
+    linkHeader: string | null;
+}
+
+interface ProxyRequestOptions {
+    method?: ProxyMethod;
+    body?: unknown;
+}
+
+const requestFromProxy = async (endpoint: string, connection: CanvasConnection, options: ProxyRequestOptions = {}): Promise<ProxyResponse> => {
+    const proxyUrl = `${proxyBaseUrl}/api/canvas-proxy`;
+    const token = connection.apiToken;
 
     const response = await fetch(proxyUrl, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+        headers: await getProxyHeaders(token),
         body: JSON.stringify({
-            canvasUrl: canvasUrl,
+            canvasUrl: formatConnectionUrl(connection),
+            connectionId: connection.id,
+            provider: connection.provider,
             endpoint: endpoint,
-            token: token
+            // Left out when the proxy holds the token, so it falls back to the session.
+            token: token || undefined,
+            method: options.method ?? 'GET',
+            body: options.body,
         }),
     });
 
+    const rateLimitHeader = response.headers.get('X-Rate-Limit-Remaining');
+    if (rateLimitHeader !== null && !isNaN(parseFloat(rateLimitHeader))) {
+        rateLimitRemaining = parseFloat(rateLimitHeader);
+    }
+
     const contentType = response.headers.get('Content-Type') || '';
     
     if (!response.ok) {
@@ -50,26 +126,109 @@ const fetchFromProxy = async (endpoint: string, canvasUrl: string, token: string
                  errorMessage = errorText.slice(0, 500);
             }
         }
-        throw new Error(`Canvas API Error: ${errorMessage}`);
+        throw new Error(`${LMS_PROVIDER_LABELS[getProvider(connection)]} API Error: ${errorMessage}`);
     }
     
     // If the response was successful, parse the JSON body.
     const responseBody = await response.text();
     try {
-        return JSON.parse(responseBody);
+        return { data: JSON.parse(responseBody), linkHeader: response.headers.get('Link') };
     } catch (e) {
         console.error("Failed to parse successful response from proxy:", responseBody);
         throw new Error("Received an invalid JSON response from the application proxy.");
     }
 };
 
-export const getCourses = async (settings: Settings): Promise<Course[]> => {
-    const { apiToken } = settings;
-    const canvasUrl = formatCanvasUrl(settings.canvasUrl);
-    if (!canvasUrl || !apiToken) return [];
+/**
+ * Sends one request through the proxy and returns the parsed response. Also used by the adapters for
+ * other LMSes, whose endpoints are in the form `proxy/lmsProviders.ts` describes.
+ */
+export const fetchFromProxy = async (endpoint: string, connection: CanvasConnection, options?: ProxyRequestOptions): Promise<any> => {
+    const { data } = await requestFromProxy(endpoint, connection, options);
+    return data;
+};
+
+/**
+ * Converts an absolute Canvas API URL back into an endpoint relative to `/api/v1/`, which is what the proxy expects.
+ * Returns null when the URL isn't an API URL, or when it points at a different host
+ * (we never forward the user's token anywhere other than their configured Canvas URL).
+ */
+const getApiEndpoint = (url: string, canvasUrl: string): string | null => {
+    try {
+        const apiUrl = new URL(url);
+        if (apiUrl.origin !== new URL(canvasUrl).origin) {
+            console.warn("Ignoring Canvas link to a different host:", apiUrl.origin);
+            return null;
+        }
+        const apiPrefix = '/api/v1/';
+        const pathIndex = apiUrl.pathname.indexOf(apiPrefix);
+        if (pathIndex === -1) return null;
+        return apiUrl.pathname.slice(pathIndex + apiPrefix.length) + apiUrl.search;
+    } catch (error) {
+        console.error("Invalid link from Canvas:", url, error);
+        return null;
+    }
+};
+
+/**
+ * Extracts the `rel="next"` URL from a Canvas `Link` header and converts it into a proxy endpoint.
+ * Returns null when there is no next page, or when the link can't be followed through the proxy.
+ */
+const getNextEndpoint = (linkHeader: string | null, canvasUrl: string): string | null => {
+    if (!linkHeader) return null;
+
+    const nextLink = linkHeader
+        .split(',')
+        .map(part => part.match(/<([^>]+)>\s*;\s*rel="?next"?/i))
+        .find((match): match is RegExpMatchArray => match !== null);
+    if (!nextLink) return null;
+
+    return getApiEndpoint(nextLink[1], canvasUrl);
+};
+
+/**
+ * Fetches every page of a paginated Canvas collection by following `rel="next"` links,
+ * up to `MAX_PAGES`. Reports progress after each page so the UI can show how far along it is.
+ */
+const fetchAllPages = async (
+    endpoint: string,
+    connection: CanvasConnection,
+    resource: SyncProgress['resource'],
+    onProgress?: (progress: SyncProgress) => void
+): Promise<any[]> => {
+    const items: any[] = [];
+    let nextEndpoint: string | null = endpoint;
+    let page = 0;
+
+    while (nextEndpoint && page < MAX_PAGES) {
+        const { data, linkHeader }: ProxyResponse = await requestFromProxy(nextEndpoint, connection);
+        page++;
+        if (Array.isArray(data)) {
+            items.push(...data);
+        }
+        onProgress?.({ resource, page, itemsFetched: items.length });
+        nextEndpoint = getNextEndpoint(linkHeader, formatCanvasUrl(connection.canvasUrl));
+    }
+
+    if (nextEndpoint) {
+        console.warn(`Stopped fetching ${resource} after ${MAX_PAGES} pages; some items may be missing.`);
+    }
+    return items;
+};
+
+const mapEnrollmentGrades = (grades: any): EnrollmentGrades => ({
+    current_score: grades.current_score ?? null,
+    final_score: grades.final_score ?? null,
+    current_grade: grades.current_grade ?? null,
+    final_grade: grades.final_grade ?? null,
+});
+
+export const getCourses = async (connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Course[]> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection)) return [];
     
     // This is the correct, student-friendly endpoint to get all enrollments.
-    const enrollmentsData: any[] = await fetchFromProxy('users/self/enrollments?state[]=active&include[]=course&per_page=50', canvasUrl, apiToken);
+    const enrollmentsData: any[] = await fetchAllPages('users/self/enrollments?state[]=active&include[]=course&per_page=100', connection, 'courses', onProgress);
     
     // DEFINITIVE FIX: Removed the faulty `access_restricted_by_date` filter.
     // The API's `state[]=active` is the correct source of truth.
@@ -77,19 +236,39 @@ export const getCourses = async (settings: Settings): Promise<Course[]> => {
         .filter(enrollment => enrollment.type === 'StudentEnrollment' && enrollment.course && enrollment.course.name)
         .map(enrollment => ({
             id: enrollment.course.id,
+            connectionId: connection.id,
             name: enrollment.course.name,
             course_code: enrollment.course.course_code,
+            apply_assignment_group_weights: !!enrollment.course.apply_assignment_group_weights,
+            grades: enrollment.grades ? mapEnrollmentGrades(enrollment.grades) : null,
         }));
 };
 
+/**
+ * Fetches the student's course grades from their enrollments. `getCourses` already includes these,
+ * so this is only needed to refresh grades on their own.
+ */
+export const getGrades = async (connection: CanvasConnection, courseIds: number[]): Promise<Record<number, EnrollmentGrades>> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection) || courseIds.length === 0) return {};
+
+    const enrollments: any[] = await fetchAllPages('users/self/enrollments?state[]=active&type[]=StudentEnrollment&per_page=100', connection, 'courses');
+    const grades: Record<number, EnrollmentGrades> = {};
+    enrollments
+        .filter(enrollment => courseIds.includes(enrollment.course_id) && enrollment.grades)
+        .forEach(enrollment => {
+            grades[enrollment.course_id] = mapEnrollmentGrades(enrollment.grades);
+        });
+    return grades;
+};
+
 // **ARCHITECTURAL FIX**: This function is now decoupled from `getCourses` and uses a more efficient endpoint.
-export const getAssignments = async (settings: Settings): Promise<Assignment[]> => {
-    const { apiToken } = settings;
-    const canvasUrl = formatCanvasUrl(settings.canvasUrl);
-    if (!canvasUrl || !apiToken) return [];
+export const getAssignments = async (connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Assignment[]> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection)) return [];
     
     // Use the more efficient endpoint to get all assignments for the user across all courses.
-    const allAssignmentsData: any[] = await fetchFromProxy(`users/self/assignments?per_page=100&include[]=submission`, canvasUrl, apiToken);
+    const allAssignmentsData: any[] = await fetchAllPages(`users/self/assignments?per_page=100&include[]=submission`, connection, 'assignments', onProgress);
 
     const allAssignments: Assignment[] = allAssignmentsData
         .filter(a => a && a.name && a.course_id) // Basic validation
@@ -105,6 +284,7 @@ export const getAssignments = async (settings: Settings): Promise<Assignment[]>
             
             return {
                 id: a.id,
+                connectionId: connection.id,
                 name: a.name,
                 description: a.description,
                 due_at: a.due_at,
@@ -112,6 +292,22 @@ export const getAssignments = async (settings: Settings): Promise<Assignment[]>
                 course_id: a.course_id,
                 courseName: '', // This will be enriched later in the `useCanvasData` hook.
                 status: status,
+                submission_types: a.submission_types || [],
+                submission: a.submission ? {
+                    score: a.submission.score ?? null,
+                    grade: a.submission.grade ?? null,
+                    late: !!a.submission.late,
+                    missing: !!a.submission.missing,
+                    excused: !!a.submission.excused,
+                    workflow_state: a.submission.workflow_state,
+                    submitted_at: a.submission.submitted_at ?? null,
+                    graded_at: a.submission.graded_at ?? null,
+                } : null,
+                rubric: (a.rubric || []).map((criterion: any) => ({
+                    id: criterion.id,
+                    description: criterion.description,
+                    points: criterion.points,
+                })),
             };
         });
     
@@ -125,9 +321,693 @@ export const getAssignments = async (settings: Settings): Promise<Assignment[]>
 };
 
 
+const chunk = <T,>(items: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+};
+
+const parseCourseId = (contextCode: string | undefined): number | null => {
+    const match = contextCode?.match(/^course_(\d+)$/);
+    return match ? Number(match[1]) : null;
+};
+
+const toAbsoluteUrl = (url: string | undefined, canvasUrl: string): string | null => {
+    if (!url) return null;
+    try {
+        return new URL(url, canvasUrl).toString();
+    } catch {
+        return null;
+    }
+};
+
+const mapCalendarEvent = (e: any, canvasUrl: string, connectionId: string): CalendarEvent | null => {
+    const courseId = parseCourseId(e.context_code);
+    if (!courseId || !e.start_at) return null;
+
+    if (e.assignment) {
+        const isQuiz = e.assignment.is_quiz_assignment || e.assignment.submission_types?.includes('online_quiz');
+        return {
+            id: e.assignment.id,
+            connectionId,
+            course_id: courseId,
+            title: e.title,
+            date: new Date(e.start_at),
+            endDate: null,
+            allDay: false,
+            location: null,
+            type: isQuiz ? 'quiz' : 'assignment',
+            source: 'canvas_assignment',
+            assignmentId: e.assignment.id,
+            url: toAbsoluteUrl(e.html_url, canvasUrl),
+        };
+    }
+
+    return {
+        id: e.id,
+        connectionId,
+        course_id: courseId,
+        title: e.title,
+        date: new Date(e.start_at),
+        endDate: e.end_at ? new Date(e.end_at) : null,
+        allDay: !!e.all_day,
+        location: [e.location_name, e.location_address].filter(Boolean).join(', ') || null,
+        type: 'event',
+        source: 'canvas_event',
+        assignmentId: null,
+        url: toAbsoluteUrl(e.html_url, canvasUrl),
+    };
+};
+
+const mapPlannerItem = (item: any, canvasUrl: string, connectionId: string): CalendarEvent | null => {
+    const date = item.plannable_date || item.plannable?.todo_date || item.plannable?.due_at;
+    if (!item.course_id || !date || !item.plannable) return null;
+
+    const assignmentId: number | null = item.plannable_type === 'assignment'
+        ? item.plannable_id
+        : item.plannable.assignment_id ?? null;
+
+    return {
+        id: item.plannable_id,
+        connectionId,
+        course_id: item.course_id,
+        title: item.plannable.title || item.plannable.name || 'Untitled',
+        date: new Date(date),
+        endDate: item.plannable.end_at ? new Date(item.plannable.end_at) : null,
+        allDay: !!item.plannable.all_day,
+        location: item.plannable.location_name || null,
+        type: item.plannable_type === 'quiz' ? 'quiz'
+            : item.plannable_type === 'calendar_event' ? 'event'
+            : 'assignment',
+        source: 'canvas_planner',
+        assignmentId,
+        url: toAbsoluteUrl(item.html_url, canvasUrl),
+    };
+};
+
+/**
+ * Identifies the underlying Canvas object of an entry, so that the same assignment or event
+ * returned by both the calendar and the planner is only shown once.
+ */
+const getCalendarEventKey = (event: CalendarEvent): string => {
+    if (event.assignmentId) return `assignment:${event.assignmentId}`;
+    if (event.type === 'event') return `event:${event.id}`;
+    return `${event.source}:${event.type}:${event.id}`;
+};
+
+/**
+ * Fetches the user's real Canvas calendar for the given courses: calendar events (lectures,
+ * office hours, exams), assignment due dates, and planner items such as discussions and to-dos.
+ * Calendar entries take precedence over planner items that refer to the same object.
+ */
+export const getCalendarEvents = async (connection: CanvasConnection, courseIds: number[], onProgress?: (progress: SyncProgress) => void): Promise<CalendarEvent[]> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection) || courseIds.length === 0) return [];
+
+    const contextChunks = chunk(courseIds.map(id => `course_${id}`), MAX_CONTEXT_CODES_PER_REQUEST)
+        .map(codes => codes.map(code => `context_codes[]=${code}`).join('&'));
+
+    const plannerStart = new Date();
+    plannerStart.setDate(plannerStart.getDate() - PLANNER_LOOKBACK_DAYS);
+
+    const [calendarPages, plannerPages] = await Promise.all([
+        Promise.all(contextChunks.flatMap(contexts => (['event', 'assignment'] as const).map(type =>
+            fetchAllPages(`calendar_events?type=${type}&all_events=true&per_page=100&${contexts}`, connection, 'calendar', onProgress)
+        ))),
+        Promise.all(contextChunks.map(contexts =>
+            fetchAllPages(`planner/items?start_date=${plannerStart.toISOString()}&per_page=100&${contexts}`, connection, 'planner', onProgress)
+        )),
+    ]);
+
+    const events = new Map<string, CalendarEvent>();
+    const addEvent = (event: CalendarEvent | null) => {
+        if (event && !events.has(getCalendarEventKey(event))) {
+            events.set(getCalendarEventKey(event), event);
+        }
+    };
+    calendarPages.flat().forEach(e => addEvent(mapCalendarEvent(e, canvasUrl, connection.id)));
+    plannerPages.flat().forEach(item => addEvent(mapPlannerItem(item, canvasUrl, connection.id)));
+
+    return Array.from(events.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+const mapAnnouncement = (a: any, connectionId: string): Announcement | null => {
+    const courseId = parseCourseId(a.context_code);
+    if (!courseId || !a.posted_at) return null;
+    return {
+        id: a.id,
+        connectionId,
+        course_id: courseId,
+        title: a.title,
+        message: a.message || '',
+        posted_at: a.posted_at,
+        author_name: a.author?.display_name ?? a.user_name ?? null,
+        html_url: a.html_url ?? null,
+    };
+};
+
+/**
+ * Fetches the announcements posted in the given courses since `since`, newest first.
+ */
+export const getAnnouncements = async (connection: CanvasConnection, courseIds: number[], since: Date): Promise<Announcement[]> => {
+    if (!hasCanvasCredentials(connection) || courseIds.length === 0) return [];
+    const startDate = since.toISOString();
+    const endDate = new Date().toISOString();
+    const pages = await Promise.all(chunk(courseIds.map(id => `context_codes[]=course_${id}`), MAX_CONTEXT_CODES_PER_REQUEST).map(contexts =>
+        fetchAllPages(`announcements?start_date=${startDate}&end_date=${endDate}&per_page=100&${contexts.join('&')}`, connection, 'announcements')
+    ));
+    return pages.flat()
+        .map(a => mapAnnouncement(a, connection.id))
+        .filter((a): a is Announcement => a !== null)
+        .sort((a, b) => b.posted_at.localeCompare(a.posted_at));
+};
+
+const mapDiscussionTopic = (t: any): DiscussionTopic => ({
+    id: t.id,
+    title: t.title,
+    message: t.message || '',
+    posted_at: t.posted_at ?? null,
+    last_reply_at: t.last_reply_at ?? null,
+    assignment_id: t.assignment_id ?? null,
+    reply_count: t.discussion_subentry_count ?? 0,
+    unread_count: t.unread_count ?? 0,
+    user_can_see_posts: t.user_can_see_posts !== false,
+    locked: !!t.locked,
+    html_url: t.html_url,
+});
+
+/**
+ * Fetches a course's discussion topics, most recently active first. Announcements aren't included.
+ */
+export const getDiscussionTopics = async (connection: CanvasConnection, courseId: number): Promise<DiscussionTopic[]> => {
+    const topicsData = await fetchAllPages(`courses/${courseId}/discussion_topics?order_by=recent_activity&per_page=100`, connection, 'discussions');
+    return topicsData.map(mapDiscussionTopic);
+};
+
+const mapDiscussionEntry = (e: any, authorNames: Map<number, string>): DiscussionEntry => ({
+    id: e.id,
+    user_id: e.user_id ?? null,
+    authorName: authorNames.get(e.user_id) ?? 'Unknown',
+    message: e.deleted ? '' : e.message || '',
+    created_at: e.created_at,
+    deleted: !!e.deleted,
+    replies: (e.replies ?? []).map((reply: any) => mapDiscussionEntry(reply, authorNames)),
+});
+
+const countEntriesBy = (entries: DiscussionEntry[], userId: number): number =>
+    entries.reduce((count, entry) => count + (entry.user_id === userId && !entry.deleted ? 1 : 0) + countEntriesBy(entry.replies, userId), 0);
+
+/**
+ * Fetches a discussion's full threaded view, and how many times the student has posted in it.
+ * Only call this for topics the student can see the posts of (`user_can_see_posts`).
+ */
+export const getDiscussionThread = async (connection: CanvasConnection, courseId: number, topicId: number): Promise<DiscussionThread> => {
+    const [view, self] = await Promise.all([
+        fetchFromProxy(`courses/${courseId}/discussion_topics/${topicId}/view?include_new_entries=1`, connection),
+        fetchFromProxy('users/self', connection),
+    ]);
+    const authorNames = new Map<number, string>((view.participants ?? []).map((p: any) => [p.id, p.display_name]));
+    const rawEntries: any[] = view.view ?? [];
+    // Entries posted since Canvas last cached the view are listed separately, without nesting.
+    const findRawEntry = (entries: any[], id: number): any => {
+        for (const entry of entries) {
+            if (entry.id === id) return entry;
+            const found = findRawEntry(entry.replies ?? [], id);
+            if (found) return found;
+        }
+        return null;
+    };
+    for (const newEntry of view.new_entries ?? []) {
+        if (findRawEntry(rawEntries, newEntry.id)) continue;
+        const parent = newEntry.parent_id ? findRawEntry(rawEntries, newEntry.parent_id) : null;
+        if (parent) {
+            parent.replies = [...(parent.replies ?? []), newEntry];
+        } else {
+            rawEntries.push(newEntry);
+        }
+    }
+    const entries = rawEntries.map(e => mapDiscussionEntry(e, authorNames));
+    return { entries, ownEntryCount: countEntriesBy(entries, self.id) };
+};
+
+/**
+ * Fetches the student's rubric assessments and teacher comments for every submission in the
+ * given courses. These aren't available from the assignment list, so they're loaded on demand.
+ * @returns Feedback keyed by assignment ID.
+ */
+export const getSubmissionFeedback = async (connection: CanvasConnection, courseIds: number[]): Promise<Record<number, SubmissionFeedback>> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection)) return {};
+
+    const submissionsByCourse = await Promise.all(courseIds.map(courseId =>
+        fetchAllPages(`courses/${courseId}/students/submissions?student_ids[]=self&include[]=submission_comments&include[]=rubric_assessment&per_page=100`, connection, 'submissions')
+    ));
+
+    const feedback: Record<number, SubmissionFeedback> = {};
+    submissionsByCourse.flat().forEach((submission: any) => {
+        const rubricAssessment: SubmissionFeedback['rubric_assessment'] = {};
+        Object.entries(submission.rubric_assessment || {}).forEach(([criterionId, entry]: [string, any]) => {
+            rubricAssessment[criterionId] = { points: entry?.points ?? null, comments: entry?.comments || null };
+        });
+        feedback[submission.assignment_id] = {
+            assignment_id: submission.assignment_id,
+            rubric_assessment: rubricAssessment,
+            submission_comments: (submission.submission_comments || []).map((c: any) => ({
+                id: c.id,
+                author_name: c.author_name,
+                comment: c.comment,
+                created_at: c.created_at,
+            })),
+        };
+    });
+    return feedback;
+};
+
+/**
+ * Fetches a course's assignment groups with their weights, drop rules, assignments and the
+ * student's scores, which is everything needed to recompute the course grade locally.
+ */
+export const getAssignmentGroups = async (connection: CanvasConnection, courseId: number): Promise<AssignmentGroup[]> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection)) return [];
+
+    const groupsData = await fetchAllPages(`courses/${courseId}/assignment_groups?include[]=assignments&include[]=submission&per_page=100`, connection, 'assignment_groups');
+
+    return groupsData.map((group: any) => ({
+        id: group.id,
+        name: group.name,
+        group_weight: group.group_weight || 0,
+        rules: {
+            drop_lowest: group.rules?.drop_lowest || 0,
+            drop_highest: group.rules?.drop_highest || 0,
+            never_drop: group.rules?.never_drop || [],
+        },
+        assignments: (group.assignments || [])
+            .filter((a: any) => a.published !== false)
+            .map((a: any) => ({
+                id: a.id,
+                name: a.name,
+                points_possible: a.points_possible || 0,
+                omit_from_final_grade: !!a.omit_from_final_grade,
+                score: a.submission?.score ?? null,
+                excused: !!a.submission?.excused,
+            })),
+    }));
+};
+
+const mapModuleItem = (item: any): ModuleItem => ({
+    id: item.id,
+    title: item.title,
+    type: item.type,
+    indent: item.indent || 0,
+    html_url: item.html_url || null,
+    content_id: item.content_id ?? null,
+    page_url: item.page_url || null,
+    external_url: item.external_url || null,
+    completion_requirement: item.completion_requirement ? {
+        type: item.completion_requirement.type,
+        min_score: item.completion_requirement.min_score,
+        completed: !!item.completion_requirement.completed,
+    } : null,
+});
+
+/**
+ * Fetches a course's modules with their items, in course order.
+ */
+export const getCourseModules = async (connection: CanvasConnection, courseId: number): Promise<CourseModule[]> => {
+    const modulesData = await fetchAllPages(`courses/${courseId}/modules?include[]=items&per_page=100`, connection, 'modules');
+
+    return Promise.all(modulesData.map(async (module: any) => ({
+        id: module.id,
+        name: module.name,
+        position: module.position,
+        state: module.state || null,
+        unlock_at: module.unlock_at || null,
+        // Canvas leaves out the items of modules with too many to include; those are fetched separately.
+        items: (module.items ?? await fetchAllPages(`courses/${courseId}/modules/${module.id}/items?per_page=100`, connection, 'modules')).map(mapModuleItem),
+    })));
+};
+
+/**
+ * Fetches a course's syllabus HTML, or null if it has none.
+ */
+export const getCourseSyllabus = async (connection: CanvasConnection, courseId: number): Promise<string | null> => {
+    const course = await fetchFromProxy(`courses/${courseId}?include[]=syllabus_body`, connection);
+    return course.syllabus_body || null;
+};
+
+const mapCoursePage = (page: any): CoursePage => ({
+    page_id: page.page_id,
+    url: page.url,
+    title: page.title,
+    updated_at: page.updated_at,
+    front_page: !!page.front_page,
+    body: page.body,
+});
+
+/**
+ * Lists a course's published wiki pages, without their bodies.
+ */
+export const getCoursePages = async (connection: CanvasConnection, courseId: number): Promise<CoursePage[]> => {
+    const pagesData = await fetchAllPages(`courses/${courseId}/pages?sort=title&per_page=100`, connection, 'pages');
+    return pagesData.map(mapCoursePage);
+};
+
+/**
+ * Fetches one wiki page with its HTML body.
+ * @param pageUrl The page's `url` slug.
+ */
+export const getCoursePage = async (connection: CanvasConnection, courseId: number, pageUrl: string): Promise<CoursePage> =>
+    mapCoursePage(await fetchFromProxy(`courses/${courseId}/pages/${encodeURIComponent(pageUrl)}`, connection));
+
+/**
+ * Fetches every folder and file in a course the student can see. Canvas returns both as flat lists;
+ * folders are linked by `parent_folder_id` and files by `folder_id`.
+ */
+export const getCourseFiles = async (connection: CanvasConnection, courseId: number): Promise<{ folders: CourseFolder[]; files: CourseFile[] }> => {
+    const [foldersData, filesData] = await Promise.all([
+        fetchAllPages(`courses/${courseId}/folders?per_page=100`, connection, 'folders'),
+        fetchAllPages(`courses/${courseId}/files?per_page=100`, connection, 'files'),
+    ]);
+    return {
+        folders: foldersData.map((folder: any) => ({
+            id: folder.id,
+            name: folder.name,
+            full_name: folder.full_name,
+            parent_folder_id: folder.parent_folder_id ?? null,
+        })),
+        files: filesData
+            .filter((file: any) => !file.locked_for_user && !file.hidden_for_user)
+            .map((file: any) => ({
+                id: file.id,
+                folder_id: file.folder_id,
+                display_name: file.display_name,
+                content_type: file['content-type'] || file.content_type || 'application/octet-stream',
+                size: file.size || 0,
+                url: file.url,
+                updated_at: file.updated_at,
+            })),
+    };
+};
+
+// Every action but `completeOAuth` is for one connection; that one learns it from the sign-in result.
+type VaultActionPayload =
+    | { action: 'storeToken'; connectionId: string; canvasUrl: string; token: string; provider?: LmsProvider }
+    | { action: 'deleteToken'; connectionId: string }
+    | { action: 'startOAuth'; connectionId: string; canvasUrl: string }
+    | { action: 'completeOAuth'; result: string };
+
+/**
+ * Sends a token-vault request to the proxy as the signed-in user.
+ * @returns The response data, or null if this deployment doesn't support the action.
+ */
+const requestVaultAction = async (payload: VaultActionPayload): Promise<any | null> => {
+    const response = await fetch(`${proxyBaseUrl}/api/canvas-proxy`, {
+        method: 'POST',
+        headers: await getProxyHeaders(''),
+        body: JSON.stringify(payload),
+    });
+    if (response.status === 501) return null;
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(data?.error || `Token storage failed with status ${response.status}.`);
+    }
+    return data;
+};
+
+/**
+ * Hands a Canvas token (or another LMS's, with `provider`) to the proxy, which encrypts it and keeps it for the signed-in user.
+ * @returns false if this deployment can't store tokens, in which case the caller keeps the token itself.
+ */
+export const storeCanvasToken = async (connectionId: string, canvasUrl: string, token: string, provider?: LmsProvider): Promise<boolean> =>
+    (await requestVaultAction({ action: 'storeToken', connectionId, canvasUrl: formatConnectionUrl({ canvasUrl, provider }), token, provider })) !== null;
+
+/**
+ * Starts Canvas sign-in (OAuth2).
+ * @returns The Canvas URL to send the browser to. Canvas redirects back to the app when the student is done.
+ */
+export const startCanvasOAuth = async (connectionId: string, canvasUrl: string): Promise<string> => {
+    const data = await requestVaultAction({ action: 'startOAuth', connectionId, canvasUrl: formatCanvasUrl(canvasUrl) });
+    if (!data?.authorizeUrl) {
+        throw new Error("Sign in with Canvas isn't available on this deployment. Use an access token instead.");
+    }
+    return data.authorizeUrl;
+};
+
+/**
+ * Redeems the result Canvas sign-in handed back to the app, storing the Canvas tokens on the server.
+ * @returns The connection the student signed in for, and its Canvas URL.
+ */
+export const completeCanvasOAuth = async (result: string): Promise<{ connectionId: string; canvasUrl: string }> => {
+    const data = await requestVaultAction({ action: 'completeOAuth', result });
+    if (!data?.canvasUrl || !data?.connectionId) {
+        throw new Error("Sign in with Canvas isn't available on this deployment.");
+    }
+    return { connectionId: data.connectionId, canvasUrl: data.canvasUrl };
+};
+
+export const deleteStoredCanvasToken = async (connectionId: string): Promise<void> => {
+    await requestVaultAction({ action: 'deleteToken', connectionId });
+};
+
+/**
+ * Downloads an external calendar (https or webcal URL) through the proxy as the signed-in user.
+ * @returns The iCalendar text.
+ */
+export const fetchCalendarUrl = async (url: string): Promise<string> => {
+    const response = await fetch(`${proxyBaseUrl}/api/canvas-proxy`, {
+        method: 'POST',
+        headers: await getProxyHeaders(''),
+        body: JSON.stringify({ action: 'fetchCalendar', url }),
+    });
+    const data = await response.json().catch(() => null);
+    if (response.status === 501) {
+        throw new Error("Importing calendars by URL isn't available on this deployment. Download the .ics file and upload it instead.");
+    }
+    if (!response.ok || typeof data?.calendar !== 'string') {
+        throw new Error(data?.error || `The calendar could not be downloaded (status ${response.status}).`);
+    }
+    return data.calendar;
+};
+
 // **CONSISTENCY FIX**: This now uses the same core endpoint as `getCourses`
 // to ensure the test is an accurate reflection of the app's required permissions.
-export const testConnection = async (canvasUrl: string, token: string): Promise<void> => {
-    const formattedUrl = formatCanvasUrl(canvasUrl);
-    await fetchFromProxy('users/self/enrollments?per_page=1&state[]=active', formattedUrl, token);
-};
\ No newline at end of file
+export const testConnection = async (connection: CanvasConnection): Promise<void> => {
+    await fetchFromProxy('users/self/enrollments?per_page=1&state[]=active', connection);
+};
+
+/**
+ * Uploads a single file for an assignment submission using Canvas's three-step upload flow:
+ * 1. Ask Canvas (through the proxy) for an upload URL and the parameters it must be sent with.
+ * 2. POST the file straight to that URL. It is pre-authorized, so the token is not sent here.
+ * 3. If the upload answers with a redirect, confirm it with an authenticated GET to the redirect
+ *    target through the proxy. Otherwise the upload response is already the confirmed file record.
+ * The file record's `id` is then attached to the submission.
+ * @returns The Canvas file ID of the uploaded file.
+ */
+const uploadSubmissionFile = async (file: File, courseId: number, assignmentId: number, connection: CanvasConnection): Promise<number> => {
+    const uploadTarget: { upload_url: string; upload_params: Record<string, string> } = await fetchFromProxy(
+        `courses/${courseId}/assignments/${assignmentId}/submissions/self/files`,
+        connection,
+        { method: 'POST', body: { name: file.name, size: file.size, content_type: file.type || 'application/octet-stream' } }
+    );
+
+    const formData = new FormData();
+    Object.entries(uploadTarget.upload_params || {}).forEach(([key, value]) => formData.append(key, value));
+    // Canvas requires the file to be the last field in the form.
+    formData.append('file', file);
+
+    const uploadResponse = await fetch(uploadTarget.upload_url, { method: 'POST', body: formData });
+    let uploadedFile: any;
+    if (uploadResponse.redirected) {
+        // Browsers hide the `Location` of a manual redirect, so the redirect is followed here (without the
+        // token) and the URL it ended on is requested again through the proxy, which adds the token.
+        const confirmEndpoint = getApiEndpoint(uploadResponse.url, formatCanvasUrl(connection.canvasUrl));
+        if (!confirmEndpoint) {
+            throw new Error(`Canvas API Error: The upload of "${file.name}" redirected somewhere it can't be confirmed.`);
+        }
+        uploadedFile = await fetchFromProxy(confirmEndpoint, connection);
+    } else if (!uploadResponse.ok) {
+        throw new Error(`Canvas API Error: Uploading "${file.name}" failed with status ${uploadResponse.status}.`);
+    } else {
+        uploadedFile = await uploadResponse.json();
+    }
+    if (typeof uploadedFile?.id !== 'number') {
+        throw new Error(`Canvas API Error: Canvas did not confirm the upload of "${file.name}".`);
+    }
+    return uploadedFile.id;
+};
+
+/**
+ * Submits an assignment to Canvas on the student's behalf.
+ * Only submission types allowed by the proxy's write allowlist are supported.
+ */
+export const submitAssignment = async (connection: CanvasConnection, courseId: number, assignmentId: number, submission: AssignmentSubmission): Promise<SubmissionReceipt> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection)) {
+        throw new Error("Canvas settings not configured.");
+    }
+
+    let submissionBody: Record<string, unknown>;
+    switch (submission.type) {
+        case 'online_text_entry':
+            submissionBody = { submission_type: 'online_text_entry', body: submission.body };
+            break;
+        case 'online_url':
+            submissionBody = { submission_type: 'online_url', url: submission.url };
+            break;
+        case 'online_upload': {
+            // Upload sequentially so a failure stops before anything is submitted.
+            const fileIds: number[] = [];
+            for (const file of submission.files) {
+                fileIds.push(await uploadSubmissionFile(file, courseId, assignmentId, connection));
+            }
+            submissionBody = { submission_type: 'online_upload', file_ids: fileIds };
+            break;
+        }
+    }
+
+    const result = await fetchFromProxy(
+        `courses/${courseId}/assignments/${assignmentId}/submissions`,
+        connection,
+        { method: 'POST', body: { submission: submissionBody } }
+    );
+
+    return {
+        id: result.id,
+        workflow_state: result.workflow_state,
+        submitted_at: result.submitted_at ?? null,
+        attempt: result.attempt ?? null,
+    };
+};
+
+/**
+ * Posts a reply to a discussion topic, or to an existing entry when `parentEntryId` is given.
+ * @returns The ID of the newly created discussion entry.
+ */
+export const postDiscussionReply = async (connection: CanvasConnection, courseId: number, topicId: number, message: string, parentEntryId?: number): Promise<number> => {
+    const canvasUrl = formatCanvasUrl(connection.canvasUrl);
+    if (!canvasUrl || !hasCanvasCredentials(connection)) {
+        throw new Error("Canvas settings not configured.");
+    }
+
+    const endpoint = parentEntryId
+        ? `courses/${courseId}/discussion_topics/${topicId}/entries/${parentEntryId}/replies`
+        : `courses/${courseId}/discussion_topics/${topicId}/entries`;
+    const entry = await fetchFromProxy(endpoint, connection, { method: 'POST', body: { message } });
+    return entry.id;
+};
+
+// The Inbox shows this many of the most recent conversations.
+const INBOX_PAGE_SIZE = 50;
+
+const mapConversation = (c: any, connectionId: string): InboxConversation => ({
+    id: c.id,
+    connectionId,
+    subject: c.subject || '(No subject)',
+    workflow_state: c.workflow_state,
+    last_message: c.last_message ?? null,
+    last_message_at: c.last_message_at ?? null,
+    message_count: c.message_count ?? 0,
+    participants: (c.participants ?? []).map((p: any) => ({ id: p.id, name: p.name })),
+    context_name: c.context_name ?? null,
+});
+
+/**
+ * Fetches the student's most recent Inbox conversations, newest first.
+ */
+export const getConversations = async (connection: CanvasConnection): Promise<InboxConversation[]> => {
+    const conversations = await fetchFromProxy(`conversations?per_page=${INBOX_PAGE_SIZE}`, connection);
+    return (Array.isArray(conversations) ? conversations : []).map((c: any) => mapConversation(c, connection.id));
+};
+
+/**
+ * Fetches how many of the student's conversations are unread, including those older than `getConversations` returns.
+ */
+export const getUnreadConversationCount = async (connection: CanvasConnection): Promise<number> => {
+    const { unread_count } = await fetchFromProxy('conversations/unread_count', connection);
+    // Canvas sends the count as a string.
+    const count = Number(unread_count);
+    return Number.isFinite(count) ? count : 0;
+};
+
+const mapConversationMessages = (c: any): InboxMessage[] => {
+    const names = new Map<number, string>((c.participants ?? []).map((p: any) => [p.id, p.name]));
+    return (c.messages ?? [])
+        .map((m: any) => ({
+            id: m.id,
+            author_id: m.author_id,
+            authorName: names.get(m.author_id) ?? 'Unknown',
+            body: m.body ?? '',
+            created_at: m.created_at,
+        }))
+        // Canvas lists them newest first.
+        .reverse();
+};
+
+/**
+ * Fetches a conversation's messages, oldest first. Canvas marks the conversation as read.
+ */
+export const getConversationMessages = async (connection: CanvasConnection, conversationId: number): Promise<InboxMessage[]> =>
+    mapConversationMessages(await fetchFromProxy(`conversations/${conversationId}`, connection));
+
+/**
+ * Adds a message to a conversation.
+ * @returns The message just sent. Canvas's response leaves out the rest of the conversation.
+ */
+export const replyToConversation = async (connection: CanvasConnection, conversationId: number, body: string): Promise<InboxMessage[]> => {
+    if (!hasCanvasCredentials(connection)) {
+        throw new Error("Canvas settings not configured.");
+    }
+    const conversation = await fetchFromProxy(`conversations/${conversationId}/add_message`, connection, { method: 'POST', body: { body } });
+    return mapConversationMessages(conversation);
+};
+
+/**
+ * Starts a conversation with people in a course. Several recipients share one conversation.
+ */
+export const createConversation = async (connection: CanvasConnection, courseId: number, recipientIds: number[], subject: string, body: string): Promise<InboxConversation> => {
+    if (!hasCanvasCredentials(connection)) {
+        throw new Error("Canvas settings not configured.");
+    }
+    const conversations = await fetchFromProxy('conversations', connection, {
+        method: 'POST',
+        body: {
+            recipients: recipientIds.map(String),
+            subject,
+            body,
+            context_code: `course_${courseId}`,
+            group_conversation: true,
+        },
+    });
+    return mapConversation(Array.isArray(conversations) ? conversations[0] : conversations, connection.id);
+};
+
+const ENROLLMENT_ROLE_LABELS: Record<string, string> = {
+    TeacherEnrollment: 'Teacher',
+    TaEnrollment: 'TA',
+    StudentEnrollment: 'Student',
+    DesignerEnrollment: 'Designer',
+    ObserverEnrollment: 'Observer',
+};
+
+/**
+ * Searches a course's people by name. Canvas needs at least two characters.
+ */
+export const searchCourseUsers = async (connection: CanvasConnection, courseId: number, searchTerm: string): Promise<CourseUser[]> => {
+    const users = await fetchFromProxy(`courses/${courseId}/users?search_term=${encodeURIComponent(searchTerm)}&include[]=enrollments&per_page=20`, connection);
+    return (Array.isArray(users) ? users : []).map((u: any) => ({
+        id: u.id,
+        name: u.name,
+        roles: [...new Set<string>((u.enrollments ?? []).map((e: any) => ENROLLMENT_ROLE_LABELS[e.type] ?? e.role))],
+    }));
+};
+
+export const canvasAdapter: LmsAdapter = {
+    getCourses,
+    getAssignments,
+    getEvents: getCalendarEvents,
+    getGrades,
+};
@@ -0,0 +1,73 @@
+// Helpers for settings with several Canvas connections. Canvas IDs are only unique within one instance,
+// so wherever data from several connections is mixed, items are identified by keys that include the
+// connection they came from.
+
+import { Assignment, CanvasConnection, LmsProvider, Settings } from '../types';
+
+// The connection created from settings saved before multiple connections were supported.
+export const DEFAULT_CONNECTION_ID = 'default';
+
+// Tags the built-in sample data.
+export const SAMPLE_CONNECTION_ID = 'sample';
+
+// Tags personal tasks that aren't for any course. Tasks for a course take on its connection.
+export const PERSONAL_CONNECTION_ID = 'personal';
+
+export const getCanvasKey = (connectionId: string, id: number): string => `${connectionId}:${id}`;
+
+/**
+ * The key of a course, assignment or calendar event.
+ */
+export const getItemKey = (item: { connectionId: string; id: number }): string => getCanvasKey(item.connectionId, item.id);
+
+/**
+ * The key of the course an assignment or calendar event belongs to.
+ */
+export const getCourseKeyOf = (item: { connectionId: string; course_id: number }): string => getCanvasKey(item.connectionId, item.course_id);
+
+export const createConnectionId = (): string => crypto.randomUUID();
+
+/**
+ * A readable default name for a connection, taken from its Canvas host (e.g. "yourschool.instructure.com").
+ */
+export const getDefaultConnectionName = (canvasUrl: string): string => {
+    try {
+        return new URL(/^https?:\/\//i.test(canvasUrl) ? canvasUrl : `https://${canvasUrl}`).host;
+    } catch {
+        return canvasUrl || 'Canvas';
+    }
+};
+
+/**
+ * Whether the connection can reach Canvas: either the token is in the settings, or the proxy holds it.
+ */
+export const hasCanvasCredentials = (connection: CanvasConnection): boolean => !!(connection.apiToken || connection.hasServerToken);
+
+export const getProvider = (connection: CanvasConnection): LmsProvider => connection.provider ?? 'canvas';
+
+/**
+ * Whether the connection is to Canvas. Submitting work, feedback and what-if grades are only available there.
+ */
+export const isCanvasConnection = (connection: CanvasConnection | undefined): boolean =>
+    !!connection && getProvider(connection) === 'canvas';
+
+export const getConnection = (settings: Settings | null, connectionId: string): CanvasConnection | undefined =>
+    settings?.connections.find(connection => connection.id === connectionId);
+
+/**
+ * The connections that are ready to sync.
+ */
+export const getActiveConnections = (settings: Settings | null): CanvasConnection[] =>
+    settings?.connections.filter(connection => connection.canvasUrl && hasCanvasCredentials(connection)) ?? [];
+
+/**
+ * The assignment's page in its LMS, or null when it can't be linked (e.g. sample data).
+ */
+export const getAssignmentUrl = (assignment: Pick<Assignment, 'id' | 'course_id' | 'html_url' | 'personalTask'>, connection: CanvasConnection | undefined): string | null => {
+    if (assignment.personalTask) return null;
+    // Other LMSes link their assignments directly.
+    if (assignment.html_url) return assignment.html_url;
+    if (!connection || !isCanvasConnection(connection) || !connection.canvasUrl || !assignment.course_id || !assignment.id) return null;
+    // The URL from settings is already correctly formatted.
+    return `${connection.canvasUrl}/courses/${assignment.course_id}/assignments/${assignment.id}`;
+};
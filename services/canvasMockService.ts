@@ -1,6 +1,15 @@
-import { Course, Assignment, CalendarEvent } from '../types';
+import { Course, Assignment, CalendarEvent, CanvasConnection, SubmissionFeedback, AssignmentGroup, EnrollmentGrades, LmsAdapter } from '../types';
+import { SAMPLE_CONNECTION_ID } from './canvasConnections';
+
+// Sample items are tagged with their connection when served.
+type SampleItem<T> = Omit<T, 'connectionId'>;
+
+// Stands in for a real connection when the sample data is read through `mockAdapter`.
+export const SAMPLE_CONNECTION: CanvasConnection = { id: SAMPLE_CONNECTION_ID, name: 'Sample data', canvasUrl: '', apiToken: '' };
 
 const today = new Date();
+const lastWeek = new Date(today);
+lastWeek.setDate(today.getDate() - 7);
 const tomorrow = new Date(today);
 tomorrow.setDate(today.getDate() + 1);
 const nextWeek = new Date(today);
@@ -8,30 +17,105 @@ nextWeek.setDate(today.getDate() + 7);
 const twoWeeks = new Date(today);
 twoWeeks.setDate(today.getDate() + 14);
 
-const courses: Course[] = [
-  { id: 1, name: 'Introduction to Artificial Intelligence', course_code: 'CS-101' },
-  { id: 2, name: 'Modern Web Development', course_code: 'WEB-202' },
-  { id: 3, name: 'Data Structures & Algorithms', course_code: 'CS-210' },
+const courses: SampleItem<Course>[] = [
+  { id: 1, name: 'Introduction to Artificial Intelligence', course_code: 'CS-101', apply_assignment_group_weights: true, grades: { current_score: 91.5, final_score: 45.8, current_grade: 'A-', final_grade: 'F' } },
+  { id: 2, name: 'Modern Web Development', course_code: 'WEB-202', grades: { current_score: 84, final_score: 33.6, current_grade: 'B', final_grade: 'F' } },
+  { id: 3, name: 'Data Structures & Algorithms', course_code: 'CS-210', grades: { current_score: null, final_score: 0, current_grade: null, final_grade: 'F' } },
 ];
 
-const assignments: Assignment[] = [
+const assignments: SampleItem<Assignment>[] = [
   { id: 1, course_id: 1, name: 'Essay on Turing Test', due_at: tomorrow.toISOString(), points_possible: 100, description: 'Write a 1500-word essay discussing the history, significance, and modern implications of the Turing Test in artificial intelligence.', status: 'NOT_STARTED', courseName: 'Introduction to Artificial Intelligence' },
   { id: 2, course_id: 2, name: 'React SPA Project', due_at: nextWeek.toISOString(), points_possible: 150, description: 'Build a single-page application using React, TypeScript, and Tailwind CSS. The application should fetch data from a public API and display it in a user-friendly interface.', status: 'IN_PROGRESS', courseName: 'Modern Web Development' },
   { id: 3, course_id: 3, name: 'Binary Search Tree Implementation', due_at: twoWeeks.toISOString(), points_possible: 120, description: 'Implement a binary search tree in Python with methods for insertion, deletion, and traversal (in-order, pre-order, post-order).', status: 'NOT_STARTED', courseName: 'Data Structures & Algorithms' },
-  { id: 4, course_id: 1, name: 'Machine Learning Concepts Quiz', due_at: nextWeek.toISOString(), points_possible: 50, description: 'A short quiz covering the fundamental concepts of supervised vs. unsupervised learning.', status: 'COMPLETED', courseName: 'Introduction to Artificial Intelligence' },
+  { id: 4, course_id: 1, name: 'Machine Learning Concepts Quiz', due_at: nextWeek.toISOString(), points_possible: 50, description: 'A short quiz covering the fundamental concepts of supervised vs. unsupervised learning.', status: 'COMPLETED', courseName: 'Introduction to Artificial Intelligence', submission: { score: 46, grade: '46', late: false, missing: false, excused: false, workflow_state: 'graded', submitted_at: lastWeek.toISOString(), graded_at: today.toISOString() } },
+  { id: 5, course_id: 2, name: 'Accessible Forms Lab', due_at: lastWeek.toISOString(), points_possible: 50, description: 'Build an accessible sign-up form and document how it meets WCAG 2.1 AA.', status: 'COMPLETED', courseName: 'Modern Web Development', submission: { score: 42, grade: '42', late: true, missing: false, excused: false, workflow_state: 'graded', submitted_at: lastWeek.toISOString(), graded_at: today.toISOString() }, rubric: [{ id: 'crit_1', description: 'Semantic markup', points: 20 }, { id: 'crit_2', description: 'Keyboard navigation', points: 15 }, { id: 'crit_3', description: 'Documentation', points: 15 }] },
 ];
 
-const calendarEvents: CalendarEvent[] = [
-  { id: 1, course_id: 1, title: 'AI Essay Due', date: tomorrow, type: 'assignment' },
-  { id: 2, course_id: 2, title: 'React Project Due', date: nextWeek, type: 'assignment' },
-  { id: 3, course_id: 3, title: 'Mid-term Exam', date: twoWeeks, type: 'test' },
-  { id: 4, course_id: 1, title: 'ML Quiz Due', date: nextWeek, type: 'quiz'},
+const submissionFeedback: Record<number, SubmissionFeedback> = {
+  4: { assignment_id: 4, rubric_assessment: {}, submission_comments: [{ id: 1, author_name: 'Dr. Rivera', comment: 'Solid grasp of the core concepts. Review the bias-variance trade-off.', created_at: today.toISOString() }] },
+  5: {
+    assignment_id: 5,
+    rubric_assessment: {
+      crit_1: { points: 20, comments: null },
+      crit_2: { points: 12, comments: 'Focus order skips the submit button.' },
+      crit_3: { points: 10, comments: null },
+    },
+    submission_comments: [{ id: 2, author_name: 'Prof. Chen', comment: 'Good work overall. Late penalty applied.', created_at: today.toISOString() }],
+  },
+};
+
+const assignmentGroups: Record<number, AssignmentGroup[]> = {
+  1: [
+    { id: 11, name: 'Homework', group_weight: 30, rules: { drop_lowest: 1 }, assignments: [
+      { id: 101, name: 'Homework 1', points_possible: 10, omit_from_final_grade: false, score: 9, excused: false },
+      { id: 102, name: 'Homework 2', points_possible: 10, omit_from_final_grade: false, score: 6, excused: false },
+      { id: 103, name: 'Homework 3', points_possible: 10, omit_from_final_grade: false, score: 10, excused: false },
+      { id: 104, name: 'Homework 4', points_possible: 10, omit_from_final_grade: false, score: null, excused: false },
+    ] },
+    { id: 12, name: 'Quizzes & Essays', group_weight: 30, rules: {}, assignments: [
+      { id: 1, name: 'Essay on Turing Test', points_possible: 100, omit_from_final_grade: false, score: null, excused: false },
+      { id: 4, name: 'Machine Learning Concepts Quiz', points_possible: 50, omit_from_final_grade: false, score: 46, excused: false },
+    ] },
+    { id: 13, name: 'Final Exam', group_weight: 40, rules: {}, assignments: [
+      { id: 105, name: 'Final Exam', points_possible: 200, omit_from_final_grade: false, score: null, excused: false },
+    ] },
+  ],
+  2: [
+    { id: 21, name: 'Labs', group_weight: 0, rules: {}, assignments: [
+      { id: 5, name: 'Accessible Forms Lab', points_possible: 50, omit_from_final_grade: false, score: 42, excused: false },
+      { id: 201, name: 'CSS Grid Lab', points_possible: 50, omit_from_final_grade: false, score: null, excused: true },
+    ] },
+    { id: 22, name: 'Projects', group_weight: 0, rules: {}, assignments: [
+      { id: 2, name: 'React SPA Project', points_possible: 150, omit_from_final_grade: false, score: null, excused: false },
+    ] },
+  ],
+  3: [
+    { id: 31, name: 'Assignments', group_weight: 0, rules: {}, assignments: [
+      { id: 3, name: 'Binary Search Tree Implementation', points_possible: 120, omit_from_final_grade: false, score: null, excused: false },
+    ] },
+  ],
+};
+
+const atTime = (date: Date, hours: number, minutes = 0) => {
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+const calendarEvents: SampleItem<CalendarEvent>[] = [
+  { id: 1, course_id: 1, title: 'Essay on Turing Test', date: tomorrow, type: 'assignment', source: 'canvas_assignment', assignmentId: 1 },
+  { id: 2, course_id: 2, title: 'React SPA Project', date: nextWeek, type: 'assignment', source: 'canvas_assignment', assignmentId: 2 },
+  { id: 3, course_id: 3, title: 'Binary Search Tree Implementation', date: twoWeeks, type: 'assignment', source: 'canvas_assignment', assignmentId: 3 },
+  { id: 4, course_id: 1, title: 'Machine Learning Concepts Quiz', date: nextWeek, type: 'quiz', source: 'canvas_assignment', assignmentId: 4 },
+  { id: 101, course_id: 3, title: 'Mid-term Exam', date: atTime(twoWeeks, 9), endDate: atTime(twoWeeks, 11), location: 'Hall B, Room 120', type: 'event', source: 'canvas_event' },
+  { id: 102, course_id: 1, title: 'Lecture: Search Algorithms', date: atTime(today, 10), endDate: atTime(today, 11, 30), location: 'Science Building 204', type: 'event', source: 'canvas_event' },
+  { id: 103, course_id: 2, title: 'Office Hours', date: atTime(tomorrow, 14), endDate: atTime(tomorrow, 15), location: 'Online', type: 'event', source: 'canvas_event' },
 ];
 
 const mockApiCall = <T,>(data: T): Promise<T> => {
     return new Promise(resolve => setTimeout(() => resolve(data), 500));
 }
 
-export const getCourses = (): Promise<Course[]> => mockApiCall(courses);
-export const getAssignments = (): Promise<Assignment[]> => mockApiCall(assignments);
-export const getCalendarEvents = (): Promise<CalendarEvent[]> => mockApiCall(calendarEvents);
\ No newline at end of file
+const withSampleConnection = <T,>(items: T[]): (T & { connectionId: string })[] =>
+    items.map(item => ({ ...item, connectionId: SAMPLE_CONNECTION_ID }));
+
+export const getCourses = (): Promise<Course[]> => mockApiCall(withSampleConnection(courses));
+export const getAssignments = (): Promise<Assignment[]> => mockApiCall(withSampleConnection(assignments));
+export const getCalendarEvents = (): Promise<CalendarEvent[]> => mockApiCall(withSampleConnection(calendarEvents));
+export const getSubmissionFeedback = (): Promise<Record<number, SubmissionFeedback>> => mockApiCall(submissionFeedback);
+export const getAssignmentGroups = (courseId: number): Promise<AssignmentGroup[]> => mockApiCall(assignmentGroups[courseId] || []);
+
+export const getGrades = (_connection: unknown, courseIds: number[]): Promise<Record<number, EnrollmentGrades>> => {
+    const grades: Record<number, EnrollmentGrades> = {};
+    courses.forEach(course => {
+        if (course.grades && courseIds.includes(course.id)) grades[course.id] = course.grades;
+    });
+    return mockApiCall(grades);
+};
+
+export const mockAdapter: LmsAdapter = {
+    getCourses,
+    getAssignments,
+    getEvents: getCalendarEvents,
+    getGrades,
+};
\ No newline at end of file
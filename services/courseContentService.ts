@@ -0,0 +1,66 @@
+// Turns course pages and files into plain text for the AI text tools.
+
+import DOMPurify from 'dompurify';
+import { CourseFile, CoursePage } from '../types';
+import { extractDocumentText } from './geminiService';
+
+// Gemini accepts inline documents up to about 20 MB, base64 included.
+const MAX_DOCUMENT_BYTES = 15 * 1024 * 1024;
+
+const TEXT_CONTENT_TYPES = ['application/json', 'application/xml', 'application/rtf'];
+
+export const htmlToText = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    // Keep paragraphs and list items on their own lines.
+    doc.querySelectorAll('p, li, h1, h2, h3, h4, h5, h6, tr, br, div').forEach(element => element.append('\n'));
+    return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Removes scripts, event handlers and other active content from HTML that other Canvas users wrote, such as
+ * discussion posts, announcements and course pages, so it can be rendered inside the app. `<style>` is dropped
+ * too, since it would restyle the app around it.
+ */
+export const sanitizeHtml = (html: string): string => DOMPurify.sanitize(html, { FORBID_TAGS: ['style'] });
+
+export const getPageText = (page: CoursePage): string => `${page.title}\n\n${htmlToText(page.body || '')}`;
+
+const isTextFile = (file: CourseFile) => file.content_type.startsWith('text/') || TEXT_CONTENT_TYPES.includes(file.content_type);
+
+/**
+ * Whether `getFileText` can read the file.
+ */
+export const canReadFileText = (file: CourseFile): boolean =>
+    isTextFile(file) || (file.content_type === 'application/pdf' && file.size <= MAX_DOCUMENT_BYTES);
+
+const toBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * Downloads a course file and returns its text. PDFs are transcribed by Gemini.
+ * @throws Error if the file type isn't supported or Canvas won't let the browser download it.
+ */
+export const getFileText = async (file: CourseFile): Promise<string> => {
+    if (!canReadFileText(file)) {
+        throw new Error(`"${file.display_name}" can't be read as text. Only text files and PDFs up to 15 MB are supported.`);
+    }
+    let response: Response;
+    try {
+        response = await fetch(file.url);
+    } catch {
+        // Some Canvas instances serve files from a host that doesn't allow cross-origin reads.
+        throw new Error(`Canvas didn't allow "${file.display_name}" to be read here. Download it and paste its text instead.`);
+    }
+    if (!response.ok) {
+        throw new Error(`Downloading "${file.display_name}" failed with status ${response.status}.`);
+    }
+    if (isTextFile(file)) {
+        const text = await response.text();
+        return file.content_type === 'text/html' ? htmlToText(text) : text;
+    }
+    return extractDocumentText(await toBase64(await response.blob()), file.content_type);
+};
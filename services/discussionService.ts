@@ -0,0 +1,44 @@
+// Prepares Canvas discussions for AI reply drafting, and the student's edited draft for posting.
+
+import { DiscussionEntry, DiscussionThread, DiscussionTopic } from '../types';
+import { draftDiscussionReply } from './geminiService';
+import { htmlToText } from './courseContentService';
+
+// Long discussions are cut to their earliest replies, to keep the prompt a reasonable size.
+const MAX_THREAD_CHARACTERS = 30000;
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getEntryText = (entry: DiscussionEntry): string => entry.deleted ? '(deleted post)' : `${entry.authorName}: ${htmlToText(entry.message)}`;
+
+/**
+ * The thread as plain text, with replies indented under the entries they answer.
+ */
+const getThreadText = (entries: DiscussionEntry[], depth = 0): string => entries
+    .map(entry => {
+        const indent = '  '.repeat(depth);
+        const text = getEntryText(entry).split('\n').map(line => indent + line).join('\n');
+        return entry.replies.length > 0 ? `${text}\n${getThreadText(entry.replies, depth + 1)}` : text;
+    })
+    .join('\n\n');
+
+/**
+ * Drafts a reply to the topic, or to one of its entries.
+ */
+export const draftReply = (topic: DiscussionTopic, thread: DiscussionThread | null, replyingTo: DiscussionEntry | null, enableThinking = false): Promise<string> =>
+    draftDiscussionReply(
+        `${topic.title}\n\n${htmlToText(topic.message)}`,
+        getThreadText(thread?.entries ?? []).slice(0, MAX_THREAD_CHARACTERS),
+        replyingTo ? getEntryText(replyingTo) : null,
+        { enableThinking }
+    );
+
+/**
+ * Canvas expects discussion posts as HTML. Blank lines separate paragraphs.
+ */
+export const toReplyHtml = (text: string): string => text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('');
@@ -0,0 +1,62 @@
+// Storage helpers shared by the browser extension's service worker, content script and options page.
+// Settings live in chrome.storage.sync so they follow the user between browsers; synced Canvas data
+// lives in chrome.storage.local because it can exceed sync storage quotas.
+
+import { Assignment, ExtensionSettings } from '../types';
+
+const SETTINGS_KEY = 'extensionSettings';
+const ASSIGNMENTS_KEY = 'syncedAssignments';
+
+// The extension syncs a single Canvas account; its data is tagged with this connection.
+export const EXTENSION_CONNECTION_ID = 'extension';
+
+// Assignments due within this many hours count towards the toolbar badge.
+export const DUE_SOON_HOURS = 48;
+
+/**
+ * A match pattern for pages on the student's Canvas host. Match patterns can't carry a port, so it is dropped.
+ * @param path The path part of the pattern. Defaults to every page on the host.
+ */
+export const getCanvasMatchPattern = (canvasUrl: string, path = '/*'): string => {
+    const { protocol, hostname } = new URL(canvasUrl);
+    return `${protocol}//${hostname}${path}`;
+};
+
+export const getExtensionSettings = async (): Promise<ExtensionSettings | null> => {
+    const result = await chrome.storage.sync.get(SETTINGS_KEY);
+    return (result[SETTINGS_KEY] as ExtensionSettings | undefined) ?? null;
+};
+
+export const saveExtensionSettings = async (settings: ExtensionSettings): Promise<void> => {
+    await chrome.storage.sync.set({ [SETTINGS_KEY]: settings });
+};
+
+/**
+ * Registers a callback for when the options page saves new settings.
+ */
+export const onExtensionSettingsChanged = (callback: () => void) => {
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName === 'sync' && changes[SETTINGS_KEY]) callback();
+    });
+};
+
+export const getSyncedAssignments = async (): Promise<Assignment[]> => {
+    const result = await chrome.storage.local.get(ASSIGNMENTS_KEY);
+    return (result[ASSIGNMENTS_KEY] as Assignment[] | undefined) ?? [];
+};
+
+export const saveSyncedAssignments = async (assignments: Assignment[]): Promise<void> => {
+    await chrome.storage.local.set({ [ASSIGNMENTS_KEY]: assignments });
+};
+
+/**
+ * Whether an assignment is due within DUE_SOON_HOURS and still needs work.
+ * Anything already submitted or graded in Canvas is left out.
+ */
+export const isDueSoon = (assignment: Assignment, now: Date = new Date()): boolean => {
+    if (!assignment.due_at) return false;
+    const dueTime = new Date(assignment.due_at).getTime();
+    if (dueTime < now.getTime() || dueTime > now.getTime() + DUE_SOON_HOURS * 60 * 60 * 1000) return false;
+    const submission = assignment.submission;
+    return !submission || (!submission.submitted_at && submission.workflow_state !== 'graded' && !submission.excused);
+};
@@ -0,0 +1,69 @@
+// Calendars imported from outside the LMS. Subscribed calendars are downloaded through the proxy;
+// uploaded .ics files are kept in Firestore so they follow the user between devices.
+
+import { addDays, addYears } from 'date-fns';
+import { doc, getDoc, setDoc, deleteDoc } from 'firebase/firestore';
+import { CalendarEvent, ExternalCalendar } from '../types';
+import { db } from './firebaseService';
+import { fetchCalendarUrl } from './canvasApiService';
+import { ParsedCalendar, parseICalendar } from './icsParser';
+
+// Firestore documents are limited to 1 MiB.
+const MAX_UPLOAD_CHARACTERS = 900000;
+
+// Recurring events are expanded this far around today.
+const LOOKBACK_DAYS = 90;
+
+const getCalendarImportRef = (uid: string, calendarId: string) => doc(db, 'users', uid, 'calendarImports', calendarId);
+
+export const parseCalendarText = (text: string): ParsedCalendar => {
+    const now = new Date();
+    return parseICalendar(text, { from: addDays(now, -LOOKBACK_DAYS), to: addYears(now, 1) });
+};
+
+/**
+ * Downloads a subscribed calendar, or reads an uploaded one, and parses it.
+ */
+export const loadExternalCalendar = async (uid: string, calendar: ExternalCalendar): Promise<ParsedCalendar> => {
+    if (calendar.url) {
+        return parseCalendarText(await fetchCalendarUrl(calendar.url));
+    }
+    const snapshot = await getDoc(getCalendarImportRef(uid, calendar.id));
+    if (!snapshot.exists()) {
+        throw new Error('The uploaded calendar file is missing. Remove it and upload it again.');
+    }
+    return parseCalendarText(snapshot.data().ics);
+};
+
+/**
+ * Keeps an uploaded .ics file for the user.
+ * @throws Error if the file is too large to store.
+ */
+export const saveCalendarFile = async (uid: string, calendarId: string, text: string): Promise<void> => {
+    if (text.length > MAX_UPLOAD_CHARACTERS) {
+        throw new Error('This calendar file is too large to upload. Subscribe to it by URL instead.');
+    }
+    await setDoc(getCalendarImportRef(uid, calendarId), { ics: text, importedAt: new Date().toISOString() });
+};
+
+export const deleteCalendarFile = (uid: string, calendarId: string): Promise<void> => deleteDoc(getCalendarImportRef(uid, calendarId));
+
+/**
+ * Converts a parsed calendar into entries for `CalendarView` and the Dashboard.
+ */
+export const toCalendarEvents = (calendar: ExternalCalendar, parsed: ParsedCalendar): CalendarEvent[] =>
+    parsed.events.map((event, index) => ({
+        id: index + 1,
+        connectionId: calendar.id,
+        course_id: 0,
+        title: event.title,
+        date: event.start,
+        endDate: event.end,
+        allDay: event.allDay,
+        location: event.location,
+        type: 'external',
+        source: 'ics_import',
+        assignmentId: null,
+        url: event.url,
+        courseName: calendar.name,
+    }));
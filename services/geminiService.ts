@@ -1,7 +1,9 @@
 import { GoogleGenAI, Type, Chat, LiveServerMessage, Modality, Blob, Operation } from "@google/genai";
-import { Assignment, StudyPlan, Summary, ChatMessage, AiTutorMessage, GroundingSource } from "../types";
+import { Assignment, StudyPlan, Summary, ChatMessage, AiTutorMessage, GroundingSource, SyllabusExtraction } from "../types";
 
 let ai: GoogleGenAI | null = null;
+// A key supplied at runtime, e.g. from the extension's options page, instead of `process.env.API_KEY`.
+let configuredApiKey: string | null = null;
 const studyPlanModel = "gemini-2.5-pro";
 const summaryModel = "gemini-2.5-pro";
 const videoModel = "gemini-2.5-flash";
@@ -13,8 +15,17 @@ const imageEditModel = 'gemini-2.5-flash-image';
 const ttsModel = 'gemini-2.5-flash-preview-tts';
 const liveModel = 'gemini-2.5-flash-native-audio-preview-09-2025';
 
+/**
+ * Uses the given key for every following request. The browser extension calls this with the key the student
+ * entered, since its bundles don't have `process.env`.
+ */
+export const setGeminiApiKey = (key: string | null) => {
+    configuredApiKey = key || null;
+    ai = null;
+};
+
 const ensureClient = (userSelectedKey: boolean = false): GoogleGenAI => {
-    const key = process.env.API_KEY;
+    const key = configuredApiKey ?? (typeof process !== 'undefined' ? process.env.API_KEY : undefined);
 
     if (!key) {
         // This is a user-facing error that the UI will catch and display.
@@ -173,6 +184,89 @@ Create a JSON study plan. Make it practical, actionable, and tailored to the tim
     }
 };
 
+/**
+ * Pulls the grading breakdown, late policy, office hours and dated items out of a course syllabus.
+ * @param syllabus The syllabus as plain text.
+ */
+export const extractSyllabus = async (syllabus: string, courseName: string, options?: GenerationOptions): Promise<SyllabusExtraction> => {
+    const client = ensureClient();
+    const prompt = `You are reading the syllabus for the course "${courseName}". Today is ${new Date().toDateString()}.
+Extract:
+- The grading breakdown: each graded category and its weight as a percent of the final grade.
+- The late work policy, summarized in one or two sentences, or null if there isn't one.
+- Office hours: who holds them, when, and where.
+- Every dated item: exams, quizzes, major due dates, and class events such as holidays or no-class days. Give dates as yyyy-MM-dd, inferring the year from the term, and a 24-hour HH:mm time only if the syllabus gives one. Skip anything without a specific date.
+Only include what the syllabus actually says. Output ONLY the JSON object.
+Syllabus:
+${syllabus}`;
+
+    const schema: any = {
+        type: Type.OBJECT,
+        properties: {
+            gradingBreakdown: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        weight: { type: Type.NUMBER }
+                    },
+                    required: ['name', 'weight']
+                }
+            },
+            latePolicy: { type: Type.STRING, nullable: true },
+            officeHours: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        who: { type: Type.STRING },
+                        when: { type: Type.STRING },
+                        location: { type: Type.STRING, nullable: true }
+                    },
+                    required: ['who', 'when']
+                }
+            },
+            events: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        title: { type: Type.STRING },
+                        date: { type: Type.STRING },
+                        time: { type: Type.STRING, nullable: true },
+                        type: { type: Type.STRING, enum: ['test', 'quiz', 'assignment', 'event'] }
+                    },
+                    required: ['title', 'date', 'type']
+                }
+            }
+        },
+        required: ['gradingBreakdown', 'officeHours', 'events']
+    };
+
+    const config: any = { responseMimeType: "application/json", responseSchema: schema };
+    if (options?.enableThinking) {
+        config.thinkingConfig = { thinkingBudget: 32768 };
+    }
+
+    try {
+        const response = await client.models.generateContent({
+            model: studyPlanModel,
+            contents: prompt,
+            config: config
+        });
+        const extraction = JSON.parse(response.text ?? '{}');
+        return {
+            gradingBreakdown: extraction.gradingBreakdown ?? [],
+            latePolicy: extraction.latePolicy || null,
+            officeHours: (extraction.officeHours ?? []).map((hours: any) => ({ ...hours, location: hours.location || null })),
+            events: (extraction.events ?? []).map((event: any) => ({ ...event, time: event.time || null })),
+        };
+    } catch(error) {
+        return handleApiError(error);
+    }
+};
+
 export const generateSummary = async (content: string, options?: GenerationOptions): Promise<Summary> => {
     const client = ensureClient();
     const prompt = `You are an expert educator. Summarize this educational content in a structured way.
@@ -302,6 +396,39 @@ export const generateNotesFromText = async (content: string, options?: Generatio
     }
 };
 
+/**
+ * Drafts a reply to a class discussion for the student to edit before posting.
+ * @param topic The discussion prompt, as plain text.
+ * @param thread The replies so far, as plain text, for context.
+ * @param replyingTo The entry being replied to, or null for a reply to the topic itself.
+ */
+export const draftDiscussionReply = async (topic: string, thread: string, replyingTo: string | null, options?: GenerationOptions): Promise<string> => {
+    const client = ensureClient();
+    const prompt = `You are helping a student write a post for a graded class discussion. Draft a reply in the student's voice:
+    thoughtful, specific to the prompt, and conversational rather than essay-like. ${replyingTo ? "It responds to the classmate's post below, building on or respectfully challenging it." : 'It answers the discussion prompt directly.'}
+    Don't repeat points other students have already made. Reply with the post only, in plain text paragraphs, without a greeting or sign-off placeholder.
+
+    Discussion prompt:
+    ${topic}
+    ${replyingTo ? `\n    Post being replied to:\n    ${replyingTo}\n` : ''}
+    Replies so far:
+    ${thread || '(none yet)'}`;
+    const config: any = {};
+    if (options?.enableThinking) {
+        config.thinkingConfig = { thinkingBudget: 32768 };
+    }
+    try {
+        const response = await client.models.generateContent({
+            model: chatModel,
+            contents: prompt,
+            config: config,
+        });
+        return (response.text ?? '').trim();
+    } catch (error) {
+        return handleApiError(error);
+    }
+};
+
 export const estimateAssignmentTime = async (assignment: Assignment): Promise<string> => {
     const client = ensureClient();
     const prompt = `Based on the following assignment details, estimate the time required to complete it. Provide a concise estimate like "2-3 hours" or "45 minutes".
@@ -419,6 +546,27 @@ export const analyzeVideo = async (base64Data: string, mimeType: string, prompt:
     }
 };
 
+/**
+ * Reads out the text of a document, such as a PDF, so the text tools can work with it.
+ */
+export const extractDocumentText = async (base64Data: string, mimeType: string): Promise<string> => {
+    const client = ensureClient();
+    try {
+        const response = await client.models.generateContent({
+            model: chatModel,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType, data: base64Data } },
+                    { text: 'Transcribe the full text of this document. Keep its headings and lists, and describe any figures briefly in brackets. Reply with the text only.' },
+                ],
+            },
+        });
+        return response.text ?? '';
+    } catch (error) {
+        return handleApiError(error);
+    }
+};
+
 // --- Image Generation Service ---
 export const generateImage = async (prompt: string, aspectRatio: string): Promise<string> => {
     const client = ensureClient();
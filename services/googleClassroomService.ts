@@ -0,0 +1,226 @@
+// Google Classroom, read through the proxy with a Google access token the student grants with a Google
+// popup. Classroom has no calendar or course grade of its own, so events are the coursework due dates and
+// grades are worked out from the returned work.
+
+import { GoogleAuthProvider, linkWithPopup, reauthenticateWithPopup } from 'firebase/auth';
+import { auth } from './firebaseService';
+import { Course, Assignment, AssignmentStatus, CalendarEvent, CanvasConnection, EnrollmentGrades, LmsAdapter, SyncProgress } from '../types';
+import { fetchFromProxy } from './canvasApiService';
+import { hasCanvasCredentials } from './canvasConnections';
+
+// Classroom connections are saved with this URL; the proxy always calls Google's API host.
+export const GOOGLE_CLASSROOM_URL = 'https://classroom.google.com';
+
+const CLASSROOM_SCOPES = [
+    'https://www.googleapis.com/auth/classroom.courses.readonly',
+    'https://www.googleapis.com/auth/classroom.coursework.me.readonly',
+];
+
+const MAX_PAGES = 20;
+
+// A sync asks for courses, assignments, events and grades separately, but Classroom serves them all from
+// the same coursework, so one download is shared by the calls made within this window.
+const SNAPSHOT_TTL_MS = 60 * 1000;
+
+interface ClassroomCourseWork {
+    courseId: number;
+    work: any[];
+    submissions: any[];
+}
+
+interface ClassroomSnapshot {
+    courses: any[];
+    courseWork: ClassroomCourseWork[];
+}
+
+const snapshots = new Map<string, { promise: Promise<ClassroomSnapshot>; expiresAt: number }>();
+
+/**
+ * Asks the signed-in user to grant read access to their Google Classroom courses.
+ * The account is linked to Google the first time; afterwards the popup only renews the grant.
+ * @returns A Google access token. Google tokens expire after about an hour, after which the student reconnects.
+ */
+export const requestClassroomAccess = async (): Promise<string> => {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Sign in before connecting Google Classroom.');
+
+    const provider = new GoogleAuthProvider();
+    CLASSROOM_SCOPES.forEach(scope => provider.addScope(scope));
+    const isLinked = user.providerData.some(info => info.providerId === GoogleAuthProvider.PROVIDER_ID);
+    const result = isLinked ? await reauthenticateWithPopup(user, provider) : await linkWithPopup(user, provider);
+
+    const accessToken = GoogleAuthProvider.credentialFromResult(result)?.accessToken;
+    if (!accessToken) throw new Error('Google did not grant access to Classroom.');
+    return accessToken;
+};
+
+/**
+ * Fetches every page of a Classroom list by following `nextPageToken`, up to `MAX_PAGES`.
+ */
+const fetchAllPages = async (endpoint: string, key: string, connection: CanvasConnection): Promise<any[]> => {
+    const items: any[] = [];
+    let pageToken: string | undefined;
+    let page = 0;
+    do {
+        const separator = endpoint.includes('?') ? '&' : '?';
+        const data = await fetchFromProxy(pageToken ? `${endpoint}${separator}pageToken=${encodeURIComponent(pageToken)}` : endpoint, connection);
+        items.push(...(data?.[key] || []));
+        pageToken = data?.nextPageToken;
+        page++;
+    } while (pageToken && page < MAX_PAGES);
+    return items;
+};
+
+const downloadSnapshot = async (connection: CanvasConnection): Promise<ClassroomSnapshot> => {
+    const courses = await fetchAllPages('courses?studentId=me&courseStates=ACTIVE&pageSize=100', 'courses', connection);
+    const courseWork = await Promise.all(courses.map(async (course): Promise<ClassroomCourseWork> => {
+        const [work, submissions] = await Promise.all([
+            fetchAllPages(`courses/${course.id}/courseWork?pageSize=100`, 'courseWork', connection),
+            fetchAllPages(`courses/${course.id}/courseWork/-/studentSubmissions?userId=me&pageSize=100`, 'studentSubmissions', connection),
+        ]);
+        return { courseId: Number(course.id), work, submissions };
+    }));
+    return { courses, courseWork };
+};
+
+const getSnapshot = (connection: CanvasConnection): Promise<ClassroomSnapshot> => {
+    const cached = snapshots.get(connection.id);
+    if (cached && cached.expiresAt > Date.now()) return cached.promise;
+
+    const promise = downloadSnapshot(connection);
+    snapshots.set(connection.id, { promise, expiresAt: Date.now() + SNAPSHOT_TTL_MS });
+    // A failed download isn't reused; the next sync tries again.
+    promise.catch(() => snapshots.delete(connection.id));
+    return promise;
+};
+
+// Classroom due dates are in UTC and may leave out the time, which means the end of the day.
+// A time leaves out fields that are zero, so `{}` is midnight.
+const getDueAt = (work: any): string | null => {
+    if (!work.dueDate) return null;
+    const { year, month, day } = work.dueDate;
+    const { hours = 0, minutes = 0 } = work.dueTime ?? { hours: 23, minutes: 59 };
+    return new Date(Date.UTC(year, month - 1, day, hours, minutes)).toISOString();
+};
+
+const mapSubmission = (submission: any): Pick<Assignment, 'status' | 'submission'> => {
+    if (!submission) return { status: 'NOT_STARTED', submission: null };
+    const score = typeof submission.assignedGrade === 'number' ? submission.assignedGrade : null;
+    const isTurnedIn = submission.state === 'TURNED_IN' || submission.state === 'RETURNED';
+    const status: AssignmentStatus = score !== null || submission.state === 'RETURNED' ? 'COMPLETED'
+        : isTurnedIn ? 'IN_PROGRESS'
+        : 'NOT_STARTED';
+    return {
+        status,
+        submission: {
+            score,
+            grade: score !== null ? String(score) : null,
+            late: !!submission.late,
+            missing: false,
+            excused: false,
+            workflow_state: score !== null ? 'graded' : isTurnedIn ? 'submitted' : 'unsubmitted',
+            submitted_at: isTurnedIn ? submission.updateTime ?? null : null,
+            graded_at: score !== null ? submission.updateTime ?? null : null,
+        },
+    };
+};
+
+const isReady = (connection: CanvasConnection): boolean => hasCanvasCredentials(connection);
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const getCourses = async (connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Course[]> => {
+    if (!isReady(connection)) return [];
+    const { courses } = await getSnapshot(connection);
+    onProgress?.({ resource: 'courses', page: 1, itemsFetched: courses.length });
+    return courses.map(course => ({
+        id: Number(course.id),
+        connectionId: connection.id,
+        name: course.name,
+        course_code: course.section || '',
+    }));
+};
+
+export const getAssignments = async (connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Assignment[]> => {
+    if (!isReady(connection)) return [];
+    const { courseWork } = await getSnapshot(connection);
+
+    const assignments = courseWork.flatMap(({ courseId, work, submissions }) => {
+        const submissionsByWork = new Map(submissions.map(s => [s.courseWorkId, s]));
+        return work.map((w): Assignment => ({
+            id: Number(w.id),
+            connectionId: connection.id,
+            name: w.title,
+            // Coursework descriptions are plain text; descriptions are rendered as HTML.
+            description: w.description ? `<p>${escapeHtml(w.description).replace(/\n/g, '<br>')}</p>` : null,
+            due_at: getDueAt(w),
+            points_possible: w.maxPoints ?? null,
+            course_id: courseId,
+            courseName: '', // Enriched in the `useCanvasData` hook.
+            submission_types: [],
+            html_url: w.alternateLink || null,
+            ...mapSubmission(submissionsByWork.get(w.id)),
+        }));
+    });
+    onProgress?.({ resource: 'assignments', page: 1, itemsFetched: assignments.length });
+
+    return assignments.sort((a, b) => (a.due_at ? new Date(a.due_at).getTime() : Infinity) - (b.due_at ? new Date(b.due_at).getTime() : Infinity));
+};
+
+export const getEvents = async (connection: CanvasConnection, courseIds: number[], onProgress?: (progress: SyncProgress) => void): Promise<CalendarEvent[]> => {
+    const assignments = await getAssignments(connection);
+    const events = assignments
+        .filter(a => a.due_at && courseIds.includes(a.course_id))
+        .map((a): CalendarEvent => ({
+            id: a.id,
+            connectionId: connection.id,
+            course_id: a.course_id,
+            title: a.name,
+            date: new Date(a.due_at!),
+            endDate: null,
+            allDay: false,
+            location: null,
+            type: 'assignment',
+            source: 'canvas_assignment',
+            assignmentId: a.id,
+            url: a.html_url,
+        }));
+    onProgress?.({ resource: 'calendar', page: 1, itemsFetched: events.length });
+    return events;
+};
+
+/**
+ * Works out a percentage for each course from the graded work Classroom returned.
+ * Courses without graded work are left out.
+ */
+export const getGrades = async (connection: CanvasConnection, courseIds: number[]): Promise<Record<number, EnrollmentGrades>> => {
+    const assignments = await getAssignments(connection);
+    const totals = new Map<number, { earned: number; possible: number }>();
+    assignments
+        .filter(a => courseIds.includes(a.course_id) && a.submission?.score != null && a.points_possible)
+        .forEach(a => {
+            const total = totals.get(a.course_id) ?? { earned: 0, possible: 0 };
+            total.earned += a.submission!.score!;
+            total.possible += a.points_possible!;
+            totals.set(a.course_id, total);
+        });
+
+    const grades: Record<number, EnrollmentGrades> = {};
+    totals.forEach(({ earned, possible }, courseId) => {
+        grades[courseId] = {
+            current_score: Math.round((earned / possible) * 10000) / 100,
+            final_score: null,
+            current_grade: null,
+            final_grade: null,
+        };
+    });
+    return grades;
+};
+
+export const googleClassroomAdapter: LmsAdapter = {
+    getCourses,
+    getAssignments,
+    getEvents,
+    getGrades,
+};
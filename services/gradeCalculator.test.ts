@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { AssignmentGroup, GradebookAssignment } from '../types';
+import { applyDropRules, calculateGrade, scoreNeededForTarget, ScoredItem } from './gradeCalculator';
+
+const item = (assignmentId: number, score: number, total: number): ScoredItem => ({ assignmentId, score, total });
+
+const assignment = (id: number, score: number | null, pointsPossible: number, overrides: Partial<GradebookAssignment> = {}): GradebookAssignment => ({
+    id,
+    name: `Assignment ${id}`,
+    points_possible: pointsPossible,
+    omit_from_final_grade: false,
+    score,
+    excused: false,
+    ...overrides,
+});
+
+const group = (id: number, weight: number, assignments: GradebookAssignment[], rules: AssignmentGroup['rules'] = {}): AssignmentGroup => ({
+    id,
+    name: `Group ${id}`,
+    group_weight: weight,
+    rules,
+    assignments,
+});
+
+const keptIds = (items: ScoredItem[]) => items.map(i => i.assignmentId).sort((a, b) => a - b);
+
+describe('applyDropRules', () => {
+    it('keeps every item without drop rules', () => {
+        const items = [item(1, 5, 10), item(2, 9, 10)];
+        expect(applyDropRules(items, {})).toEqual(items);
+    });
+
+    it('drops the lowest score', () => {
+        expect(keptIds(applyDropRules([item(1, 5, 10), item(2, 9, 10), item(3, 8, 10)], { drop_lowest: 1 }))).toEqual([2, 3]);
+    });
+
+    it('drops the item that raises the grade most, not the lowest percentage', () => {
+        // Dropping the 0/1 leaves 59/110; dropping the 50/100 leaves 9/11.
+        expect(keptIds(applyDropRules([item(1, 9, 10), item(2, 0, 1), item(3, 50, 100)], { drop_lowest: 1 }))).toEqual([1, 2]);
+    });
+
+    it('drops the highest score', () => {
+        expect(keptIds(applyDropRules([item(1, 5, 10), item(2, 9, 10), item(3, 8, 10)], { drop_highest: 1 }))).toEqual([1, 3]);
+    });
+
+    it('drops lowest first, then highest from what remains', () => {
+        const items = [item(1, 2, 10), item(2, 5, 10), item(3, 8, 10), item(4, 10, 10)];
+        expect(keptIds(applyDropRules(items, { drop_lowest: 1, drop_highest: 1 }))).toEqual([2, 3]);
+    });
+
+    it('always counts never_drop items', () => {
+        const items = [item(1, 0, 10), item(2, 5, 10), item(3, 10, 10)];
+        expect(keptIds(applyDropRules(items, { drop_lowest: 1, never_drop: [1] }))).toEqual([1, 3]);
+    });
+
+    it('keeps never_drop items when nothing else can be dropped', () => {
+        const items = [item(1, 0, 10), item(2, 5, 10)];
+        expect(keptIds(applyDropRules(items, { drop_lowest: 2, never_drop: [1, 2] }))).toEqual([1, 2]);
+    });
+
+    it('keeps at least one item when asked to drop them all', () => {
+        expect(keptIds(applyDropRules([item(1, 4, 10), item(2, 7, 10)], { drop_lowest: 5 }))).toEqual([2]);
+    });
+
+    it('ignores drop_highest when it would leave nothing after drop_lowest', () => {
+        const items = [item(1, 4, 10), item(2, 7, 10), item(3, 9, 10)];
+        expect(keptIds(applyDropRules(items, { drop_lowest: 2, drop_highest: 1 }))).toEqual([3]);
+    });
+
+    it('ranks by raw score when no points are possible', () => {
+        expect(keptIds(applyDropRules([item(1, 2, 0), item(2, 5, 0)], { drop_lowest: 1 }))).toEqual([2]);
+    });
+});
+
+describe('calculateGrade', () => {
+    it('ignores excused work in both grades', () => {
+        const result = calculateGrade([group(1, 0, [assignment(1, 8, 10), assignment(2, null, 10, { excused: true })])], false);
+        expect(result.currentScore).toBeCloseTo(80);
+        expect(result.finalScore).toBeCloseTo(80);
+    });
+
+    it('leaves ungraded work out of the current grade and counts it as zero in the final grade', () => {
+        const result = calculateGrade([group(1, 0, [assignment(1, 8, 10), assignment(2, null, 10)])], false);
+        expect(result.currentScore).toBeCloseTo(80);
+        expect(result.finalScore).toBeCloseTo(40);
+    });
+
+    it('ignores work omitted from the final grade', () => {
+        const result = calculateGrade([group(1, 0, [assignment(1, 8, 10), assignment(2, 0, 10, { omit_from_final_grade: true })])], false);
+        expect(result.currentScore).toBeCloseTo(80);
+    });
+
+    it('is null when nothing has been graded', () => {
+        const result = calculateGrade([group(1, 0, [assignment(1, null, 10)])], false);
+        expect(result.currentScore).toBeNull();
+        expect(result.finalScore).toBe(0);
+    });
+
+    it('is null when no points are possible', () => {
+        expect(calculateGrade([group(1, 0, [assignment(1, 3, 0)])], false).currentScore).toBeNull();
+    });
+
+    it('scales weights up to 100% when groups have nothing graded yet', () => {
+        const groups = [group(1, 40, [assignment(1, 8, 10)]), group(2, 60, [assignment(2, null, 10)])];
+        const result = calculateGrade(groups, true);
+        expect(result.currentScore).toBeCloseTo(80);
+        expect(result.finalScore).toBeCloseTo(32);
+    });
+
+    it('scales weights that add up to less than 100%', () => {
+        const groups = [group(1, 20, [assignment(1, 10, 10)]), group(2, 30, [assignment(2, 5, 10)])];
+        expect(calculateGrade(groups, true).currentScore).toBeCloseTo(70);
+    });
+
+    it('does not scale weights that add up to more than 100%', () => {
+        const groups = [group(1, 60, [assignment(1, 10, 10)]), group(2, 60, [assignment(2, 5, 10)])];
+        expect(calculateGrade(groups, true).currentScore).toBeCloseTo(90);
+    });
+
+    it('is null when every graded group has no weight', () => {
+        expect(calculateGrade([group(1, 0, [assignment(1, 8, 10)])], true).currentScore).toBeNull();
+    });
+
+    it('uses what-if scores in place of real ones and applies drop rules to them', () => {
+        const groups = [group(1, 0, [assignment(1, 2, 10), assignment(2, 6, 10), assignment(3, null, 10)], { drop_lowest: 1 })];
+        const result = calculateGrade(groups, false, { 3: 10 });
+        expect(result.currentScore).toBeCloseTo(80);
+        expect(result.currentGroups[0].droppedAssignmentIds).toEqual([1]);
+    });
+});
+
+describe('scoreNeededForTarget', () => {
+    const missing = assignment(2, null, 10);
+    const groups = [group(1, 0, [assignment(1, 8, 10), missing])];
+
+    it('finds the lowest score that reaches the target', () => {
+        expect(scoreNeededForTarget(groups, false, {}, missing, 85)).toBeCloseTo(9, 1);
+    });
+
+    it('is 0 when the target is met whatever the score', () => {
+        expect(scoreNeededForTarget(groups, false, {}, missing, 30)).toBe(0);
+    });
+
+    it('is null when full marks are not enough', () => {
+        expect(scoreNeededForTarget(groups, false, {}, missing, 95)).toBeNull();
+    });
+});
@@ -0,0 +1,200 @@
+// Recomputes course grades from assignment groups the same way Canvas's grade calculator does.
+// Everything in this module is pure: it takes plain data and never touches the network or storage,
+// so the what-if calculator can reuse it for hypothetical scores.
+
+import { AssignmentGroup, AssignmentGroupRules, GradebookAssignment } from '../types';
+
+// Hypothetical scores entered by the user, keyed by assignment ID.
+export type WhatIfScores = Record<number, number>;
+
+export interface ScoredItem {
+    assignmentId: number;
+    score: number;
+    total: number;
+}
+
+export interface GroupResult {
+    id: number;
+    name: string;
+    weight: number;
+    score: number;
+    possible: number;
+    droppedAssignmentIds: number[];
+}
+
+export interface GradeResult {
+    // Percentages (0-100), or null when nothing counts towards the grade yet.
+    currentScore: number | null;
+    finalScore: number | null;
+    currentGroups: GroupResult[];
+    finalGroups: GroupResult[];
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Keeps `keep` items out of `items`, choosing the set whose combined ratio (with `cantDrop` included)
+ * is as high as possible, or as low as possible when `keepLowest` is set.
+ * Like Canvas, this binary-searches the ratio q for which the best achievable sum of
+ * (score - q * total) is zero, rather than simply dropping the lowest percentages.
+ */
+const keepByRatio = (items: ScoredItem[], cantDrop: ScoredItem[], keep: number, keepLowest: boolean): ScoredItem[] => {
+    keep = Math.max(1, keep);
+    if (items.length <= keep) return items;
+
+    const maxTotal = Math.max(...items.map(item => item.total), ...cantDrop.map(item => item.total));
+    const rank = (q: number): { value: number; kept: ScoredItem[] } => {
+        const rated = items
+            .map(item => ({ item, rating: item.score - q * item.total }))
+            .sort((a, b) => keepLowest ? a.rating - b.rating : b.rating - a.rating)
+            .slice(0, keep);
+        const cantDropValue = sum(cantDrop.map(item => item.score - q * item.total));
+        return { value: sum(rated.map(r => r.rating)) + cantDropValue, kept: rated.map(r => r.item) };
+    };
+
+    const allItems = [...items, ...cantDrop];
+    let qLow = 0;
+    let qHigh = Math.max(1, ...allItems.filter(i => i.total > 0).map(i => i.score / i.total));
+    const threshold = 1 / (2 * keep * maxTotal * maxTotal);
+
+    let { value, kept } = rank((qLow + qHigh) / 2);
+    while (qHigh - qLow >= threshold) {
+        const qMid = (qLow + qHigh) / 2;
+        ({ value, kept } = rank(qMid));
+        if (value > 0) {
+            qLow = qMid;
+        } else if (value < 0) {
+            qHigh = qMid;
+        } else {
+            break;
+        }
+    }
+    return kept;
+};
+
+/**
+ * Applies an assignment group's drop rules and returns the items that still count.
+ * Mirrors Canvas: `never_drop` items always count, at least one item is always kept,
+ * lowest scores are dropped first and highest scores are then dropped from what remains.
+ */
+export const applyDropRules = (items: ScoredItem[], rules: AssignmentGroupRules): ScoredItem[] => {
+    let dropLowest = rules.drop_lowest || 0;
+    let dropHighest = rules.drop_highest || 0;
+    if (!dropLowest && !dropHighest) return items;
+
+    const neverDrop = new Set(rules.never_drop || []);
+    const cantDrop = items.filter(item => neverDrop.has(item.assignmentId));
+    const droppable = items.filter(item => !neverDrop.has(item.assignmentId));
+    if (droppable.length === 0) return cantDrop;
+
+    dropLowest = Math.min(dropLowest, droppable.length - 1);
+    dropHighest = dropLowest + dropHighest >= droppable.length ? 0 : dropHighest;
+    const keepHighest = droppable.length - dropLowest;
+    const keepLowest = keepHighest - dropHighest;
+
+    let kept: ScoredItem[];
+    if (droppable.some(item => item.total > 0)) {
+        const highest = keepByRatio(droppable, cantDrop, keepHighest, false);
+        kept = keepByRatio(highest, cantDrop, keepLowest, true);
+    } else {
+        // With no points possible there is no ratio to optimise, so rank by raw score.
+        const byScoreDesc = [...droppable].sort((a, b) => b.score - a.score);
+        kept = byScoreDesc.slice(0, keepHighest).slice(-Math.max(1, keepLowest));
+    }
+    return [...kept, ...cantDrop];
+};
+
+/**
+ * Totals one assignment group.
+ * @param countUngradedAsZero False for the "current" grade (ungraded work is ignored),
+ * true for the "final" grade (ungraded work counts as zero).
+ */
+const calculateGroup = (group: AssignmentGroup, whatIf: WhatIfScores, countUngradedAsZero: boolean): GroupResult => {
+    const items: ScoredItem[] = group.assignments
+        .filter(a => !a.omit_from_final_grade && !a.excused)
+        .map(a => ({ assignment: a, score: getEffectiveScore(a, whatIf) }))
+        .filter(({ score }) => score !== null || countUngradedAsZero)
+        .map(({ assignment, score }) => ({ assignmentId: assignment.id, score: score ?? 0, total: assignment.points_possible || 0 }));
+
+    const kept = applyDropRules(items, group.rules);
+    const keptIds = new Set(kept.map(item => item.assignmentId));
+
+    return {
+        id: group.id,
+        name: group.name,
+        weight: group.group_weight || 0,
+        score: sum(kept.map(item => item.score)),
+        possible: sum(kept.map(item => item.total)),
+        droppedAssignmentIds: items.filter(item => !keptIds.has(item.assignmentId)).map(item => item.assignmentId),
+    };
+};
+
+const combineGroups = (groups: GroupResult[], weighted: boolean): number | null => {
+    if (!weighted) {
+        const possible = sum(groups.map(g => g.possible));
+        return possible > 0 ? (sum(groups.map(g => g.score)) / possible) * 100 : null;
+    }
+
+    // Groups with nothing to grade don't count, and Canvas scales the rest up when
+    // the remaining weights add up to less than 100%.
+    const relevant = groups.filter(g => g.possible > 0);
+    const fullWeight = sum(relevant.map(g => g.weight));
+    if (fullWeight === 0) return null;
+    const grade = sum(relevant.map(g => (g.score / g.possible) * g.weight));
+    return fullWeight < 100 ? (grade * 100) / fullWeight : grade;
+};
+
+/**
+ * The score used for an assignment: the user's hypothetical score if one was entered,
+ * otherwise the real Canvas score (null when ungraded).
+ */
+export const getEffectiveScore = (assignment: GradebookAssignment, whatIf: WhatIfScores): number | null => {
+    return whatIf[assignment.id] ?? assignment.score;
+};
+
+/**
+ * Computes the current and final course grade from assignment groups and any what-if scores.
+ * @param weighted Whether the course applies assignment group weights.
+ */
+export const calculateGrade = (groups: AssignmentGroup[], weighted: boolean, whatIf: WhatIfScores = {}): GradeResult => {
+    const currentGroups = groups.map(group => calculateGroup(group, whatIf, false));
+    const finalGroups = groups.map(group => calculateGroup(group, whatIf, true));
+    return {
+        currentScore: combineGroups(currentGroups, weighted),
+        finalScore: combineGroups(finalGroups, weighted),
+        currentGroups,
+        finalGroups,
+    };
+};
+
+/**
+ * Finds the lowest score on one assignment that brings the current grade up to `targetPercentage`.
+ * @returns The required score, 0 if the target is already met regardless, or null if it can't be
+ * reached even with full marks.
+ */
+export const scoreNeededForTarget = (
+    groups: AssignmentGroup[],
+    weighted: boolean,
+    whatIf: WhatIfScores,
+    assignment: GradebookAssignment,
+    targetPercentage: number
+): number | null => {
+    const gradeWith = (score: number) => calculateGrade(groups, weighted, { ...whatIf, [assignment.id]: score }).currentScore ?? 0;
+    const maxScore = assignment.points_possible;
+
+    if (gradeWith(0) >= targetPercentage) return 0;
+    if (gradeWith(maxScore) < targetPercentage) return null;
+
+    // The grade never decreases as this score rises, so a binary search converges on the answer.
+    let low = 0;
+    let high = maxScore;
+    while (high - low > 0.01) {
+        const mid = (low + high) / 2;
+        if (gradeWith(mid) >= targetPercentage) {
+            high = mid;
+        } else {
+            low = mid;
+        }
+    }
+    return Math.ceil(high * 100) / 100;
+};
@@ -0,0 +1,507 @@
+// Reads iCalendar (RFC 5545) files imported from other calendars. Recurring events are expanded into
+// their occurrences within a date window: RRULE (daily, weekly, monthly and yearly rules with BYDAY,
+// BYMONTHDAY, BYMONTH and BYSETPOS), RDATE, EXDATE, and single occurrences moved with RECURRENCE-ID.
+// Times with a TZID are converted from that zone, so recurrences keep their wall-clock time across
+// daylight saving changes.
+
+export interface ParsedCalendarEvent {
+    uid: string;
+    title: string;
+    start: Date;
+    // Exclusive, as in iCalendar: an all-day entry on the 3rd ends on the 4th.
+    end: Date | null;
+    allDay: boolean;
+    location: string | null;
+    description: string | null;
+    url: string | null;
+}
+
+export interface ParsedCalendar {
+    // The calendar's own name (X-WR-CALNAME), if it has one.
+    name: string | null;
+    events: ParsedCalendarEvent[];
+}
+
+export interface DateWindow {
+    from: Date;
+    to: Date;
+}
+
+interface Property {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+interface Day {
+    year: number;
+    month: number; // 1-12
+    day: number;
+}
+
+interface LocalDateTime extends Day {
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+// Where a time's wall clock is: UTC, an IANA time zone, or 'floating' (the viewer's own time zone,
+// which is also how all-day dates are read).
+type Zone = string;
+
+interface DateValue {
+    local: LocalDateTime;
+    zone: Zone;
+    isDate: boolean;
+}
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface WeekdayRule {
+    weekday: number; // 0 = Sunday
+    // The nth matching day in the month or year, counting from the end when negative. 0 means every one.
+    ordinal: number;
+}
+
+interface RecurrenceRule {
+    freq: Frequency;
+    interval: number;
+    count: number | null;
+    until: number | null;
+    byDay: WeekdayRule[] | null;
+    byMonthDay: number[] | null;
+    byMonth: number[] | null;
+    bySetPos: number[] | null;
+    weekStart: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that never produce a date in the window, e.g. a daily rule that started decades ago.
+const MAX_RECURRENCE_PERIODS = 20000;
+
+const MAX_OCCURRENCES_PER_EVENT = 1000;
+
+// Outlook and Exchange name zones the Windows way.
+const WINDOWS_ZONES: Record<string, string> = {
+    'Eastern Standard Time': 'America/New_York',
+    'Central Standard Time': 'America/Chicago',
+    'Mountain Standard Time': 'America/Denver',
+    'US Mountain Standard Time': 'America/Phoenix',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'Alaskan Standard Time': 'America/Anchorage',
+    'Hawaiian Standard Time': 'Pacific/Honolulu',
+    'Atlantic Standard Time': 'America/Halifax',
+    'Newfoundland Standard Time': 'America/St_Johns',
+    'SA Pacific Standard Time': 'America/Bogota',
+    'E. South America Standard Time': 'America/Sao_Paulo',
+    'GMT Standard Time': 'Europe/London',
+    'Greenwich Standard Time': 'Atlantic/Reykjavik',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Romance Standard Time': 'Europe/Paris',
+    'Central Europe Standard Time': 'Europe/Budapest',
+    'Central European Standard Time': 'Europe/Warsaw',
+    'GTB Standard Time': 'Europe/Bucharest',
+    'FLE Standard Time': 'Europe/Helsinki',
+    'Russian Standard Time': 'Europe/Moscow',
+    'Israel Standard Time': 'Asia/Jerusalem',
+    'Egypt Standard Time': 'Africa/Cairo',
+    'South Africa Standard Time': 'Africa/Johannesburg',
+    'Arab Standard Time': 'Asia/Riyadh',
+    'Arabian Standard Time': 'Asia/Dubai',
+    'India Standard Time': 'Asia/Kolkata',
+    'China Standard Time': 'Asia/Shanghai',
+    'Singapore Standard Time': 'Asia/Singapore',
+    'Tokyo Standard Time': 'Asia/Tokyo',
+    'Korea Standard Time': 'Asia/Seoul',
+    'AUS Eastern Standard Time': 'Australia/Sydney',
+    'E. Australia Standard Time': 'Australia/Brisbane',
+    'Cen. Australia Standard Time': 'Australia/Adelaide',
+    'W. Australia Standard Time': 'Australia/Perth',
+    'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+// --- Time zones ---
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const getZoneFormatter = (zone: string): Intl.DateTimeFormat | null => {
+    if (!zoneFormatters.has(zone)) {
+        try {
+            zoneFormatters.set(zone, new Intl.DateTimeFormat('en-US', {
+                timeZone: zone,
+                hourCycle: 'h23',
+                year: 'numeric', month: 'numeric', day: 'numeric',
+                hour: 'numeric', minute: 'numeric', second: 'numeric',
+            }));
+        } catch {
+            zoneFormatters.set(zone, null);
+        }
+    }
+    return zoneFormatters.get(zone)!;
+};
+
+/**
+ * Maps a TZID to a time zone the browser knows: an IANA name, one embedded in a longer ID
+ * (e.g. `/mozilla.org/20050126_1/Europe/Berlin`), or a Windows zone name.
+ * Unknown zones are read as the viewer's own time.
+ */
+const resolveZone = (tzid: string): Zone => {
+    const id = tzid.trim();
+    if (getZoneFormatter(id)) return id;
+    const embedded = id.match(/[A-Za-z]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?$/)?.[0];
+    if (embedded && getZoneFormatter(embedded)) return embedded;
+    return WINDOWS_ZONES[id] ?? 'floating';
+};
+
+// The zone's offset from UTC at the given instant, in milliseconds.
+const getZoneOffset = (zone: string, timestamp: number): number => {
+    const parts = Object.fromEntries(getZoneFormatter(zone)!.formatToParts(new Date(timestamp)).map(part => [part.type, Number(part.value)]));
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(timestamp / 1000) * 1000;
+};
+
+const toTimestamp = ({ year, month, day, hour, minute, second }: LocalDateTime, zone: Zone): number => {
+    if (zone === 'floating') return new Date(year, month - 1, day, hour, minute, second).getTime();
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    if (zone === 'UTC') return asUtc;
+    // Guess with the offset at the wall-clock time, then correct the guess if it crossed a DST change.
+    const guess = asUtc - getZoneOffset(zone, asUtc);
+    return asUtc - getZoneOffset(zone, guess);
+};
+
+// --- Calendar days ---
+
+const toDayNumber = ({ year, month, day }: Day): number => Date.UTC(year, month - 1, day) / DAY_MS;
+
+const fromDayNumber = (dayNumber: number): Day => {
+    const date = new Date(dayNumber * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const addDays = (day: Day, days: number): Day => fromDayNumber(toDayNumber(day) + days);
+
+const getWeekday = (day: Day): number => new Date(toDayNumber(day) * DAY_MS).getUTCDay();
+
+const getDaysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// --- Content lines ---
+
+const splitOutsideQuotes = (value: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (const char of value) {
+        if (char === '"') inQuotes = !inQuotes;
+        if (char === separator && !inQuotes) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts;
+};
+
+const parseProperty = (line: string): Property | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon < 0) return null;
+    const [name, ...paramParts] = splitOutsideQuotes(line.slice(0, colon), ';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+        const separator = part.indexOf('=');
+        if (separator > 0) params[part.slice(0, separator).toUpperCase()] = part.slice(separator + 1).replace(/^"|"$/g, '');
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string): string => value.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+
+/**
+ * Splits a calendar into the property lists of its VEVENTs. Nested components such as VALARM are skipped.
+ */
+const readEvents = (text: string): { name: string | null; events: Property[][] } => {
+    // Unfold continuation lines, which start with a space or tab.
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: Property[][] = [];
+    const stack: string[] = [];
+    let current: Property[] | null = null;
+    let name: string | null = null;
+
+    lines.forEach(line => {
+        const property = parseProperty(line);
+        if (!property) return;
+        if (property.name === 'BEGIN') {
+            stack.push(property.value.toUpperCase());
+            if (property.value.toUpperCase() === 'VEVENT') current = [];
+        } else if (property.name === 'END') {
+            if (stack.pop() === 'VEVENT' && current) {
+                events.push(current);
+                current = null;
+            }
+        } else if (stack[stack.length - 1] === 'VEVENT') {
+            current?.push(property);
+        } else if (stack[stack.length - 1] === 'VCALENDAR' && property.name === 'X-WR-CALNAME') {
+            name = unescapeText(property.value).trim() || null;
+        }
+    });
+    return { name, events };
+};
+
+// --- Values ---
+
+const parseDateValue = (value: string, params: Record<string, string>): DateValue | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const isDate = params.VALUE === 'DATE' || !match[4];
+    const local: LocalDateTime = {
+        year: Number(match[1]),
+        month: Number(match[2]),
+        day: Number(match[3]),
+        hour: isDate ? 0 : Number(match[4]),
+        minute: isDate ? 0 : Number(match[5]),
+        second: isDate ? 0 : Number(match[6] ?? 0),
+    };
+    const zone = isDate ? 'floating' : match[7] ? 'UTC' : params.TZID ? resolveZone(params.TZID) : 'floating';
+    return { local, zone, isDate };
+};
+
+// EXDATE and RDATE can list several values, and can appear more than once.
+const parseDateList = (properties: Property[]): DateValue[] => properties.flatMap(property =>
+    property.value.split(',').map(value => parseDateValue(value, property.params)).filter((value): value is DateValue => value !== null)
+);
+
+const parseDuration = (value: string): { days: number; ms: number } | null => {
+    const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const sign = match[1] === '-' ? -1 : 1;
+    const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => Number(part ?? 0));
+    return { days: sign * (weeks * 7 + days), ms: sign * ((hours * 60 + minutes) * 60 + seconds) * 1000 };
+};
+
+const parseRecurrenceRule = (value: string): RecurrenceRule | null => {
+    const parts = Object.fromEntries(value.split(';').map(part => {
+        const [key, ...rest] = part.split('=');
+        return [key.toUpperCase(), rest.join('=')];
+    }));
+    const freq = parts.FREQ?.toUpperCase();
+    // Sub-daily rules (hourly and so on) aren't used for the kind of events students import.
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+    const numbers = (list?: string) => list ? list.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0) : null;
+    const until = parts.UNTIL ? parseDateValue(parts.UNTIL, {}) : null;
+    const byDay = parts.BYDAY ? parts.BYDAY.split(',').map((entry: string) => {
+        const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(entry.trim().toUpperCase());
+        return match && WEEKDAYS.includes(match[2]) ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: Number(match[1] ?? 0) } : null;
+    }).filter((entry: WeekdayRule | null): entry is WeekdayRule => entry !== null) : null;
+
+    return {
+        freq: freq as Frequency,
+        interval: Math.max(1, Number(parts.INTERVAL) || 1),
+        count: parts.COUNT ? Number(parts.COUNT) : null,
+        // A date-only UNTIL includes that whole day.
+        until: until ? toTimestamp(until.isDate ? { ...until.local, hour: 23, minute: 59, second: 59 } : until.local, until.zone) : null,
+        byDay: byDay?.length ? byDay : null,
+        byMonthDay: numbers(parts.BYMONTHDAY),
+        byMonth: numbers(parts.BYMONTH),
+        bySetPos: numbers(parts.BYSETPOS),
+        weekStart: WEEKDAYS.includes(parts.WKST) ? WEEKDAYS.indexOf(parts.WKST) : 1,
+    };
+};
+
+// --- Recurrence ---
+
+// Days in a span matching BYDAY, with ordinals ("2MO", "-1FR") counted within the span.
+const matchWeekdays = (first: Day, length: number, byDay: WeekdayRule[]): Day[] => {
+    const days = Array.from({ length }, (_, i) => addDays(first, i));
+    return byDay.flatMap(({ weekday, ordinal }) => {
+        const matching = days.filter(day => getWeekday(day) === weekday);
+        if (ordinal === 0) return matching;
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        return day ? [day] : [];
+    });
+};
+
+const resolveMonthDays = (byMonthDay: number[], year: number, month: number): number[] => {
+    const length = getDaysInMonth(year, month);
+    return byMonthDay.map(day => day > 0 ? day : length + day + 1).filter(day => day >= 1 && day <= length);
+};
+
+const getMonthDays = (rule: RecurrenceRule, year: number, month: number, start: Day): Day[] => {
+    if (rule.byDay) {
+        const days = matchWeekdays({ year, month, day: 1 }, getDaysInMonth(year, month), rule.byDay);
+        if (!rule.byMonthDay) return days;
+        const monthDays = resolveMonthDays(rule.byMonthDay, year, month);
+        return days.filter(day => monthDays.includes(day.day));
+    }
+    const monthDays = rule.byMonthDay ? resolveMonthDays(rule.byMonthDay, year, month) : [start.day];
+    // A rule for the 31st skips shorter months.
+    return monthDays.filter(day => day <= getDaysInMonth(year, month)).map(day => ({ year, month, day }));
+};
+
+/**
+ * The candidate days in the rule's nth period (day, week, month or year) after the start.
+ */
+const getPeriodDays = (rule: RecurrenceRule, start: Day, period: number): Day[] => {
+    const step = period * rule.interval;
+    switch (rule.freq) {
+        case 'DAILY': {
+            const day = addDays(start, step);
+            const matches = (!rule.byMonthDay || resolveMonthDays(rule.byMonthDay, day.year, day.month).includes(day.day))
+                && (!rule.byDay || rule.byDay.some(({ weekday }) => weekday === getWeekday(day)));
+            return matches ? [day] : [];
+        }
+        case 'WEEKLY': {
+            if (!rule.byDay) return [addDays(start, step * 7)];
+            const weekFirst = addDays(start, step * 7 - (getWeekday(start) - rule.weekStart + 7) % 7);
+            return matchWeekdays(weekFirst, 7, rule.byDay.map(({ weekday }) => ({ weekday, ordinal: 0 })));
+        }
+        case 'MONTHLY': {
+            const monthIndex = start.month - 1 + step;
+            return getMonthDays(rule, start.year + Math.floor(monthIndex / 12), monthIndex % 12 + 1, start);
+        }
+        case 'YEARLY': {
+            const year = start.year + step;
+            if (rule.byMonth) return rule.byMonth.flatMap(month => getMonthDays(rule, year, month, start));
+            if (rule.byDay) {
+                // Without BYMONTH, ordinals count through the whole year.
+                const days = matchWeekdays({ year, month: 1, day: 1 }, toDayNumber({ year: year + 1, month: 1, day: 1 }) - toDayNumber({ year, month: 1, day: 1 }), rule.byDay);
+                return rule.byMonthDay ? days.filter(day => resolveMonthDays(rule.byMonthDay!, day.year, day.month).includes(day.day)) : days;
+            }
+            if (rule.byMonthDay) return Array.from({ length: 12 }, (_, i) => getMonthDays(rule, year, i + 1, start)).flat();
+            return getMonthDays(rule, year, start.month, start);
+        }
+    }
+};
+
+/**
+ * Expands a recurrence rule into occurrence start times, up to the end of the window.
+ * The event's own start is always the first occurrence.
+ */
+const expandRule = (rule: RecurrenceRule, start: DateValue, windowEnd: number): number[] => {
+    const firstTimestamp = toTimestamp(start.local, start.zone);
+    const { hour, minute, second } = start.local;
+    const occurrences = [firstTimestamp];
+
+    for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+        let days = getPeriodDays(rule, start.local, period)
+            .filter(day => rule.freq === 'YEARLY' || !rule.byMonth || rule.byMonth.includes(day.month))
+            .sort((a, b) => toDayNumber(a) - toDayNumber(b))
+            .filter((day, i, sorted) => i === 0 || toDayNumber(day) !== toDayNumber(sorted[i - 1]));
+        if (rule.bySetPos) {
+            const sorted = days;
+            days = rule.bySetPos.map(position => position > 0 ? sorted[position - 1] : sorted[sorted.length + position]).filter(Boolean);
+        }
+        for (const day of days) {
+            const timestamp = toTimestamp({ ...day, hour, minute, second }, start.zone);
+            if (timestamp <= firstTimestamp) continue;
+            if ((rule.until !== null && timestamp > rule.until) || timestamp > windowEnd) return occurrences;
+            if (rule.count !== null && occurrences.length >= rule.count) return occurrences;
+            occurrences.push(timestamp);
+        }
+    }
+    return occurrences;
+};
+
+// --- Events ---
+
+const getProperty = (properties: Property[], name: string): Property | undefined => properties.find(p => p.name === name);
+
+const getText = (properties: Property[], name: string): string | null => {
+    const property = getProperty(properties, name);
+    return property ? unescapeText(property.value).trim() || null : null;
+};
+
+const isCancelled = (properties: Property[]) => getProperty(properties, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED';
+
+const getUid = (properties: Property[]) => getText(properties, 'UID') ?? `${getText(properties, 'SUMMARY')}-${getProperty(properties, 'DTSTART')?.value}`;
+
+/**
+ * Turns one VEVENT into its occurrences. `movedOccurrences` holds the original start times of
+ * occurrences that other VEVENTs (with RECURRENCE-ID) replace or cancel.
+ */
+const toOccurrences = (properties: Property[], movedOccurrences: Set<number>, window: DateWindow): ParsedCalendarEvent[] => {
+    const startProperty = getProperty(properties, 'DTSTART');
+    const start = startProperty ? parseDateValue(startProperty.value, startProperty.params) : null;
+    if (!start || isCancelled(properties)) return [];
+
+    const startTimestamp = toTimestamp(start.local, start.zone);
+    const endProperty = getProperty(properties, 'DTEND');
+    const end = endProperty ? parseDateValue(endProperty.value, endProperty.params) : null;
+    const duration = parseDuration(getProperty(properties, 'DURATION')?.value ?? '');
+    // All-day lengths are kept in days, so they survive daylight saving changes.
+    const lengthDays = end ? toDayNumber(end.local) - toDayNumber(start.local) : duration?.days ?? 0;
+    const lengthMs = end ? toTimestamp(end.local, end.zone) - startTimestamp : duration ? duration.days * DAY_MS + duration.ms : null;
+
+    const rruleProperty = getProperty(properties, 'RRULE');
+    const rule = rruleProperty ? parseRecurrenceRule(rruleProperty.value) : null;
+    const excluded = new Set(parseDateList(properties.filter(p => p.name === 'EXDATE')).map(value => toTimestamp(value.local, value.zone)));
+    const extra = parseDateList(properties.filter(p => p.name === 'RDATE'))
+        .map(value => toTimestamp(value.isDate || start.isDate ? { ...value.local, hour: start.local.hour, minute: start.local.minute, second: start.local.second } : value.local, value.zone));
+    const starts = Array.from(new Set([...(rule ? expandRule(rule, start, window.to.getTime()) : [startTimestamp]), ...extra]))
+        .filter(timestamp => !excluded.has(timestamp) && !movedOccurrences.has(timestamp))
+        .sort((a, b) => a - b);
+
+    const base = {
+        uid: getUid(properties),
+        title: getText(properties, 'SUMMARY') ?? 'Untitled',
+        allDay: start.isDate,
+        location: getText(properties, 'LOCATION'),
+        description: getText(properties, 'DESCRIPTION'),
+        url: getProperty(properties, 'URL')?.value.trim() || null,
+    };
+    const occurrences: ParsedCalendarEvent[] = [];
+    for (const timestamp of starts) {
+        const occurrenceStart = new Date(timestamp);
+        let occurrenceEnd: Date | null = null;
+        if (start.isDate && lengthDays > 0) {
+            const day = addDays({ year: occurrenceStart.getFullYear(), month: occurrenceStart.getMonth() + 1, day: occurrenceStart.getDate() }, lengthDays);
+            occurrenceEnd = new Date(day.year, day.month - 1, day.day);
+        } else if (!start.isDate && lengthMs !== null && lengthMs > 0) {
+            occurrenceEnd = new Date(timestamp + lengthMs);
+        }
+        if (occurrenceStart > window.to || (occurrenceEnd ?? occurrenceStart) < window.from) continue;
+        occurrences.push({ ...base, start: occurrenceStart, end: occurrenceEnd });
+        if (occurrences.length >= MAX_OCCURRENCES_PER_EVENT) break;
+    }
+    return occurrences;
+};
+
+/**
+ * Parses an iCalendar file into the event occurrences that fall within the window.
+ * @throws Error if the text isn't an iCalendar file.
+ */
+export const parseICalendar = (text: string, window: DateWindow): ParsedCalendar => {
+    if (!/^\s*BEGIN:VCALENDAR/i.test(text)) {
+        throw new Error("This file isn't an iCalendar (.ics) file.");
+    }
+    const { name, events } = readEvents(text);
+
+    // Occurrences moved or cancelled by a RECURRENCE-ID override, by UID.
+    const moved = new Map<string, Set<number>>();
+    events.forEach(properties => {
+        const recurrenceId = getProperty(properties, 'RECURRENCE-ID');
+        const value = recurrenceId ? parseDateValue(recurrenceId.value, recurrenceId.params) : null;
+        if (!value) return;
+        const uid = getUid(properties);
+        if (!moved.has(uid)) moved.set(uid, new Set());
+        moved.get(uid)!.add(toTimestamp(value.local, value.zone));
+    });
+
+    const parsed = events.flatMap(properties => {
+        const isOverride = !!getProperty(properties, 'RECURRENCE-ID');
+        return toOccurrences(properties, isOverride ? new Set() : moved.get(getUid(properties)) ?? new Set(), window);
+    });
+    return { name, events: parsed.sort((a, b) => a.start.getTime() - b.start.getTime()) };
+};
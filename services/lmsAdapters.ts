@@ -0,0 +1,16 @@
+import { CanvasConnection, LmsAdapter, LmsProvider } from '../types';
+import { canvasAdapter } from './canvasApiService';
+import { moodleAdapter } from './moodleService';
+import { googleClassroomAdapter } from './googleClassroomService';
+import { getProvider } from './canvasConnections';
+
+const adapters: Record<LmsProvider, LmsAdapter> = {
+    canvas: canvasAdapter,
+    moodle: moodleAdapter,
+    google_classroom: googleClassroomAdapter,
+};
+
+/**
+ * The adapter that syncs a connection, by the LMS it's on.
+ */
+export const getLmsAdapter = (connection: CanvasConnection): LmsAdapter => adapters[getProvider(connection)];
@@ -0,0 +1,202 @@
+// Moodle through its REST web services, for schools that run Moodle instead of Canvas. The student
+// creates a web service token under Preferences > Security keys (the "Moodle mobile web service"), and
+// every call goes through the proxy, which only forwards the read functions it knows about.
+
+import { Course, Assignment, AssignmentStatus, CalendarEvent, CanvasConnection, EnrollmentGrades, LmsAdapter, SyncProgress } from '../types';
+import { fetchFromProxy, formatMoodleUrl } from './canvasApiService';
+import { hasCanvasCredentials } from './canvasConnections';
+
+// How far back and ahead calendar events are fetched.
+const CALENDAR_LOOKBACK_DAYS = 30;
+const CALENDAR_LOOKAHEAD_DAYS = 180;
+
+// Submission status is one call per assignment, so these are made a few at a time.
+const SUBMISSION_STATUS_CONCURRENCY = 6;
+
+const toQuery = (params: Record<string, string | number>): string =>
+    Object.entries(params).map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+
+const callMoodle = (connection: CanvasConnection, wsfunction: string, params: Record<string, string | number> = {}): Promise<any> => {
+    const query = toQuery(params);
+    return fetchFromProxy(query ? `${wsfunction}?${query}` : wsfunction, connection);
+};
+
+const isReady = (connection: CanvasConnection): boolean => !!formatMoodleUrl(connection.canvasUrl) && hasCanvasCredentials(connection);
+
+const fromUnixTime = (seconds: number | null | undefined): string | null => seconds ? new Date(seconds * 1000).toISOString() : null;
+
+/**
+ * Runs `task` over `items` with at most `limit` in flight at once.
+ */
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
+export const getCourses = async (connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Course[]> => {
+    if (!isReady(connection)) return [];
+
+    const siteInfo = await callMoodle(connection, 'core_webservice_get_site_info');
+    const coursesData: any[] = await callMoodle(connection, 'core_enrol_get_users_courses', { userid: siteInfo.userid });
+    onProgress?.({ resource: 'courses', page: 1, itemsFetched: coursesData.length });
+
+    return coursesData.map(course => ({
+        id: course.id,
+        connectionId: connection.id,
+        name: course.fullname,
+        // Grades are left unset; Moodle reports them separately, through `getGrades`.
+        course_code: course.shortname || '',
+    }));
+};
+
+const getSubmissionState = async (connection: CanvasConnection, assignmentId: number): Promise<Pick<Assignment, 'status' | 'submission'>> => {
+    const data = await callMoodle(connection, 'mod_assign_get_submission_status', { assignid: assignmentId });
+    const submission = data?.lastattempt?.submission;
+    const grade = data?.feedback?.grade;
+    const score = grade?.grade !== undefined && grade?.grade !== null && grade.grade !== '' ? parseFloat(grade.grade) : null;
+    const isSubmitted = submission?.status === 'submitted';
+
+    let status: AssignmentStatus = 'NOT_STARTED';
+    if (score !== null && !isNaN(score)) status = 'COMPLETED';
+    else if (isSubmitted || submission?.status === 'draft') status = 'IN_PROGRESS';
+
+    if (!submission && score === null) return { status, submission: null };
+    return {
+        status,
+        submission: {
+            score: score !== null && !isNaN(score) ? score : null,
+            grade: data?.feedback?.gradefordisplay ?? null,
+            late: false,
+            missing: false,
+            excused: false,
+            workflow_state: score !== null && !isNaN(score) ? 'graded' : isSubmitted ? 'submitted' : 'unsubmitted',
+            submitted_at: isSubmitted ? fromUnixTime(submission.timemodified) : null,
+            graded_at: fromUnixTime(grade?.timemodified),
+        },
+    };
+};
+
+export const getAssignments = async (connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Assignment[]> => {
+    if (!isReady(connection)) return [];
+    const siteUrl = formatMoodleUrl(connection.canvasUrl);
+
+    const data = await callMoodle(connection, 'mod_assign_get_assignments');
+    const assignmentsData: any[] = (data?.courses || []).flatMap((course: any) => course.assignments || []);
+    onProgress?.({ resource: 'assignments', page: 1, itemsFetched: assignmentsData.length });
+
+    const submissionStates = await mapWithConcurrency(assignmentsData, SUBMISSION_STATUS_CONCURRENCY, a =>
+        getSubmissionState(connection, a.id).catch(error => {
+            console.warn(`Could not load the Moodle submission status of assignment ${a.id}:`, error);
+            return { status: 'NOT_STARTED' as AssignmentStatus, submission: null };
+        })
+    );
+
+    return assignmentsData
+        .map((a, index): Assignment => ({
+            id: a.id,
+            connectionId: connection.id,
+            name: a.name,
+            description: a.intro || null,
+            due_at: fromUnixTime(a.duedate),
+            // Negative grades are Moodle scales, which have no points.
+            points_possible: a.grade > 0 ? a.grade : null,
+            course_id: a.course,
+            courseName: '', // Enriched in the `useCanvasData` hook.
+            submission_types: [],
+            html_url: `${siteUrl}/mod/assign/view.php?id=${a.cmid}`,
+            ...submissionStates[index],
+        }))
+        .sort((a, b) => (a.due_at ? new Date(a.due_at).getTime() : Infinity) - (b.due_at ? new Date(b.due_at).getTime() : Infinity));
+};
+
+const mapCalendarEvent = (e: any, siteUrl: string, connectionId: string): CalendarEvent | null => {
+    if (!e.courseid || !e.timestart) return null;
+    const isAssignmentDue = e.modulename === 'assign' && e.eventtype === 'due';
+    return {
+        id: isAssignmentDue ? e.instance : e.id,
+        connectionId,
+        course_id: e.courseid,
+        title: e.name,
+        date: new Date(e.timestart * 1000),
+        endDate: e.timeduration ? new Date((e.timestart + e.timeduration) * 1000) : null,
+        allDay: false,
+        location: e.location || null,
+        type: isAssignmentDue ? 'assignment' : e.modulename === 'quiz' ? 'quiz' : 'event',
+        source: isAssignmentDue ? 'canvas_assignment' : 'canvas_event',
+        assignmentId: isAssignmentDue ? e.instance : null,
+        // The events don't say which page they belong to, so they link to their day in the Moodle calendar.
+        url: `${siteUrl}/calendar/view.php?view=day&time=${e.timestart}`,
+    };
+};
+
+export const getEvents = async (connection: CanvasConnection, courseIds: number[], onProgress?: (progress: SyncProgress) => void): Promise<CalendarEvent[]> => {
+    if (!isReady(connection) || courseIds.length === 0) return [];
+    const siteUrl = formatMoodleUrl(connection.canvasUrl);
+
+    const now = Math.floor(Date.now() / 1000);
+    const params: Record<string, string | number> = {
+        'options[userevents]': 0,
+        'options[siteevents]': 0,
+        'options[timestart]': now - CALENDAR_LOOKBACK_DAYS * 24 * 60 * 60,
+        'options[timeend]': now + CALENDAR_LOOKAHEAD_DAYS * 24 * 60 * 60,
+    };
+    courseIds.forEach((courseId, index) => {
+        params[`events[courseids][${index}]`] = courseId;
+    });
+
+    const data = await callMoodle(connection, 'core_calendar_get_calendar_events', params);
+    const events: any[] = data?.events || [];
+    onProgress?.({ resource: 'calendar', page: 1, itemsFetched: events.length });
+
+    return events
+        .map(e => mapCalendarEvent(e, siteUrl, connection.id))
+        .filter((e): e is CalendarEvent => e !== null)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Fetches the course totals from the grade overview report. Moodle formats each total the way the
+ * course displays it, so the score is only known when that is a percentage.
+ */
+export const getGrades = async (connection: CanvasConnection, courseIds: number[]): Promise<Record<number, EnrollmentGrades>> => {
+    if (!isReady(connection) || courseIds.length === 0) return {};
+
+    const data = await callMoodle(connection, 'gradereport_overview_get_course_grades');
+    const grades: Record<number, EnrollmentGrades> = {};
+    (data?.grades || [])
+        .filter((g: any) => courseIds.includes(g.courseid) && g.grade && g.grade !== '-')
+        .forEach((g: any) => {
+            const percentage = /%\s*$/.test(g.grade) ? parseFloat(g.grade) : NaN;
+            grades[g.courseid] = {
+                current_score: isNaN(percentage) ? null : percentage,
+                final_score: null,
+                current_grade: isNaN(percentage) ? g.grade : null,
+                final_grade: null,
+            };
+        });
+    return grades;
+};
+
+/**
+ * Checks that the site URL and token work.
+ * @returns The site's name, to name the connection after.
+ */
+export const testMoodleConnection = async (connection: CanvasConnection): Promise<string> => {
+    const siteInfo = await callMoodle(connection, 'core_webservice_get_site_info');
+    return siteInfo.sitename || formatMoodleUrl(connection.canvasUrl);
+};
+
+export const moodleAdapter: LmsAdapter = {
+    getCourses,
+    getAssignments,
+    getEvents,
+    getGrades,
+};
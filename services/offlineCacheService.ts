@@ -0,0 +1,121 @@
+// Persists the last successful Canvas sync in IndexedDB so the app can render instantly on load
+// and keep working offline. Entries are keyed by user and Canvas connection, so switching accounts or
+// institutions never shows another user's data.
+
+import { Course, Assignment, CalendarEvent } from '../types';
+
+const DB_NAME = 'canvasAiAssistant';
+const DB_VERSION = 1;
+const STORE_NAME = 'canvasData';
+
+export interface CachedCanvasData {
+    courses: Course[];
+    assignments: Assignment[];
+    calendarEvents: CalendarEvent[];
+    // ISO timestamp of the sync that produced this snapshot.
+    syncedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed (e.g. private browsing).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Builds the cache key for a user's data from one Canvas connection.
+ * Only the host of the URL is used, so "https://school.instructure.com/" and "school.instructure.com" share an entry.
+ */
+export const getCacheKey = (userId: string, canvasUrl: string, connectionId: string): string => {
+    let host = canvasUrl.trim().toLowerCase();
+    try {
+        host = new URL(host.startsWith('http') ? host : `https://${host}`).host;
+    } catch {
+        // Fall back to the raw value; it is still stable for the same settings.
+    }
+    return `${userId}::${host}::${connectionId}`;
+};
+
+/**
+ * Reads the cached snapshot for a key.
+ * @returns The snapshot, or null if nothing is cached or IndexedDB is unavailable.
+ */
+export const getCachedCanvasData = async (key: string): Promise<CachedCanvasData | null> => {
+    try {
+        const data = await runTransaction<CachedCanvasData | undefined>('readonly', store => store.get(key));
+        return data ?? null;
+    } catch (error) {
+        console.error(`Error reading cached Canvas data for ${key}`, error);
+        return null;
+    }
+};
+
+/**
+ * Stores a snapshot for a key, replacing any previous one.
+ * Calendar event dates are kept as Date objects, which IndexedDB stores natively.
+ */
+export const setCachedCanvasData = async (key: string, data: CachedCanvasData): Promise<void> => {
+    try {
+        await runTransaction('readwrite', store => store.put(data, key));
+    } catch (error) {
+        console.error(`Error writing cached Canvas data for ${key}`, error);
+    }
+};
+
+/**
+ * Removes every cached snapshot belonging to a user, across all Canvas connections.
+ */
+export const clearCachedCanvasData = async (userId: string): Promise<void> => {
+    try {
+        const prefix = `${userId}::`;
+        const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+        await runTransaction('readwrite', store => store.delete(range));
+    } catch (error) {
+        console.error(`Error clearing cached Canvas data for user ${userId}`, error);
+    }
+};
+
+/**
+ * Merges a fresh list from Canvas into the cached one. Canvas is the source of truth for which
+ * items exist, but items whose content is unchanged keep their previous object identity so React
+ * doesn't re-render everything after a background revalidation.
+ * @returns The merged list and whether anything differed from the cached list.
+ */
+export const mergeById = <T extends { id: number }>(cached: T[], fresh: T[], getKey: (item: T) => string | number = item => item.id): { merged: T[]; changed: boolean } => {
+    const cachedByKey = new Map(cached.map(item => [getKey(item), item]));
+    const merged = fresh.map(item => {
+        const previous = cachedByKey.get(getKey(item));
+        return previous && JSON.stringify(previous) === JSON.stringify(item) ? previous : item;
+    });
+    const changed = merged.length !== cached.length || merged.some((item, index) => item !== cached[index]);
+    return { merged, changed };
+};
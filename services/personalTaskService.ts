@@ -0,0 +1,70 @@
+// The student's own tasks. They're kept in Firestore and shown as `Assignment`s, so every view that lists,
+// searches or schedules assignments handles them the same way. LMS IDs are positive, so tasks get negative
+// IDs, and those attached to a course take on its connection so course and institution filters apply.
+
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import { Assignment, CalendarEvent, Course, PersonalTask } from '../types';
+import { db } from './firebaseService';
+import { PERSONAL_CONNECTION_ID, getItemKey } from './canvasConnections';
+
+const getPersonalTasksRef = (uid: string) => collection(db, 'users', uid, 'personalTasks');
+
+export const loadPersonalTasks = async (uid: string): Promise<PersonalTask[]> => {
+    const snapshot = await getDocs(getPersonalTasksRef(uid));
+    return snapshot.docs.map(taskDoc => taskDoc.data() as PersonalTask);
+};
+
+export const savePersonalTask = (uid: string, task: PersonalTask): Promise<void> => setDoc(doc(getPersonalTasksRef(uid), task.id), task);
+
+export const deletePersonalTask = (uid: string, taskId: string): Promise<void> => deleteDoc(doc(getPersonalTasksRef(uid), taskId));
+
+/**
+ * A stable negative ID for the task, derived from its Firestore ID.
+ */
+const getPersonalTaskItemId = (taskId: string): number => {
+    let hash = 0;
+    for (const char of taskId) {
+        hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    }
+    return -(Math.abs(hash) % 2147483647) - 1;
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Shows a task as an assignment. Tasks whose course is no longer synced are shown without one.
+ */
+export const toAssignment = (task: PersonalTask, courses: Course[]): Assignment => {
+    const course = task.courseKey ? courses.find(c => getItemKey(c) === task.courseKey) : undefined;
+    return {
+        id: getPersonalTaskItemId(task.id),
+        connectionId: course?.connectionId ?? PERSONAL_CONNECTION_ID,
+        name: task.title,
+        // Notes are plain text; descriptions are rendered as HTML.
+        description: task.notes ? `<p>${escapeHtml(task.notes).replace(/\n/g, '<br>')}</p>` : null,
+        due_at: task.dueAt,
+        points_possible: null,
+        course_id: course?.id ?? 0,
+        courseName: course?.name ?? 'Personal',
+        status: task.status,
+        personalTask: task,
+    };
+};
+
+/**
+ * Due dates of tasks, for the calendar.
+ */
+export const toPersonalTaskEvents = (assignments: Assignment[]): CalendarEvent[] => assignments
+    .filter(assignment => assignment.personalTask && assignment.due_at)
+    .map(assignment => ({
+        id: assignment.id,
+        connectionId: assignment.connectionId,
+        course_id: assignment.course_id,
+        title: assignment.name,
+        date: new Date(assignment.due_at!),
+        type: 'assignment',
+        source: 'personal_task',
+        assignmentId: assignment.id,
+        courseName: assignment.courseName,
+    }));
@@ -0,0 +1,52 @@
+// Study plans are slow to generate, so each one is kept in Firestore with the assignment it's for.
+// Earlier versions are kept when a plan is regenerated, so the student can go back to one.
+
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { AssignmentStatus, AssignmentStatusSource, SavedStudyPlan, StudyPlan, StudyPlanVersion } from '../types';
+import { db } from './firebaseService';
+
+// Older versions are dropped beyond this, keeping the document well under Firestore's 1 MiB limit.
+const MAX_PLAN_VERSIONS = 10;
+
+/**
+ * @param assignmentKey From `getItemKey`.
+ */
+const getStudyPlanRef = (uid: string, assignmentKey: string) => doc(db, 'users', uid, 'studyPlans', assignmentKey);
+
+/**
+ * The saved versions of an assignment's study plan, oldest first. Empty if none has been generated.
+ */
+export const loadStudyPlanVersions = async (uid: string, assignmentKey: string): Promise<StudyPlanVersion[]> => {
+    const snapshot = await getDoc(getStudyPlanRef(uid, assignmentKey));
+    return snapshot.exists() ? (snapshot.data() as SavedStudyPlan).versions ?? [] : [];
+};
+
+export const saveStudyPlanVersions = async (uid: string, assignmentKey: string, versions: StudyPlanVersion[]): Promise<void> => {
+    const saved: SavedStudyPlan = { versions, updatedAt: new Date().toISOString() };
+    await setDoc(getStudyPlanRef(uid, assignmentKey), saved);
+};
+
+/**
+ * Adds a freshly generated plan as the current version, with none of its steps done.
+ */
+export const addStudyPlanVersion = (versions: StudyPlanVersion[], plan: StudyPlan, thinkingMode: boolean): StudyPlanVersion[] => [
+    ...versions,
+    {
+        plan: { ...plan, steps: plan.steps.map(step => ({ ...step, completed: false })) },
+        generatedAt: new Date().toISOString(),
+        thinkingMode,
+    },
+].slice(-MAX_PLAN_VERSIONS);
+
+/**
+ * The assignment status that a plan's step progress implies. Finishing every step completes the assignment,
+ * and the first finished step starts one that wasn't started. Unticking a step only reopens an assignment
+ * the plan itself completed; a status the student or the LMS set otherwise stands.
+ */
+export const getStatusFromPlan = (plan: StudyPlan, currentStatus: AssignmentStatus, currentSource?: AssignmentStatusSource): AssignmentStatus => {
+    const completedSteps = plan.steps.filter(step => step.completed).length;
+    if (plan.steps.length > 0 && completedSteps === plan.steps.length) return 'COMPLETED';
+    if (currentStatus === 'COMPLETED') return currentSource === 'study_plan' ? 'IN_PROGRESS' : currentStatus;
+    if (completedSteps > 0 && currentStatus === 'NOT_STARTED') return 'IN_PROGRESS';
+    return currentStatus;
+};
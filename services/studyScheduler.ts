@@ -0,0 +1,200 @@
+// Places study sessions for open assignments into the student's free time. Free time is their weekly
+// availability windows (set in Settings) minus timed calendar entries, including imported calendars.
+// Assignments are scheduled earliest deadline first, so the most urgent work gets the earliest slots,
+// and every session ends before its assignment is due.
+
+import { addDays, startOfDay } from 'date-fns';
+import { Assignment, AvailabilityWindow, CalendarEvent, StudyBlock } from '../types';
+import { getItemKey, getCanvasKey } from './canvasConnections';
+
+// Used when there is no AI estimate for an assignment.
+export const DEFAULT_STUDY_MINUTES = 60;
+
+const MAX_BLOCK_MINUTES = 90;
+// Shorter gaps aren't worth a session, unless that's all the work left.
+const MIN_BLOCK_MINUTES = 25;
+const BREAK_MINUTES = 10;
+// Sessions start on a quarter hour.
+const SLOT_STEP_MINUTES = 15;
+const HORIZON_DAYS = 14;
+// Completed and missed sessions are kept this long, as a record of time already spent.
+const HISTORY_DAYS = 30;
+// Calendar events without an end are assumed to last this long.
+const DEFAULT_EVENT_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+interface Interval {
+    start: number;
+    end: number;
+}
+
+export interface StudyScheduleInput {
+    assignments: Assignment[];
+    // Minutes of work per assignment, keyed by `getItemKey`. Missing ones use DEFAULT_STUDY_MINUTES.
+    estimates: Record<string, number>;
+    availability: AvailabilityWindow[];
+    calendarEvents: CalendarEvent[];
+    // The current schedule.
+    blocks: StudyBlock[];
+    now: Date;
+}
+
+export interface StudyScheduleResult {
+    blocks: StudyBlock[];
+    // Work that didn't fit before its due date, in minutes, keyed by `getItemKey`.
+    unscheduledMinutes: Record<string, number>;
+}
+
+export const getBlockAssignmentKey = (block: StudyBlock) => getCanvasKey(block.connectionId, block.assignmentId);
+
+const parseTime = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+const getMinutes = ({ start, end }: { start: string; end: string }) => (new Date(end).getTime() - new Date(start).getTime()) / MINUTE_MS;
+
+// Calendar entries that take up time. Due dates and all-day entries don't.
+const getBusyIntervals = (calendarEvents: CalendarEvent[]): Interval[] => calendarEvents
+    .filter(event => !event.allDay && (event.type === 'event' || event.type === 'external' || event.type === 'test'))
+    .map(event => ({
+        start: event.date.getTime(),
+        end: event.endDate && event.endDate > event.date ? event.endDate.getTime() : event.date.getTime() + DEFAULT_EVENT_MINUTES * MINUTE_MS,
+    }));
+
+const subtractIntervals = (free: Interval[], busy: Interval[]): Interval[] => busy.reduce(
+    (remaining, taken) => remaining.flatMap(slot => {
+        if (taken.end <= slot.start || taken.start >= slot.end) return [slot];
+        return [
+            { start: slot.start, end: taken.start },
+            { start: taken.end, end: slot.end },
+        ].filter(part => part.end > part.start);
+    }),
+    free
+);
+
+/**
+ * The availability windows between `from` and `to`, minus busy time, in chronological order.
+ */
+const getFreeIntervals = (availability: AvailabilityWindow[], busy: Interval[], from: Date, to: Date): Interval[] => {
+    const windows: Interval[] = [];
+    for (let day = startOfDay(from); day < to; day = addDays(day, 1)) {
+        availability.filter(window => window.weekday === day.getDay()).forEach(window => {
+            const start = new Date(day);
+            start.setMinutes(parseTime(window.start));
+            const end = new Date(day);
+            end.setMinutes(parseTime(window.end));
+            windows.push({ start: Math.max(start.getTime(), from.getTime()), end: Math.min(end.getTime(), to.getTime()) });
+        });
+    }
+    const open = windows.filter(window => window.end > window.start).sort((a, b) => a.start - b.start);
+    return subtractIntervals(open, busy);
+};
+
+const roundUpToSlot = (timestamp: number): number => {
+    const step = SLOT_STEP_MINUTES * MINUTE_MS;
+    return Math.ceil(timestamp / step) * step;
+};
+
+const isOpen = (assignment: Assignment, now: Date): boolean =>
+    assignment.status !== 'COMPLETED' && !assignment.submission?.submitted_at && !!assignment.due_at && new Date(assignment.due_at) > now;
+
+// Earliest deadline first; of assignments due the same day, the one worth more points first.
+const compareByPriority = (a: Assignment, b: Assignment): number => {
+    const dayA = startOfDay(new Date(a.due_at!)).getTime();
+    const dayB = startOfDay(new Date(b.due_at!)).getTime();
+    if (dayA !== dayB) return dayA - dayB;
+    return (b.points_possible ?? 0) - (a.points_possible ?? 0) || new Date(a.due_at!).getTime() - new Date(b.due_at!).getTime();
+};
+
+/**
+ * Works out the study schedule. Past sessions are kept: completed ones count toward their assignment's
+ * estimate, and scheduled ones that have ended become missed. A session in progress stays where it is.
+ * Every future session is placed again, so the schedule follows changes to assignments, the calendar
+ * and availability.
+ */
+export const scheduleStudyBlocks = ({ assignments, estimates, availability, calendarEvents, blocks, now }: StudyScheduleInput): StudyScheduleResult => {
+    const nowMs = now.getTime();
+    const historyStart = addDays(now, -HISTORY_DAYS).getTime();
+
+    const kept: StudyBlock[] = blocks.flatMap(block => {
+        const start = new Date(block.start).getTime();
+        const end = new Date(block.end).getTime();
+        if (end < historyStart) return [];
+        if (block.status === 'scheduled' && end <= nowMs) return [{ ...block, status: 'missed' as const }];
+        if (block.status === 'scheduled' && start > nowMs) return [];
+        return [block];
+    });
+
+    // Minutes already completed, or set aside in the session in progress.
+    const coveredMinutes: Record<string, number> = {};
+    kept.filter(block => block.status !== 'missed').forEach(block => {
+        const key = getBlockAssignmentKey(block);
+        coveredMinutes[key] = (coveredMinutes[key] ?? 0) + getMinutes(block);
+    });
+
+    const horizon = addDays(startOfDay(now), HORIZON_DAYS);
+    const keptIntervals = kept
+        .filter(block => block.status !== 'missed')
+        .map(block => ({ start: new Date(block.start).getTime(), end: new Date(block.end).getTime() + BREAK_MINUTES * MINUTE_MS }));
+    const free = getFreeIntervals(availability, [...getBusyIntervals(calendarEvents), ...keptIntervals], now, horizon);
+
+    const scheduled: StudyBlock[] = [];
+    const unscheduledMinutes: Record<string, number> = {};
+    assignments.filter(assignment => isOpen(assignment, now)).sort(compareByPriority).forEach(assignment => {
+        const key = getItemKey(assignment);
+        let remaining = Math.max(0, (estimates[key] ?? DEFAULT_STUDY_MINUTES) - (coveredMinutes[key] ?? 0));
+        const dueAt = new Date(assignment.due_at!).getTime();
+
+        for (const slot of free) {
+            if (remaining <= 0) break;
+            const start = roundUpToSlot(slot.start);
+            const end = Math.min(slot.end, dueAt);
+            const available = Math.floor((end - start) / MINUTE_MS);
+            const minutes = Math.min(remaining, MAX_BLOCK_MINUTES, available);
+            if (minutes <= 0 || minutes < Math.min(MIN_BLOCK_MINUTES, remaining)) continue;
+
+            const blockEnd = start + minutes * MINUTE_MS;
+            scheduled.push({
+                id: `${key}@${new Date(start).toISOString()}`,
+                connectionId: assignment.connectionId,
+                assignmentId: assignment.id,
+                courseId: assignment.course_id,
+                title: assignment.name,
+                courseName: assignment.courseName,
+                start: new Date(start).toISOString(),
+                end: new Date(blockEnd).toISOString(),
+                status: 'scheduled',
+            });
+            remaining -= minutes;
+            // The rest of the slot stays free for later sessions, after a break.
+            slot.start = blockEnd + BREAK_MINUTES * MINUTE_MS;
+        }
+        if (remaining > 0) unscheduledMinutes[key] = remaining;
+    });
+
+    const allBlocks = [...kept, ...scheduled].sort((a, b) => a.start.localeCompare(b.start));
+    return { blocks: allBlocks, unscheduledMinutes };
+};
+
+/**
+ * Study sessions as calendar entries. Missed sessions aren't shown; their time has been scheduled again.
+ */
+export const toStudyEvents = (blocks: StudyBlock[]): CalendarEvent[] => blocks
+    .filter(block => block.status !== 'missed')
+    .map((block, index) => ({
+        id: index + 1,
+        connectionId: block.connectionId,
+        course_id: block.courseId,
+        title: block.title,
+        date: new Date(block.start),
+        endDate: new Date(block.end),
+        allDay: false,
+        location: null,
+        type: 'study',
+        source: 'study_block',
+        assignmentId: block.assignmentId,
+        studyBlock: { id: block.id, completed: block.status === 'completed' },
+        courseName: block.courseName,
+    }));
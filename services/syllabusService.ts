@@ -0,0 +1,78 @@
+// Course syllabi: Gemini reads the syllabus from Canvas, the student confirms what it found, and the result is
+// kept in Firestore. Its dated items are shown on the calendar, since syllabi often list exams and deadlines
+// that aren't Canvas assignments.
+
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import { isSameDay } from 'date-fns';
+import { Assignment, CalendarEvent, CanvasConnection, Course, CourseSyllabus, SyllabusEvent, SyllabusExtraction } from '../types';
+import { db } from './firebaseService';
+import { getCourseSyllabus } from './canvasApiService';
+import { extractSyllabus } from './geminiService';
+import { htmlToText } from './courseContentService';
+import { getItemKey } from './canvasConnections';
+
+const getCourseSyllabiRef = (uid: string) => collection(db, 'users', uid, 'courseSyllabi');
+
+export const loadCourseSyllabi = async (uid: string): Promise<CourseSyllabus[]> => {
+    const snapshot = await getDocs(getCourseSyllabiRef(uid));
+    return snapshot.docs.map(syllabusDoc => syllabusDoc.data() as CourseSyllabus);
+};
+
+export const saveCourseSyllabus = (uid: string, syllabus: CourseSyllabus): Promise<void> =>
+    setDoc(doc(getCourseSyllabiRef(uid), syllabus.courseKey), syllabus);
+
+export const deleteCourseSyllabus = (uid: string, courseKey: string): Promise<void> => deleteDoc(doc(getCourseSyllabiRef(uid), courseKey));
+
+/**
+ * Fetches the course's syllabus from Canvas and extracts its details, for the student to review.
+ * @throws Error if the course has no syllabus in Canvas.
+ */
+export const readSyllabus = async (connection: CanvasConnection, course: Course): Promise<SyllabusExtraction> => {
+    const html = await getCourseSyllabus(connection, course.id);
+    const text = html ? htmlToText(html) : '';
+    if (!text) {
+        throw new Error(`${course.name} has no syllabus in Canvas.`);
+    }
+    return extractSyllabus(text, course.name);
+};
+
+export const getSyllabusEventDate = (event: SyllabusEvent): Date => new Date(`${event.date}T${event.time ?? '00:00'}`);
+
+/**
+ * The course assignment the syllabus item probably is: one due the same day whose name contains the item's
+ * title, or the other way around.
+ */
+export const findMatchingAssignment = (event: SyllabusEvent, assignments: Assignment[]): Assignment | undefined => {
+    const title = event.title.toLowerCase();
+    const date = getSyllabusEventDate(event);
+    return assignments.find(assignment => {
+        if (!assignment.due_at || !isSameDay(new Date(assignment.due_at), date)) return false;
+        const name = assignment.name.toLowerCase();
+        return name.includes(title) || title.includes(name);
+    });
+};
+
+/**
+ * Syllabus items as calendar entries. Items of courses that are no longer synced aren't shown.
+ */
+export const toSyllabusEvents = (syllabi: CourseSyllabus[], courses: Course[]): CalendarEvent[] => syllabi
+    .flatMap(syllabus => {
+        const course = courses.find(c => getItemKey(c) === syllabus.courseKey);
+        if (!course) return [];
+        return syllabus.extraction.events
+            .filter(event => !isNaN(getSyllabusEventDate(event).getTime()))
+            .map(event => ({ event, course }));
+    })
+    // Numbered across all courses, so entries from one connection don't share IDs.
+    .map(({ event, course }, index) => ({
+        id: index + 1,
+        connectionId: course.connectionId,
+        course_id: course.id,
+        title: event.title,
+        date: getSyllabusEventDate(event),
+        allDay: !event.time,
+        location: null,
+        type: event.type,
+        source: 'syllabus',
+        courseName: course.name,
+    }));
@@ -0,0 +1,127 @@
+// Detects what changed in Canvas between two syncs. Each sync stores a compact snapshot of every
+// assignment from one Canvas connection; comparing the previous snapshot with the new one yields a
+// typed change log.
+
+import { Assignment, AssignmentChange } from '../types';
+
+// The fields of an assignment that are tracked between syncs.
+export interface AssignmentSnapshot {
+    id: number;
+    connectionId: string;
+    name: string;
+    course_id: number;
+    courseName: string;
+    due_at: string | null;
+    points_possible: number | null;
+    // A hash rather than the full HTML keeps the stored snapshot small.
+    descriptionHash: string;
+    score: number | null;
+    grade: string | null;
+    graded: boolean;
+}
+
+export type SyncSnapshot = Record<number, AssignmentSnapshot>;
+
+// Only the most recent changes are kept so the log can't grow without bound.
+export const MAX_CHANGE_LOG_ENTRIES = 200;
+
+// A small, fast string hash (djb2). Collisions only risk missing a description change.
+const hashString = (value: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+};
+
+const isGraded = (assignment: Assignment): boolean => {
+    const submission = assignment.submission;
+    return !!submission && submission.workflow_state === 'graded' && (submission.score !== null || submission.grade !== null);
+};
+
+/**
+ * Builds the snapshot stored after a sync.
+ */
+export const createSnapshot = (assignments: Assignment[]): SyncSnapshot => {
+    const snapshot: SyncSnapshot = {};
+    assignments.forEach(a => {
+        snapshot[a.id] = {
+            id: a.id,
+            connectionId: a.connectionId,
+            name: a.name,
+            course_id: a.course_id,
+            courseName: a.courseName,
+            due_at: a.due_at,
+            points_possible: a.points_possible,
+            descriptionHash: hashString(a.description || ''),
+            score: a.submission?.score ?? null,
+            grade: a.submission?.grade ?? null,
+            graded: isGraded(a),
+        };
+    });
+    return snapshot;
+};
+
+const sameInstant = (a: string | null, b: string | null) => {
+    if (a === b) return true;
+    if (!a || !b) return false;
+    return new Date(a).getTime() === new Date(b).getTime();
+};
+
+/**
+ * Compares two snapshots and returns every change between them: removals first, then additions and
+ * edits in the order of the new snapshot.
+ * @param detectedAt ISO timestamp recorded on each change.
+ */
+export const diffSnapshots = (previous: SyncSnapshot, next: SyncSnapshot, detectedAt: string): AssignmentChange[] => {
+    const changes: AssignmentChange[] = [];
+    const makeChange = (
+        type: AssignmentChange['type'],
+        item: AssignmentSnapshot,
+        values: Pick<AssignmentChange, 'previous' | 'current'> = {}
+    ): AssignmentChange => ({
+        id: `${detectedAt}-${type}-${item.connectionId}-${item.id}`,
+        type,
+        connectionId: item.connectionId,
+        assignmentId: item.id,
+        assignmentName: item.name,
+        courseId: item.course_id,
+        courseName: item.courseName,
+        detectedAt,
+        ...values,
+    });
+
+    Object.values(previous).forEach(item => {
+        if (!next[item.id]) changes.push(makeChange('removed', item));
+    });
+
+    Object.values(next).forEach(item => {
+        const before = previous[item.id];
+        if (!before) {
+            changes.push(makeChange('added', item, { current: item.due_at }));
+            return;
+        }
+        if (!sameInstant(before.due_at, item.due_at)) {
+            changes.push(makeChange('due_date_changed', item, { previous: before.due_at, current: item.due_at }));
+        }
+        if (before.points_possible !== item.points_possible) {
+            changes.push(makeChange('points_changed', item, { previous: before.points_possible, current: item.points_possible }));
+        }
+        if (before.descriptionHash !== item.descriptionHash) {
+            changes.push(makeChange('description_changed', item));
+        }
+        // A regrade counts too, not just the first grade.
+        if (item.graded && (!before.graded || before.score !== item.score || before.grade !== item.grade)) {
+            changes.push(makeChange('graded', item, { previous: before.graded ? (before.grade ?? before.score) : null, current: item.grade ?? item.score }));
+        }
+    });
+
+    return changes;
+};
+
+/**
+ * Prepends new changes to an existing log, newest first, trimmed to MAX_CHANGE_LOG_ENTRIES.
+ */
+export const appendToChangeLog = (log: AssignmentChange[], changes: AssignmentChange[]): AssignmentChange[] => {
+    return [...changes, ...log].slice(0, MAX_CHANGE_LOG_ENTRIES);
+};
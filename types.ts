@@ -1,16 +1,52 @@
 // This file defines the core data structures for the Student Platform application.
 
+import type { LmsProvider } from './proxy/lmsProviders';
+
+export type { LmsProvider };
+
 // Canvas API related types
 export interface Course {
     id: number;
+    // The `CanvasConnection` the course was fetched from. Canvas IDs are only unique within one instance.
+    connectionId: string;
     name: string;
     course_code: string;
+    grades?: EnrollmentGrades | null;
+    apply_assignment_group_weights?: boolean;
+}
+
+// The student's overall grade in a course, as reported on their Canvas enrollment.
+export interface EnrollmentGrades {
+    current_score: number | null;
+    final_score: number | null;
+    current_grade: string | null;
+    final_grade: string | null;
 }
 
 export type AssignmentStatus = 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED';
 
+// What set an assignment's status: the student, their study plan, or a submission or grade in the LMS.
+export type AssignmentStatusSource = 'manual' | 'study_plan' | 'lms';
+
+// A status kept for the user in Firestore at `users/{uid}/data/assignmentStatuses`.
+export interface StoredAssignmentStatus {
+    status: AssignmentStatus;
+    source: AssignmentStatusSource;
+    updatedAt: string; // ISO 8601
+}
+
+// One entry in the status audit trail at `users/{uid}/assignmentStatusLog`.
+export interface AssignmentStatusChange {
+    assignmentKey: string;
+    from: AssignmentStatus;
+    to: AssignmentStatus;
+    source: AssignmentStatusSource;
+    changedAt: string; // ISO 8601
+}
+
 export interface Assignment {
     id: number;
+    connectionId: string;
     name: string;
     description: string | null;
     due_at: string | null;
@@ -18,17 +54,293 @@ export interface Assignment {
     course_id: number;
     courseName: string; // Enriched in the app
     status: AssignmentStatus;
+    // What set `status`. Filled in once saved statuses are merged in (see `hooks/useAssignmentStatus.ts`).
+    statusSource?: AssignmentStatusSource;
+    submission_types?: string[];
+    submission?: SubmissionState | null;
+    rubric?: RubricCriterion[];
+    // The assignment's page in its LMS. Only set for LMSes other than Canvas, whose links can't be built from the IDs.
+    html_url?: string | null;
+    // Set when this is one of the student's own tasks rather than an LMS assignment.
+    personalTask?: PersonalTask;
+}
+
+// A to-do the student added themselves, such as reading, lab prep or homework outside the LMS.
+// Stored at `users/{uid}/personalTasks/{id}` and shown as an `Assignment` (see `services/personalTaskService.ts`).
+export interface PersonalTask {
+    id: string;
+    title: string;
+    notes: string;
+    // The `getItemKey` of the course it's for, or null.
+    courseKey: string | null;
+    dueAt: string | null; // ISO 8601
+    estimateMinutes: number | null;
+    status: AssignmentStatus;
+    createdAt: string; // ISO 8601
+    updatedAt: string; // ISO 8601
+}
+
+// The grading state of the student's submission, as returned alongside the assignment.
+export interface SubmissionState {
+    score: number | null;
+    grade: string | null;
+    late: boolean;
+    missing: boolean;
+    excused: boolean;
+    workflow_state: string;
+    submitted_at: string | null;
+    graded_at: string | null;
+}
+
+export interface RubricCriterion {
+    id: string;
+    description: string;
+    points: number;
+}
+
+export interface SubmissionComment {
+    id: number;
+    author_name: string;
+    comment: string;
+    created_at: string;
+}
+
+export interface RubricAssessmentEntry {
+    points: number | null;
+    comments: string | null;
+}
+
+// Teacher feedback on a submission, loaded separately from the assignment list.
+export interface SubmissionFeedback {
+    assignment_id: number;
+    rubric_assessment: Record<string, RubricAssessmentEntry>;
+    submission_comments: SubmissionComment[];
+}
+
+// Submission types the app can send to Canvas on the student's behalf.
+export type SubmissionType = 'online_text_entry' | 'online_url' | 'online_upload';
+
+export type AssignmentSubmission =
+    | { type: 'online_text_entry'; body: string }
+    | { type: 'online_url'; url: string }
+    | { type: 'online_upload'; files: File[] };
+
+export interface SubmissionReceipt {
+    id: number;
+    workflow_state: string;
+    submitted_at: string | null;
+    attempt: number | null;
+}
+
+// Course content from Canvas, shown on the course detail page.
+export interface CourseModule {
+    id: number;
+    name: string;
+    position: number;
+    // The student's progress; null when the module has no requirements.
+    state: 'locked' | 'unlocked' | 'started' | 'completed' | null;
+    unlock_at: string | null;
+    items: ModuleItem[];
+}
+
+export interface ModuleItem {
+    id: number;
+    title: string;
+    type: 'File' | 'Page' | 'Discussion' | 'Assignment' | 'Quiz' | 'SubHeader' | 'ExternalUrl' | 'ExternalTool';
+    indent: number;
+    html_url: string | null;
+    // The ID of the file, assignment, quiz or discussion the item links to.
+    content_id: number | null;
+    // The `url` of a 'Page' item's `CoursePage`.
+    page_url: string | null;
+    external_url: string | null;
+    completion_requirement: ModuleCompletionRequirement | null;
+}
+
+export interface ModuleCompletionRequirement {
+    type: 'must_view' | 'must_submit' | 'must_contribute' | 'min_score' | 'must_mark_done';
+    min_score?: number;
+    completed: boolean;
+}
+
+export interface CoursePage {
+    page_id: number;
+    // The page's slug, used to fetch it.
+    url: string;
+    title: string;
+    updated_at: string;
+    front_page: boolean;
+    // Only included when a single page is fetched.
+    body?: string | null;
+}
+
+export interface CourseFolder {
+    id: number;
+    name: string;
+    full_name: string;
+    parent_folder_id: number | null;
+}
+
+export interface CourseFile {
+    id: number;
+    folder_id: number;
+    display_name: string;
+    content_type: string;
+    size: number;
+    // A pre-authorized download link.
+    url: string;
+    updated_at: string;
+}
+
+export interface DiscussionTopic {
+    id: number;
+    title: string;
+    // HTML.
+    message: string;
+    posted_at: string | null;
+    last_reply_at: string | null;
+    // Set for graded discussions.
+    assignment_id: number | null;
+    reply_count: number;
+    unread_count: number;
+    // False when the topic requires students to post before they see the other replies, and this one hasn't.
+    user_can_see_posts: boolean;
+    locked: boolean;
+    html_url: string;
+}
+
+export interface DiscussionEntry {
+    id: number;
+    user_id: number | null;
+    authorName: string;
+    // HTML. Empty for deleted entries.
+    message: string;
+    created_at: string;
+    deleted: boolean;
+    replies: DiscussionEntry[];
+}
+
+// A discussion's threaded replies, and where the student stands in it.
+export interface DiscussionThread {
+    entries: DiscussionEntry[];
+    // How many entries, replies included, the student has posted.
+    ownEntryCount: number;
+}
+
+// A course announcement from Canvas.
+export interface Announcement {
+    id: number;
+    connectionId: string;
+    course_id: number;
+    courseName?: string;
+    title: string;
+    // HTML.
+    message: string;
+    posted_at: string;
+    author_name: string | null;
+    html_url: string | null;
 }
 
+// The announcement digest for one day, kept so it's only generated once.
+export interface AnnouncementDigest {
+    // yyyy-MM-dd, in the student's time zone.
+    date: string;
+    summary: string;
+    // The announcements it covers, by `getItemKey`.
+    announcementKeys: string[];
+    generatedAt: string;
+}
+
+// Where a calendar entry came from: a Canvas calendar event, a Canvas assignment
+// (due date), or a Canvas planner item such as a discussion or to-do. Entries from other LMSes
+// use the closest match: their calendar events and assignment due dates. Entries from calendars the
+// user imported (see `ExternalCalendar`) are 'ics_import', and study sessions the app scheduled are 'study_block'.
+export type CalendarEventSource = 'canvas_event' | 'canvas_assignment' | 'canvas_planner' | 'ics_import' | 'study_block' | 'personal_task' | 'syllabus';
+
 export interface CalendarEvent {
     id: number;
+    connectionId: string;
     course_id: number;
     title: string;
-    date: Date;
-    type: 'assignment' | 'test' | 'quiz';
+    date: Date; // Start time, or the due date for assignments
+    endDate?: Date | null;
+    allDay?: boolean;
+    location?: string | null;
+    // 'external' entries come from an imported calendar: `connectionId` is the `ExternalCalendar`'s ID and `course_id` is 0.
+    type: 'assignment' | 'test' | 'quiz' | 'event' | 'external' | 'study';
+    source: CalendarEventSource;
+    assignmentId?: number | null; // Set when the entry refers to an `Assignment`
+    studyBlock?: { id: string; completed: boolean }; // Set for 'study' entries: the `StudyBlock` they show
+    url?: string | null;
     courseName?: string;
 }
 
+// Assignment groups, used to recompute course grades the way Canvas does.
+export interface AssignmentGroupRules {
+    drop_lowest?: number;
+    drop_highest?: number;
+    never_drop?: number[];
+}
+
+export interface GradebookAssignment {
+    id: number;
+    name: string;
+    points_possible: number;
+    omit_from_final_grade: boolean;
+    score: number | null;
+    excused: boolean;
+}
+
+export interface AssignmentGroup {
+    id: number;
+    name: string;
+    group_weight: number;
+    rules: AssignmentGroupRules;
+    assignments: GradebookAssignment[];
+}
+
+// Progress of a paginated Canvas fetch, reported after each page.
+export interface SyncProgress {
+    resource: 'courses' | 'assignments' | 'calendar' | 'planner' | 'submissions' | 'assignment_groups' | 'modules' | 'pages' | 'folders' | 'files' | 'announcements' | 'discussions';
+    page: number;
+    itemsFetched: number;
+}
+
+// What the app needs from a learning management system. Canvas, the sample data, Moodle and
+// Google Classroom each implement it; `getLmsAdapter` in `services/lmsAdapters.ts` picks the one for a connection.
+export interface LmsAdapter {
+    getCourses(connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Course[]>;
+    getAssignments(connection: CanvasConnection, onProgress?: (progress: SyncProgress) => void): Promise<Assignment[]>;
+    getEvents(connection: CanvasConnection, courseIds: number[], onProgress?: (progress: SyncProgress) => void): Promise<CalendarEvent[]>;
+    // The student's overall grade in each of the given courses, keyed by course ID.
+    getGrades(connection: CanvasConnection, courseIds: number[]): Promise<Record<number, EnrollmentGrades>>;
+}
+
+// Sync change log types
+export type AssignmentChangeType = 'added' | 'removed' | 'due_date_changed' | 'points_changed' | 'description_changed' | 'graded';
+
+// One detected difference between two syncs of the same assignment.
+export interface AssignmentChange {
+    id: string;
+    type: AssignmentChangeType;
+    assignmentId: number;
+    connectionId: string;
+    assignmentName: string;
+    courseId: number;
+    courseName: string;
+    detectedAt: string;
+    // Before/after values for due date, points and grade changes; null when the value was unset.
+    previous?: string | number | null;
+    current?: string | number | null;
+}
+
+// What the background auto-sync scheduler is doing right now.
+export interface AutoSyncStatus {
+    state: 'off' | 'scheduled' | 'syncing' | 'paused_hidden' | 'paused_offline';
+    nextSyncAt: Date | null;
+    consecutiveFailures: number;
+}
+
 // AI Study Plan types
 export interface StudyPlanStep {
     order: number;
@@ -53,6 +365,19 @@ export interface StudyPlan {
     milestones: StudyPlanMilestone[];
 }
 
+// One generated study plan for an assignment, with the student's progress on its steps.
+export interface StudyPlanVersion {
+    plan: StudyPlan;
+    generatedAt: string; // ISO 8601
+    thinkingMode: boolean;
+}
+
+// Stored at `users/{uid}/studyPlans/{assignmentKey}`. Regenerating adds a version; the last one is current.
+export interface SavedStudyPlan {
+    versions: StudyPlanVersion[];
+    updatedAt: string; // ISO 8601
+}
+
 // AI Summarizer types
 export interface SummaryKeyPoint {
     concept: string;
@@ -116,11 +441,87 @@ export interface ConversationSummary {
     timestamp: string;
 }
 
+// What Gemini found in a course syllabus (see `extractSyllabus`), as confirmed by the student.
+export interface SyllabusExtraction {
+    gradingBreakdown: SyllabusGradingCategory[];
+    latePolicy: string | null;
+    officeHours: SyllabusOfficeHours[];
+    events: SyllabusEvent[];
+}
+
+export interface SyllabusGradingCategory {
+    name: string;
+    // Percent of the final grade.
+    weight: number;
+}
+
+export interface SyllabusOfficeHours {
+    // The instructor or TA.
+    who: string;
+    // As the syllabus puts it, e.g. "Tuesdays 2-4pm".
+    when: string;
+    location: string | null;
+}
+
+// A dated item from the syllabus, such as an exam that isn't a Canvas assignment.
+export interface SyllabusEvent {
+    title: string;
+    date: string; // yyyy-MM-dd
+    // HH:mm, or null for all-day items.
+    time: string | null;
+    type: 'test' | 'quiz' | 'assignment' | 'event';
+}
+
+// A course's confirmed syllabus details, kept in Firestore at `users/{uid}/courseSyllabi/{courseKey}`.
+export interface CourseSyllabus {
+    // The course's `getItemKey`.
+    courseKey: string;
+    extraction: SyllabusExtraction;
+    importedAt: string; // ISO 8601
+}
+
+// A Canvas Inbox conversation.
+export interface InboxConversation {
+    id: number;
+    connectionId: string;
+    subject: string;
+    workflow_state: 'read' | 'unread' | 'archived';
+    last_message: string | null;
+    last_message_at: string | null;
+    message_count: number;
+    participants: InboxParticipant[];
+    // The course or group it was sent in, e.g. "Biology 101".
+    context_name: string | null;
+}
+
+export interface InboxParticipant {
+    id: number;
+    name: string;
+}
+
+export interface InboxMessage {
+    id: number;
+    author_id: number;
+    authorName: string;
+    // Plain text.
+    body: string;
+    created_at: string;
+}
+
+// Someone in a course the student can message, from the course's people search.
+export interface CourseUser {
+    id: number;
+    name: string;
+    // e.g. "Teacher" or "Student".
+    roles: string[];
+}
+
 // App related types
 export enum Page {
     Dashboard,
     Courses,
     Assignments,
+    Grades,
     Calendar,
     AiTools,
     Chat,
@@ -129,12 +530,88 @@ export enum Page {
     Settings
 }
 
-export interface Settings {
+// One LMS account, e.g. a student's university Canvas and the community college they're cross-enrolled at.
+// Most connections are Canvas; see `provider`.
+export interface CanvasConnection {
+    // Generated when the connection is added. Tags everything fetched through it.
+    id: string;
+    // The institution's name, shown wherever data from several connections is mixed.
+    name: string;
+    // Which LMS this is. Unset means Canvas, as for every connection saved before other LMSes were supported.
+    provider?: LmsProvider;
+    // The LMS's base URL (for Canvas and Moodle, the school's site).
     canvasUrl: string;
+    // Empty when the token is held by the proxy's token vault instead (see `hasServerToken`).
     apiToken: string;
+    // True once the Canvas token has been handed to the proxy, which stores it encrypted for this user.
+    hasServerToken?: boolean;
+    // How the Canvas token was obtained: pasted by the student, or from signing in with Canvas (OAuth2).
+    authMethod?: 'token' | 'oauth';
+}
+
+export interface Settings {
+    connections: CanvasConnection[];
     sampleDataMode: boolean;
+    // Minutes between background syncs; 0 or unset turns auto-sync off.
+    autoSyncIntervalMinutes?: number;
+    // The secret token of the calendar subscription feed; unset while the feed is off.
+    calendarFeedToken?: string;
+    externalCalendars?: ExternalCalendar[];
+    // When the student is free to study. Study sessions are only scheduled once at least one window is set.
+    studyAvailability?: AvailabilityWindow[];
 }
 
+// A weekly time range, e.g. Mondays 18:00–21:00.
+export interface AvailabilityWindow {
+    id: string;
+    weekday: number; // 0 = Sunday
+    start: string; // HH:mm
+    end: string; // HH:mm, after `start`
+}
+
+// A study session placed on the calendar for an assignment by `services/studyScheduler.ts`.
+// Scheduled sessions that end without being marked completed count as missed, and their time is scheduled again.
+export interface StudyBlock {
+    id: string;
+    connectionId: string;
+    assignmentId: number;
+    courseId: number;
+    title: string;
+    courseName: string;
+    start: string; // ISO 8601
+    end: string;
+    status: 'scheduled' | 'completed' | 'missed';
+}
+
+// A calendar from outside the LMS (work shifts, clubs, sports) shown alongside course events.
+// Subscribed calendars are downloaded again on every load; uploaded files are kept in Firestore
+// under `users/{uid}/calendarImports/{id}`.
+export interface ExternalCalendar {
+    id: string;
+    name: string;
+    // The https or webcal URL of a subscribed calendar. Unset for uploaded files.
+    url?: string;
+    // The name of the uploaded file.
+    fileName?: string;
+    addedAt: string;
+}
+
+// Browser extension types
+// Stored in chrome.storage.sync by the extension's options page.
+export interface ExtensionSettings {
+    canvasUrl: string;
+    apiToken: string;
+    // Origin of the deployed web app, whose proxy the extension uses to reach Canvas.
+    appUrl: string;
+    // The student's own Gemini key for the assignment page tools. The extension never ships with one.
+    geminiApiKey?: string;
+}
+
+// Messages the content script and options page send to the extension's service worker.
+export type ExtensionMessage =
+    | { type: 'getAssignment'; courseId: number; assignmentId: number }
+    | { type: 'syncNow' };
+
 // Add aistudio to the window object for type safety
 // Fix: Define and use an explicit `AIStudio` interface to resolve conflicting global type declarations.
 
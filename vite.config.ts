@@ -1,75 +1,56 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import express from 'express';
+import { handleCanvasProxyRequest, MAX_PROXY_BODY_SIZE } from './proxy/canvasProxyHandler';
+import { getVaultConfigFromEnv } from './proxy/tokenVault';
+import { getCanvasOAuthConfigFromEnv, handleCanvasOAuthCallback } from './proxy/canvasOAuth';
+import { getCalendarFeedConfigFromEnv, handleCalendarFeedRequest } from './proxy/calendarFeed';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [
-    react(),
-    {
-      name: 'canvas-proxy-middleware',
-      configureServer(server) {
-        // Use express.json() middleware to parse JSON bodies
-        server.middlewares.use(express.json());
-
-        // Middleware to proxy requests to the Canvas API
-        server.middlewares.use('/api/canvas-proxy', async (req, res) => {
-          if (req.method !== 'POST') {
-            res.setHeader('Allow', 'POST');
-            res.statusCode = 405;
-            res.end(JSON.stringify({ error: 'Method Not Allowed' }));
-            return;
-          }
-
-          try {
-            const { canvasUrl, endpoint, token } = req.body as { canvasUrl: string, endpoint: string, token: string };
-
-            if (!canvasUrl || !endpoint || !token) {
-              res.statusCode = 400;
-              res.end(JSON.stringify({ error: 'Missing required fields: canvasUrl, endpoint, or token' }));
-              return;
-            }
-
-            const fullUrl = `${canvasUrl}/api/v1/${endpoint}`;
-            const canvasResponse = await fetch(fullUrl, {
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              },
-            });
-
-            const responseBody = await canvasResponse.text();
-            const contentType = canvasResponse.headers.get('Content-Type') || 'application/json';
-            
-            res.setHeader('Content-Type', contentType);
-            res.statusCode = canvasResponse.status;
-
-            if (!canvasResponse.ok) {
-              if (contentType.includes('text/html')) {
-                res.end(JSON.stringify({ error: `Canvas API Error: Received an HTML error page instead of data. Please check your Canvas URL.` }));
-                return;
-              }
-              try {
-                const errorJson = JSON.parse(responseBody);
-                const errorMessage = errorJson?.errors?.[0]?.message || responseBody;
-                res.end(JSON.stringify({ error: `Canvas API Error: ${errorMessage}` }));
-              } catch (e) {
-                res.end(JSON.stringify({ error: `Canvas API Error: ${responseBody}` }));
-              }
-              return;
-            }
-            
-            res.end(responseBody);
-
-          } catch (error) {
-            console.error('Proxy middleware error:', error);
-            res.statusCode = 500;
-            const errorMessage = error instanceof Error ? error.message : 'An internal server error occurred in the proxy middleware.';
-            res.end(JSON.stringify({ error: errorMessage }));
-          }
-        });
-      },
-    }
-  ],
-});
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  // The dev proxy reads the same server-only variables as the deployed proxy, including ones without the VITE_ prefix.
+  const env = loadEnv(mode, process.cwd(), '');
+  const vault = getVaultConfigFromEnv(env);
+  const oauth = getCanvasOAuthConfigFromEnv(env);
+  const calendarFeeds = getCalendarFeedConfigFromEnv(env);
+
+  return {
+    plugins: [
+      react(),
+      {
+        name: 'canvas-proxy-middleware',
+        configureServer(server) {
+          // Use express.json() middleware to parse JSON bodies, up to the same size as the self-hosted server
+          server.middlewares.use(express.json({ limit: MAX_PROXY_BODY_SIZE }));
+
+          // Middleware to proxy requests to the Canvas API
+          server.middlewares.use('/api/canvas-proxy', async (req, res) => {
+            const result = await handleCanvasProxyRequest(
+              { method: req.method || 'GET', body: (req as typeof req & { body?: unknown }).body, authorization: req.headers.authorization },
+              { vault, oauth, calendars: calendarFeeds }
+            );
+            res.statusCode = result.status;
+            Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+            res.end(result.body);
+          });
+
+          // Canvas redirects here after the student signs in
+          server.middlewares.use('/api/canvas-oauth/callback', async (req, res) => {
+            const result = await handleCanvasOAuthCallback({ url: req.url || '/' }, { vault, oauth });
+            res.statusCode = result.status;
+            Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+            res.end(result.body);
+          });
+
+          // Calendar apps subscribe to this
+          server.middlewares.use('/api/calendar-feed', async (req, res) => {
+            const result = await handleCalendarFeedRequest({ url: req.url || '/' }, calendarFeeds);
+            res.statusCode = result.status;
+            Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+            res.end(result.body);
+          });
+        },
+      }
+    ],
+  };
+});
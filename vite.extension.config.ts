@@ -0,0 +1,51 @@
+import { defineConfig } from 'vite';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+// Builds the browser extension into dist-extension/. Each entry is built on its own (selected with
+// `--mode`) because content scripts can't load shared ES module chunks, so every script must be a
+// single self-contained file. See the `build:extension` script in package.json.
+const ENTRIES = {
+  background: { file: 'background.ts', format: 'es' as const },
+  content: { file: 'content.ts', format: 'iife' as const },
+  options: { file: 'options.ts', format: 'es' as const },
+};
+
+export default defineConfig(({ mode }) => {
+  const entry = ENTRIES[mode as keyof typeof ENTRIES];
+  if (!entry) {
+    throw new Error(`Unknown extension entry "${mode}". Use one of: ${Object.keys(ENTRIES).join(', ')}.`);
+  }
+
+  return {
+    // No Gemini key is built in: the bundle is distributed, so the student enters their own on the options page.
+    publicDir: false,
+    build: {
+      outDir: 'dist-extension',
+      // The background build runs first and starts from a clean directory.
+      emptyOutDir: mode === 'background',
+      rollupOptions: {
+        input: resolve(__dirname, entry.file),
+        output: {
+          format: entry.format,
+          entryFileNames: `${mode}.js`,
+          inlineDynamicImports: true,
+        },
+      },
+    },
+    plugins: [
+      {
+        name: 'extension-static-files',
+        generateBundle() {
+          const files = mode === 'background' ? ['manifest.json'] : mode === 'options' ? ['options.html'] : [];
+          files.forEach(fileName => {
+            let source = readFileSync(resolve(__dirname, fileName), 'utf-8');
+            // The page loads the compiled script, not the TypeScript source.
+            if (fileName === 'options.html') source = source.replace('./options.ts', './options.js');
+            this.emitFile({ type: 'asset', fileName, source });
+          });
+        },
+      },
+    ],
+  };
+});